@@ -1,5 +1,8 @@
 import { redirect } from "next/navigation";
 import { auth } from "@/lib/auth";
+import { getAliasTargets } from "@/app/actions/import-aliases";
+import { getActualsImports } from "@/app/actions/actuals-upload";
+import { getImportProfiles } from "@/app/actions/import-profiles";
 import { ActualsUploadView } from "@/components/actuals-upload/actuals-upload-view";
 
 export default async function ActualsUploadPage() {
@@ -8,15 +11,26 @@ export default async function ActualsUploadPage() {
     redirect("/");
   }
 
+  const [aliasTargets, imports, profiles] = await Promise.all([
+    getAliasTargets(),
+    getActualsImports(),
+    getImportProfiles(),
+  ]);
+
   return (
     <div className="space-y-6">
       <div>
         <h1 className="text-3xl font-bold">Actuals Upload</h1>
         <p className="text-muted-foreground">
-          Upload a PM Report spreadsheet to import actual hours into the utilization grid
+          Upload a timesheet export to import actual hours into the utilization grid
         </p>
       </div>
-      <ActualsUploadView />
+      <ActualsUploadView
+        profiles={profiles}
+        aliasTargets={aliasTargets}
+        imports={imports}
+        canRollback={session.user.role === "ADMIN"}
+      />
     </div>
   );
 }
@@ -3,6 +3,7 @@ import { auth } from "@/lib/auth";
 import { getConsultants } from "@/app/actions/consultants";
 import { getUsers } from "@/app/actions/users";
 import { getRoleDefinitions } from "@/app/actions/roles";
+import { getPTOPolicies } from "@/app/actions/pto-policies";
 import { ConsultantsView } from "@/components/consultants/consultants-view";
 
 export default async function ConsultantsPage() {
@@ -11,15 +12,21 @@ export default async function ConsultantsPage() {
     redirect("/");
   }
 
-  const [consultants, users, roleDefinitions] = await Promise.all([
+  const [consultants, users, roleDefinitions, ptoPolicies] = await Promise.all([
     getConsultants(),
     getUsers(),
     getRoleDefinitions(),
+    getPTOPolicies(),
   ]);
 
   return (
     <div className="space-y-6">
-      <ConsultantsView consultants={consultants} users={users} roleDefinitions={roleDefinitions} />
+      <ConsultantsView
+        consultants={consultants}
+        users={users}
+        roleDefinitions={roleDefinitions}
+        ptoPolicies={ptoPolicies}
+      />
     </div>
   );
 }
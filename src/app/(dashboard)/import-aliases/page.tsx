@@ -0,0 +1,22 @@
+import { redirect } from "next/navigation";
+import { auth } from "@/lib/auth";
+import { getImportAliases, getAliasTargets } from "@/app/actions/import-aliases";
+import { ImportAliasesView } from "@/components/import-aliases/import-aliases-view";
+
+export default async function ImportAliasesPage() {
+  const session = await auth();
+  if (!session || !["ADMIN", "MANAGER"].includes(session.user.role)) {
+    redirect("/");
+  }
+
+  const [aliases, targets] = await Promise.all([
+    getImportAliases(),
+    getAliasTargets(),
+  ]);
+
+  return (
+    <div className="space-y-6">
+      <ImportAliasesView aliases={aliases} targets={targets} />
+    </div>
+  );
+}
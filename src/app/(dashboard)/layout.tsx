@@ -3,6 +3,7 @@ import { redirect } from "next/navigation";
 import { Sidebar } from "@/components/layout/sidebar";
 import { Header } from "@/components/layout/header";
 import { getPendingPTOCount } from "@/app/actions/pto";
+import { getNotifications } from "@/app/actions/notifications";
 import { prisma } from "@/lib/prisma";
 
 export default async function DashboardLayout({
@@ -29,13 +30,16 @@ export default async function DashboardLayout({
     redirect("/setup-mfa");
   }
 
-  const pendingPTOCount = await getPendingPTOCount();
+  const [pendingPTOCount, notifications] = await Promise.all([
+    getPendingPTOCount(),
+    getNotifications(),
+  ]);
 
   return (
     <div className="min-h-screen flex">
       <Sidebar userRole={session.user.role} pendingPTOCount={pendingPTOCount} />
       <div className="flex-1 flex flex-col min-w-0">
-        <Header user={session.user} />
+        <Header user={session.user} notifications={notifications} />
         <main className="flex-1 overflow-auto p-6 bg-muted/30">
           {children}
         </main>
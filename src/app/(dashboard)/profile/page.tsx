@@ -2,8 +2,14 @@ import { auth } from "@/lib/auth";
 import { redirect } from "next/navigation";
 import { getProfile } from "@/app/actions/profile";
 import { getTotpStatus } from "@/app/actions/totp";
+import { getCalendarFeeds } from "@/app/actions/calendar-feed";
+import { getNotificationPreferences } from "@/app/actions/notifications";
+import { getDelegateCandidates, getMyDelegations } from "@/app/actions/pto-approvals";
 import { ProfileView } from "@/components/profile/profile-view";
 import { TotpSection } from "@/components/profile/totp-section";
+import { CalendarFeedSection } from "@/components/profile/calendar-feed-section";
+import { NotificationPreferences } from "@/components/profile/notification-preferences";
+import { ApprovalDelegationSection } from "@/components/profile/approval-delegation";
 
 export default async function ProfilePage() {
   const session = await auth();
@@ -11,7 +17,15 @@ export default async function ProfilePage() {
     redirect("/login");
   }
 
-  const [profile, totpStatus] = await Promise.all([getProfile(), getTotpStatus()]);
+  const [profile, totpStatus, calendarFeeds, notificationPreferences] = await Promise.all([
+    getProfile(),
+    getTotpStatus(),
+    getCalendarFeeds(),
+    getNotificationPreferences(),
+  ]);
+  const delegation = session.user.consultantId
+    ? await Promise.all([getMyDelegations(), getDelegateCandidates()])
+    : null;
 
   return (
     <div className="space-y-6">
@@ -23,6 +37,11 @@ export default async function ProfilePage() {
       <ProfileView profile={profile} />
       <div className="grid gap-6 md:grid-cols-2">
         <TotpSection isEnrolled={totpStatus.verified} />
+        <NotificationPreferences preferences={notificationPreferences} />
+        <CalendarFeedSection feeds={calendarFeeds} />
+        {delegation && (
+          <ApprovalDelegationSection delegations={delegation[0]} candidates={delegation[1]} />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,47 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { endOfMonth, format, startOfMonth } from "date-fns";
+import { auth } from "@/lib/auth";
+import { getAbsenceCalendar } from "@/app/actions/absence-calendar";
+import { AbsenceCalendar } from "@/components/pto/absence-calendar";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { ArrowLeft } from "lucide-react";
+
+export default async function AbsenceCalendarPage() {
+  const session = await auth();
+  if (!session || !["ADMIN", "MANAGER"].includes(session.user.role)) {
+    redirect("/");
+  }
+
+  const today = new Date();
+  const monthStart = format(startOfMonth(today), "yyyy-MM-dd");
+  const data = await getAbsenceCalendar(monthStart, format(endOfMonth(today), "yyyy-MM-dd"));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Team Calendar</h1>
+          <p className="text-muted-foreground">
+            {session.user.role === "ADMIN"
+              ? "Approved and pending time off across the company"
+              : "Approved and pending time off for your direct reports"}
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/pto">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            PTO Requests
+          </Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <AbsenceCalendar initialData={data} initialMonth={monthStart} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
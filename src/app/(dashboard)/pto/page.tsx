@@ -1,8 +1,10 @@
 import { Suspense } from "react";
 import { auth } from "@/lib/auth";
-import { getPTORequests, getConsultantsForPTO } from "@/app/actions/pto";
+import { getPTORequests, getConsultantsForPTO, getTimeOffReport } from "@/app/actions/pto";
+import { getLeaveTypes } from "@/app/actions/leave-types";
 import { PTOList } from "@/components/pto/pto-list";
 import { PTOHeader } from "@/components/pto/pto-header";
+import { TimeOffReport } from "@/components/pto/time-off-report";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { PTOStatus } from "@prisma/client";
@@ -17,9 +19,11 @@ async function PTOContent() {
   const session = await auth();
   if (!session) return null;
 
-  const [allRequests, consultants] = await Promise.all([
+  const [allRequests, consultants, leaveTypes, timeOffReport] = await Promise.all([
     getPTORequests(),
     getConsultantsForPTO(),
+    getLeaveTypes(),
+    getTimeOffReport(new Date().getFullYear()),
   ]);
 
   const pendingRequests = allRequests.filter(r => r.status === PTOStatus.PENDING);
@@ -32,6 +36,7 @@ async function PTOContent() {
         consultants={consultants} 
         currentConsultantId={session.user.consultantId}
         isEmployee={session.user.role === "EMPLOYEE"}
+        leaveTypes={leaveTypes.filter(t => t.active)}
       />
 
       <Tabs defaultValue="pending" className="space-y-4">
@@ -48,6 +53,9 @@ async function PTOContent() {
           <TabsTrigger value="all">
             All ({allRequests.length})
           </TabsTrigger>
+          <TabsTrigger value="by-type">
+            By Type
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="pending">
@@ -113,6 +121,18 @@ async function PTOContent() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="by-type">
+          <Card>
+            <CardHeader>
+              <CardTitle>Time Off by Type</CardTitle>
+              <CardDescription>Approved hours per leave type, excluding weekends and holidays</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <TimeOffReport report={timeOffReport} />
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </>
   );
@@ -1,7 +1,18 @@
 import { auth } from "@/lib/auth";
 import { redirect } from "next/navigation";
 import { getAllSystemSettings } from "@/app/actions/system-settings";
+import { getImportProfiles } from "@/app/actions/import-profiles";
+import { getHolidays } from "@/app/actions/holidays";
+import { getPTOPolicies } from "@/app/actions/pto-policies";
+import { getLeaveTypes } from "@/app/actions/leave-types";
+import { getApprovalChainSettings } from "@/app/actions/pto-approvals";
 import { SettingsForm } from "@/components/settings/settings-form";
+import { ImportProfiles } from "@/components/settings/import-profiles";
+import { HolidayCalendarSettings } from "@/components/settings/holiday-calendar";
+import { PTOPolicySettings } from "@/components/settings/pto-policies";
+import { LeaveTypeSettings } from "@/components/settings/leave-types";
+import { AbsenceSettings } from "@/components/settings/absence-settings";
+import { ApprovalChainSettings } from "@/components/settings/approval-chain";
 
 export default async function SettingsPage() {
   const session = await auth();
@@ -9,7 +20,14 @@ export default async function SettingsPage() {
     redirect("/");
   }
 
-  const settings = await getAllSystemSettings();
+  const [settings, importProfiles, holidays, ptoPolicies, leaveTypes, approvalChain] = await Promise.all([
+    getAllSystemSettings(),
+    getImportProfiles(),
+    getHolidays(),
+    getPTOPolicies(),
+    getLeaveTypes(),
+    getApprovalChainSettings(),
+  ]);
 
   return (
     <div className="max-w-2xl mx-auto space-y-6">
@@ -18,6 +36,12 @@ export default async function SettingsPage() {
         <p className="text-muted-foreground">Configure global settings for the application.</p>
       </div>
       <SettingsForm settings={settings} />
+      <ImportProfiles profiles={importProfiles} />
+      <HolidayCalendarSettings holidays={holidays} />
+      <PTOPolicySettings policies={ptoPolicies} />
+      <LeaveTypeSettings leaveTypes={leaveTypes} />
+      <ApprovalChainSettings settings={approvalChain} />
+      <AbsenceSettings settings={settings} />
     </div>
   );
 }
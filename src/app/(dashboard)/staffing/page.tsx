@@ -0,0 +1,32 @@
+import { redirect } from "next/navigation";
+import { auth } from "@/lib/auth";
+import { getRoleDefinitions } from "@/app/actions/roles";
+import { getActiveProjects } from "@/app/actions/projects";
+import { StaffingSearch } from "@/components/staffing/staffing-search";
+
+export default async function StaffingPage() {
+  const session = await auth();
+  if (!session || !["ADMIN", "MANAGER"].includes(session.user.role)) {
+    redirect("/");
+  }
+
+  const [roleDefinitions, projects] = await Promise.all([
+    getRoleDefinitions(),
+    getActiveProjects(),
+  ]);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Staffing</h1>
+        <p className="text-muted-foreground">
+          Find consultants with free capacity for a staffing request and book them onto a project
+        </p>
+      </div>
+      <StaffingSearch
+        roleDefinitions={roleDefinitions.filter((rd) => rd.isActive)}
+        projects={projects}
+      />
+    </div>
+  );
+}
@@ -1,11 +1,13 @@
 import { Suspense } from "react";
+import Link from "next/link";
 import { auth } from "@/lib/auth";
 import { getUtilizationData } from "@/app/actions/utilization";
 import { getActiveProjects } from "@/app/actions/projects";
 import { getRoleDefinitions } from "@/app/actions/roles";
 import { UtilizationGrid } from "@/components/utilization/utilization-grid";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { FlaskConical, Loader2 } from "lucide-react";
 
 async function UtilizationContent() {
   const session = await auth();
@@ -40,13 +42,26 @@ function LoadingState() {
 }
 
 export default async function UtilizationPage() {
+  const session = await auth();
+  const canPlan = !!session && ["ADMIN", "MANAGER"].includes(session.user.role);
+
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold">Utilization</h1>
-        <p className="text-muted-foreground">
-          View and manage consultant allocations across projects
-        </p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Utilization</h1>
+          <p className="text-muted-foreground">
+            View and manage consultant allocations across projects
+          </p>
+        </div>
+        {canPlan && (
+          <Button variant="outline" asChild>
+            <Link href="/utilization/scenarios">
+              <FlaskConical className="mr-2 h-4 w-4" />
+              Scenarios
+            </Link>
+          </Button>
+        )}
       </div>
 
       <Card>
@@ -0,0 +1,52 @@
+import { redirect } from "next/navigation";
+import { auth } from "@/lib/auth";
+import { getScenario, getScenarioUtilizationData } from "@/app/actions/scenarios";
+import { getActiveProjects } from "@/app/actions/projects";
+import { getRoleDefinitions } from "@/app/actions/roles";
+import { UtilizationGrid } from "@/components/utilization/utilization-grid";
+import { ScenarioBanner } from "@/components/utilization/scenario-banner";
+import { Card, CardContent } from "@/components/ui/card";
+
+export default async function ScenarioPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const session = await auth();
+  if (!session || !["ADMIN", "MANAGER"].includes(session.user.role)) {
+    redirect("/");
+  }
+
+  const { id } = await params;
+
+  const scenario = await getScenario(id).catch(() => null);
+  if (!scenario) {
+    redirect("/utilization/scenarios");
+  }
+
+  const [data, projects, roleDefinitions] = await Promise.all([
+    getScenarioUtilizationData(id),
+    getActiveProjects(),
+    getRoleDefinitions(),
+  ]);
+
+  return (
+    <div className="space-y-6">
+      <ScenarioBanner scenario={scenario} />
+
+      <Card>
+        <CardContent className="pt-6">
+          <UtilizationGrid
+            key={scenario.status}
+            initialData={data}
+            projects={projects}
+            roleDefinitions={roleDefinitions}
+            userRole={session.user.role}
+            currentConsultantId={session.user.consultantId}
+            scenario={scenario}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
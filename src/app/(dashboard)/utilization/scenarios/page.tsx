@@ -0,0 +1,25 @@
+import { redirect } from "next/navigation";
+import { auth } from "@/lib/auth";
+import { getScenarios } from "@/app/actions/scenarios";
+import { ScenarioList } from "@/components/utilization/scenario-list";
+
+export default async function ScenariosPage() {
+  const session = await auth();
+  if (!session || !["ADMIN", "MANAGER"].includes(session.user.role)) {
+    redirect("/");
+  }
+
+  const scenarios = await getScenarios();
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Scenarios</h1>
+        <p className="text-muted-foreground">
+          Plan what-if staffing changes in a sandbox copy of projected allocations, then promote them to the live forecast
+        </p>
+      </div>
+      <ScenarioList scenarios={scenarios} />
+    </div>
+  );
+}
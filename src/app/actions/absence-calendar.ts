@@ -0,0 +1,118 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { GroupType, PTOStatus, ProjectStatus } from "@prisma/client";
+import { parseISO } from "date-fns";
+import { decrypt, decryptNullable } from "@/lib/encryption";
+import { getSystemSetting } from "./system-settings";
+
+/** SystemSetting key holding the overlap threshold, as a percentage. */
+const OVERLAP_THRESHOLD_KEY = "ABSENCE_OVERLAP_THRESHOLD";
+const DEFAULT_OVERLAP_THRESHOLD = 30;
+
+function formatDateUTC(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+export type AbsenceCalendarData = {
+  consultants: Array<{
+    id: string;
+    name: string;
+    groups: GroupType[];
+    projectIds: string[];
+  }>;
+  projects: Array<{ id: string; name: string; timecode: string | null }>;
+  absences: Array<{
+    id: string;
+    consultantId: string;
+    startDate: string;
+    endDate: string;
+    allDay: boolean;
+    startTime: string | null;
+    endTime: string | null;
+    status: PTOStatus;
+    leaveType: string | null;
+  }>;
+  overlapThreshold: number; // percent of the filtered team
+};
+
+/**
+ * Approved and pending time off between two dates (yyyy-MM-dd) for a
+ * manager's direct reports, or for everyone when viewed by an admin.
+ */
+export async function getAbsenceCalendar(startDate: string, endDate: string): Promise<AbsenceCalendarData> {
+  const session = await auth();
+  if (!session || !["ADMIN", "MANAGER"].includes(session.user.role)) {
+    throw new Error("Unauthorized");
+  }
+
+  const thresholdSetting = Number(await getSystemSetting(OVERLAP_THRESHOLD_KEY));
+  const overlapThreshold = thresholdSetting > 0 ? thresholdSetting : DEFAULT_OVERLAP_THRESHOLD;
+
+  if (session.user.role === "MANAGER" && !session.user.consultantId) {
+    return { consultants: [], projects: [], absences: [], overlapThreshold };
+  }
+
+  const consultants = await prisma.consultant.findMany({
+    where: session.user.role === "MANAGER" ? { managerId: session.user.consultantId } : {},
+    select: {
+      id: true,
+      name: true,
+      groups: { select: { group: true } },
+      projectMembers: {
+        where: { project: { status: ProjectStatus.ACTIVE } },
+        select: { project: { select: { id: true, projectName: true, timecode: true } } },
+      },
+    },
+  });
+  const consultantIds = consultants.map(c => c.id);
+
+  const requests = await prisma.pTORequest.findMany({
+    where: {
+      consultantId: { in: consultantIds },
+      status: { in: [PTOStatus.APPROVED, PTOStatus.PENDING] },
+      startDate: { lte: parseISO(endDate) },
+      endDate: { gte: parseISO(startDate) },
+    },
+    include: { leaveType: { select: { name: true } } },
+    orderBy: { startDate: "asc" },
+  });
+
+  const projects = new Map<string, AbsenceCalendarData["projects"][number]>();
+  for (const c of consultants) {
+    for (const { project } of c.projectMembers) {
+      if (!projects.has(project.id)) {
+        projects.set(project.id, {
+          id: project.id,
+          name: decrypt(project.projectName),
+          timecode: decryptNullable(project.timecode),
+        });
+      }
+    }
+  }
+
+  return {
+    consultants: consultants
+      .map(c => ({
+        id: c.id,
+        name: decrypt(c.name),
+        groups: c.groups.map(g => g.group),
+        projectIds: c.projectMembers.map(m => m.project.id),
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    projects: [...projects.values()].sort((a, b) => a.name.localeCompare(b.name)),
+    absences: requests.map(r => ({
+      id: r.id,
+      consultantId: r.consultantId,
+      startDate: formatDateUTC(r.startDate),
+      endDate: formatDateUTC(r.endDate),
+      allDay: r.allDay,
+      startTime: r.startTime,
+      endTime: r.endTime,
+      status: r.status,
+      leaveType: r.leaveType?.name ?? null,
+    })),
+    overlapThreshold,
+  };
+}
@@ -3,20 +3,62 @@
 import { prisma } from "@/lib/prisma";
 import { auth } from "@/lib/auth";
 import { revalidatePath } from "next/cache";
+import { ActualsImportStatus } from "@prisma/client";
 import * as XLSX from "xlsx";
-import { startOfWeek, subWeeks, format as formatDate } from "date-fns";
-import { decrypt, decryptNullable } from "@/lib/encryption";
+import { startOfWeek, subWeeks, format as formatDate, parse as parseDate, parseISO } from "date-fns";
+import { decrypt, decryptNullable, encrypt } from "@/lib/encryption";
+import { allocationHistoryWrites } from "@/lib/allocation-history";
+import { normalizeAlias, suggestMatches, type MatchCandidate, type MatchSuggestion } from "@/lib/fuzzy-match";
+import { loadImportProfile, type ImportProfileConfig } from "@/lib/import-profiles";
 
 export interface UnmatchedEntry {
   projectCode: string;
   projectFound: boolean;
+  projectSuggestions: MatchSuggestion[];
   entries: Array<{
     employee: string;
     employeeFound: boolean;
+    employeeSuggestions: MatchSuggestion[];
     totalHours: number;
   }>;
 }
 
+export type ImportRowChange = "NEW" | "CHANGED" | "UNCHANGED";
+
+export interface ImportPreviewRow {
+  consultantId: string;
+  projectId: string;
+  weekStart: string;
+  employee: string;
+  projectCode: string;
+  hours: number;
+  existingHours: number | null;
+  change: ImportRowChange;
+}
+
+export type WeekSource = "override" | "filename" | "spreadsheet" | "dateColumn";
+
+export interface WeekTotal {
+  weekStart: string;
+  rowCount: number;
+  totalHours: number;
+}
+
+export interface ImportPreview {
+  success: boolean;
+  importId: string;
+  fileName: string;
+  weekStart: string; // earliest week
+  weekSource: WeekSource | "mixed" | "";
+  dateRange: string;
+  sheetCount: number;
+  weeks: WeekTotal[];
+  rows: ImportPreviewRow[];
+  unmatched: UnmatchedEntry[];
+  warnings: string[];
+  errors: string[];
+}
+
 export interface UploadResult {
   success: boolean;
   weekStart: string;
@@ -25,10 +67,13 @@ export interface UploadResult {
     count: number;
     totalHours: number;
   };
+  weeks: WeekTotal[];
   unmatched: UnmatchedEntry[];
   errors: string[];
 }
 
+type CellValue = string | number | Date | null;
+
 function extractDateFromFilename(filename: string): Date | null {
   // YYYY-MM-DD
   const isoMatch = filename.match(/(\d{4})-(\d{2})-(\d{2})/);
@@ -51,141 +96,247 @@ function extractDateFromFilename(filename: string): Date | null {
   return null;
 }
 
-export async function processActualsUpload(formData: FormData): Promise<UploadResult> {
-  const session = await auth();
-  if (!session || !["ADMIN", "MANAGER"].includes(session.user.role)) {
-    throw new Error("Unauthorized");
-  }
-
-  const file = formData.get("file") as File;
-  if (!file) {
-    throw new Error("No file provided");
-  }
+function failedPreview(fileName: string, error: string, warnings: string[] = []): ImportPreview {
+  return {
+    success: false,
+    importId: "",
+    fileName,
+    weekStart: "",
+    weekSource: "",
+    dateRange: "",
+    sheetCount: 0,
+    weeks: [],
+    rows: [],
+    unmatched: [],
+    warnings,
+    errors: [error],
+  };
+}
 
-  const buffer = Buffer.from(await file.arrayBuffer());
-  const workbook = XLSX.read(buffer);
-  const sheet = workbook.Sheets[workbook.SheetNames[0]];
-  const rows: (string | number | null)[][] = XLSX.utils.sheet_to_json(sheet, {
-    header: 1,
-  });
+/** Week keys match how @db.Date columns round-trip, so they compare directly. */
+function weekKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
 
-  // 1. Derive weekStart from the filename date (previous week's Sunday)
-  let weekStart: Date | null = null;
-  let dateRange = "";
+function formatRange(start: Date, end: Date): string {
+  const last = new Date(end);
+  last.setDate(last.getDate() + 6);
+  return `${formatDate(start, "MMMM d, yyyy")} - ${formatDate(last, "MMMM d, yyyy")}`;
+}
 
-  const filenameDate = extractDateFromFilename(file.name);
-  if (filenameDate) {
-    weekStart = subWeeks(startOfWeek(filenameDate, { weekStartsOn: 0 }), 1);
+function parseCellDate(cell: CellValue, dateFormat: string | null): Date | null {
+  if (cell instanceof Date) return isNaN(cell.getTime()) ? null : cell;
+  if (typeof cell === "string" && cell.trim()) {
+    const d = dateFormat ? parseDate(cell.trim(), dateFormat, new Date()) : new Date(cell.trim());
+    return isNaN(d.getTime()) ? null : d;
   }
+  return null;
+}
 
-  // 2. Scan first ~10 rows for a date range string (used for display only;
-  //    also serves as fallback weekStart when filename has no date)
+/** Looks for a "Month D, YYYY - Month D, YYYY" title in the first ~10 rows. */
+function findDateRange(rows: CellValue[][]): { label: string; start: Date | null } | null {
   const datePattern = /^(\w+ \d{1,2}, \d{4})\s*-\s*(\w+ \d{1,2}, \d{4})$/;
   for (const row of rows.slice(0, 10)) {
     const cell = row?.[0]?.toString().trim();
     if (cell) {
       const match = cell.match(datePattern);
       if (match) {
-        dateRange = cell;
-        if (!weekStart) {
-          const startDate = new Date(match[1]);
-          if (!isNaN(startDate.getTime())) {
-            weekStart = startOfWeek(startDate, { weekStartsOn: 0 });
-          }
-        }
-        break;
+        const startDate = new Date(match[1]);
+        return { label: cell, start: isNaN(startDate.getTime()) ? null : startDate };
       }
     }
   }
+  return null;
+}
 
-  // If still no weekStart, generate dateRange from computed weekStart for display
-  if (weekStart && !dateRange) {
-    const weekEnd = new Date(weekStart);
-    weekEnd.setDate(weekEnd.getDate() + 6);
-    dateRange = `${formatDate(weekStart, "MMMM d, yyyy")} - ${formatDate(weekEnd, "MMMM d, yyyy")}`;
-  }
-
-  if (!weekStart) {
-    return {
-      success: false,
-      weekStart: "",
-      dateRange: "",
-      processed: { count: 0, totalHours: 0 },
-      unmatched: [],
-      errors: [
-        "Could not determine the week to import. Include a date in the filename (e.g. 2026-02-24_PMReport.xlsx) or ensure the spreadsheet has a date range in the first few rows.",
-      ],
-    };
-  }
-
-  // 2. Find header row by looking for Customer/Job, Employee, Time columns
-  let headerIdx = -1;
-  let colCustomerJob = -1;
-  let colEmployee = -1;
-  let colTime = -1;
-
+/** Finds the profile's project, employee and hours header row; the date column is optional. */
+function findHeaderRow(rows: CellValue[][], profile: ImportProfileConfig) {
+  const prefix = (header: string) => header.trim().toLowerCase();
   for (let i = 0; i < Math.min(rows.length, 15); i++) {
     const row = rows[i];
     if (!row) continue;
-    const cells = row.map((c) => c?.toString().trim().toLowerCase() ?? "");
-    const custIdx = cells.findIndex((c) => c.startsWith("customer/job"));
-    const empIdx = cells.findIndex((c) => c.startsWith("employee"));
-    const timeIdx = cells.findIndex((c) => c.startsWith("time"));
+    const cells = Array.from(row, (c) => c?.toString().trim().toLowerCase() ?? "");
+    const custIdx = cells.findIndex((c) => c.startsWith(prefix(profile.projectHeader)));
+    const empIdx = cells.findIndex((c) => c.startsWith(prefix(profile.employeeHeader)));
+    const timeIdx = cells.findIndex((c) => c.startsWith(prefix(profile.hoursHeader)));
+    const dateIdx = profile.dateHeader
+      ? cells.findIndex((c) => c.startsWith(prefix(profile.dateHeader!)))
+      : -1;
     if (custIdx >= 0 && empIdx >= 0 && timeIdx >= 0) {
-      headerIdx = i;
-      colCustomerJob = custIdx;
-      colEmployee = empIdx;
-      colTime = timeIdx;
-      break;
+      return {
+        headerIdx: i,
+        colCustomerJob: custIdx,
+        colEmployee: empIdx,
+        colTime: timeIdx,
+        colDate: dateIdx,
+      };
     }
   }
+  return null;
+}
 
-  if (headerIdx === -1) {
-    return {
-      success: false,
-      weekStart: "",
-      dateRange: "",
-      processed: { count: 0, totalHours: 0 },
-      unmatched: [],
-      errors: [
-        'Could not find a header row with "Customer/Job", "Employee", and "Time" columns.',
-      ],
-    };
+function missingHeaderMessage(profile: ImportProfileConfig): string {
+  return `header row with "${profile.projectHeader}", "${profile.employeeHeader}", and "${profile.hoursHeader}" columns (profile "${profile.name}")`;
+}
+
+/**
+ * Parses an uploaded timesheet (XLSX or CSV, laid out per the chosen import
+ * profile) into a staged import without touching allocations. Every sheet is
+ * read and hours are bucketed by week, using a date column when the sheet
+ * has one. The returned preview shows every
+ * matched row diffed against the ACTUAL hours already recorded; nothing is
+ * saved until commitActualsImport is called.
+ */
+export async function stageActualsUpload(formData: FormData): Promise<ImportPreview> {
+  const session = await auth();
+  if (!session || !["ADMIN", "MANAGER"].includes(session.user.role)) {
+    throw new Error("Unauthorized");
   }
 
-  // 3. Parse and aggregate hours by projectCode + employee
-  const aggregated = new Map<string, number>();
+  const file = formData.get("file") as File;
+  if (!file) {
+    throw new Error("No file provided");
+  }
+  const weekOverride = (formData.get("weekStart") as string | null) || null;
+  const profile = await loadImportProfile((formData.get("profileId") as string | null) || null);
+
+  // CSV cells are kept as text so the profile's date format decides how dates parse
+  const workbook = file.name.toLowerCase().endsWith(".csv")
+    ? XLSX.read(await file.text(), { type: "string", raw: true })
+    : XLSX.read(Buffer.from(await file.arrayBuffer()), { cellDates: true });
+
+  // 1. Workbook-level week candidates: the manual override, else the filename
+  //    date (previous week's Sunday)
+  let overrideWeek: Date | null = null;
+  if (weekOverride) {
+    const overrideDate = parseISO(weekOverride);
+    if (isNaN(overrideDate.getTime())) {
+      return failedPreview(file.name, `Invalid week override "${weekOverride}".`);
+    }
+    overrideWeek = startOfWeek(overrideDate, { weekStartsOn: 0 });
+  }
 
-  for (let i = headerIdx + 1; i < rows.length; i++) {
-    const row = rows[i];
-    if (!row) continue;
+  const filenameDate = extractDateFromFilename(file.name);
+  const filenameWeek = filenameDate
+    ? subWeeks(startOfWeek(filenameDate, { weekStartsOn: 0 }), 1)
+    : null;
 
-    const customerJob = row[colCustomerJob]?.toString().trim() ?? "";
-    const employee = row[colEmployee]
-      ?.toString()
-      .trim()
-      .replace(/\s+/g, " ") ?? "";
-    const hours = parseFloat(String(row[colTime] ?? "")) || 0;
+  // 2. Parse every sheet and aggregate hours by week + projectCode + employee
+  const multiSheet = workbook.SheetNames.length > 1;
+  const aggregated = new Map<string, number>();
+  const weekSources = new Set<WeekSource>();
+  const sheetRanges: string[] = [];
+  const warnings: string[] = [];
+  let sheetCount = 0;
+  let missingHeader = 0;
+
+  for (const sheetName of workbook.SheetNames) {
+    const rows: CellValue[][] = XLSX.utils.sheet_to_json(workbook.Sheets[sheetName], {
+      header: 1,
+    });
+    if (rows.length === 0) continue;
+
+    const header = findHeaderRow(rows, profile);
+    if (!header) {
+      missingHeader++;
+      if (multiSheet) {
+        warnings.push(`Skipped sheet "${sheetName}": no ${missingHeaderMessage(profile)}.`);
+      }
+      continue;
+    }
+    sheetCount++;
+
+    // Week for rows without a date of their own. A workbook with one sheet per
+    // week carries each week on the sheet itself (title row or sheet name), so
+    // the filename date only takes precedence for single-sheet files.
+    const range = findDateRange(rows);
+    if (range) sheetRanges.push(range.label);
+    const rangeWeek = range?.start ? startOfWeek(range.start, { weekStartsOn: 0 }) : null;
+    const sheetNameDate = multiSheet ? extractDateFromFilename(sheetName) : null;
+    const sheetNameWeek = sheetNameDate ? startOfWeek(sheetNameDate, { weekStartsOn: 0 }) : null;
+
+    const candidates: Array<[Date | null, WeekSource]> = overrideWeek
+      ? [[overrideWeek, "override"]]
+      : multiSheet
+        ? [[rangeWeek, "spreadsheet"], [sheetNameWeek, "spreadsheet"], [filenameWeek, "filename"]]
+        : [[filenameWeek, "filename"], [rangeWeek, "spreadsheet"]];
+    const sheetWeek = candidates.find(([week]) => week !== null) ?? null;
+
+    let undatedHours = 0;
+    for (let i = header.headerIdx + 1; i < rows.length; i++) {
+      const row = rows[i];
+      if (!row) continue;
+
+      const customerJob = row[header.colCustomerJob]?.toString().trim() ?? "";
+      const employee = row[header.colEmployee]
+        ?.toString()
+        .trim()
+        .replace(/\s+/g, " ") ?? "";
+      const hours = parseFloat(String(row[header.colTime] ?? "")) || 0;
+
+      if (!customerJob || !employee || hours === 0) continue;
+      if (customerJob.toLowerCase() === "total") continue;
+
+      const parts = profile.projectCodeDelimiter
+        ? customerJob.split(profile.projectCodeDelimiter)
+        : [customerJob];
+      const projectCode = parts[parts.length - 1].trim().replace(/\s+/g, " ");
+      if (!projectCode) continue;
+
+      let week: Date | null = null;
+      let source: WeekSource | null = null;
+      const rowDate = header.colDate >= 0 ? parseCellDate(row[header.colDate], profile.dateFormat) : null;
+      if (rowDate) {
+        week = startOfWeek(rowDate, { weekStartsOn: 0 });
+        source = "dateColumn";
+      } else if (sheetWeek) {
+        [week, source] = sheetWeek as [Date, WeekSource];
+      }
+      if (!week || !source) {
+        undatedHours += hours;
+        continue;
+      }
+      weekSources.add(source);
 
-    if (!customerJob || !employee || hours === 0) continue;
-    if (customerJob.toLowerCase() === "total") continue;
+      const key = `${weekKey(week)}|||${projectCode}|||${employee}`;
+      aggregated.set(key, (aggregated.get(key) || 0) + hours);
+    }
 
-    const parts = customerJob.split(" : ");
-    const projectCode = parts[parts.length - 1].trim();
-    if (!projectCode) continue;
+    if (undatedHours > 0) {
+      warnings.push(
+        `Skipped ${undatedHours.toLocaleString("en-US", { maximumFractionDigits: 1 })} hours on sheet "${sheetName}": no date on the row and no week could be determined for the sheet.`
+      );
+    }
+  }
 
-    const key = `${projectCode}|||${employee}`;
-    aggregated.set(key, (aggregated.get(key) || 0) + hours);
+  if (sheetCount === 0) {
+    return failedPreview(
+      file.name,
+      missingHeader > 0
+        ? `Could not find a ${missingHeaderMessage(profile)}.`
+        : "The spreadsheet is empty."
+    );
+  }
+
+  if (aggregated.size === 0) {
+    return failedPreview(
+      file.name,
+      warnings.length > 0
+        ? "Could not determine the week to import. Choose the week manually, add a Date column, include a date in the filename (e.g. 2026-02-24_PMReport.xlsx), or ensure the spreadsheet has a date range in the first few rows."
+        : "No hours found to import. Every row is blank or has zero hours.",
+      warnings
+    );
   }
 
-  // 4. Match project codes and employee names against the database
+  // 5. Match project codes and employee names against the database,
+  //    falling back to saved aliases for strings that don't match directly
   const allProjects = await prisma.project.findMany({
-    select: { id: true, timecode: true },
+    select: { id: true, timecode: true, projectName: true },
   });
   const projectMap = new Map(
     allProjects
       .filter((p) => p.timecode)
-      .map((p) => [decrypt(p.timecode!).toLowerCase(), p.id])
+      .map((p) => [normalizeAlias(decrypt(p.timecode!)), p.id])
   );
 
   const allConsultants = await prisma.consultant.findMany({
@@ -195,13 +346,26 @@ export async function processActualsUpload(formData: FormData): Promise<UploadRe
     allConsultants.map((c) => {
       const rawNetSuite = decryptNullable(c.netSuiteName)?.trim();
       const matchName = rawNetSuite ? rawNetSuite : decrypt(c.name);
-      return [matchName.toLowerCase().replace(/\s+/g, " "), c.id];
+      return [normalizeAlias(matchName), c.id];
     })
   );
 
+  const aliases = await prisma.importAlias.findMany({
+    select: { type: true, alias: true, consultantId: true, projectId: true },
+  });
+  for (const a of aliases) {
+    const alias = decrypt(a.alias);
+    if (a.type === "EMPLOYEE" && a.consultantId && !consultantMap.has(alias)) {
+      consultantMap.set(alias, a.consultantId);
+    } else if (a.type === "PROJECT" && a.projectId && !projectMap.has(alias)) {
+      projectMap.set(alias, a.projectId);
+    }
+  }
+
   const matched: Array<{
     consultantId: string;
     projectId: string;
+    weekStart: string;
     hours: number;
     projectCode: string;
     employee: string;
@@ -216,14 +380,13 @@ export async function processActualsUpload(formData: FormData): Promise<UploadRe
   >();
 
   for (const [key, hours] of aggregated) {
-    const [projectCode, employee] = key.split("|||");
-    const projectId = projectMap.get(projectCode.toLowerCase());
-    const consultantId = consultantMap.get(
-      employee.toLowerCase().replace(/\s+/g, " ")
-    );
+    const [week, projectCode, employee] = key.split("|||");
+    // Aliases are stored normalized, so look codes and names up the same way
+    const projectId = projectMap.get(normalizeAlias(projectCode));
+    const consultantId = consultantMap.get(normalizeAlias(employee));
 
     if (projectId && consultantId) {
-      matched.push({ consultantId, projectId, hours, projectCode, employee });
+      matched.push({ consultantId, projectId, weekStart: week, hours, projectCode, employee });
     } else {
       if (!unmatchedMap.has(projectCode)) {
         unmatchedMap.set(projectCode, {
@@ -242,10 +405,147 @@ export async function processActualsUpload(formData: FormData): Promise<UploadRe
     }
   }
 
-  // 5. Upsert matched allocations as ACTUAL entries
-  const errors: string[] = [];
+  // 6. Build the unmatched report sorted by project code, then employee,
+  //    with likely matches offered for anything that wasn't found
+  const projectCandidates: MatchCandidate[] = allProjects
+    .filter((p) => p.timecode)
+    .map((p) => {
+      const timecode = decrypt(p.timecode!);
+      return { id: p.id, label: `${timecode} - ${decrypt(p.projectName)}`, names: [timecode] };
+    });
+  const consultantCandidates: MatchCandidate[] = allConsultants.map((c) => {
+    const name = decrypt(c.name);
+    const netSuiteName = decryptNullable(c.netSuiteName)?.trim();
+    return { id: c.id, label: name, names: netSuiteName ? [name, netSuiteName] : [name] };
+  });
+
+  const unmatched: UnmatchedEntry[] = Array.from(unmatchedMap.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([projectCode, group]) => ({
+      projectCode,
+      projectFound: group.projectFound,
+      projectSuggestions: group.projectFound ? [] : suggestMatches(projectCode, projectCandidates),
+      entries: Array.from(group.entries.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([employee, data]) => ({
+          employee,
+          employeeFound: data.employeeFound,
+          employeeSuggestions: data.employeeFound ? [] : suggestMatches(employee, consultantCandidates),
+          totalHours: data.totalHours,
+        })),
+    }));
+
+  // 7. Diff matched rows against the ACTUAL hours already recorded for each week
+  const weekKeys = Array.from(new Set(Array.from(aggregated.keys(), (k) => k.split("|||")[0]))).sort();
+  const existingActuals = await prisma.allocation.findMany({
+    where: { weekStart: { in: weekKeys.map((k) => new Date(k)) }, entryType: "ACTUAL" },
+    select: { consultantId: true, projectId: true, weekStart: true, hours: true },
+  });
+  const existingMap = new Map(
+    existingActuals.map((a) => [`${a.consultantId}_${a.projectId}_${weekKey(a.weekStart)}`, a.hours])
+  );
+
+  const previewRows: ImportPreviewRow[] = matched
+    .map((entry) => {
+      const existingHours =
+        existingMap.get(`${entry.consultantId}_${entry.projectId}_${entry.weekStart}`) ?? null;
+      const change: ImportRowChange =
+        existingHours === null ? "NEW" : existingHours === entry.hours ? "UNCHANGED" : "CHANGED";
+      return { ...entry, existingHours, change };
+    })
+    .sort(
+      (a, b) =>
+        a.weekStart.localeCompare(b.weekStart) ||
+        a.employee.localeCompare(b.employee) ||
+        a.projectCode.localeCompare(b.projectCode)
+    );
+
+  const weeks: WeekTotal[] = weekKeys.map((k) => {
+    const weekRows = matched.filter((m) => m.weekStart === k);
+    return {
+      weekStart: k,
+      rowCount: weekRows.length,
+      totalHours: weekRows.reduce((sum, r) => sum + r.hours, 0),
+    };
+  });
+
+  const firstWeek = new Date(weekKeys[0]);
+  const lastWeek = new Date(weekKeys[weekKeys.length - 1]);
+  const weekSource: ImportPreview["weekSource"] =
+    weekSources.size === 1 ? Array.from(weekSources)[0] : "mixed";
+  // Keep the spreadsheet's own title when it describes the single week imported
+  const dateRange =
+    weekKeys.length === 1 && weekSource !== "override" && sheetRanges.length === 1
+      ? sheetRanges[0]
+      : formatRange(firstWeek, lastWeek);
+
+  // 8. Stage the import for review
+  const userExists = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { id: true },
+  });
+
+  const staged = await prisma.actualsImport.create({
+    data: {
+      fileName: file.name,
+      weekStart: firstWeek,
+      dateRange,
+      unmatched: unmatched.length > 0 ? encrypt(JSON.stringify(unmatched)) : null,
+      uploadedById: userExists ? session.user.id : null,
+      rows: {
+        create: matched.map((entry) => ({
+          consultantId: entry.consultantId,
+          projectId: entry.projectId,
+          weekStart: new Date(entry.weekStart),
+          employee: encrypt(entry.employee),
+          projectCode: encrypt(entry.projectCode),
+          hours: entry.hours,
+        })),
+      },
+    },
+  });
+
+  return {
+    success: true,
+    importId: staged.id,
+    fileName: file.name,
+    weekStart: weekKeys[0],
+    weekSource,
+    dateRange,
+    sheetCount,
+    weeks,
+    rows: previewRows,
+    unmatched,
+    warnings,
+    errors: [],
+  };
+}
+
+/**
+ * Writes a staged import's rows as ACTUAL allocations. Unchanged rows are
+ * skipped. The import is claimed and applied in one transaction, so it is
+ * committed once and either every row lands or none do.
+ */
+export async function commitActualsImport(importId: string): Promise<UploadResult> {
+  const session = await auth();
+  if (!session || !["ADMIN", "MANAGER"].includes(session.user.role)) {
+    throw new Error("Unauthorized");
+  }
+
+  const staged = await prisma.actualsImport.findUnique({
+    where: { id: importId },
+    include: { rows: true },
+  });
+  if (!staged) {
+    throw new Error("Import not found");
+  }
+  if (staged.status !== "STAGED") {
+    throw new Error("This import has already been committed or discarded");
+  }
+
   let processedCount = 0;
   let processedHours = 0;
+  const weekTotals = new Map<string, WeekTotal>();
 
   const userExists = await prisma.user.findUnique({
     where: { id: session.user.id },
@@ -253,61 +553,259 @@ export async function processActualsUpload(formData: FormData): Promise<UploadRe
   });
   const createdById = userExists ? session.user.id : null;
 
-  for (const entry of matched) {
-    try {
-      await prisma.allocation.upsert({
-        where: {
+  await prisma.$transaction(async (tx) => {
+    const claimed = await tx.actualsImport.updateMany({
+      where: { id: importId, status: "STAGED" },
+      data: { status: "COMMITTED", committedAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      throw new Error("This import has already been committed or discarded");
+    }
+
+    for (const row of staged.rows) {
+      const weekStart = row.weekStart;
+      try {
+        const where = {
           consultantId_projectId_weekStart_entryType: {
-            consultantId: entry.consultantId,
-            projectId: entry.projectId,
+            consultantId: row.consultantId,
+            projectId: row.projectId,
             weekStart: weekStart,
+            entryType: "ACTUAL" as const,
+          },
+        };
+        const existing = await tx.allocation.findUnique({
+          where,
+          select: { hours: true, notes: true },
+        });
+        if (existing?.hours === row.hours) continue;
+
+        await tx.allocation.upsert({
+          where,
+          update: {
+            hours: row.hours,
+          },
+          create: {
+            consultantId: row.consultantId,
+            projectId: row.projectId,
+            weekStart: weekStart,
+            hours: row.hours,
             entryType: "ACTUAL",
+            createdById,
           },
-        },
-        update: {
-          hours: entry.hours,
-        },
-        create: {
-          consultantId: entry.consultantId,
-          projectId: entry.projectId,
-          weekStart: weekStart,
-          hours: entry.hours,
+        });
+        for (const write of allocationHistoryWrites({
+          consultantId: row.consultantId,
+          projectId: row.projectId,
+          weekStart,
           entryType: "ACTUAL",
-          createdById,
-        },
-      });
+          oldHours: existing?.hours ?? null,
+          newHours: row.hours,
+          oldNotes: existing?.notes ?? null,
+          newNotes: existing?.notes ?? null,
+          source: "ACTUALS_UPLOAD",
+          changedById: createdById,
+        }, tx)) {
+          await write;
+        }
+        // Remember what was overwritten so the batch can be rolled back
+        await tx.actualsImportRow.update({
+          where: { id: row.id },
+          data: { applied: true, previousHours: existing?.hours ?? null },
+        });
+      } catch (err) {
+        throw new Error(
+          `Failed to save ${decrypt(row.employee)} on ${decrypt(row.projectCode)}: ${err instanceof Error ? err.message : "Unknown error"}. Nothing was imported.`
+        );
+      }
       processedCount++;
-      processedHours += entry.hours;
-    } catch (err) {
-      errors.push(
-        `Failed to save ${entry.employee} on ${entry.projectCode}: ${err instanceof Error ? err.message : "Unknown error"}`
-      );
+      processedHours += row.hours;
+      const key = weekKey(weekStart);
+      const total = weekTotals.get(key) ?? { weekStart: key, rowCount: 0, totalHours: 0 };
+      total.rowCount++;
+      total.totalHours += row.hours;
+      weekTotals.set(key, total);
     }
-  }
+  }, { timeout: 120_000 });
 
   revalidatePath("/utilization");
 
-  // 6. Build the unmatched report sorted by project code, then employee
-  const unmatched: UnmatchedEntry[] = Array.from(unmatchedMap.entries())
-    .sort(([a], [b]) => a.localeCompare(b))
-    .map(([projectCode, group]) => ({
-      projectCode,
-      projectFound: group.projectFound,
-      entries: Array.from(group.entries.entries())
-        .sort(([a], [b]) => a.localeCompare(b))
-        .map(([employee, data]) => ({
-          employee,
-          employeeFound: data.employeeFound,
-          totalHours: data.totalHours,
-        })),
-    }));
-
   return {
     success: true,
-    weekStart: weekStart.toISOString(),
-    dateRange,
+    weekStart: weekKey(staged.weekStart),
+    dateRange: staged.dateRange,
     processed: { count: processedCount, totalHours: processedHours },
-    unmatched,
-    errors,
+    weeks: Array.from(weekTotals.values()).sort((a, b) => a.weekStart.localeCompare(b.weekStart)),
+    unmatched: staged.unmatched ? JSON.parse(decrypt(staged.unmatched)) : [],
+    errors: [],
   };
 }
+
+/** Throws away a staged import without writing any allocations. */
+export async function discardActualsImport(importId: string) {
+  const session = await auth();
+  if (!session || !["ADMIN", "MANAGER"].includes(session.user.role)) {
+    throw new Error("Unauthorized");
+  }
+
+  const staged = await prisma.actualsImport.findUnique({
+    where: { id: importId },
+    select: { status: true },
+  });
+  if (!staged) {
+    throw new Error("Import not found");
+  }
+  if (staged.status !== "STAGED") {
+    throw new Error("This import has already been committed or discarded");
+  }
+
+  await prisma.$transaction([
+    prisma.actualsImportRow.deleteMany({ where: { importId } }),
+    prisma.actualsImport.update({
+      where: { id: importId },
+      data: { status: "DISCARDED" },
+    }),
+  ]);
+}
+
+export interface ActualsImportSummary {
+  id: string;
+  fileName: string;
+  weekStart: string; // earliest week
+  weekCount: number;
+  status: ActualsImportStatus;
+  uploadedBy: string | null;
+  rowCount: number;
+  totalHours: number;
+  appliedCount: number;
+  createdAt: Date;
+  committedAt: Date | null;
+  rolledBackAt: Date | null;
+  rolledBackBy: string | null;
+}
+
+export interface RollbackResult {
+  restored: number;
+  removed: number;
+  skipped: string[];
+}
+
+/** Committed and rolled-back imports, newest first. */
+export async function getActualsImports(limit = 25): Promise<ActualsImportSummary[]> {
+  const session = await auth();
+  if (!session || !["ADMIN", "MANAGER"].includes(session.user.role)) {
+    throw new Error("Unauthorized");
+  }
+
+  const imports = await prisma.actualsImport.findMany({
+    where: { status: { in: ["COMMITTED", "ROLLED_BACK"] } },
+    include: {
+      uploadedBy: { select: { email: true } },
+      rolledBackBy: { select: { email: true } },
+      rows: { select: { hours: true, applied: true, weekStart: true } },
+    },
+    orderBy: { committedAt: "desc" },
+    take: limit,
+  });
+
+  return imports.map((imp) => ({
+    id: imp.id,
+    fileName: imp.fileName,
+    weekStart: weekKey(imp.weekStart),
+    weekCount: new Set(imp.rows.map((r) => weekKey(r.weekStart))).size,
+    status: imp.status,
+    uploadedBy: imp.uploadedBy?.email ?? null,
+    rowCount: imp.rows.length,
+    totalHours: imp.rows.reduce((sum, r) => sum + r.hours, 0),
+    appliedCount: imp.rows.filter((r) => r.applied).length,
+    createdAt: imp.createdAt,
+    committedAt: imp.committedAt,
+    rolledBackAt: imp.rolledBackAt,
+    rolledBackBy: imp.rolledBackBy?.email ?? null,
+  }));
+}
+
+/**
+ * Undoes a committed import: allocations it changed get their earlier hours
+ * back and allocations it created are deleted. Cells edited since the import
+ * are left alone and reported as skipped.
+ */
+export async function rollbackActualsImport(importId: string): Promise<RollbackResult> {
+  const session = await auth();
+  if (!session || session.user.role !== "ADMIN") {
+    throw new Error("Unauthorized");
+  }
+
+  const batch = await prisma.actualsImport.findUnique({
+    where: { id: importId },
+    include: { rows: { where: { applied: true } } },
+  });
+  if (!batch) {
+    throw new Error("Import not found");
+  }
+  if (batch.status !== "COMMITTED") {
+    throw new Error("Only committed imports can be rolled back");
+  }
+
+  const userExists = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { id: true },
+  });
+  const changedById = userExists ? session.user.id : null;
+
+  const result: RollbackResult = { restored: 0, removed: 0, skipped: [] };
+
+  for (const row of batch.rows) {
+    const where = {
+      consultantId_projectId_weekStart_entryType: {
+        consultantId: row.consultantId,
+        projectId: row.projectId,
+        weekStart: row.weekStart,
+        entryType: "ACTUAL" as const,
+      },
+    };
+    const current = await prisma.allocation.findUnique({
+      where,
+      select: { hours: true, notes: true },
+    });
+    if (!current || current.hours !== row.hours) {
+      result.skipped.push(
+        `${decrypt(row.employee)} on ${decrypt(row.projectCode)} was changed after this import`
+      );
+      continue;
+    }
+
+    const history = allocationHistoryWrites({
+      consultantId: row.consultantId,
+      projectId: row.projectId,
+      weekStart: row.weekStart,
+      entryType: "ACTUAL",
+      oldHours: current.hours,
+      newHours: row.previousHours,
+      oldNotes: current.notes,
+      newNotes: row.previousHours === null ? null : current.notes,
+      source: "IMPORT_ROLLBACK",
+      changedById,
+    });
+
+    if (row.previousHours === null) {
+      await prisma.$transaction([prisma.allocation.delete({ where }), ...history]);
+      result.removed++;
+    } else {
+      await prisma.$transaction([
+        prisma.allocation.update({ where, data: { hours: row.previousHours } }),
+        ...history,
+      ]);
+      result.restored++;
+    }
+  }
+
+  await prisma.actualsImport.update({
+    where: { id: importId },
+    data: { status: "ROLLED_BACK", rolledBackAt: new Date(), rolledBackById: changedById },
+  });
+
+  revalidatePath("/utilization");
+  revalidatePath("/actuals-upload");
+
+  return result;
+}
@@ -0,0 +1,56 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { revalidatePath } from "next/cache";
+import { generateSecureToken, hashToken } from "@/lib/totp";
+
+export type CalendarFeedEntry = {
+  id: string;
+  name: string;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+};
+
+export async function getCalendarFeeds(): Promise<CalendarFeedEntry[]> {
+  const session = await auth();
+  if (!session) throw new Error("Unauthorized");
+
+  return prisma.calendarFeedToken.findMany({
+    where: { userId: session.user.id },
+    select: { id: true, name: true, createdAt: true, lastUsedAt: true },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+/**
+ * Creates a feed token for the signed-in user. The raw token is returned
+ * once so the subscription URL can be shown; only its hash is stored.
+ */
+export async function createCalendarFeed(name: string): Promise<string> {
+  const session = await auth();
+  if (!session) throw new Error("Unauthorized");
+
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error("Name is required");
+
+  const raw = generateSecureToken();
+  await prisma.calendarFeedToken.create({
+    data: { userId: session.user.id, name: trimmed, tokenHash: hashToken(raw) },
+  });
+
+  revalidatePath("/profile");
+  return raw;
+}
+
+export async function revokeCalendarFeed(id: string): Promise<void> {
+  const session = await auth();
+  if (!session) throw new Error("Unauthorized");
+
+  const { count } = await prisma.calendarFeedToken.deleteMany({
+    where: { id, userId: session.user.id },
+  });
+  if (count === 0) throw new Error("Calendar feed not found");
+
+  revalidatePath("/profile");
+}
@@ -4,8 +4,9 @@ import { prisma } from "@/lib/prisma";
 import { auth } from "@/lib/auth";
 import { revalidatePath } from "next/cache";
 import { z } from "zod";
-import { GroupType, OvertimePreference } from "@prisma/client";
+import { GroupType, HolidayCalendar, OvertimePreference } from "@prisma/client";
 import { encrypt, encryptNullable, decrypt, decryptNullable } from "@/lib/encryption";
+import { syncPTOAccruals } from "@/lib/pto-balance";
 
 const consultantSchema = z.object({
   name: z.string().min(1, "Name is required"),
@@ -13,6 +14,8 @@ const consultantSchema = z.object({
   standardHours: z.number().min(0).max(80),
   overtimePreference: z.nativeEnum(OvertimePreference),
   overtimeHoursAvailable: z.number().min(0).max(40),
+  holidayCalendar: z.nativeEnum(HolidayCalendar),
+  ptoPolicyId: z.string().optional().nullable(),
   managerId: z.string().optional().nullable(),
   groups: z.array(z.nativeEnum(GroupType)).min(1, "At least one group is required"),
   billingRoleIds: z.array(z.string()).min(1, "At least one billing role is required"),
@@ -20,6 +23,11 @@ const consultantSchema = z.object({
 
 export type ConsultantFormData = z.infer<typeof consultantSchema>;
 
+function todayUTC(): Date {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
 function decryptConsultantFields<T extends { name: string; netSuiteName?: string | null }>(c: T): T {
   return { ...c, name: decrypt(c.name), netSuiteName: decryptNullable(c.netSuiteName) };
 }
@@ -100,6 +108,9 @@ export async function createConsultant(data: ConsultantFormData) {
       standardHours: validated.standardHours,
       overtimePreference: validated.overtimePreference,
       overtimeHoursAvailable: validated.overtimeHoursAvailable,
+      holidayCalendar: validated.holidayCalendar,
+      ptoPolicyId: validated.ptoPolicyId || null,
+      ptoAccrualStart: validated.ptoPolicyId ? todayUTC() : null,
       managerId: validated.managerId || null,
       groups: { create: validated.groups.map((group) => ({ group })) },
       billingRoles: { create: validated.billingRoleIds.map((roleDefinitionId) => ({ roleDefinitionId })) },
@@ -120,6 +131,13 @@ export async function updateConsultant(id: string, data: ConsultantFormData) {
 
   const validated = consultantSchema.parse(data);
 
+  // A policy change settles accruals under the old policy and restarts
+  // accrual from today under the new one
+  const current = await prisma.consultant.findUnique({ where: { id }, select: { ptoPolicyId: true } });
+  const ptoPolicyId = validated.ptoPolicyId || null;
+  const policyChanged = (current?.ptoPolicyId ?? null) !== ptoPolicyId;
+  if (policyChanged) await syncPTOAccruals(id);
+
   await prisma.$transaction([
     prisma.consultantGroup.deleteMany({ where: { consultantId: id } }),
     prisma.consultantBillingRole.deleteMany({ where: { consultantId: id } }),
@@ -133,6 +151,12 @@ export async function updateConsultant(id: string, data: ConsultantFormData) {
       standardHours: validated.standardHours,
       overtimePreference: validated.overtimePreference,
       overtimeHoursAvailable: validated.overtimeHoursAvailable,
+      holidayCalendar: validated.holidayCalendar,
+      ...(policyChanged && {
+        ptoPolicyId,
+        ptoAccrualStart: ptoPolicyId ? todayUTC() : null,
+        ptoAccruedThrough: null,
+      }),
       managerId: validated.managerId || null,
       groups: { create: validated.groups.map((group) => ({ group })) },
       billingRoles: { create: validated.billingRoleIds.map((roleDefinitionId) => ({ roleDefinitionId })) },
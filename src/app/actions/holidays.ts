@@ -0,0 +1,76 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { HolidayCalendar } from "@prisma/client";
+import { parseISO } from "date-fns";
+
+const holidaySchema = z.object({
+  calendar: z.nativeEnum(HolidayCalendar),
+  date: z.string().min(1, "Date is required"),
+  name: z.string().trim().min(1, "Name is required"),
+});
+
+export type HolidayFormData = z.infer<typeof holidaySchema>;
+
+function revalidateHolidayPaths() {
+  revalidatePath("/settings");
+  revalidatePath("/utilization");
+  revalidatePath("/staffing");
+}
+
+export async function getHolidays() {
+  const session = await auth();
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  const holidays = await prisma.holiday.findMany({
+    orderBy: [{ date: "asc" }, { calendar: "asc" }],
+  });
+
+  return holidays.map(h => ({
+    id: h.id,
+    calendar: h.calendar,
+    date: h.date.toISOString().split("T")[0],
+    name: h.name,
+  }));
+}
+
+export type HolidayEntry = Awaited<ReturnType<typeof getHolidays>>[number];
+
+export async function createHoliday(data: HolidayFormData) {
+  const session = await auth();
+  if (!session || session.user.role !== "ADMIN") {
+    throw new Error("Unauthorized");
+  }
+
+  const validated = holidaySchema.parse(data);
+  const date = parseISO(validated.date);
+
+  const existing = await prisma.holiday.findUnique({
+    where: { calendar_date: { calendar: validated.calendar, date } },
+  });
+  if (existing) {
+    throw new Error(`${existing.name} is already on this calendar for that date`);
+  }
+
+  await prisma.holiday.create({
+    data: { calendar: validated.calendar, date, name: validated.name },
+  });
+
+  revalidateHolidayPaths();
+}
+
+export async function deleteHoliday(id: string) {
+  const session = await auth();
+  if (!session || session.user.role !== "ADMIN") {
+    throw new Error("Unauthorized");
+  }
+
+  await prisma.holiday.delete({ where: { id } });
+
+  revalidateHolidayPaths();
+}
@@ -0,0 +1,142 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { revalidatePath } from "next/cache";
+import { ImportAliasType } from "@prisma/client";
+import { encrypt, decrypt, decryptNullable } from "@/lib/encryption";
+import { normalizeAlias } from "@/lib/fuzzy-match";
+
+export interface ImportAliasData {
+  id: string;
+  type: ImportAliasType;
+  alias: string;
+  targetId: string;
+  targetLabel: string;
+  createdBy: string | null;
+  createdAt: Date;
+}
+
+export interface AliasTargets {
+  consultants: Array<{ id: string; label: string }>;
+  projects: Array<{ id: string; label: string }>;
+}
+
+function projectLabel(p: { projectName: string; timecode: string | null }): string {
+  const timecode = decryptNullable(p.timecode);
+  return `${timecode ? `${timecode} - ` : ""}${decrypt(p.projectName)}`;
+}
+
+export async function getImportAliases(): Promise<ImportAliasData[]> {
+  const session = await auth();
+  if (!session || !["ADMIN", "MANAGER"].includes(session.user.role)) {
+    throw new Error("Unauthorized");
+  }
+
+  const aliases = await prisma.importAlias.findMany({
+    include: {
+      consultant: { select: { name: true } },
+      project: { select: { projectName: true, timecode: true } },
+      createdBy: { select: { email: true } },
+    },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return aliases.map((a) => ({
+    id: a.id,
+    type: a.type,
+    alias: decrypt(a.alias),
+    targetId: (a.consultantId ?? a.projectId)!,
+    targetLabel: a.consultant
+      ? decrypt(a.consultant.name)
+      : a.project
+        ? projectLabel(a.project)
+        : "Unknown",
+    createdBy: a.createdBy?.email ?? null,
+    createdAt: a.createdAt,
+  }));
+}
+
+/** Consultants and projects an alias can point at, including inactive projects. */
+export async function getAliasTargets(): Promise<AliasTargets> {
+  const session = await auth();
+  if (!session || !["ADMIN", "MANAGER"].includes(session.user.role)) {
+    throw new Error("Unauthorized");
+  }
+
+  const [consultants, projects] = await Promise.all([
+    prisma.consultant.findMany({ select: { id: true, name: true } }),
+    prisma.project.findMany({ select: { id: true, projectName: true, timecode: true } }),
+  ]);
+
+  return {
+    consultants: consultants
+      .map((c) => ({ id: c.id, label: decrypt(c.name) }))
+      .sort((a, b) => a.label.localeCompare(b.label)),
+    projects: projects
+      .map((p) => ({ id: p.id, label: projectLabel(p) }))
+      .sort((a, b) => a.label.localeCompare(b.label)),
+  };
+}
+
+/**
+ * Saves an alias so future actuals uploads match `alias` to the target.
+ * Re-mapping an existing alias replaces its target.
+ */
+export async function createImportAlias(type: ImportAliasType, alias: string, targetId: string) {
+  const session = await auth();
+  if (!session || !["ADMIN", "MANAGER"].includes(session.user.role)) {
+    throw new Error("Unauthorized");
+  }
+
+  const normalized = normalizeAlias(alias);
+  if (!normalized) {
+    throw new Error("Alias is required");
+  }
+
+  if (type === ImportAliasType.EMPLOYEE) {
+    const consultant = await prisma.consultant.findUnique({ where: { id: targetId }, select: { id: true } });
+    if (!consultant) throw new Error("Consultant not found");
+  } else {
+    const project = await prisma.project.findUnique({ where: { id: targetId }, select: { id: true } });
+    if (!project) throw new Error("Project not found");
+  }
+
+  // Aliases are encrypted, so duplicates have to be found after decryption
+  const existing = await prisma.importAlias.findMany({
+    where: { type },
+    select: { id: true, alias: true },
+  });
+  const duplicateIds = existing.filter((a) => decrypt(a.alias) === normalized).map((a) => a.id);
+
+  const userExists = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { id: true },
+  });
+
+  await prisma.$transaction([
+    prisma.importAlias.deleteMany({ where: { id: { in: duplicateIds } } }),
+    prisma.importAlias.create({
+      data: {
+        type,
+        alias: encrypt(normalized),
+        consultantId: type === ImportAliasType.EMPLOYEE ? targetId : null,
+        projectId: type === ImportAliasType.PROJECT ? targetId : null,
+        createdById: userExists ? session.user.id : null,
+      },
+    }),
+  ]);
+
+  revalidatePath("/import-aliases");
+}
+
+export async function deleteImportAlias(id: string) {
+  const session = await auth();
+  if (!session || !["ADMIN", "MANAGER"].includes(session.user.role)) {
+    throw new Error("Unauthorized");
+  }
+
+  await prisma.importAlias.delete({ where: { id } });
+
+  revalidatePath("/import-aliases");
+}
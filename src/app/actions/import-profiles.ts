@@ -0,0 +1,96 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+
+const importProfileSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  projectHeader: z.string().trim().min(1, "Project column header is required"),
+  employeeHeader: z.string().trim().min(1, "Employee column header is required"),
+  hoursHeader: z.string().trim().min(1, "Hours column header is required"),
+  dateHeader: z.string().trim().optional().nullable(),
+  // Not trimmed: delimiters like " : " depend on their surrounding spaces
+  projectCodeDelimiter: z.string().optional().nullable(),
+  dateFormat: z.string().trim().optional().nullable(),
+  isDefault: z.boolean(),
+});
+
+export type ImportProfileFormData = z.infer<typeof importProfileSchema>;
+
+function toProfileData(data: ImportProfileFormData) {
+  const validated = importProfileSchema.parse(data);
+  return {
+    ...validated,
+    dateHeader: validated.dateHeader || null,
+    projectCodeDelimiter: validated.projectCodeDelimiter || null,
+    dateFormat: validated.dateFormat || null,
+  };
+}
+
+export async function getImportProfiles() {
+  const session = await auth();
+  if (!session || !["ADMIN", "MANAGER"].includes(session.user.role)) {
+    throw new Error("Unauthorized");
+  }
+
+  return prisma.importProfile.findMany({
+    orderBy: [{ isDefault: "desc" }, { name: "asc" }],
+  });
+}
+
+export async function createImportProfile(data: ImportProfileFormData) {
+  const session = await auth();
+  if (!session || session.user.role !== "ADMIN") {
+    throw new Error("Unauthorized");
+  }
+
+  const profileData = toProfileData(data);
+
+  // Only one profile can be the default
+  if (profileData.isDefault) {
+    await prisma.importProfile.updateMany({
+      where: { isDefault: true },
+      data: { isDefault: false },
+    });
+  }
+  const profile = await prisma.importProfile.create({ data: profileData });
+
+  revalidatePath("/settings");
+  revalidatePath("/actuals-upload");
+  return profile;
+}
+
+export async function updateImportProfile(id: string, data: ImportProfileFormData) {
+  const session = await auth();
+  if (!session || session.user.role !== "ADMIN") {
+    throw new Error("Unauthorized");
+  }
+
+  const profileData = toProfileData(data);
+
+  if (profileData.isDefault) {
+    await prisma.importProfile.updateMany({
+      where: { isDefault: true, id: { not: id } },
+      data: { isDefault: false },
+    });
+  }
+  const profile = await prisma.importProfile.update({ where: { id }, data: profileData });
+
+  revalidatePath("/settings");
+  revalidatePath("/actuals-upload");
+  return profile;
+}
+
+export async function deleteImportProfile(id: string) {
+  const session = await auth();
+  if (!session || session.user.role !== "ADMIN") {
+    throw new Error("Unauthorized");
+  }
+
+  await prisma.importProfile.delete({ where: { id } });
+
+  revalidatePath("/settings");
+  revalidatePath("/actuals-upload");
+}
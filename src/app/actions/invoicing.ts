@@ -3,19 +3,49 @@
 import { prisma } from "@/lib/prisma";
 import { auth } from "@/lib/auth";
 import { revalidatePath } from "next/cache";
-import { AllocationEntryType, OtherInvoiceStatus } from "@prisma/client";
+import { z } from "zod";
+import {
+  AllocationEntryType,
+  BillingCycle,
+  BillingRateMode,
+  ContractType,
+  OtherInvoiceStatus,
+  Prisma,
+  ScheduleItemType,
+} from "@prisma/client";
 import { getSystemSetting } from "./system-settings";
 import { encrypt, encryptNullable, decrypt, decryptNullable } from "@/lib/encryption";
+import { formatInvoiceNumber, renderInvoiceHtml, type InvoiceSnapshot } from "@/lib/invoice-document";
+import { RATE_CHANGES_SELECT, effectiveRate, msrpDiscountRate, msrpRate, negotiatedRate } from "@/lib/billing-rates";
 
 const MS_PER_DAY = 24 * 60 * 60 * 1000;
 const DEFAULT_ANCHOR = "2025-01-05"; // First Sunday of 2025
 
-function getPeriodStart(date: Date, anchor: Date): Date {
-  const daysSinceAnchor = Math.floor(
-    (date.getTime() - anchor.getTime()) / MS_PER_DAY
-  );
-  const periodIndex = Math.floor(daysSinceAnchor / 14);
-  return new Date(anchor.getTime() + periodIndex * 14 * MS_PER_DAY);
+/**
+ * The billing period a week falls in under the project's cycle. Weekly and
+ * bi-weekly periods count from the anchor; semi-monthly periods split the
+ * month after the 15th.
+ */
+function getPeriod(cycle: BillingCycle, date: Date, anchor: Date): { start: Date; end: Date } {
+  if (cycle === BillingCycle.WEEKLY || cycle === BillingCycle.BIWEEKLY) {
+    const length = cycle === BillingCycle.WEEKLY ? 7 : 14;
+    const daysSinceAnchor = Math.floor(
+      (date.getTime() - anchor.getTime()) / MS_PER_DAY
+    );
+    const periodIndex = Math.floor(daysSinceAnchor / length);
+    const start = new Date(anchor.getTime() + periodIndex * length * MS_PER_DAY);
+    return { start, end: new Date(start.getTime() + (length - 1) * MS_PER_DAY) };
+  }
+
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const endOfMonth = new Date(Date.UTC(year, month + 1, 0));
+  if (cycle === BillingCycle.SEMI_MONTHLY) {
+    return date.getUTCDate() <= 15
+      ? { start: new Date(Date.UTC(year, month, 1)), end: new Date(Date.UTC(year, month, 15)) }
+      : { start: new Date(Date.UTC(year, month, 16)), end: endOfMonth };
+  }
+  return { start: new Date(Date.UTC(year, month, 1)), end: endOfMonth };
 }
 
 export type PeriodRow = {
@@ -31,14 +61,53 @@ export type InvoicePeriodData = {
   periodEnd: string;
   status: "projected" | "reported" | "invoiced";
   msrpTotal: number;
-  discountedTotal: number;
+  billedTotal: number; // hours valued under the project's billing-rate mode
   invoiceNumber: string | null;
   invoiceDate: string | null;
   comments: string | null;
   invoicePeriodId: string | null;
+  document: InvoiceDocumentSummary | null;
   rows: PeriodRow[];
 };
 
+export type InvoiceDocumentSummary = {
+  id: string;
+  invoiceNumber: string;
+  total: number;
+  createdAt: string;
+};
+
+/**
+ * One consultant's billable hours valued under both billing-rate methods.
+ * Rates are hours-weighted averages, so they reflect any rate changes that
+ * took effect during the project.
+ */
+export type RateReconciliationRow = {
+  consultantId: string;
+  consultantName: string;
+  roleName: string | null;
+  hours: number;
+  msrpRate: number;
+  msrpDiscountRate: number;
+  negotiatedRate: number | null;
+  msrpDiscountTotal: number;
+  negotiatedTotal: number;
+  difference: number; // negotiated minus MSRP-less-discount
+};
+
+function isMilestoneComplete(item: { percentComplete: number } | null): boolean {
+  return item != null && item.percentComplete >= 100;
+}
+
+function resolveMilestoneAmount(
+  line: { amount: number | null; percentOfBudget: number | null },
+  budget: number | null
+): number | null {
+  if (line.amount != null) return line.amount;
+  if (line.percentOfBudget == null || budget == null) return null;
+  return budget * (line.percentOfBudget / 100);
+}
+
 export type OtherInvoiceData = {
   id: string;
   date: string;
@@ -49,6 +118,30 @@ export type OtherInvoiceData = {
   invoiceDate: string | null;
 };
 
+export type MilestoneBillingLineData = {
+  id: string;
+  scheduleItemId: string | null;
+  milestoneName: string | null;
+  milestoneDate: string | null;
+  percentComplete: number | null;
+  isReady: boolean; // the milestone is complete, so the line can be requested
+  description: string | null;
+  amount: number | null;
+  percentOfBudget: number | null;
+  // null for a percent line when the project has no budget; fixed once requested
+  resolvedAmount: number | null;
+  status: OtherInvoiceStatus;
+  invoiceNumber: string | null;
+  invoiceDate: string | null;
+};
+
+export type MilestoneOption = {
+  id: string;
+  name: string;
+  endDate: string | null;
+  percentComplete: number;
+};
+
 export type InvoicingData = {
   project: {
     id: string;
@@ -57,11 +150,17 @@ export type InvoicingData = {
     budget: number | null;
     currency: string;
     salesDiscount: number | null;
+    billingRateMode: BillingRateMode;
+    billingCycle: BillingCycle;
+    contractType: ContractType | null;
     comments: string | null;
   };
   billablePeriods: InvoicePeriodData[];
   nonBillablePeriods: InvoicePeriodData[];
+  reconciliation: RateReconciliationRow[];
   otherInvoices: OtherInvoiceData[];
+  // Only for MILESTONE contracts
+  milestoneBilling: { lines: MilestoneBillingLineData[]; milestones: MilestoneOption[] } | null;
   headerTotals: {
     totalBudget: number | null;
     totalUsed: number;
@@ -83,12 +182,30 @@ export async function getInvoicingData(projectId: string): Promise<InvoicingData
       members: {
         include: {
           consultant: { select: { id: true, name: true } },
-          roleDefinition: { select: { id: true, name: true, msrpRate: true } },
+          roleDefinition: {
+            select: { id: true, name: true, msrpRate: true, rateChanges: RATE_CHANGES_SELECT },
+          },
+          rateChanges: RATE_CHANGES_SELECT,
         },
       },
-      allocations: { orderBy: { weekStart: "asc" } },
-      invoicePeriods: true,
+      // Soft bookings are pipeline only and never invoiced
+      allocations: {
+        where: { entryType: { not: AllocationEntryType.TENTATIVE } },
+        orderBy: { weekStart: "asc" },
+      },
+      invoicePeriods: {
+        include: { document: { select: { id: true, invoiceNumber: true, total: true, createdAt: true } } },
+      },
       otherInvoices: { orderBy: { date: "asc" } },
+      milestoneBillingLines: {
+        include: { scheduleItem: { select: { name: true, endDate: true, percentComplete: true } } },
+        orderBy: { displayOrder: "asc" },
+      },
+      scheduleItems: {
+        where: { type: ScheduleItemType.MILESTONE },
+        select: { id: true, name: true, endDate: true, percentComplete: true },
+        orderBy: { displayOrder: "asc" },
+      },
     },
   });
 
@@ -99,11 +216,13 @@ export async function getInvoicingData(projectId: string): Promise<InvoicingData
 
   // Group allocations by billing period key
   const periodAllocMap = new Map<string, typeof project.allocations>();
+  const periodEnds = new Map<string, Date>();
   for (const alloc of project.allocations) {
-    const ps = getPeriodStart(alloc.weekStart, anchorDate);
-    const key = ps.toISOString();
+    const { start, end } = getPeriod(project.billingCycle, alloc.weekStart, anchorDate);
+    const key = start.toISOString();
     if (!periodAllocMap.has(key)) periodAllocMap.set(key, []);
     periodAllocMap.get(key)!.push(alloc);
+    periodEnds.set(key, end);
   }
 
   // Build InvoicePeriod lookup by (periodStart iso, isBillable)
@@ -124,7 +243,7 @@ export async function getInvoicingData(projectId: string): Promise<InvoicingData
   for (const periodKey of sortedPeriodKeys) {
     const allocs = periodAllocMap.get(periodKey)!;
     const periodStart = new Date(periodKey);
-    const periodEnd = new Date(periodStart.getTime() + 13 * MS_PER_DAY);
+    const periodEnd = periodEnds.get(periodKey)!;
 
     // Split by billable (has billingRate) vs non-billable
     const billableAllocs = allocs.filter((a) => {
@@ -176,24 +295,15 @@ export async function getInvoicingData(projectId: string): Promise<InvoicingData
         return weekDiff !== 0 ? weekDiff : a.consultantName.localeCompare(b.consultantName);
       });
 
-      // Compute MSRP
+      // MSRP is shown for non-billable time too, for visibility of what it would have cost
       let msrpTotal = 0;
-      if (isBillable) {
-        for (const row of rows) {
-          const msrpRate = memberMap.get(row.consultantId)?.roleDefinition?.msrpRate ?? 0;
-          msrpTotal += row.hours * msrpRate;
-        }
-      } else {
-        // For non-billable, show what the cost would have been (for visibility)
-        for (const row of rows) {
-          const msrpRate = memberMap.get(row.consultantId)?.roleDefinition?.msrpRate ?? 0;
-          msrpTotal += row.hours * msrpRate;
-        }
+      let billedTotal = 0;
+      for (const row of rows) {
+        const member = memberMap.get(row.consultantId);
+        msrpTotal += row.hours * msrpRate(member, row.weekStart);
+        billedTotal += row.hours * effectiveRate(project.billingRateMode, member, project.salesDiscount, row.weekStart);
       }
 
-      const salesDiscount = project.salesDiscount ?? 0;
-      const discountedTotal = msrpTotal * (1 - salesDiscount / 100);
-
       const hasActuals = rows.some((r) => r.entryType === AllocationEntryType.ACTUAL);
       let status: "projected" | "reported" | "invoiced" = "projected";
       if (isBillable && existingPeriod?.invoiceNumber) {
@@ -207,11 +317,14 @@ export async function getInvoicingData(projectId: string): Promise<InvoicingData
         periodEnd: periodEnd.toISOString(),
         status,
         msrpTotal,
-        discountedTotal,
+        billedTotal,
         invoiceNumber: existingPeriod?.invoiceNumber ?? null,
         invoiceDate: existingPeriod?.invoiceDate?.toISOString() ?? null,
         comments: existingPeriod?.comments ?? null,
         invoicePeriodId: existingPeriod?.id ?? null,
+        document: existingPeriod?.document
+          ? { ...existingPeriod.document, createdAt: existingPeriod.document.createdAt.toISOString() }
+          : null,
         rows: rows.map((r) => ({
           consultantId: r.consultantId,
           consultantName: r.consultantName,
@@ -234,14 +347,54 @@ export async function getInvoicingData(projectId: string): Promise<InvoicingData
   let totalProjected = 0;
   for (const p of billablePeriods) {
     if (p.status === "invoiced" || p.status === "reported") {
-      totalUsed += p.discountedTotal;
+      totalUsed += p.billedTotal;
     } else {
-      totalProjected += p.discountedTotal;
+      totalProjected += p.billedTotal;
     }
   }
   const totalBudget = project.budget;
   const totalRemaining = totalBudget != null ? totalBudget - totalUsed - totalProjected : null;
 
+  // Billable hours per consultant, valued both ways at the rates of each week
+  const totalsByConsultant = new Map<
+    string,
+    { consultantName: string; hours: number; msrpTotal: number; msrpDiscountTotal: number; negotiatedTotal: number }
+  >();
+  for (const row of billablePeriods.flatMap((p) => p.rows)) {
+    const member = memberMap.get(row.consultantId);
+    const weekStart = new Date(row.weekStart);
+    const entry = totalsByConsultant.get(row.consultantId) ?? {
+      consultantName: row.consultantName,
+      hours: 0,
+      msrpTotal: 0,
+      msrpDiscountTotal: 0,
+      negotiatedTotal: 0,
+    };
+    entry.hours += row.hours;
+    entry.msrpTotal += row.hours * msrpRate(member, weekStart);
+    entry.msrpDiscountTotal += row.hours * msrpDiscountRate(member, project.salesDiscount, weekStart);
+    entry.negotiatedTotal += row.hours * negotiatedRate(member, weekStart);
+    totalsByConsultant.set(row.consultantId, entry);
+  }
+  const reconciliation: RateReconciliationRow[] = [...totalsByConsultant.entries()]
+    .map(([consultantId, totals]) => {
+      const member = memberMap.get(consultantId);
+      const average = (total: number) => (totals.hours ? total / totals.hours : 0);
+      return {
+        consultantId,
+        consultantName: totals.consultantName,
+        roleName: member?.roleDefinition?.name ?? null,
+        hours: totals.hours,
+        msrpRate: average(totals.msrpTotal),
+        msrpDiscountRate: average(totals.msrpDiscountTotal),
+        negotiatedRate: member?.billingRate != null ? average(totals.negotiatedTotal) : null,
+        msrpDiscountTotal: totals.msrpDiscountTotal,
+        negotiatedTotal: totals.negotiatedTotal,
+        difference: totals.negotiatedTotal - totals.msrpDiscountTotal,
+      };
+    })
+    .sort((a, b) => a.consultantName.localeCompare(b.consultantName));
+
   return {
     project: {
       id: project.id,
@@ -250,10 +403,14 @@ export async function getInvoicingData(projectId: string): Promise<InvoicingData
       budget: project.budget,
       currency: project.currency,
       salesDiscount: project.salesDiscount,
+      billingRateMode: project.billingRateMode,
+      billingCycle: project.billingCycle,
+      contractType: project.contractType,
       comments: decryptNullable(project.comments),
     },
     billablePeriods,
     nonBillablePeriods,
+    reconciliation,
     otherInvoices: project.otherInvoices.map((oi) => ({
       id: oi.id,
       date: oi.date.toISOString(),
@@ -263,6 +420,32 @@ export async function getInvoicingData(projectId: string): Promise<InvoicingData
       status: oi.status,
       invoiceDate: oi.invoiceDate ? oi.invoiceDate.toISOString() : null,
     })),
+    milestoneBilling:
+      project.contractType === ContractType.MILESTONE
+        ? {
+            lines: project.milestoneBillingLines.map((line) => ({
+              id: line.id,
+              scheduleItemId: line.scheduleItemId,
+              milestoneName: line.scheduleItem ? decrypt(line.scheduleItem.name) : null,
+              milestoneDate: line.scheduleItem?.endDate?.toISOString() ?? null,
+              percentComplete: line.scheduleItem?.percentComplete ?? null,
+              isReady: isMilestoneComplete(line.scheduleItem),
+              description: decryptNullable(line.description),
+              amount: line.amount,
+              percentOfBudget: line.percentOfBudget,
+              resolvedAmount: line.requestedAmount ?? resolveMilestoneAmount(line, project.budget),
+              status: line.status,
+              invoiceNumber: line.invoiceNumber,
+              invoiceDate: line.invoiceDate?.toISOString() ?? null,
+            })),
+            milestones: project.scheduleItems.map((item) => ({
+              id: item.id,
+              name: decrypt(item.name),
+              endDate: item.endDate?.toISOString() ?? null,
+              percentComplete: item.percentComplete,
+            })),
+          }
+        : null,
     headerTotals: { totalBudget, totalUsed, totalProjected, totalRemaining },
   };
 }
@@ -306,6 +489,148 @@ export async function upsertInvoicePeriod(data: {
   revalidatePath("/invoicing");
 }
 
+const MAX_INVOICE_NUMBER_ATTEMPTS = 3;
+
+async function nextInvoiceSequence(): Promise<number> {
+  const last = await prisma.invoiceDocument.findFirst({ orderBy: { sequence: "desc" }, select: { sequence: true } });
+  return (last?.sequence ?? 0) + 1;
+}
+
+function isUniqueViolation(err: unknown): boolean {
+  return err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002";
+}
+
+/**
+ * Issues an invoice for a billable period: assigns the next sequential
+ * invoice number, renders the branded document from the period's actual
+ * hours at the rates of the project's billing-rate mode, and stores both the
+ * figures and the rendered document. The period is marked invoiced with
+ * today's date.
+ */
+export async function generateInvoiceDocument(
+  projectId: string,
+  periodStart: string
+): Promise<InvoiceDocumentSummary> {
+  const session = await auth();
+  if (!session || session.user.role !== "ADMIN") throw new Error("Unauthorized");
+
+  const data = await getInvoicingData(projectId);
+  const period = data.billablePeriods.find((p) => p.periodStart === periodStart);
+  if (!period) throw new Error("Billing period not found");
+  if (period.document) {
+    throw new Error(`Invoice ${period.document.invoiceNumber} was already issued for this period`);
+  }
+  if (period.rows.some((r) => r.entryType !== AllocationEntryType.ACTUAL)) {
+    throw new Error("This period still has projected hours. Import actuals before invoicing it.");
+  }
+
+  const [project, members] = await Promise.all([
+    prisma.project.findUniqueOrThrow({ where: { id: projectId }, select: { timecode: true, currency: true } }),
+    prisma.projectMember.findMany({
+      where: { projectId },
+      include: {
+        roleDefinition: { select: { name: true, msrpRate: true, rateChanges: RATE_CHANGES_SELECT } },
+        rateChanges: RATE_CHANGES_SELECT,
+      },
+    }),
+  ]);
+  const memberMap = new Map(members.map((m) => [m.consultantId, m]));
+
+  const issueDate = new Date().toISOString().split("T")[0];
+
+  // MSRP invoices list MSRP rates and take the discount off the subtotal;
+  // negotiated invoices list each member's own rate with no discount. Each
+  // line is priced at the rate in force for its week.
+  const isNegotiated = data.project.billingRateMode === BillingRateMode.NEGOTIATED;
+  const lines = period.rows.map((row) => {
+    const member = memberMap.get(row.consultantId);
+    const weekStart = new Date(row.weekStart);
+    const rate = isNegotiated ? negotiatedRate(member, weekStart) : msrpRate(member, weekStart);
+    return {
+      consultantName: row.consultantName,
+      roleName: member?.roleDefinition?.name ?? null,
+      weekStart: row.weekStart.split("T")[0],
+      hours: row.hours,
+      rate,
+      amount: row.hours * rate,
+    };
+  });
+  const subtotal = lines.reduce((sum, l) => sum + l.amount, 0);
+  const discountPercent = isNegotiated ? 0 : data.project.salesDiscount ?? 0;
+  const discountAmount = subtotal * (discountPercent / 100);
+
+  const invoicePeriod = await prisma.invoicePeriod.upsert({
+    where: {
+      projectId_periodStart_isBillable: {
+        projectId,
+        periodStart: new Date(periodStart),
+        isBillable: true,
+      },
+    },
+    update: {},
+    create: { projectId, periodStart: new Date(periodStart), isBillable: true },
+  });
+
+  // Two invoices issued at once can read the same last sequence; the unique
+  // constraint rejects the second, which then takes the next number.
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const sequence = await nextInvoiceSequence();
+      const invoiceNumber = formatInvoiceNumber(sequence);
+      const snapshot: InvoiceSnapshot = {
+        invoiceNumber,
+        issueDate,
+        client: data.project.client,
+        projectName: data.project.projectName,
+        timecode: decryptNullable(project.timecode),
+        periodStart: period.periodStart.split("T")[0],
+        periodEnd: period.periodEnd.split("T")[0],
+        currency: data.project.currency,
+        lines,
+        totalHours: lines.reduce((sum, l) => sum + l.hours, 0),
+        subtotal,
+        discountPercent,
+        discountAmount,
+        total: subtotal - discountAmount,
+      };
+      const html = await renderInvoiceHtml(snapshot);
+
+      const [document] = await prisma.$transaction([
+        prisma.invoiceDocument.create({
+          data: {
+            sequence,
+            invoiceNumber,
+            invoicePeriodId: invoicePeriod.id,
+            currency: project.currency,
+            total: snapshot.total,
+            snapshot: encrypt(JSON.stringify(snapshot)),
+            html: encrypt(html),
+            issuedById: session.user.id,
+          },
+          select: { id: true, invoiceNumber: true, total: true, createdAt: true },
+        }),
+        prisma.invoicePeriod.update({
+          where: { id: invoicePeriod.id },
+          data: { invoiceNumber, invoiceDate: new Date(issueDate) },
+        }),
+      ]);
+
+      revalidatePath("/invoicing");
+      return { ...document, createdAt: document.createdAt.toISOString() };
+    } catch (err) {
+      if (!isUniqueViolation(err)) throw err;
+      const issued = await prisma.invoiceDocument.findUnique({
+        where: { invoicePeriodId: invoicePeriod.id },
+        select: { invoiceNumber: true },
+      });
+      if (issued) throw new Error(`Invoice ${issued.invoiceNumber} was already issued for this period`);
+      if (attempt === MAX_INVOICE_NUMBER_ATTEMPTS) {
+        throw new Error("Another invoice was issued at the same time. Try again.");
+      }
+    }
+  }
+}
+
 export async function updateProjectInvoiceComments(projectId: string, comments: string) {
   const session = await auth();
   if (!session) throw new Error("Unauthorized");
@@ -381,3 +706,167 @@ export async function deleteOtherInvoice(id: string) {
   await prisma.otherInvoice.delete({ where: { id } });
   revalidatePath("/invoicing");
 }
+
+const milestoneLineSchema = z
+  .object({
+    scheduleItemId: z.string().min(1, "Milestone is required"),
+    description: z.string().nullable(),
+    amount: z.number().min(0).nullable(),
+    percentOfBudget: z.number().gt(0).max(100).nullable(),
+  })
+  .refine((d) => (d.amount == null) !== (d.percentOfBudget == null), {
+    message: "Enter either an amount or a percent of budget",
+  });
+
+export type MilestoneLineFormData = z.infer<typeof milestoneLineSchema>;
+
+async function requireMilestone(projectId: string, scheduleItemId: string) {
+  const project = await prisma.project.findUnique({ where: { id: projectId }, select: { contractType: true } });
+  if (!project) throw new Error("Project not found");
+  if (project.contractType !== ContractType.MILESTONE) {
+    throw new Error("Billing schedules are only available for milestone contracts");
+  }
+
+  const item = await prisma.projectScheduleItem.findUnique({
+    where: { id: scheduleItemId },
+    select: { projectId: true, type: true },
+  });
+  if (!item || item.projectId !== projectId || item.type !== ScheduleItemType.MILESTONE) {
+    throw new Error("Choose a milestone from this project's schedule");
+  }
+}
+
+async function requireOpenMilestoneLine(id: string) {
+  const line = await prisma.milestoneBillingLine.findUnique({ where: { id } });
+  if (!line) throw new Error("Billing line not found");
+  if (line.status === OtherInvoiceStatus.INVOICED) {
+    throw new Error("Invoiced billing lines can't be changed");
+  }
+  return line;
+}
+
+export async function createMilestoneBillingLine(projectId: string, data: MilestoneLineFormData) {
+  const session = await auth();
+  if (!session) throw new Error("Unauthorized");
+
+  const validated = milestoneLineSchema.parse(data);
+  await requireMilestone(projectId, validated.scheduleItemId);
+
+  const last = await prisma.milestoneBillingLine.findFirst({
+    where: { projectId },
+    orderBy: { displayOrder: "desc" },
+    select: { displayOrder: true },
+  });
+
+  await prisma.milestoneBillingLine.create({
+    data: {
+      projectId,
+      scheduleItemId: validated.scheduleItemId,
+      description: encryptNullable(validated.description || null),
+      amount: validated.amount,
+      percentOfBudget: validated.percentOfBudget,
+      displayOrder: (last?.displayOrder ?? 0) + 1,
+    },
+  });
+
+  revalidatePath("/invoicing");
+}
+
+export async function updateMilestoneBillingLine(id: string, data: MilestoneLineFormData) {
+  const session = await auth();
+  if (!session) throw new Error("Unauthorized");
+
+  const validated = milestoneLineSchema.parse(data);
+  const line = await requireOpenMilestoneLine(id);
+  await requireMilestone(line.projectId, validated.scheduleItemId);
+  if (
+    line.status !== OtherInvoiceStatus.EXPECTED &&
+    (validated.amount !== line.amount || validated.percentOfBudget !== line.percentOfBudget)
+  ) {
+    throw new Error("The amount of a requested billing line can't be changed");
+  }
+
+  await prisma.milestoneBillingLine.update({
+    where: { id },
+    data: {
+      scheduleItemId: validated.scheduleItemId,
+      description: encryptNullable(validated.description || null),
+      amount: validated.amount,
+      percentOfBudget: validated.percentOfBudget,
+    },
+  });
+
+  revalidatePath("/invoicing");
+}
+
+export async function deleteMilestoneBillingLine(id: string) {
+  const session = await auth();
+  if (!session) throw new Error("Unauthorized");
+
+  await requireOpenMilestoneLine(id);
+  await prisma.milestoneBillingLine.delete({ where: { id } });
+
+  revalidatePath("/invoicing");
+}
+
+/**
+ * EXPECTED → REQUESTED, once the linked milestone is 100% complete. The
+ * amount is fixed at this point so later budget changes don't alter it.
+ */
+export async function requestMilestoneInvoice(id: string) {
+  const session = await auth();
+  if (!session) throw new Error("Unauthorized");
+
+  const line = await prisma.milestoneBillingLine.findUnique({
+    where: { id },
+    include: {
+      scheduleItem: { select: { percentComplete: true } },
+      project: { select: { budget: true } },
+    },
+  });
+  if (!line) throw new Error("Billing line not found");
+  if (line.status !== OtherInvoiceStatus.EXPECTED) {
+    throw new Error("Only expected billing lines can be requested");
+  }
+  if (!isMilestoneComplete(line.scheduleItem)) {
+    throw new Error("The milestone isn't complete yet");
+  }
+  const requestedAmount = resolveMilestoneAmount(line, line.project.budget);
+  if (requestedAmount == null) {
+    throw new Error("Set the project budget before requesting a percent-of-budget line");
+  }
+
+  await prisma.milestoneBillingLine.update({
+    where: { id },
+    data: { status: OtherInvoiceStatus.REQUESTED, requestedAmount },
+  });
+
+  revalidatePath("/invoicing");
+}
+
+/** REQUESTED → INVOICED, recording the invoice that billed the milestone. */
+export async function markMilestoneInvoiced(id: string, data: { invoiceNumber: string; invoiceDate: string }) {
+  const session = await auth();
+  if (!session) throw new Error("Unauthorized");
+
+  const invoiceNumber = data.invoiceNumber.trim();
+  if (!invoiceNumber) throw new Error("Invoice number is required");
+  if (!data.invoiceDate) throw new Error("Invoice date is required");
+
+  const line = await prisma.milestoneBillingLine.findUnique({ where: { id }, select: { status: true } });
+  if (!line) throw new Error("Billing line not found");
+  if (line.status !== OtherInvoiceStatus.REQUESTED) {
+    throw new Error("Only requested billing lines can be marked invoiced");
+  }
+
+  await prisma.milestoneBillingLine.update({
+    where: { id },
+    data: {
+      status: OtherInvoiceStatus.INVOICED,
+      invoiceNumber,
+      invoiceDate: new Date(data.invoiceDate),
+    },
+  });
+
+  revalidatePath("/invoicing");
+}
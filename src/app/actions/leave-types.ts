@@ -0,0 +1,142 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { LeaveApprovalRule, ProjectType } from "@prisma/client";
+import { encrypt } from "@/lib/encryption";
+import { findProjectByTimecode, leaveProjectType } from "@/lib/leave-types";
+
+const leaveTypeSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  timecode: z.string().trim().min(1, "Timecode is required"),
+  approvalRule: z.nativeEnum(LeaveApprovalRule),
+  deductsFromBalance: z.boolean(),
+  countsAgainstUtilization: z.boolean(),
+  active: z.boolean(),
+});
+
+export type LeaveTypeFormData = z.infer<typeof leaveTypeSchema>;
+
+export type LeaveTypeEntry = LeaveTypeFormData & {
+  id: string;
+  requestCount: number;
+};
+
+function revalidateLeaveTypePaths() {
+  revalidatePath("/settings");
+  revalidatePath("/pto");
+  revalidatePath("/utilization");
+}
+
+export async function getLeaveTypes(): Promise<LeaveTypeEntry[]> {
+  const session = await auth();
+  if (!session) throw new Error("Unauthorized");
+
+  const leaveTypes = await prisma.leaveType.findMany({
+    include: { _count: { select: { ptoRequests: true } } },
+    orderBy: { name: "asc" },
+  });
+
+  return leaveTypes.map((t) => ({
+    id: t.id,
+    name: t.name,
+    timecode: t.timecode,
+    approvalRule: t.approvalRule,
+    deductsFromBalance: t.deductsFromBalance,
+    countsAgainstUtilization: t.countsAgainstUtilization,
+    active: t.active,
+    requestCount: t._count.ptoRequests,
+  }));
+}
+
+/**
+ * Creates a leave type. An existing internal project with the same timecode
+ * (such as the general PTO project) is adopted; otherwise an internal project
+ * is made. Client work can't be turned into leave.
+ */
+export async function createLeaveType(data: LeaveTypeFormData) {
+  const session = await auth();
+  if (!session || session.user.role !== "ADMIN") throw new Error("Unauthorized");
+
+  const validated = leaveTypeSchema.parse(data);
+
+  const existing = await prisma.leaveType.findFirst({
+    where: { OR: [{ name: validated.name }, { timecode: validated.timecode }] },
+  });
+  if (existing) {
+    throw new Error(
+      existing.name === validated.name
+        ? `A leave type named "${validated.name}" already exists`
+        : `Timecode ${validated.timecode} is already used by "${existing.name}"`
+    );
+  }
+
+  const type = leaveProjectType(validated.countsAgainstUtilization);
+  const project = await findProjectByTimecode(validated.timecode);
+  if (project && project.type !== ProjectType.ASSIGNED && project.type !== ProjectType.FILLER) {
+    throw new Error(`Timecode ${validated.timecode} belongs to a client project. Choose another timecode.`);
+  }
+  const projectId = project
+    ? (await prisma.project.update({ where: { id: project.id }, data: { type } })).id
+    : (await prisma.project.create({
+        data: {
+          client: encrypt("Internal"),
+          projectName: encrypt(validated.name),
+          timecode: encrypt(validated.timecode),
+          type,
+          status: "ACTIVE",
+        },
+      })).id;
+
+  await prisma.leaveType.create({ data: { ...validated, projectId } });
+
+  revalidateLeaveTypePaths();
+}
+
+export async function updateLeaveType(id: string, data: LeaveTypeFormData) {
+  const session = await auth();
+  if (!session || session.user.role !== "ADMIN") throw new Error("Unauthorized");
+
+  const validated = leaveTypeSchema.parse(data);
+
+  const leaveType = await prisma.leaveType.findUnique({ where: { id } });
+  if (!leaveType) throw new Error("Leave type not found");
+  if (validated.timecode !== leaveType.timecode) {
+    throw new Error("The timecode of a leave type cannot be changed");
+  }
+
+  const duplicate = await prisma.leaveType.findUnique({ where: { name: validated.name } });
+  if (duplicate && duplicate.id !== id) {
+    throw new Error(`A leave type named "${validated.name}" already exists`);
+  }
+
+  await prisma.$transaction([
+    prisma.leaveType.update({ where: { id }, data: validated }),
+    prisma.project.update({
+      where: { id: leaveType.projectId },
+      data: { type: leaveProjectType(validated.countsAgainstUtilization) },
+    }),
+  ]);
+
+  revalidateLeaveTypePaths();
+}
+
+export async function deleteLeaveType(id: string) {
+  const session = await auth();
+  if (!session || session.user.role !== "ADMIN") throw new Error("Unauthorized");
+
+  const leaveType = await prisma.leaveType.findUnique({
+    where: { id },
+    include: { _count: { select: { ptoRequests: true } } },
+  });
+  if (!leaveType) throw new Error("Leave type not found");
+  if (leaveType._count.ptoRequests > 0) {
+    throw new Error(`"${leaveType.name}" has requests on file. Deactivate it instead.`);
+  }
+
+  await prisma.leaveType.delete({ where: { id } });
+
+  revalidateLeaveTypePaths();
+}
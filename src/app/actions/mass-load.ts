@@ -4,8 +4,10 @@ import { prisma } from "@/lib/prisma";
 import { auth } from "@/lib/auth";
 import { revalidatePath } from "next/cache";
 import { z } from "zod";
-import { AllocationEntryType } from "@prisma/client";
+import { AllocationChangeSource, AllocationEntryType } from "@prisma/client";
 import { eachWeekOfInterval, startOfWeek } from "date-fns";
+import { allocationHistoryWrites } from "@/lib/allocation-history";
+import { notifyForecastChanged } from "@/lib/notifications";
 
 const massLoadSchema = z.object({
   consultantIds: z.array(z.string()).min(1, "Select at least one consultant"),
@@ -79,29 +81,48 @@ export async function createMassLoad(data: MassLoadFormData) {
           },
         });
 
+        const change = {
+          consultantId,
+          projectId: validated.projectId,
+          weekStart,
+          entryType: validated.entryType,
+          oldHours: existing?.hours ?? null,
+          newHours: validated.hours,
+          oldNotes: existing?.notes ?? null,
+          newNotes: validated.notes || existing?.notes || null,
+          source: AllocationChangeSource.MASS_LOAD,
+          changedById: session.user.id,
+        };
+
         if (existing) {
           // Update existing allocation
-          await prisma.allocation.update({
-            where: { id: existing.id },
-            data: {
-              hours: validated.hours,
-              notes: validated.notes || existing.notes,
-            },
-          });
+          await prisma.$transaction([
+            prisma.allocation.update({
+              where: { id: existing.id },
+              data: {
+                hours: validated.hours,
+                notes: validated.notes || existing.notes,
+              },
+            }),
+            ...allocationHistoryWrites(change),
+          ]);
           results.updated++;
         } else {
           // Create new allocation
-          await prisma.allocation.create({
-            data: {
-              consultantId,
-              projectId: validated.projectId,
-              weekStart,
-              hours: validated.hours,
-              entryType: validated.entryType,
-              notes: validated.notes,
-              createdById: session.user.id,
-            },
-          });
+          await prisma.$transaction([
+            prisma.allocation.create({
+              data: {
+                consultantId,
+                projectId: validated.projectId,
+                weekStart,
+                hours: validated.hours,
+                entryType: validated.entryType,
+                notes: validated.notes,
+                createdById: session.user.id,
+              },
+            }),
+            ...allocationHistoryWrites(change),
+          ]);
           results.created++;
         }
       } catch (err) {
@@ -112,6 +133,10 @@ export async function createMassLoad(data: MassLoadFormData) {
     }
   }
 
+  if (validated.entryType === AllocationEntryType.PROJECTED && results.created + results.updated > 0) {
+    await notifyForecastChanged(validated.consultantIds, session.user);
+  }
+
   revalidatePath("/utilization");
   revalidatePath("/mass-load");
 
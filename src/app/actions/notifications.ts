@@ -0,0 +1,104 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { revalidatePath } from "next/cache";
+import { NotificationType } from "@prisma/client";
+import { decrypt } from "@/lib/encryption";
+import { syncReportDueNotifications } from "@/lib/notifications";
+
+const INBOX_LIMIT = 50;
+
+export type NotificationEntry = {
+  id: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  link: string;
+  read: boolean;
+  createdAt: Date;
+};
+
+export type NotificationInbox = {
+  items: NotificationEntry[];
+  unreadCount: number;
+};
+
+/** The signed-in user's most recent notifications, newest first. */
+export async function getNotifications(): Promise<NotificationInbox> {
+  const session = await auth();
+  if (!session) throw new Error("Unauthorized");
+
+  await syncReportDueNotifications(session.user.id, session.user.consultantId);
+
+  const [rows, unreadCount] = await Promise.all([
+    prisma.notification.findMany({
+      where: { userId: session.user.id },
+      orderBy: { createdAt: "desc" },
+      take: INBOX_LIMIT,
+    }),
+    prisma.notification.count({ where: { userId: session.user.id, readAt: null } }),
+  ]);
+
+  return {
+    items: rows.map(n => ({
+      id: n.id,
+      type: n.type,
+      title: decrypt(n.title),
+      body: decrypt(n.body),
+      link: n.link,
+      read: n.readAt !== null,
+      createdAt: n.createdAt,
+    })),
+    unreadCount,
+  };
+}
+
+export async function setNotificationRead(id: string, read: boolean): Promise<void> {
+  const session = await auth();
+  if (!session) throw new Error("Unauthorized");
+
+  const { count } = await prisma.notification.updateMany({
+    where: { id, userId: session.user.id },
+    data: { readAt: read ? new Date() : null },
+  });
+  if (count === 0) throw new Error("Notification not found");
+}
+
+export async function markAllNotificationsRead(): Promise<void> {
+  const session = await auth();
+  if (!session) throw new Error("Unauthorized");
+
+  await prisma.notification.updateMany({
+    where: { userId: session.user.id, readAt: null },
+    data: { readAt: new Date() },
+  });
+}
+
+/** Whether the signed-in user receives email for each notification type. */
+export async function getNotificationPreferences(): Promise<Record<NotificationType, boolean>> {
+  const session = await auth();
+  if (!session) throw new Error("Unauthorized");
+
+  const preferences = await prisma.notificationPreference.findMany({
+    where: { userId: session.user.id },
+  });
+  const optedOut = new Set(preferences.filter(p => !p.email).map(p => p.type));
+
+  return Object.fromEntries(
+    Object.values(NotificationType).map(type => [type, !optedOut.has(type)])
+  ) as Record<NotificationType, boolean>;
+}
+
+export async function updateNotificationPreference(type: NotificationType, email: boolean): Promise<void> {
+  const session = await auth();
+  if (!session) throw new Error("Unauthorized");
+
+  await prisma.notificationPreference.upsert({
+    where: { userId_type: { userId: session.user.id, type } },
+    update: { email },
+    create: { userId: session.user.id, type, email },
+  });
+
+  revalidatePath("/profile");
+}
@@ -4,8 +4,11 @@ import { prisma } from "@/lib/prisma";
 import { auth } from "@/lib/auth";
 import { revalidatePath } from "next/cache";
 import { startOfWeek, addWeeks, parseISO } from "date-fns";
-import { AllocationEntryType } from "@prisma/client";
+import { AllocationChangeSource, AllocationEntryType, NotificationType } from "@prisma/client";
 import { decrypt } from "@/lib/encryption";
+import { allocationHistoryWrites } from "@/lib/allocation-history";
+import { notify, userIdsForConsultants } from "@/lib/notifications";
+import { RATE_CHANGES_SELECT, currentRate, nextRateChange, rateOn } from "@/lib/billing-rates";
 
 export async function getProjectMembers(projectId: string) {
   const session = await auth();
@@ -28,14 +31,16 @@ export async function getProjectMembers(projectId: string) {
     where: { projectId },
     include: {
       consultant: { select: { id: true, name: true } },
-      roleDefinition: { select: { id: true, name: true, msrpRate: true } },
+      roleDefinition: { select: { id: true, name: true, msrpRate: true, rateChanges: RATE_CHANGES_SELECT } },
+      rateChanges: RATE_CHANGES_SELECT,
     },
     orderBy: { createdAt: "asc" },
   });
 
   const memberConsultantIds = new Set(members.map((m) => m.consultantId));
 
-  // Merge: start with explicitly-added members, then add allocation-only consultants
+  // Merge: start with explicitly-added members, then add allocation-only consultants.
+  // Rates are the ones in force today.
   const result: Array<{
     consultantId: string;
     consultantName: string;
@@ -44,19 +49,24 @@ export async function getProjectMembers(projectId: string) {
     roleDefinitionName: string | null;
     msrpRate: number | null;
     billingRate: number | null;
+    nextBillingRate: { rate: number; effectiveDate: string } | null;
     fromAllocation: boolean;
   }> = [];
 
   // Explicitly added members first (all rows, including duplicates)
   for (const member of members) {
+    const next = member.billingRate != null ? nextRateChange(member.rateChanges) : null;
     result.push({
       consultantId: member.consultantId,
       consultantName: decrypt(member.consultant.name),
       memberId: member.id,
       roleDefinitionId: member.roleDefinitionId,
       roleDefinitionName: member.roleDefinition?.name ?? null,
-      msrpRate: member.roleDefinition?.msrpRate ?? null,
-      billingRate: member.billingRate,
+      msrpRate: member.roleDefinition
+        ? currentRate(member.roleDefinition.msrpRate, member.roleDefinition.rateChanges)
+        : null,
+      billingRate: member.billingRate != null ? currentRate(member.billingRate, member.rateChanges) : null,
+      nextBillingRate: next ? { rate: next.rate, effectiveDate: next.effectiveDate.toISOString().slice(0, 10) } : null,
       fromAllocation: false,
     });
   }
@@ -72,6 +82,7 @@ export async function getProjectMembers(projectId: string) {
         roleDefinitionName: null,
         msrpRate: null,
         billingRate: null,
+        nextBillingRate: null,
         fromAllocation: true,
       });
     }
@@ -104,31 +115,78 @@ export async function createProjectMember(
     },
   });
 
+  const project = await prisma.project.findUnique({ where: { id: projectId }, select: { projectName: true } });
+  if (project) {
+    await notify(await userIdsForConsultants([consultantId]), {
+      type: NotificationType.PROJECT_MEMBER_ADDED,
+      projectId,
+      projectName: decrypt(project.projectName),
+    }, session.user.id);
+  }
+
   revalidatePath("/projects");
   return { ...member, consultant: { ...member.consultant, name: decrypt(member.consultant.name) } };
 }
 
+/**
+ * Updates a member's role and rate. For a billable member, a rate with an
+ * effective date (YYYY-MM-DD) is recorded as a change from that date, and a
+ * future date schedules it; hours before it keep their rate. Without a date
+ * the starting rate is corrected for all history. Clearing the rate makes
+ * the member non-billable.
+ */
 export async function updateProjectMember(
   memberId: string,
   roleDefinitionId: string | null,
-  billingRate: number | null
+  billingRate: number | null,
+  effectiveDate: string | null = null
 ) {
   const session = await auth();
   if (!session || session.user.role !== "ADMIN") {
     throw new Error("Unauthorized");
   }
 
-  const member = await prisma.projectMember.update({
+  const existing = await prisma.projectMember.findUnique({
     where: { id: memberId },
-    data: {
-      roleDefinitionId: roleDefinitionId || null,
-      billingRate: billingRate ?? null,
-    },
-    include: {
-      consultant: { select: { id: true, name: true } },
-      roleDefinition: { select: { id: true, name: true, msrpRate: true } },
-    },
+    include: { rateChanges: { select: { id: true, rate: true, effectiveDate: true } } },
   });
+  if (!existing) {
+    throw new Error("Member not found");
+  }
+
+  const datedChange = billingRate != null && existing.billingRate != null && !!effectiveDate;
+  const rateChangeWrites = () => {
+    const date = new Date(effectiveDate + "T00:00:00Z");
+    const sameDay = existing.rateChanges.find((c) => c.effectiveDate.getTime() === date.getTime());
+    const previousRate = rateOn(existing.billingRate, existing.rateChanges.filter((c) => c !== sameDay), date);
+
+    // Changing to the rate already in force is no change at all
+    if (billingRate === previousRate) {
+      return sameDay ? [prisma.projectMemberRateChange.delete({ where: { id: sameDay.id } })] : [];
+    }
+    return [
+      prisma.projectMemberRateChange.upsert({
+        where: { projectMemberId_effectiveDate: { projectMemberId: memberId, effectiveDate: date } },
+        update: { rate: billingRate!, createdById: session.user.id },
+        create: { projectMemberId: memberId, rate: billingRate!, effectiveDate: date, createdById: session.user.id },
+      }),
+    ];
+  };
+
+  const [member] = await prisma.$transaction([
+    prisma.projectMember.update({
+      where: { id: memberId },
+      data: {
+        roleDefinitionId: roleDefinitionId || null,
+        ...(datedChange ? {} : { billingRate: billingRate ?? null }),
+      },
+      include: {
+        consultant: { select: { id: true, name: true } },
+        roleDefinition: { select: { id: true, name: true, msrpRate: true } },
+      },
+    }),
+    ...(datedChange ? rateChangeWrites() : []),
+  ]);
 
   revalidatePath("/projects");
   return { ...member, consultant: { ...member.consultant, name: decrypt(member.consultant.name) } };
@@ -176,27 +234,55 @@ export async function seedMemberAllocations(
 
   if (weeks.length === 0) return;
 
+  const existingRows = await prisma.allocation.findMany({
+    where: {
+      consultantId,
+      projectId,
+      entryType: AllocationEntryType.PROJECTED,
+      weekStart: { in: weeks },
+    },
+    select: { weekStart: true, hours: true, notes: true },
+  });
+  // Key by the UTC date, which is what the @db.Date column stores
+  const dateKey = (d: Date) => d.toISOString().slice(0, 10);
+  const existingByWeek = new Map(existingRows.map((r) => [dateKey(r.weekStart), r]));
+
   await prisma.$transaction(
-    weeks.map((weekStart) =>
-      prisma.allocation.upsert({
-        where: {
-          consultantId_projectId_weekStart_entryType: {
+    weeks.flatMap((weekStart) => {
+      const existing = existingByWeek.get(dateKey(weekStart));
+      return [
+        prisma.allocation.upsert({
+          where: {
+            consultantId_projectId_weekStart_entryType: {
+              consultantId,
+              projectId,
+              weekStart,
+              entryType: AllocationEntryType.PROJECTED,
+            },
+          },
+          update: { hours: weeklyHours },
+          create: {
             consultantId,
             projectId,
             weekStart,
+            hours: weeklyHours,
             entryType: AllocationEntryType.PROJECTED,
           },
-        },
-        update: { hours: weeklyHours },
-        create: {
+        }),
+        ...allocationHistoryWrites({
           consultantId,
           projectId,
           weekStart,
-          hours: weeklyHours,
           entryType: AllocationEntryType.PROJECTED,
-        },
-      })
-    )
+          oldHours: existing?.hours ?? null,
+          newHours: weeklyHours,
+          oldNotes: existing?.notes ?? null,
+          newNotes: existing?.notes ?? null,
+          source: AllocationChangeSource.MEMBER_SEEDING,
+          changedById: session.user.id,
+        }),
+      ];
+    })
   );
 
   revalidatePath("/");
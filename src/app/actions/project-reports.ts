@@ -3,7 +3,7 @@
 import { prisma } from "@/lib/prisma";
 import { auth } from "@/lib/auth";
 import { revalidatePath } from "next/cache";
-import { AllocationEntryType } from "@prisma/client";
+import { AllocationEntryType, NotificationType } from "@prisma/client";
 import {
   encrypt,
   encryptNullable,
@@ -16,6 +16,8 @@ import {
   type EncryptableRisk,
   type EncryptableActionItem,
 } from "@/lib/encryption";
+import { notify, userIdsForConsultants } from "@/lib/notifications";
+import { RATE_CHANGES_SELECT, effectiveRate } from "@/lib/billing-rates";
 
 export type Risk = EncryptableRisk;
 export type ActionItem = EncryptableActionItem;
@@ -155,11 +157,29 @@ export async function finalizeProjectReport(reportId: string): Promise<ProjectRe
   const session = await auth();
   if (!session || session.user.role !== "ADMIN") throw new Error("Unauthorized");
 
-  const report = await prisma.projectReport.update({
+  const { project, ...report } = await prisma.projectReport.update({
     where: { id: reportId },
     data: { isFinalized: true, finalizedAt: new Date() },
+    include: {
+      project: {
+        select: { projectName: true, projectManagerId: true, members: { select: { consultantId: true } } },
+      },
+    },
   });
 
+  await notify(
+    await userIdsForConsultants([project.projectManagerId, ...project.members.map(m => m.consultantId)]),
+    {
+      type: NotificationType.PROJECT_REPORT_FINALIZED,
+      projectId: report.projectId,
+      projectName: decrypt(project.projectName),
+      reportNumber: report.reportNumber,
+      periodStart: report.periodStart,
+      periodEnd: report.periodEnd,
+    },
+    session.user.id
+  );
+
   revalidatePath(`/projects/${report.projectId}/report`);
   return parseReportJson(report);
 }
@@ -198,7 +218,14 @@ export async function getProjectReportContext(projectId: string): Promise<Projec
     where: { id: projectId },
     include: {
       projectManager: { select: { name: true } },
-      members: { select: { consultantId: true, billingRate: true } },
+      members: {
+        select: {
+          consultantId: true,
+          billingRate: true,
+          rateChanges: RATE_CHANGES_SELECT,
+          roleDefinition: { select: { msrpRate: true, rateChanges: RATE_CHANGES_SELECT } },
+        },
+      },
     },
   });
 
@@ -206,18 +233,20 @@ export async function getProjectReportContext(projectId: string): Promise<Projec
 
   const actualAllocations = await prisma.allocation.findMany({
     where: { projectId, entryType: AllocationEntryType.ACTUAL },
-    select: { consultantId: true, hours: true },
+    select: { consultantId: true, weekStart: true, hours: true },
   });
 
-  const billingRateMap = new Map(
+  // Priced like invoicing: only billable members, at the project's billing-rate mode
+  const billableMembers = new Map(
     project.members
       .filter((m) => m.billingRate != null)
-      .map((m) => [m.consultantId, m.billingRate!])
+      .map((m) => [m.consultantId, m])
   );
 
   const budgetSpent = actualAllocations.reduce((sum, alloc) => {
-    const rate = billingRateMap.get(alloc.consultantId) ?? 0;
-    return sum + alloc.hours * rate;
+    const member = billableMembers.get(alloc.consultantId);
+    if (!member) return sum;
+    return sum + alloc.hours * effectiveRate(project.billingRateMode, member, project.salesDiscount, alloc.weekStart);
   }, 0);
 
   const scheduleItems = await prisma.projectScheduleItem.findMany({
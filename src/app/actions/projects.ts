@@ -4,8 +4,9 @@ import { prisma } from "@/lib/prisma";
 import { auth } from "@/lib/auth";
 import { revalidatePath } from "next/cache";
 import { z } from "zod";
-import { ProjectType, ProjectStatus, SalesManager, Currency, ContractType, HealthStatus, GroupType, AllocationEntryType } from "@prisma/client";
+import { ProjectType, ProjectStatus, SalesManager, Currency, ContractType, HealthStatus, GroupType, AllocationEntryType, AllocationChangeSource, BillingRateMode, BillingCycle } from "@prisma/client";
 import { encrypt, encryptNullable, decrypt, decryptNullable } from "@/lib/encryption";
+import { allocationHistoryWrites } from "@/lib/allocation-history";
 
 const projectSchema = z.object({
   client: z.string().min(1, "Client is required"),
@@ -22,6 +23,9 @@ const projectSchema = z.object({
   contractType: z.nativeEnum(ContractType).optional().nullable(),
   healthStatus: z.nativeEnum(HealthStatus).optional().nullable(),
   salesDiscount: z.number().min(0).max(100).optional().nullable(),
+  billingRateMode: z.nativeEnum(BillingRateMode).default(BillingRateMode.MSRP_DISCOUNT),
+  billingCycle: z.nativeEnum(BillingCycle).default(BillingCycle.BIWEEKLY),
+  winProbability: z.number().int().min(0).max(100).optional().nullable(),
   comments: z.string().optional().nullable(),
 });
 
@@ -55,12 +59,16 @@ export async function getProjects(filters?: {
     where,
     include: {
       projectManager: { select: { id: true, name: true } },
+      _count: {
+        select: { allocations: { where: { entryType: AllocationEntryType.TENTATIVE } } },
+      },
     },
     orderBy: { createdAt: "desc" },
   });
 
-  const decrypted = results.map((p) => ({
+  const decrypted = results.map(({ _count, ...p }) => ({
     ...p,
+    softBookingCount: _count.allocations,
     client: decrypt(p.client),
     projectName: decrypt(p.projectName),
     timecode: decryptNullable(p.timecode),
@@ -138,6 +146,9 @@ export async function createProject(data: ProjectFormData) {
       contractType: validated.contractType || null,
       healthStatus: validated.healthStatus || null,
       salesDiscount: validated.salesDiscount ?? null,
+      billingRateMode: validated.billingRateMode,
+      billingCycle: validated.billingCycle,
+      winProbability: validated.winProbability ?? null,
       comments: encryptNullable(validated.comments || null),
     },
   });
@@ -152,6 +163,18 @@ export async function updateProject(id: string, data: ProjectFormData) {
 
   const validated = projectSchema.parse(data);
 
+  // Invoice periods are keyed by their start date, so re-cutting them would
+  // orphan invoices already issued under the old cycle
+  const current = await prisma.project.findUnique({ where: { id }, select: { billingCycle: true } });
+  if (current && current.billingCycle !== validated.billingCycle) {
+    const invoiced = await prisma.invoicePeriod.count({
+      where: { projectId: id, invoiceNumber: { not: null } },
+    });
+    if (invoiced > 0) {
+      throw new Error("The billing cycle can't be changed after periods have been invoiced");
+    }
+  }
+
   const project = await prisma.project.update({
     where: { id },
     data: {
@@ -169,6 +192,9 @@ export async function updateProject(id: string, data: ProjectFormData) {
       contractType: validated.contractType || null,
       healthStatus: validated.healthStatus || null,
       salesDiscount: validated.salesDiscount ?? null,
+      billingRateMode: validated.billingRateMode,
+      billingCycle: validated.billingCycle,
+      winProbability: validated.winProbability ?? null,
       comments: encryptNullable(validated.comments || null),
     },
   });
@@ -196,6 +222,92 @@ export async function deleteProject(id: string) {
   revalidatePath("/projects");
 }
 
+/**
+ * Marks a pipeline deal as won: every soft booking on the project becomes a
+ * firm PROJECTED allocation (added to any projected hours already booked
+ * that week) and the win probability is set to 100%.
+ */
+export async function convertSoftBookings(projectId: string) {
+  const session = await auth();
+  if (!session || session.user.role !== "ADMIN") throw new Error("Unauthorized");
+
+  const [softBookings, projected] = await Promise.all([
+    prisma.allocation.findMany({
+      where: { projectId, entryType: AllocationEntryType.TENTATIVE },
+    }),
+    prisma.allocation.findMany({
+      where: { projectId, entryType: AllocationEntryType.PROJECTED },
+    }),
+  ]);
+
+  if (softBookings.length === 0) {
+    throw new Error("This project has no soft bookings to convert");
+  }
+
+  const cellKey = (a: { consultantId: string; weekStart: Date }) =>
+    `${a.consultantId}_${a.weekStart.toISOString()}`;
+  const projectedByCell = new Map(projected.map((a) => [cellKey(a), a]));
+
+  await prisma.$transaction([
+    ...softBookings.flatMap((soft) => {
+      const existing = projectedByCell.get(cellKey(soft));
+      const newHours = (existing?.hours ?? 0) + soft.hours;
+      const newNotes = existing ? existing.notes : soft.notes;
+      const cell = {
+        consultantId: soft.consultantId,
+        projectId,
+        weekStart: soft.weekStart,
+        source: AllocationChangeSource.SOFT_BOOKING_CONVERSION,
+        changedById: session.user.id,
+      };
+      return [
+        prisma.allocation.upsert({
+          where: {
+            consultantId_projectId_weekStart_entryType: {
+              consultantId: soft.consultantId,
+              projectId,
+              weekStart: soft.weekStart,
+              entryType: AllocationEntryType.PROJECTED,
+            },
+          },
+          update: { hours: newHours },
+          create: {
+            consultantId: soft.consultantId,
+            projectId,
+            weekStart: soft.weekStart,
+            hours: newHours,
+            entryType: AllocationEntryType.PROJECTED,
+            notes: soft.notes,
+            createdById: session.user.id,
+          },
+        }),
+        prisma.allocation.delete({ where: { id: soft.id } }),
+        ...allocationHistoryWrites({
+          ...cell,
+          entryType: AllocationEntryType.PROJECTED,
+          oldHours: existing?.hours ?? null,
+          newHours,
+          oldNotes: existing?.notes ?? null,
+          newNotes,
+        }),
+        ...allocationHistoryWrites({
+          ...cell,
+          entryType: AllocationEntryType.TENTATIVE,
+          oldHours: soft.hours,
+          newHours: null,
+          oldNotes: soft.notes,
+          newNotes: null,
+        }),
+      ];
+    }),
+    prisma.project.update({ where: { id: projectId }, data: { winProbability: 100 } }),
+  ]);
+
+  revalidatePath("/projects");
+  revalidatePath("/utilization");
+  return { converted: softBookings.length };
+}
+
 export async function getActiveProjects() {
   const session = await auth();
   if (!session) throw new Error("Unauthorized");
@@ -211,6 +323,7 @@ export async function getActiveProjects() {
       status: true,
       startDate: true,
       endDate: true,
+      winProbability: true,
       projectManager: { select: { name: true } },
     },
   });
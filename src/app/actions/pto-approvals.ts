@@ -0,0 +1,250 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { ApprovalStepApprover, GroupType } from "@prisma/client";
+import { decrypt } from "@/lib/encryption";
+
+const approvalLevelSchema = z.object({
+  approver: z.nativeEnum(ApprovalStepApprover),
+  minDays: z.number().int().min(0, "Must be zero or more"),
+});
+
+export type ApprovalLevelFormData = z.infer<typeof approvalLevelSchema>;
+
+export type ApprovalLevelEntry = ApprovalLevelFormData & {
+  id: string;
+  level: number;
+};
+
+export type ApprovalChainSettings = {
+  levels: ApprovalLevelEntry[];
+  groupLeads: Partial<Record<GroupType, string>>; // group -> consultantId
+  consultants: { id: string; name: string }[];
+};
+
+const delegationSchema = z.object({
+  delegateId: z.string().min(1, "Delegate is required"),
+  startDate: z.string().min(1, "Start date is required"),
+  endDate: z.string().min(1, "End date is required"),
+}).refine((d) => d.endDate >= d.startDate, {
+  message: "End date must be on or after the start date",
+  path: ["endDate"],
+});
+
+export type DelegationFormData = z.infer<typeof delegationSchema>;
+
+export type DelegationEntry = {
+  id: string;
+  consultantName: string; // the delegate for delegations given, the delegator for those received
+  startDate: Date;
+  endDate: Date;
+};
+
+function revalidateApprovalPaths() {
+  revalidatePath("/settings");
+  revalidatePath("/pto");
+}
+
+async function requireAdmin() {
+  const session = await auth();
+  if (!session || session.user.role !== "ADMIN") throw new Error("Unauthorized");
+  return session;
+}
+
+export async function getApprovalChainSettings(): Promise<ApprovalChainSettings> {
+  await requireAdmin();
+
+  const [levels, leads, consultants] = await Promise.all([
+    prisma.pTOApprovalLevel.findMany({ orderBy: { level: "asc" } }),
+    prisma.groupLead.findMany(),
+    prisma.consultant.findMany({ select: { id: true, name: true } }),
+  ]);
+
+  return {
+    levels: levels.map((l) => ({ id: l.id, level: l.level, approver: l.approver, minDays: l.minDays })),
+    groupLeads: Object.fromEntries(leads.map((l) => [l.group, l.consultantId])),
+    consultants: consultants
+      .map((c) => ({ id: c.id, name: decrypt(c.name) }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+  };
+}
+
+export async function createApprovalLevel(data: ApprovalLevelFormData) {
+  await requireAdmin();
+  const validated = approvalLevelSchema.parse(data);
+
+  const last = await prisma.pTOApprovalLevel.findFirst({ orderBy: { level: "desc" } });
+  await prisma.pTOApprovalLevel.create({
+    data: { ...validated, level: (last?.level ?? 0) + 1 },
+  });
+
+  revalidateApprovalPaths();
+}
+
+export async function updateApprovalLevel(id: string, data: ApprovalLevelFormData) {
+  await requireAdmin();
+  const validated = approvalLevelSchema.parse(data);
+
+  await prisma.pTOApprovalLevel.update({ where: { id }, data: validated });
+
+  revalidateApprovalPaths();
+}
+
+/**
+ * Removes a level and closes the gap so the remaining levels stay numbered
+ * 1..n. Requests part-way through the chain pick up the new chain on their
+ * next decision.
+ */
+export async function deleteApprovalLevel(id: string) {
+  await requireAdmin();
+
+  const level = await prisma.pTOApprovalLevel.findUnique({ where: { id } });
+  if (!level) throw new Error("Approval level not found");
+
+  const later = await prisma.pTOApprovalLevel.findMany({
+    where: { level: { gt: level.level } },
+    orderBy: { level: "asc" },
+  });
+
+  await prisma.$transaction([
+    prisma.pTOApprovalLevel.delete({ where: { id } }),
+    ...later.map((l) =>
+      prisma.pTOApprovalLevel.update({ where: { id: l.id }, data: { level: l.level - 1 } })
+    ),
+  ]);
+
+  revalidateApprovalPaths();
+}
+
+/** Swaps a level with its neighbour above (-1) or below (+1). */
+export async function moveApprovalLevel(id: string, direction: -1 | 1) {
+  await requireAdmin();
+
+  const level = await prisma.pTOApprovalLevel.findUnique({ where: { id } });
+  if (!level) throw new Error("Approval level not found");
+
+  const neighbour = await prisma.pTOApprovalLevel.findUnique({
+    where: { level: level.level + direction },
+  });
+  if (!neighbour) return;
+
+  // Park one row on a free number first so the unique constraint holds
+  await prisma.$transaction([
+    prisma.pTOApprovalLevel.update({ where: { id: level.id }, data: { level: 0 } }),
+    prisma.pTOApprovalLevel.update({ where: { id: neighbour.id }, data: { level: level.level } }),
+    prisma.pTOApprovalLevel.update({ where: { id: level.id }, data: { level: neighbour.level } }),
+  ]);
+
+  revalidateApprovalPaths();
+}
+
+export async function setGroupLead(group: GroupType, consultantId: string | null) {
+  await requireAdmin();
+
+  if (consultantId) {
+    await prisma.groupLead.upsert({
+      where: { group },
+      create: { group, consultantId },
+      update: { consultantId },
+    });
+  } else {
+    await prisma.groupLead.deleteMany({ where: { group } });
+  }
+
+  revalidateApprovalPaths();
+}
+
+// ── Delegation ────────────────────────────────────────────────────────────────
+
+async function requireConsultant() {
+  const session = await auth();
+  if (!session) throw new Error("Unauthorized");
+  if (!session.user.consultantId) throw new Error("Your account is not linked to a consultant");
+  return session.user.consultantId;
+}
+
+export async function getMyDelegations(): Promise<{ given: DelegationEntry[]; received: DelegationEntry[] }> {
+  const consultantId = await requireConsultant();
+
+  const [given, received] = await Promise.all([
+    prisma.approvalDelegation.findMany({
+      where: { delegatorId: consultantId },
+      include: { delegate: { select: { name: true } } },
+      orderBy: { startDate: "desc" },
+    }),
+    prisma.approvalDelegation.findMany({
+      where: { delegateId: consultantId },
+      include: { delegator: { select: { name: true } } },
+      orderBy: { startDate: "desc" },
+    }),
+  ]);
+
+  return {
+    given: given.map((d) => ({
+      id: d.id,
+      consultantName: decrypt(d.delegate.name),
+      startDate: d.startDate,
+      endDate: d.endDate,
+    })),
+    received: received.map((d) => ({
+      id: d.id,
+      consultantName: decrypt(d.delegator.name),
+      startDate: d.startDate,
+      endDate: d.endDate,
+    })),
+  };
+}
+
+/** Consultants who can sign in, and so can act as a delegate. */
+export async function getDelegateCandidates(): Promise<{ id: string; name: string }[]> {
+  const consultantId = await requireConsultant();
+
+  const rows = await prisma.consultant.findMany({
+    where: { id: { not: consultantId }, user: { isNot: null } },
+    select: { id: true, name: true },
+  });
+  return rows
+    .map((c) => ({ id: c.id, name: decrypt(c.name) }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function createDelegation(data: DelegationFormData) {
+  const consultantId = await requireConsultant();
+  const validated = delegationSchema.parse(data);
+
+  if (validated.delegateId === consultantId) {
+    throw new Error("You cannot delegate to yourself");
+  }
+  const delegate = await prisma.consultant.findUnique({
+    where: { id: validated.delegateId },
+    select: { user: { select: { id: true } } },
+  });
+  if (!delegate?.user) throw new Error("The delegate must have a user account");
+
+  await prisma.approvalDelegation.create({
+    data: {
+      delegatorId: consultantId,
+      delegateId: validated.delegateId,
+      startDate: new Date(validated.startDate + "T00:00:00Z"),
+      endDate: new Date(validated.endDate + "T00:00:00Z"),
+    },
+  });
+
+  revalidatePath("/profile");
+  revalidatePath("/pto");
+}
+
+export async function deleteDelegation(id: string) {
+  const consultantId = await requireConsultant();
+
+  const { count } = await prisma.approvalDelegation.deleteMany({
+    where: { id, delegatorId: consultantId },
+  });
+  if (count === 0) throw new Error("Delegation not found");
+
+  revalidatePath("/profile");
+  revalidatePath("/pto");
+}
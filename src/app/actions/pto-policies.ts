@@ -0,0 +1,161 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { PTOLedgerEntryType } from "@prisma/client";
+import { syncPTOAccruals } from "@/lib/pto-balance";
+
+const ptoPolicySchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  hoursPerPeriod: z.number().positive("Hours per pay period must be greater than zero"),
+  payPeriodsPerYear: z.union([z.literal(12), z.literal(24), z.literal(26), z.literal(52)]),
+  annualCap: z.number().positive().nullable(),
+  carryoverLimit: z.number().min(0).nullable(),
+});
+
+export type PTOPolicyFormData = z.infer<typeof ptoPolicySchema>;
+
+export type PTOPolicyEntry = PTOPolicyFormData & {
+  id: string;
+  consultantCount: number;
+};
+
+export type PTOLedgerRow = {
+  id: string;
+  type: PTOLedgerEntryType;
+  hours: number;
+  effectiveDate: string;
+  note: string | null;
+  createdBy: string | null;
+  balance: number;
+};
+
+export async function getPTOPolicies(): Promise<PTOPolicyEntry[]> {
+  const session = await auth();
+  if (!session) throw new Error("Unauthorized");
+
+  const policies = await prisma.pTOPolicy.findMany({
+    include: { _count: { select: { consultants: true } } },
+    orderBy: { name: "asc" },
+  });
+
+  return policies.map((p) => ({
+    id: p.id,
+    name: p.name,
+    hoursPerPeriod: p.hoursPerPeriod,
+    payPeriodsPerYear: p.payPeriodsPerYear as PTOPolicyFormData["payPeriodsPerYear"],
+    annualCap: p.annualCap,
+    carryoverLimit: p.carryoverLimit,
+    consultantCount: p._count.consultants,
+  }));
+}
+
+export async function createPTOPolicy(data: PTOPolicyFormData) {
+  const session = await auth();
+  if (!session || session.user.role !== "ADMIN") throw new Error("Unauthorized");
+
+  const validated = ptoPolicySchema.parse(data);
+
+  const existing = await prisma.pTOPolicy.findUnique({ where: { name: validated.name } });
+  if (existing) throw new Error(`A policy named "${validated.name}" already exists`);
+
+  await prisma.pTOPolicy.create({ data: validated });
+
+  revalidatePath("/settings");
+  revalidatePath("/consultants");
+}
+
+export async function updatePTOPolicy(id: string, data: PTOPolicyFormData) {
+  const session = await auth();
+  if (!session || session.user.role !== "ADMIN") throw new Error("Unauthorized");
+
+  const validated = ptoPolicySchema.parse(data);
+
+  const existing = await prisma.pTOPolicy.findUnique({ where: { name: validated.name } });
+  if (existing && existing.id !== id) throw new Error(`A policy named "${validated.name}" already exists`);
+
+  // Post what was earned under the old terms before they change
+  const consultants = await prisma.consultant.findMany({
+    where: { ptoPolicyId: id },
+    select: { id: true },
+  });
+  for (const consultant of consultants) {
+    await syncPTOAccruals(consultant.id);
+  }
+
+  await prisma.pTOPolicy.update({ where: { id }, data: validated });
+
+  revalidatePath("/settings");
+  revalidatePath("/consultants");
+}
+
+export async function deletePTOPolicy(id: string) {
+  const session = await auth();
+  if (!session || session.user.role !== "ADMIN") throw new Error("Unauthorized");
+
+  const policy = await prisma.pTOPolicy.findUnique({
+    where: { id },
+    include: { _count: { select: { consultants: true } } },
+  });
+  if (!policy) throw new Error("Policy not found");
+  if (policy._count.consultants > 0) {
+    throw new Error(`"${policy.name}" is assigned to ${policy._count.consultants} consultant(s)`);
+  }
+
+  await prisma.pTOPolicy.delete({ where: { id } });
+
+  revalidatePath("/settings");
+}
+
+/** Ledger entries for a consultant, oldest first, with the running balance. */
+export async function getPTOLedger(consultantId: string): Promise<PTOLedgerRow[]> {
+  const session = await auth();
+  if (!session || session.user.role !== "ADMIN") throw new Error("Unauthorized");
+
+  await syncPTOAccruals(consultantId);
+
+  const entries = await prisma.pTOLedgerEntry.findMany({
+    where: { consultantId },
+    include: { createdBy: { select: { email: true } } },
+    orderBy: [{ effectiveDate: "asc" }, { createdAt: "asc" }],
+  });
+
+  let balance = 0;
+  return entries.map((e) => {
+    balance += e.hours;
+    return {
+      id: e.id,
+      type: e.type,
+      hours: e.hours,
+      effectiveDate: e.effectiveDate.toISOString().split("T")[0],
+      note: e.note,
+      createdBy: e.createdBy?.email ?? null,
+      balance,
+    };
+  });
+}
+
+export async function adjustPTOBalance(consultantId: string, hours: number, note: string) {
+  const session = await auth();
+  if (!session || session.user.role !== "ADMIN") throw new Error("Unauthorized");
+
+  if (!hours) throw new Error("Adjustment hours are required");
+  if (!note.trim()) throw new Error("A note is required for manual adjustments");
+
+  const now = new Date();
+  await prisma.pTOLedgerEntry.create({
+    data: {
+      consultantId,
+      type: PTOLedgerEntryType.ADJUSTMENT,
+      hours,
+      effectiveDate: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())),
+      note: note.trim(),
+      createdById: session.user.id,
+    },
+  });
+
+  revalidatePath("/consultants");
+  revalidatePath("/pto");
+}
@@ -2,11 +2,39 @@
 
 import { prisma } from "@/lib/prisma";
 import { auth } from "@/lib/auth";
+import type { Session } from "next-auth";
 import { revalidatePath } from "next/cache";
 import { z } from "zod";
-import { PTOStatus, AllocationEntryType } from "@prisma/client";
-import { startOfWeek, eachWeekOfInterval, parseISO, addDays, isAfter } from "date-fns";
-import { decrypt, encrypt } from "@/lib/encryption";
+import {
+  PTOStatus,
+  AllocationEntryType,
+  AllocationChangeSource,
+  PTOLedgerEntryType,
+  LeaveApprovalRule,
+  HolidayCalendar,
+  NotificationType,
+  ApprovalDecision,
+  ApprovalStepApprover,
+  type Consultant,
+  type Prisma,
+  type PTORequest,
+} from "@prisma/client";
+import { startOfWeek, parseISO, isAfter } from "date-fns";
+import { decrypt, decryptNullable, encryptNullable } from "@/lib/encryption";
+import { allocationHistoryWrites } from "@/lib/allocation-history";
+import { ptoWeeklyHours } from "@/lib/pto";
+import { getHolidayDates } from "@/lib/holidays";
+import { getPTOBalance, getPTORequestHours } from "@/lib/pto-balance";
+import { getLeaveBooking, getOrCreateLeaveBooking } from "@/lib/leave-types";
+import { analyzePTOConflicts, type PTOConflictReport } from "@/lib/pto-conflicts";
+import { notify, userIdsForConsultants } from "@/lib/notifications";
+import {
+  authorizeApprovalStep,
+  getActionablePTORequestIds,
+  getPendingApproval,
+  getPendingApprovals,
+  getStepApproverUserIds,
+} from "@/lib/pto-approval";
 
 const ptoSchema = z.object({
   consultantId: z.string().min(1, "Consultant is required"),
@@ -15,10 +43,30 @@ const ptoSchema = z.object({
   allDay: z.boolean(),
   startTime: z.string().optional(),
   endTime: z.string().optional(),
+  leaveTypeId: z.string().optional().nullable(),
 });
 
 export type PTOFormData = z.infer<typeof ptoSchema>;
 
+export type { PTOConflictReport };
+
+export type TimeOffReport = {
+  year: number;
+  columns: Array<{ key: string; name: string }>;
+  rows: Array<{
+    consultantId: string;
+    consultantName: string;
+    hours: Record<string, number>;
+    total: number;
+  }>;
+};
+
+export type PTOBalancePreview = {
+  balance: number;
+  requestHours: number;
+  projectedBalance: number;
+};
+
 export async function getPTORequests(filters?: {
   status?: PTOStatus;
   consultantId?: string;
@@ -28,10 +76,7 @@ export async function getPTORequests(filters?: {
     throw new Error("Unauthorized");
   }
 
-  const where: {
-    status?: PTOStatus;
-    consultantId?: string | { in: string[] };
-  } = {};
+  const where: Prisma.PTORequestWhereInput = {};
 
   // Filter by status if provided
   if (filters?.status) {
@@ -66,23 +111,86 @@ export async function getPTORequests(filters?: {
     where.consultantId = filters.consultantId;
   }
 
+  // Requests waiting on the user as group lead, chain approver or delegate
+  const approver = await currentApprover(session);
+  const actionableIds = session.user.role === "ADMIN" || filters?.consultantId
+    ? []
+    : await getActionablePTORequestIds(approver);
+
   const requests = await prisma.pTORequest.findMany({
-    where,
+    where: actionableIds.length > 0
+      ? { OR: [where, { id: { in: actionableIds }, ...(filters?.status && { status: filters.status }) }] }
+      : where,
     include: {
       consultant: {
-        select: { id: true, name: true },
+        select: { id: true, name: true, holidayCalendar: true },
       },
       approvedBy: {
         select: { id: true, email: true },
       },
+      leaveType: {
+        select: { id: true, name: true, deductsFromBalance: true },
+      },
+      approvalSteps: {
+        include: {
+          decidedBy: { select: { email: true } },
+          onBehalfOf: { select: { name: true } },
+        },
+        orderBy: { createdAt: "asc" },
+      },
     },
     orderBy: { createdAt: "desc" },
   });
 
-  return requests.map((r) => ({
-    ...r,
-    consultant: { ...r.consultant, name: decrypt(r.consultant.name) },
-  }));
+  // Pending requests show the balance approving them would leave
+  const balances = new Map<string, number | null>();
+  for (const r of requests) {
+    if (r.status === PTOStatus.PENDING && !balances.has(r.consultantId)) {
+      balances.set(r.consultantId, await getPTOBalance(r.consultantId));
+    }
+  }
+
+  // Chains, and the holidays that price each request, are resolved for all
+  // pending requests at once
+  const pendingRequests = requests.filter(r => r.status === PTOStatus.PENDING);
+  const approvals = await getPendingApprovals(pendingRequests, approver);
+  const holidaysByCalendar = new Map<HolidayCalendar, Set<string>>();
+  if (pendingRequests.length > 0) {
+    const start = new Date(Math.min(...pendingRequests.map(r => r.startDate.getTime())));
+    const end = new Date(Math.max(...pendingRequests.map(r => r.endDate.getTime())));
+    for (const calendar of new Set(pendingRequests.map(r => r.consultant.holidayCalendar))) {
+      holidaysByCalendar.set(calendar, await getHolidayDates(calendar, start, end));
+    }
+  }
+
+  return requests.map((r) => {
+    const balance = balances.get(r.consultantId) ?? null;
+    const pending = r.status === PTOStatus.PENDING ? approvals.get(r.id) ?? null : null;
+    return {
+      ...r,
+      consultant: { id: r.consultant.id, name: decrypt(r.consultant.name) },
+      approvalSteps: r.approvalSteps.map(step => ({
+        id: step.id,
+        level: step.level,
+        approver: step.approver,
+        decision: step.decision,
+        decidedBy: step.decidedBy?.email ?? null,
+        onBehalfOf: step.onBehalfOf ? decrypt(step.onBehalfOf.name) : null,
+        comment: decryptNullable(step.comment),
+        createdAt: step.createdAt,
+      })),
+      approval: pending && {
+        step: pending.index + 1,
+        total: pending.total,
+        approver: pending.step.approver,
+        canAct: (r.consultantId !== approver.consultantId || session.user.role === "ADMIN") && pending.canDecide,
+      },
+      balanceAfter: r.status === PTOStatus.PENDING && balance !== null && (r.leaveType?.deductsFromBalance ?? true)
+        ? balance - ptoWeeklyHours(r, holidaysByCalendar.get(r.consultant.holidayCalendar))
+            .reduce((sum, week) => sum + week.hours, 0)
+        : null,
+    };
+  });
 }
 
 export async function getPTORequest(id: string) {
@@ -133,9 +241,17 @@ export async function createPTORequest(data: PTOFormData) {
     }
   }
 
+  const leaveType = validated.leaveTypeId
+    ? await prisma.leaveType.findUnique({ where: { id: validated.leaveTypeId } })
+    : null;
+  if (validated.leaveTypeId && !leaveType?.active) {
+    throw new Error("Leave type is not available");
+  }
+
   const pto = await prisma.pTORequest.create({
     data: {
       consultantId: validated.consultantId,
+      leaveTypeId: leaveType?.id ?? null,
       startDate: new Date(validated.startDate + "T12:00:00Z"),
       endDate: new Date(validated.endDate + "T12:00:00Z"),
       allDay: validated.allDay,
@@ -143,8 +259,13 @@ export async function createPTORequest(data: PTOFormData) {
       endTime: validated.allDay ? null : validated.endTime,
       status: PTOStatus.PENDING,
     },
+    include: { consultant: true },
   });
 
+  if (leaveType?.approvalRule === LeaveApprovalRule.AUTO) {
+    return bookApprovedPTO(pto, session.user.id, null);
+  }
+
   // Auto-approve for admin users with no manager submitting for themselves.
   // Look up consultantId from DB since the JWT may be stale.
   if (session.user.role === "ADMIN") {
@@ -163,13 +284,80 @@ export async function createPTORequest(data: PTOFormData) {
     }
   }
 
+  const firstStep = await getPendingApproval(pto);
+  await notify(firstStep ? await getStepApproverUserIds(firstStep.step) : [], {
+    type: NotificationType.PTO_SUBMITTED,
+    consultantName: decrypt(pto.consultant.name),
+    ...(await ptoNotificationFields(pto)),
+  }, session.user.id);
+
   revalidatePath("/pto");
   return pto;
 }
 
-export async function approvePTORequest(id: string) {
+/** Request details shared by the PTO notifications. */
+async function ptoNotificationFields(pto: PTORequest) {
+  const leaveType = pto.leaveTypeId
+    ? await prisma.leaveType.findUnique({ where: { id: pto.leaveTypeId }, select: { name: true } })
+    : null;
+  return {
+    ptoRequestId: pto.id,
+    leaveType: leaveType?.name ?? "PTO",
+    startDate: pto.startDate,
+    endDate: pto.endDate,
+  };
+}
+
+export type PTOBulkResult = {
+  succeeded: string[];
+  failed: Array<{ id: string; error: string }>;
+};
+
+/** A decision comment, or null when left blank. */
+function normalizeComment(comment: string | null | undefined): string | null {
+  return comment?.trim() || null;
+}
+
+/** The acting user as an approver. consultantId comes from the DB since the JWT may be stale. */
+async function currentApprover(session: Session) {
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { consultantId: true },
+  });
+  return { userId: session.user.id, role: session.user.role, consultantId: user?.consultantId ?? null };
+}
+
+/**
+ * The step recording an admin's decision on a request with no step left in
+ * its chain (e.g. a level was removed mid-chain), so the comment is kept.
+ */
+async function adminDecisionStep(
+  ptoRequestId: string,
+  decision: ApprovalDecision,
+  userId: string,
+  comment: string | null
+): Promise<Prisma.PTOApprovalStepUncheckedCreateInput> {
+  const last = await prisma.pTOApprovalStep.findFirst({
+    where: { ptoRequestId },
+    orderBy: { level: "desc" },
+    select: { level: true },
+  });
+  return {
+    ptoRequestId,
+    level: (last?.level ?? 0) + 1,
+    approver: ApprovalStepApprover.ADMIN,
+    decision,
+    decidedById: userId,
+    comment: encryptNullable(comment),
+  };
+}
+
+export async function approvePTORequest(
+  id: string,
+  options: { reduceProjected?: boolean; comment?: string | null } = {}
+) {
   const session = await auth();
-  if (!session || !["ADMIN", "MANAGER"].includes(session.user.role)) {
+  if (!session) {
     throw new Error("Unauthorized");
   }
 
@@ -182,18 +370,14 @@ export async function approvePTORequest(id: string) {
     throw new Error("PTO request not found");
   }
 
-  // Prevent self-approval unless the approver is an admin with no manager.
-  // Look up consultantId from DB since the JWT may be stale.
-  const approverUser = await prisma.user.findUnique({
-    where: { id: session.user.id },
-    select: { consultantId: true },
-  });
-  if (approverUser?.consultantId && pto.consultantId === approverUser.consultantId) {
+  // Prevent self-approval unless the approver is an admin with no manager
+  const approver = await currentApprover(session);
+  if (approver.consultantId && pto.consultantId === approver.consultantId) {
     if (session.user.role !== "ADMIN") {
       throw new Error("You cannot approve your own PTO request");
     }
     const selfConsultant = await prisma.consultant.findUnique({
-      where: { id: approverUser.consultantId },
+      where: { id: approver.consultantId },
       select: { managerId: true },
     });
     if (selfConsultant?.managerId) {
@@ -201,92 +385,141 @@ export async function approvePTORequest(id: string) {
     }
   }
 
-  if (session.user.role === "MANAGER") {
-    const consultant = await prisma.consultant.findUnique({
-      where: { id: pto.consultantId },
-      select: { managerId: true },
-    });
-    if (consultant?.managerId !== session.user.consultantId) {
-      throw new Error("You can only approve PTO for your direct reports");
-    }
-  }
-
   if (pto.status !== PTOStatus.PENDING) {
     throw new Error("PTO request is not pending");
   }
 
-  // Find or create a PTO project (timecode is encrypted; scan all and match after decryption)
-  const PTO_TIMECODE = "INT-PTO-001";
-  const allProjects = await prisma.project.findMany({
-    select: { id: true, timecode: true, client: true, projectName: true },
-  });
-  let ptoProject = allProjects.find((p) => {
-    try { return p.timecode && decrypt(p.timecode) === PTO_TIMECODE; } catch { return false; }
-  }) ?? null;
-
-  if (!ptoProject) {
-    ptoProject = await prisma.project.create({
-      data: {
-        client: encrypt("Internal"),
-        projectName: encrypt("PTO"),
-        timecode: encrypt(PTO_TIMECODE),
-        type: "ASSIGNED",
-        status: "ACTIVE",
-      },
+  const comment = normalizeComment(options.comment);
+  const pending = await getPendingApproval(pto);
+  if (!pending) {
+    // Every level of the chain has signed off (e.g. a level was removed
+    // mid-chain); only an admin can finalize it
+    if (session.user.role !== "ADMIN") {
+      throw new Error("You are not an approver for this step of the request");
+    }
+    await prisma.pTOApprovalStep.create({
+      data: await adminDecisionStep(pto.id, ApprovalDecision.APPROVED, session.user.id, comment),
     });
+    return bookApprovedPTO(pto, session.user.id, session.user.id, { ...options, comment });
   }
 
-  // Calculate PTO hours and create allocations
-  const weeks = eachWeekOfInterval(
-    { start: pto.startDate, end: pto.endDate },
-    { weekStartsOn: 0 }
-  );
+  const authorization = await authorizeApprovalStep(approver, pending.step);
+  if (!authorization) {
+    throw new Error("You are not an approver for this step of the request");
+  }
 
-  let hoursPerDay = 8; // Default for all-day PTO
+  await prisma.pTOApprovalStep.create({
+    data: {
+      ptoRequestId: pto.id,
+      level: pending.step.level,
+      approver: pending.step.approver,
+      decision: ApprovalDecision.APPROVED,
+      decidedById: session.user.id,
+      onBehalfOfId: authorization.onBehalfOfId,
+      comment: encryptNullable(comment),
+    },
+  });
+
+  const next = await getPendingApproval(pto);
+  if (next) {
+    await notify(await getStepApproverUserIds(next.step), {
+      type: NotificationType.PTO_SUBMITTED,
+      consultantName: decrypt(pto.consultant.name),
+      ...(await ptoNotificationFields(pto)),
+    }, session.user.id);
 
-  if (!pto.allDay && pto.startTime && pto.endTime) {
-    // Calculate hours from time range
-    const [startHour, startMin] = pto.startTime.split(":").map(Number);
-    const [endHour, endMin] = pto.endTime.split(":").map(Number);
-    hoursPerDay = endHour - startHour + (endMin - startMin) / 60;
+    revalidatePath("/pto");
+    return prisma.pTORequest.findUniqueOrThrow({ where: { id: pto.id } });
   }
 
-  // Count business days in the PTO range
-  let currentDate = new Date(pto.startDate);
-  const endDate = new Date(pto.endDate);
-  let totalDays = 0;
+  return bookApprovedPTO(pto, session.user.id, session.user.id, { ...options, comment });
+}
 
-  while (currentDate <= endDate) {
-    const dayOfWeek = currentDate.getDay();
-    if (dayOfWeek !== 0 && dayOfWeek !== 6) {
-      // Not weekend
-      totalDays++;
-    }
-    currentDate = addDays(currentDate, 1);
+/**
+ * Projected work a pending request collides with, for the approve dialog.
+ */
+export async function getPTOConflicts(id: string): Promise<PTOConflictReport> {
+  const session = await auth();
+  if (!session) {
+    throw new Error("Unauthorized");
   }
 
-  const totalPTOHours = totalDays * hoursPerDay;
+  const pto = await prisma.pTORequest.findUnique({
+    where: { id },
+    include: { consultant: true },
+  });
+  if (!pto) {
+    throw new Error("PTO request not found");
+  }
 
-  // Create allocation entries for each week
-  const currentWeekStart = startOfWeek(new Date(), { weekStartsOn: 0 });
+  const pending = await getPendingApproval(pto);
+  const canReview = session.user.role === "ADMIN" ||
+    (pending && await authorizeApprovalStep(await currentApprover(session), pending.step));
+  if (!canReview) {
+    throw new Error("You can only review PTO you are asked to approve");
+  }
 
-  for (const weekStart of weeks) {
-    // Calculate hours for this specific week
-    const weekEnd = addDays(weekStart, 6);
-    let weekDays = 0;
-    let checkDate = new Date(Math.max(weekStart.getTime(), pto.startDate.getTime()));
-    const weekEndDate = new Date(Math.min(weekEnd.getTime(), pto.endDate.getTime()));
-
-    while (checkDate <= weekEndDate) {
-      const dayOfWeek = checkDate.getDay();
-      if (dayOfWeek !== 0 && dayOfWeek !== 6) {
-        weekDays++;
-      }
-      checkDate = addDays(checkDate, 1);
+  const { report } = await analyzePTOConflicts(pto);
+  return report;
+}
+
+/**
+ * Books an approved request's hours to its leave project and debits the
+ * balance. `approvedById` is null when the leave type approves automatically.
+ * With `reduceProjected`, colliding projected work is first cut back so the
+ * affected weeks stay within capacity, and the cuts are recorded so
+ * cancelling the request restores them. A `comment` is passed on to the
+ * requester's notification.
+ */
+async function bookApprovedPTO(
+  pto: PTORequest & { consultant: Consultant },
+  actorId: string,
+  approvedById: string | null,
+  { reduceProjected = false, comment = null }: { reduceProjected?: boolean; comment?: string | null } = {}
+) {
+  const { projectId, deductsFromBalance } = await getOrCreateLeaveBooking(pto.leaveTypeId);
+
+  if (reduceProjected) {
+    const { reductions } = await analyzePTOConflicts(pto);
+    for (const r of reductions) {
+      const history = allocationHistoryWrites({
+        consultantId: pto.consultantId,
+        projectId: r.projectId,
+        weekStart: r.weekStart,
+        entryType: AllocationEntryType.PROJECTED,
+        oldHours: r.hours,
+        newHours: r.newHours === 0 ? null : r.newHours,
+        oldNotes: r.notes,
+        newNotes: r.newHours === 0 ? null : r.notes,
+        source: AllocationChangeSource.PTO_APPROVAL,
+        changedById: actorId,
+      });
+      await prisma.$transaction([
+        r.newHours === 0
+          ? prisma.allocation.delete({ where: { id: r.id } })
+          : prisma.allocation.update({ where: { id: r.id }, data: { hours: r.newHours } }),
+        ...history,
+        prisma.pTOAllocationAdjustment.create({
+          data: {
+            ptoRequestId: pto.id,
+            projectId: r.projectId,
+            weekStart: r.weekStart,
+            entryType: AllocationEntryType.PROJECTED,
+            hours: r.newHours - r.hours,
+            notes: r.notes,
+          },
+        }),
+      ]);
     }
+  }
 
-    const weekHours = weekDays * hoursPerDay;
+  // Create allocation entries for each week; company holidays are not charged
+  const currentWeekStart = startOfWeek(new Date(), { weekStartsOn: 0 });
+  const holidays = await getHolidayDates(pto.consultant.holidayCalendar, pto.startDate, pto.endDate);
+  let totalHours = 0;
 
+  for (const { weekStart, hours: weekHours } of ptoWeeklyHours(pto, holidays)) {
+    totalHours += weekHours;
     if (weekHours > 0) {
       // Future weeks: use PROJECTED so they appear in the utilization planning grid.
       // Past/current weeks: use ACTUAL.
@@ -294,53 +527,104 @@ export async function approvePTORequest(id: string) {
         ? AllocationEntryType.PROJECTED
         : AllocationEntryType.ACTUAL;
 
-      await prisma.allocation.upsert({
-        where: {
-          consultantId_projectId_weekStart_entryType: {
+      const wsDate = startOfWeek(weekStart, { weekStartsOn: 0 });
+      const where = {
+        consultantId_projectId_weekStart_entryType: {
+          consultantId: pto.consultantId,
+          projectId,
+          weekStart: wsDate,
+          entryType,
+        },
+      };
+      const existing = await prisma.allocation.findUnique({
+        where,
+        select: { hours: true, notes: true },
+      });
+      const notes = pto.allDay
+        ? `PTO: ${pto.startDate.toLocaleDateString()} - ${pto.endDate.toLocaleDateString()}`
+        : `PTO: ${pto.startDate.toLocaleDateString()} - ${pto.endDate.toLocaleDateString()} (${pto.startTime} - ${pto.endTime})`;
+
+      await prisma.$transaction([
+        prisma.allocation.upsert({
+          where,
+          update: {
+            hours: { increment: weekHours },
+          },
+          create: {
             consultantId: pto.consultantId,
-            projectId: ptoProject.id,
-            weekStart: startOfWeek(weekStart, { weekStartsOn: 0 }),
+            projectId,
+            weekStart: wsDate,
+            hours: weekHours,
             entryType,
+            notes,
+            createdById: actorId,
           },
-        },
-        update: {
-          hours: { increment: weekHours },
-        },
-        create: {
+        }),
+        ...allocationHistoryWrites({
           consultantId: pto.consultantId,
-          projectId: ptoProject.id,
-          weekStart: startOfWeek(weekStart, { weekStartsOn: 0 }),
-          hours: weekHours,
+          projectId,
+          weekStart: wsDate,
           entryType,
-          notes: pto.allDay
-            ? `PTO: ${pto.startDate.toLocaleDateString()} - ${pto.endDate.toLocaleDateString()}`
-            : `PTO: ${pto.startDate.toLocaleDateString()} - ${pto.endDate.toLocaleDateString()} (${pto.startTime} - ${pto.endTime})`,
-          createdById: session.user.id,
-        },
-      });
+          oldHours: existing?.hours ?? null,
+          newHours: (existing?.hours ?? 0) + weekHours,
+          oldNotes: existing?.notes ?? null,
+          newNotes: existing ? existing.notes : notes,
+          source: AllocationChangeSource.PTO_APPROVAL,
+          changedById: actorId,
+        }),
+        prisma.pTOAllocationAdjustment.create({
+          data: { ptoRequestId: pto.id, projectId, weekStart: wsDate, entryType, hours: weekHours },
+        }),
+      ]);
     }
   }
 
-  // Update PTO status
-  const updatedPTO = await prisma.pTORequest.update({
-    where: { id },
-    data: {
-      status: PTOStatus.APPROVED,
-      approvedById: session.user.id,
-    },
-  });
+  // Update PTO status and debit the balance of consultants on an accrual policy,
+  // unless the leave type is tracked outside the balance
+  const [updatedPTO] = await prisma.$transaction([
+    prisma.pTORequest.update({
+      where: { id: pto.id },
+      data: {
+        status: PTOStatus.APPROVED,
+        approvedById,
+      },
+    }),
+    ...(deductsFromBalance && pto.consultant.ptoPolicyId && totalHours > 0
+      ? [prisma.pTOLedgerEntry.create({
+          data: {
+            consultantId: pto.consultantId,
+            type: PTOLedgerEntryType.USAGE,
+            hours: -totalHours,
+            effectiveDate: pto.startDate,
+            ptoRequestId: pto.id,
+            createdById: actorId,
+          },
+        })]
+      : []),
+  ]);
+
+  await notify(await userIdsForConsultants([pto.consultantId]), {
+    type: NotificationType.PTO_APPROVED,
+    ...(await ptoNotificationFields(pto)),
+    comment,
+  }, actorId);
 
   revalidatePath("/pto");
   revalidatePath("/utilization");
   return updatedPTO;
 }
 
-export async function denyPTORequest(id: string) {
+export async function denyPTORequest(id: string, reason: string) {
   const session = await auth();
-  if (!session || !["ADMIN", "MANAGER"].includes(session.user.role)) {
+  if (!session) {
     throw new Error("Unauthorized");
   }
 
+  const comment = normalizeComment(reason);
+  if (!comment) {
+    throw new Error("A reason is required to deny a request");
+  }
+
   const pto = await prisma.pTORequest.findUnique({
     where: { id },
   });
@@ -349,32 +633,140 @@ export async function denyPTORequest(id: string) {
     throw new Error("PTO request not found");
   }
 
-  if (session.user.role === "MANAGER") {
-    const consultant = await prisma.consultant.findUnique({
-      where: { id: pto.consultantId },
-      select: { managerId: true },
-    });
-    if (consultant?.managerId !== session.user.consultantId) {
-      throw new Error("You can only deny PTO for your direct reports");
-    }
-  }
-
   if (pto.status !== PTOStatus.PENDING) {
     throw new Error("PTO request is not pending");
   }
 
-  const updatedPTO = await prisma.pTORequest.update({
-    where: { id },
-    data: {
-      status: PTOStatus.DENIED,
-      approvedById: session.user.id,
-    },
-  });
+  const pending = await getPendingApproval(pto);
+  const authorization = pending
+    ? await authorizeApprovalStep(await currentApprover(session), pending.step)
+    : session.user.role === "ADMIN" ? { onBehalfOfId: null } : null;
+  if (!authorization) {
+    throw new Error("You are not an approver for this step of the request");
+  }
+  const step: Prisma.PTOApprovalStepUncheckedCreateInput = pending
+    ? {
+        ptoRequestId: pto.id,
+        level: pending.step.level,
+        approver: pending.step.approver,
+        decision: ApprovalDecision.DENIED,
+        decidedById: session.user.id,
+        onBehalfOfId: authorization.onBehalfOfId,
+        comment: encryptNullable(comment),
+      }
+    : await adminDecisionStep(pto.id, ApprovalDecision.DENIED, session.user.id, comment);
+
+  const [updatedPTO] = await prisma.$transaction([
+    prisma.pTORequest.update({
+      where: { id },
+      data: {
+        status: PTOStatus.DENIED,
+        approvedById: session.user.id,
+      },
+    }),
+    prisma.pTOApprovalStep.create({ data: step }),
+  ]);
+
+  await notify(await userIdsForConsultants([pto.consultantId]), {
+    type: NotificationType.PTO_DENIED,
+    ...(await ptoNotificationFields(pto)),
+    comment,
+  }, session.user.id);
 
   revalidatePath("/pto");
   return updatedPTO;
 }
 
+/**
+ * Applies the same decision to several requests. Each request is decided on
+ * its own, so one the user can't act on (or that was decided in the meantime)
+ * is reported back without stopping the rest.
+ */
+async function decidePTORequests(
+  ids: string[],
+  decide: (id: string) => Promise<unknown>
+): Promise<PTOBulkResult> {
+  const result: PTOBulkResult = { succeeded: [], failed: [] };
+  for (const id of [...new Set(ids)]) {
+    try {
+      await decide(id);
+      result.succeeded.push(id);
+    } catch (err) {
+      result.failed.push({ id, error: err instanceof Error ? err.message : "Failed to update request" });
+    }
+  }
+  return result;
+}
+
+export async function bulkApprovePTORequests(ids: string[], comment?: string | null): Promise<PTOBulkResult> {
+  const session = await auth();
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  return decidePTORequests(ids, (id) => approvePTORequest(id, { comment }));
+}
+
+export async function bulkDenyPTORequests(ids: string[], reason: string): Promise<PTOBulkResult> {
+  const session = await auth();
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+  if (!normalizeComment(reason)) {
+    throw new Error("A reason is required to deny a request");
+  }
+
+  return decidePTORequests(ids, (id) => denyPTORequest(id, reason));
+}
+
+/**
+ * Balance a consultant would be left with if the given dates were approved,
+ * or null when the consultant is not on an accrual policy or the leave type
+ * does not draw on the balance.
+ */
+export async function getPTOBalancePreview(data: PTOFormData): Promise<PTOBalancePreview | null> {
+  const session = await auth();
+  if (!session) throw new Error("Unauthorized");
+
+  const validated = ptoSchema.parse(data);
+
+  const consultant = await prisma.consultant.findUnique({
+    where: { id: validated.consultantId },
+    select: { id: true, managerId: true, holidayCalendar: true },
+  });
+  if (!consultant) throw new Error("Consultant not found");
+
+  if (session.user.role !== "ADMIN" && consultant.id !== session.user.consultantId) {
+    if (session.user.role === "EMPLOYEE" || consultant.managerId !== session.user.consultantId) {
+      throw new Error("Unauthorized");
+    }
+  }
+
+  if (validated.leaveTypeId) {
+    const leaveType = await prisma.leaveType.findUnique({
+      where: { id: validated.leaveTypeId },
+      select: { deductsFromBalance: true },
+    });
+    if (!leaveType?.deductsFromBalance) return null;
+  }
+
+  const balance = await getPTOBalance(consultant.id);
+  if (balance === null) return null;
+
+  const requestHours = await getPTORequestHours(
+    {
+      startDate: new Date(validated.startDate + "T12:00:00Z"),
+      endDate: new Date(validated.endDate + "T12:00:00Z"),
+      allDay: validated.allDay,
+      startTime: validated.allDay ? null : validated.startTime ?? null,
+      endTime: validated.allDay ? null : validated.endTime ?? null,
+    },
+    consultant.holidayCalendar
+  );
+
+  return { balance, requestHours, projectedBalance: balance - requestHours };
+}
+
 export async function getConsultantsForPTO() {
   const session = await auth();
   if (!session) throw new Error("Unauthorized");
@@ -435,14 +827,57 @@ export async function getPendingPTOCount(): Promise<number> {
   }
   // ADMIN: no consultantId filter → all pending
 
+  if (session.user.role !== "ADMIN") {
+    const actionableIds = await getActionablePTORequestIds({
+      userId: session.user.id,
+      role: session.user.role,
+      consultantId: session.user.consultantId,
+    });
+    if (actionableIds.length > 0) {
+      return prisma.pTORequest.count({ where: { OR: [where, { id: { in: actionableIds } }] } });
+    }
+  }
+
   return prisma.pTORequest.count({ where });
 }
 
+/**
+ * The leave hours approving a request booked, per allocation cell, as
+ * recorded at approval so later holiday changes don't alter them. Requests
+ * approved before bookings were recorded fall back to recomputing them.
+ */
+async function bookedPTOHours(pto: PTORequest & { consultant: { holidayCalendar: HolidayCalendar } }) {
+  const recorded = await prisma.pTOAllocationAdjustment.findMany({
+    where: { ptoRequestId: pto.id, hours: { gt: 0 } },
+    select: { projectId: true, weekStart: true, entryType: true, hours: true },
+  });
+  if (recorded.length > 0) return recorded;
+
+  const booking = await getLeaveBooking(pto.leaveTypeId);
+  if (!booking) return [];
+  const currentWeekStart = startOfWeek(new Date(), { weekStartsOn: 0 });
+  const holidays = await getHolidayDates(pto.consultant.holidayCalendar, pto.startDate, pto.endDate);
+  return ptoWeeklyHours(pto, holidays)
+    .filter(week => week.hours > 0)
+    .map(week => {
+      const weekStart = startOfWeek(week.weekStart, { weekStartsOn: 0 });
+      return {
+        projectId: booking.projectId,
+        weekStart,
+        entryType: isAfter(weekStart, currentWeekStart) ? AllocationEntryType.PROJECTED : AllocationEntryType.ACTUAL,
+        hours: week.hours,
+      };
+    });
+}
+
 export async function cancelPTORequest(id: string) {
   const session = await auth();
   if (!session) throw new Error("Unauthorized");
 
-  const pto = await prisma.pTORequest.findUnique({ where: { id } });
+  const pto = await prisma.pTORequest.findUnique({
+    where: { id },
+    include: { consultant: { select: { holidayCalendar: true } } },
+  });
   if (!pto) throw new Error("PTO request not found");
 
   if (pto.status === PTOStatus.DENIED || pto.status === PTOStatus.CANCELLED) {
@@ -466,80 +901,199 @@ export async function cancelPTORequest(id: string) {
     }
   }
 
-  // If the request was approved, reverse its allocations from utilization
+  // If the request was approved, take the hours it booked back off utilization
   if (pto.status === PTOStatus.APPROVED) {
-    const PTO_TIMECODE = "INT-PTO-001";
-    const allProjects = await prisma.project.findMany({
-      select: { id: true, timecode: true },
-    });
-    const ptoProject = allProjects.find((p) => {
-      try { return p.timecode && decrypt(p.timecode) === PTO_TIMECODE; } catch { return false; }
-    }) ?? null;
-
-    if (ptoProject) {
-      let hoursPerDay = 8;
-      if (!pto.allDay && pto.startTime && pto.endTime) {
-        const [sh, sm] = pto.startTime.split(":").map(Number);
-        const [eh, em] = pto.endTime.split(":").map(Number);
-        hoursPerDay = eh - sh + (em - sm) / 60;
-      }
-
-      const weeks = eachWeekOfInterval(
-        { start: pto.startDate, end: pto.endDate },
-        { weekStartsOn: 0 }
-      );
-      const currentWeekStart = startOfWeek(new Date(), { weekStartsOn: 0 });
-
-      for (const weekStart of weeks) {
-        const weekEnd = addDays(weekStart, 6);
-        let weekDays = 0;
-        let checkDate = new Date(Math.max(weekStart.getTime(), pto.startDate.getTime()));
-        const weekEndDate = new Date(Math.min(weekEnd.getTime(), pto.endDate.getTime()));
-        while (checkDate <= weekEndDate) {
-          const dow = checkDate.getDay();
-          if (dow !== 0 && dow !== 6) weekDays++;
-          checkDate = addDays(checkDate, 1);
-        }
-
-        const weekHours = weekDays * hoursPerDay;
-        if (weekHours <= 0) continue;
-
-        const wsDate = startOfWeek(weekStart, { weekStartsOn: 0 });
-        const entryType = isAfter(wsDate, currentWeekStart)
-          ? AllocationEntryType.PROJECTED
-          : AllocationEntryType.ACTUAL;
-
-        const existing = await prisma.allocation.findUnique({
-          where: {
-            consultantId_projectId_weekStart_entryType: {
-              consultantId: pto.consultantId,
-              projectId: ptoProject.id,
-              weekStart: wsDate,
-              entryType,
-            },
+    for (const booked of await bookedPTOHours(pto)) {
+      const existing = await prisma.allocation.findUnique({
+        where: {
+          consultantId_projectId_weekStart_entryType: {
+            consultantId: pto.consultantId,
+            projectId: booked.projectId,
+            weekStart: booked.weekStart,
+            entryType: booked.entryType,
           },
-        });
+        },
+      });
 
-        if (existing) {
-          const newHours = Math.max(0, existing.hours - weekHours);
-          if (newHours === 0) {
-            await prisma.allocation.delete({ where: { id: existing.id } });
-          } else {
-            await prisma.allocation.update({
+      if (existing) {
+        const newHours = Math.max(0, existing.hours - booked.hours);
+        const history = allocationHistoryWrites({
+          consultantId: pto.consultantId,
+          projectId: booked.projectId,
+          weekStart: booked.weekStart,
+          entryType: booked.entryType,
+          oldHours: existing.hours,
+          newHours: newHours === 0 ? null : newHours,
+          oldNotes: existing.notes,
+          newNotes: newHours === 0 ? null : existing.notes,
+          source: AllocationChangeSource.PTO_CANCELLATION,
+          changedById: session.user.id,
+        });
+        if (newHours === 0) {
+          await prisma.$transaction([
+            prisma.allocation.delete({ where: { id: existing.id } }),
+            ...history,
+          ]);
+        } else {
+          await prisma.$transaction([
+            prisma.allocation.update({
               where: { id: existing.id },
               data: { hours: newHours },
-            });
-          }
+            }),
+            ...history,
+          ]);
         }
       }
     }
   }
 
-  await prisma.pTORequest.update({
-    where: { id },
-    data: { status: PTOStatus.CANCELLED },
+  // Give back the projected work the approval cut to make room for the leave
+  const adjustments = pto.status === PTOStatus.APPROVED
+    ? await prisma.pTOAllocationAdjustment.findMany({ where: { ptoRequestId: id, hours: { lt: 0 } } })
+    : [];
+  for (const adjustment of adjustments) {
+    const where = {
+      consultantId_projectId_weekStart_entryType: {
+        consultantId: pto.consultantId,
+        projectId: adjustment.projectId,
+        weekStart: adjustment.weekStart,
+        entryType: adjustment.entryType,
+      },
+    };
+    const existing = await prisma.allocation.findUnique({ where, select: { hours: true, notes: true } });
+    const restored = (existing?.hours ?? 0) - adjustment.hours;
+    await prisma.$transaction([
+      prisma.allocation.upsert({
+        where,
+        update: { hours: restored },
+        create: {
+          consultantId: pto.consultantId,
+          projectId: adjustment.projectId,
+          weekStart: adjustment.weekStart,
+          hours: restored,
+          entryType: adjustment.entryType,
+          notes: adjustment.notes,
+          createdById: session.user.id,
+        },
+      }),
+      ...allocationHistoryWrites({
+        consultantId: pto.consultantId,
+        projectId: adjustment.projectId,
+        weekStart: adjustment.weekStart,
+        entryType: adjustment.entryType,
+        oldHours: existing?.hours ?? null,
+        newHours: restored,
+        oldNotes: existing?.notes ?? null,
+        newNotes: existing ? existing.notes : adjustment.notes,
+        source: AllocationChangeSource.PTO_CANCELLATION,
+        changedById: session.user.id,
+      }),
+    ]);
+  }
+
+  // Credit back whatever the approval debited from the balance
+  const { _sum } = await prisma.pTOLedgerEntry.aggregate({
+    where: { ptoRequestId: id },
+    _sum: { hours: true },
   });
+  const debited = -(_sum.hours ?? 0);
+
+  await prisma.$transaction([
+    prisma.pTORequest.update({
+      where: { id },
+      data: { status: PTOStatus.CANCELLED },
+    }),
+    ...(debited > 0
+      ? [prisma.pTOLedgerEntry.create({
+          data: {
+            consultantId: pto.consultantId,
+            type: PTOLedgerEntryType.REVERSAL,
+            hours: debited,
+            effectiveDate: pto.startDate,
+            ptoRequestId: pto.id,
+            createdById: session.user.id,
+          },
+        })]
+      : []),
+  ]);
 
   revalidatePath("/pto");
   revalidatePath("/utilization");
 }
+
+/** Hours of approved time off per consultant and leave type in a calendar year. */
+export async function getTimeOffReport(year: number): Promise<TimeOffReport> {
+  const session = await auth();
+  if (!session) throw new Error("Unauthorized");
+
+  let consultantFilter: { in: string[] } | undefined;
+  if (session.user.role !== "ADMIN") {
+    if (!session.user.consultantId) return { year, columns: [], rows: [] };
+    const directReports = session.user.role === "MANAGER"
+      ? await prisma.consultant.findMany({
+          where: { managerId: session.user.consultantId },
+          select: { id: true },
+        })
+      : [];
+    consultantFilter = { in: [session.user.consultantId, ...directReports.map(c => c.id)] };
+  }
+
+  const yearStart = new Date(Date.UTC(year, 0, 1));
+  const yearEnd = new Date(Date.UTC(year, 11, 31));
+  const [requests, usHolidays, caHolidays] = await Promise.all([
+    prisma.pTORequest.findMany({
+      where: {
+        status: PTOStatus.APPROVED,
+        startDate: { lte: yearEnd },
+        endDate: { gte: yearStart },
+        ...(consultantFilter && { consultantId: consultantFilter }),
+      },
+      include: {
+        consultant: { select: { id: true, name: true, holidayCalendar: true } },
+        leaveType: { select: { id: true, name: true } },
+      },
+    }),
+    getHolidayDates(HolidayCalendar.US, yearStart, yearEnd),
+    getHolidayDates(HolidayCalendar.CA, yearStart, yearEnd),
+  ]);
+  const holidayDates: Record<HolidayCalendar, Set<string>> = {
+    [HolidayCalendar.US]: usHolidays,
+    [HolidayCalendar.CA]: caHolidays,
+  };
+
+  const columns = new Map<string, string>();
+  const rows = new Map<string, TimeOffReport["rows"][number]>();
+  for (const request of requests) {
+    // Only the part of the request that falls inside the year
+    const clipped = {
+      ...request,
+      startDate: request.startDate < yearStart ? yearStart : request.startDate,
+      endDate: request.endDate > yearEnd ? yearEnd : request.endDate,
+    };
+    const hours = ptoWeeklyHours(clipped, holidayDates[request.consultant.holidayCalendar])
+      .reduce((sum, week) => sum + week.hours, 0);
+    if (hours <= 0) continue;
+
+    const key = request.leaveType?.id ?? "general";
+    columns.set(key, request.leaveType?.name ?? "General PTO");
+
+    let row = rows.get(request.consultantId);
+    if (!row) {
+      row = {
+        consultantId: request.consultantId,
+        consultantName: decrypt(request.consultant.name),
+        hours: {},
+        total: 0,
+      };
+      rows.set(request.consultantId, row);
+    }
+    row.hours[key] = (row.hours[key] ?? 0) + hours;
+    row.total += hours;
+  }
+
+  return {
+    year,
+    columns: [...columns].map(([key, name]) => ({ key, name })).sort((a, b) => a.name.localeCompare(b.name)),
+    rows: [...rows.values()].sort((a, b) => a.consultantName.localeCompare(b.consultantName)),
+  };
+}
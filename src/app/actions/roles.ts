@@ -4,25 +4,86 @@ import { prisma } from "@/lib/prisma";
 import { auth } from "@/lib/auth";
 import { revalidatePath } from "next/cache";
 import { z } from "zod";
+import { currentRate, rateOn } from "@/lib/billing-rates";
 
 const updateRoleSchema = z.object({
   msrpRate: z.number().min(0),
   isActive: z.boolean(),
+  // YYYY-MM-DD the rate applies from; null corrects the starting rate for all history
+  effectiveDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date").nullable(),
 });
 
 export type RoleDefinitionData = z.infer<typeof updateRoleSchema>;
 
+export type RoleRateChangeEntry = {
+  id: string;
+  rate: number;
+  effectiveDate: Date;
+};
+
+const roleInclude = {
+  rateChanges: {
+    select: { id: true, rate: true, effectiveDate: true },
+    orderBy: { effectiveDate: "asc" },
+  },
+} as const;
+
+/**
+ * `msrpRate` is the rate in force today, which is what new assignments
+ * default to; `startingRate` is what applied before the first change.
+ */
+function withCurrentRate<T extends { msrpRate: number; rateChanges: RoleRateChangeEntry[] }>(role: T) {
+  return {
+    ...role,
+    startingRate: role.msrpRate,
+    msrpRate: currentRate(role.msrpRate, role.rateChanges),
+  };
+}
+
+function rateChangeWrites(
+  role: { id: string; msrpRate: number; rateChanges: RoleRateChangeEntry[] },
+  rate: number,
+  effectiveDateStr: string,
+  userId: string
+) {
+  const effectiveDate = new Date(effectiveDateStr + "T00:00:00Z");
+  const existing = role.rateChanges.find((c) => c.effectiveDate.getTime() === effectiveDate.getTime());
+  const previousRate = rateOn(role.msrpRate, role.rateChanges.filter((c) => c !== existing), effectiveDate);
+
+  // Changing to the rate already in force is no change at all
+  if (rate === previousRate) {
+    return existing ? [prisma.roleRateChange.delete({ where: { id: existing.id } })] : [];
+  }
+  return [
+    prisma.roleRateChange.upsert({
+      where: { roleDefinitionId_effectiveDate: { roleDefinitionId: role.id, effectiveDate } },
+      update: { rate, createdById: userId },
+      create: { roleDefinitionId: role.id, rate, effectiveDate, createdById: userId },
+    }),
+  ];
+}
+
 export async function getRoleDefinitions() {
   const session = await auth();
   if (!session) {
     throw new Error("Unauthorized");
   }
 
-  return prisma.roleDefinition.findMany({
-    orderBy: [{ category: "asc" }, { msrpRate: "desc" }],
+  const roles = await prisma.roleDefinition.findMany({
+    include: roleInclude,
+    orderBy: [{ category: "asc" }, { name: "asc" }],
   });
+
+  return roles
+    .map(withCurrentRate)
+    .sort((a, b) => a.category.localeCompare(b.category) || b.msrpRate - a.msrpRate);
 }
 
+/**
+ * Saves a role's status and rate. With an effective date the rate is
+ * recorded as a change from that date (future dates schedule it), so hours
+ * already worked keep the rate they were worked at.
+ */
 export async function updateRoleDefinition(id: string, data: RoleDefinitionData) {
   const session = await auth();
   if (!session || session.user.role !== "ADMIN") {
@@ -31,14 +92,52 @@ export async function updateRoleDefinition(id: string, data: RoleDefinitionData)
 
   const validated = updateRoleSchema.parse(data);
 
-  const updated = await prisma.roleDefinition.update({
-    where: { id },
-    data: {
-      msrpRate: validated.msrpRate,
-      isActive: validated.isActive,
-    },
+  const role = await prisma.roleDefinition.findUnique({ where: { id }, include: roleInclude });
+  if (!role) {
+    throw new Error("Role not found");
+  }
+
+  await prisma.$transaction([
+    prisma.roleDefinition.update({
+      where: { id },
+      data: {
+        isActive: validated.isActive,
+        ...(validated.effectiveDate ? {} : { msrpRate: validated.msrpRate }),
+      },
+    }),
+    ...(validated.effectiveDate
+      ? rateChangeWrites(role, validated.msrpRate, validated.effectiveDate, session.user.id)
+      : []),
+  ]);
+
+  const updated = await prisma.roleDefinition.findUniqueOrThrow({ where: { id }, include: roleInclude });
+
+  revalidatePath("/roles");
+  return withCurrentRate(updated);
+}
+
+/** Cancels a scheduled rate change. Changes already in force are history. */
+export async function deleteRoleRateChange(id: string) {
+  const session = await auth();
+  if (!session || session.user.role !== "ADMIN") {
+    throw new Error("Unauthorized");
+  }
+
+  const change = await prisma.roleRateChange.findUnique({ where: { id } });
+  if (!change) {
+    throw new Error("Rate change not found");
+  }
+  if (change.effectiveDate.getTime() <= Date.now()) {
+    throw new Error("Only scheduled changes that haven't taken effect can be removed");
+  }
+
+  await prisma.roleRateChange.delete({ where: { id } });
+
+  const updated = await prisma.roleDefinition.findUniqueOrThrow({
+    where: { id: change.roleDefinitionId },
+    include: roleInclude,
   });
 
   revalidatePath("/roles");
-  return updated;
+  return withCurrentRate(updated);
 }
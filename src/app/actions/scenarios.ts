@@ -0,0 +1,499 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import type { Session } from "next-auth";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import {
+  AllocationChangeSource,
+  AllocationEntryType,
+  Prisma,
+  ProjectStatus,
+  ScenarioStatus,
+  type Scenario,
+} from "@prisma/client";
+import { isBefore, parseISO, startOfWeek } from "date-fns";
+import { decrypt, decryptNullable } from "@/lib/encryption";
+import { allocationHistoryWrites } from "@/lib/allocation-history";
+import { notifyForecastChanged } from "@/lib/notifications";
+import { getUtilizationData, type UtilizationData } from "./utilization";
+
+function formatDateUTC(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+function cellKey(consultantId: string, projectId: string, week: string) {
+  return `${consultantId}_${projectId}_${week}`;
+}
+
+async function requireScenarioSession() {
+  const session = await auth();
+  if (!session || !["ADMIN", "MANAGER"].includes(session.user.role)) {
+    throw new Error("Unauthorized");
+  }
+  return session;
+}
+
+// Managers only see the scenarios they created; admins see all of them.
+async function loadScenario(session: Session, id: string, forEdit = false) {
+  const scenario = await prisma.scenario.findUnique({ where: { id } });
+  if (!scenario || (session.user.role === "MANAGER" && scenario.createdById !== session.user.id)) {
+    throw new Error("Scenario not found");
+  }
+  if (forEdit && scenario.status !== ScenarioStatus.OPEN) {
+    throw new Error("This scenario has already been promoted");
+  }
+  return scenario;
+}
+
+function scenarioConsultantWhere(scenario: Pick<Scenario, "managerId">) {
+  return scenario.managerId ? { managerId: scenario.managerId } : {};
+}
+
+const scenarioSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  startDate: z.string().min(1, "Start date is required"),
+  endDate: z.string().min(1, "End date is required"),
+});
+
+export type ScenarioFormData = z.infer<typeof scenarioSchema>;
+
+const summaryInclude = {
+  createdBy: { select: { email: true } },
+  promotedBy: { select: { email: true } },
+  _count: { select: { allocations: { where: { hours: { not: null } } } } },
+} as const;
+
+function toScenarioSummary(s: Prisma.ScenarioGetPayload<{ include: typeof summaryInclude }>) {
+  return {
+    id: s.id,
+    name: s.name,
+    startDate: formatDateUTC(s.startDate),
+    endDate: formatDateUTC(s.endDate),
+    status: s.status,
+    allocationCount: s._count.allocations,
+    createdBy: s.createdBy?.email ?? null,
+    createdAt: s.createdAt,
+    promotedBy: s.promotedBy?.email ?? null,
+    promotedAt: s.promotedAt,
+  };
+}
+
+export type ScenarioSummary = ReturnType<typeof toScenarioSummary>;
+
+export async function getScenarios(): Promise<ScenarioSummary[]> {
+  const session = await requireScenarioSession();
+
+  const scenarios = await prisma.scenario.findMany({
+    where: session.user.role === "MANAGER" ? { createdById: session.user.id } : {},
+    include: summaryInclude,
+    orderBy: { createdAt: "desc" },
+  });
+
+  return scenarios.map(toScenarioSummary);
+}
+
+export async function getScenario(id: string): Promise<ScenarioSummary> {
+  const session = await requireScenarioSession();
+  await loadScenario(session, id);
+
+  const scenario = await prisma.scenario.findUniqueOrThrow({
+    where: { id },
+    include: summaryInclude,
+  });
+  return toScenarioSummary(scenario);
+}
+
+/**
+ * Creates a scenario holding a copy of the live PROJECTED allocations on
+ * active projects for the date range. A manager's scenario covers their
+ * direct reports only.
+ */
+export async function createScenario(data: ScenarioFormData) {
+  const session = await requireScenarioSession();
+  const validated = scenarioSchema.parse(data);
+
+  const managerId = session.user.role === "MANAGER" ? session.user.consultantId : null;
+  if (session.user.role === "MANAGER" && !managerId) {
+    throw new Error("Your account is not linked to a consultant");
+  }
+
+  const start = startOfWeek(parseISO(validated.startDate), { weekStartsOn: 0 });
+  const end = startOfWeek(parseISO(validated.endDate), { weekStartsOn: 0 });
+  if (isBefore(end, start)) {
+    throw new Error("End date must be after the start date");
+  }
+
+  const live = await prisma.allocation.findMany({
+    where: {
+      entryType: AllocationEntryType.PROJECTED,
+      weekStart: { gte: start, lte: end },
+      project: { status: ProjectStatus.ACTIVE },
+      consultant: scenarioConsultantWhere({ managerId }),
+    },
+    select: { consultantId: true, projectId: true, weekStart: true, hours: true, notes: true },
+  });
+
+  const scenario = await prisma.scenario.create({
+    data: {
+      name: validated.name,
+      startDate: start,
+      endDate: end,
+      managerId,
+      createdById: session.user.id,
+      allocations: {
+        createMany: { data: live.map(row => ({ ...row, baseHours: row.hours, baseNotes: row.notes })) },
+      },
+    },
+  });
+
+  revalidatePath("/utilization/scenarios");
+  return scenario;
+}
+
+export async function deleteScenario(id: string) {
+  const session = await requireScenarioSession();
+  await loadScenario(session, id);
+
+  await prisma.scenario.delete({ where: { id } });
+
+  revalidatePath("/utilization/scenarios");
+}
+
+/**
+ * Utilization grid data with the scenario's projected hours in place of the
+ * live ones. Weeks outside the scenario keep their live projections; actuals
+ * and soft bookings always come from live data.
+ */
+export async function getScenarioUtilizationData(
+  scenarioId: string,
+  startDate?: string,
+  endDate?: string
+): Promise<UtilizationData> {
+  const session = await requireScenarioSession();
+  const scenario = await loadScenario(session, scenarioId);
+
+  const scenarioStart = formatDateUTC(scenario.startDate);
+  const scenarioEnd = formatDateUTC(scenario.endDate);
+  const data = await getUtilizationData(startDate ?? scenarioStart, endDate ?? scenarioEnd);
+
+  if (scenario.managerId) {
+    const inScope = await prisma.consultant.findMany({
+      where: scenarioConsultantWhere(scenario),
+      select: { id: true },
+    });
+    const inScopeIds = new Set(inScope.map(c => c.id));
+    data.consultants = data.consultants.filter(c => inScopeIds.has(c.id));
+  }
+
+  const overlayWeeks = data.weeks.filter(w => w >= scenarioStart && w <= scenarioEnd);
+  if (overlayWeeks.length === 0) return data;
+
+  for (const consultant of data.consultants) {
+    for (const week of overlayWeeks) {
+      const cell = data.allocations[consultant.id]?.[week];
+      if (!cell) continue;
+      cell.details = cell.details.filter(d => d.entryType !== AllocationEntryType.PROJECTED);
+      cell.projected = 0;
+    }
+  }
+
+  const rows = await prisma.scenarioAllocation.findMany({
+    where: {
+      scenarioId,
+      hours: { not: null },
+      consultantId: { in: data.consultants.map(c => c.id) },
+      weekStart: { gte: new Date(overlayWeeks[0]), lte: new Date(overlayWeeks[overlayWeeks.length - 1]) },
+    },
+    include: {
+      project: { select: { id: true, projectName: true, timecode: true, type: true } },
+    },
+  });
+
+  for (const row of rows) {
+    const cell = data.allocations[row.consultantId]?.[formatDateUTC(row.weekStart)];
+    if (!cell) continue;
+
+    const projectName = decrypt(row.project.projectName);
+    const timecode = decryptNullable(row.project.timecode);
+    const hours = row.hours ?? 0;
+    cell.projected += hours;
+    cell.details.push({
+      projectId: row.projectId,
+      projectName,
+      timecode,
+      projectType: row.project.type,
+      hours,
+      entryType: AllocationEntryType.PROJECTED,
+      notes: row.notes,
+      createdBy: null,
+      updatedAt: scenario.updatedAt,
+    });
+
+    // Projects added only in the scenario still need a row in the expanded view
+    const consultantProjects = data.consultantProjects[row.consultantId] ??= [];
+    if (!consultantProjects.some(p => p.projectId === row.projectId)) {
+      consultantProjects.push({ projectId: row.projectId, projectName, timecode });
+      consultantProjects.sort((a, b) => (a.timecode ?? "").localeCompare(b.timecode ?? ""));
+    }
+  }
+
+  return data;
+}
+
+async function assertCanEditScenarioCell(scenario: Scenario, consultantId: string, weekDate: Date) {
+  if (weekDate < scenario.startDate || weekDate > scenario.endDate) {
+    throw new Error("Week is outside the scenario's date range");
+  }
+  if (scenario.managerId) {
+    const consultant = await prisma.consultant.findUnique({
+      where: { id: consultantId },
+      select: { managerId: true },
+    });
+    if (consultant?.managerId !== scenario.managerId) {
+      throw new Error("Consultant is not part of this scenario");
+    }
+  }
+}
+
+export async function updateScenarioAllocation(
+  scenarioId: string,
+  consultantId: string,
+  weekStart: string,
+  projectId: string,
+  hours: number,
+  notes?: string
+) {
+  const session = await requireScenarioSession();
+  const scenario = await loadScenario(session, scenarioId, true);
+
+  const weekDate = new Date(formatDateUTC(startOfWeek(parseISO(weekStart), { weekStartsOn: 0 })));
+  await assertCanEditScenarioCell(scenario, consultantId, weekDate);
+
+  await prisma.$transaction([
+    prisma.scenarioAllocation.upsert({
+      where: {
+        scenarioId_consultantId_projectId_weekStart: {
+          scenarioId,
+          consultantId,
+          projectId,
+          weekStart: weekDate,
+        },
+      },
+      update: { hours, notes },
+      create: { scenarioId, consultantId, projectId, weekStart: weekDate, hours, notes },
+    }),
+    prisma.scenario.update({ where: { id: scenarioId }, data: { updatedAt: new Date() } }),
+  ]);
+
+  revalidatePath(`/utilization/scenarios/${scenarioId}`);
+}
+
+export async function deleteScenarioAllocation(
+  scenarioId: string,
+  consultantId: string,
+  projectId: string,
+  weekStart: string
+) {
+  const session = await requireScenarioSession();
+  const scenario = await loadScenario(session, scenarioId, true);
+
+  const weekDate = new Date(formatDateUTC(startOfWeek(parseISO(weekStart), { weekStartsOn: 0 })));
+  await assertCanEditScenarioCell(scenario, consultantId, weekDate);
+
+  // Cells copied from live are kept as removals so promotion can tell them
+  // apart from cells the scenario never had
+  await prisma.$transaction([
+    prisma.scenarioAllocation.updateMany({
+      where: { scenarioId, consultantId, projectId, weekStart: weekDate, baseHours: { not: null } },
+      data: { hours: null, notes: null },
+    }),
+    prisma.scenarioAllocation.deleteMany({
+      where: { scenarioId, consultantId, projectId, weekStart: weekDate, baseHours: null },
+    }),
+    prisma.scenario.update({ where: { id: scenarioId }, data: { updatedAt: new Date() } }),
+  ]);
+
+  revalidatePath(`/utilization/scenarios/${scenarioId}`);
+}
+
+export interface ScenarioDiffEntry {
+  consultantId: string;
+  consultantName: string;
+  projectId: string;
+  projectName: string;
+  timecode: string | null;
+  weekStart: string;
+  baseHours: number | null; // live hours when the scenario was created
+  liveHours: number | null; // null = no live allocation
+  scenarioHours: number | null; // null = removed in the scenario
+  liveNotes: string | null;
+  scenarioNotes: string | null;
+  // The live cell changed since the scenario was created, so promoting
+  // leaves it alone rather than overwrite that edit
+  conflict: boolean;
+}
+
+/**
+ * Cells the scenario changed from the live forecast it was copied from, each
+ * compared with the live cell as it is now. Cells the scenario didn't touch
+ * are never part of the diff, so live edits made since are kept.
+ */
+async function computeScenarioDiff(
+  scenario: Scenario,
+  db: Prisma.TransactionClient = prisma
+): Promise<ScenarioDiffEntry[]> {
+  const include = {
+    consultant: { select: { name: true } },
+    project: { select: { projectName: true, timecode: true } },
+  };
+  const sandbox = (await db.scenarioAllocation.findMany({ where: { scenarioId: scenario.id }, include }))
+    .filter(row => row.hours !== row.baseHours || (row.notes ?? null) !== (row.baseNotes ?? null));
+  if (sandbox.length === 0) return [];
+
+  const live = await db.allocation.findMany({
+    where: {
+      entryType: AllocationEntryType.PROJECTED,
+      weekStart: { gte: scenario.startDate, lte: scenario.endDate },
+      consultantId: { in: [...new Set(sandbox.map(row => row.consultantId))] },
+    },
+    select: { consultantId: true, projectId: true, weekStart: true, hours: true, notes: true },
+  });
+  const liveByCell = new Map(
+    live.map(row => [cellKey(row.consultantId, row.projectId, formatDateUTC(row.weekStart)), row])
+  );
+
+  const same = (aHours: number | null, aNotes: string | null, bHours: number | null, bNotes: string | null) =>
+    aHours === bHours && (aHours === null || (aNotes ?? null) === (bNotes ?? null));
+
+  return sandbox
+    .map(row => {
+      const week = formatDateUTC(row.weekStart);
+      const current = liveByCell.get(cellKey(row.consultantId, row.projectId, week));
+      const liveHours = current?.hours ?? null;
+      const liveNotes = current?.notes ?? null;
+      return {
+        consultantId: row.consultantId,
+        consultantName: decrypt(row.consultant.name),
+        projectId: row.projectId,
+        projectName: decrypt(row.project.projectName),
+        timecode: decryptNullable(row.project.timecode),
+        weekStart: week,
+        baseHours: row.baseHours,
+        liveHours,
+        scenarioHours: row.hours,
+        liveNotes,
+        scenarioNotes: row.notes,
+        conflict: !same(liveHours, liveNotes, row.baseHours, row.baseNotes),
+      };
+    })
+    // Live already matches the scenario: nothing to apply
+    .filter(e => !same(e.liveHours, e.liveNotes, e.scenarioHours, e.scenarioNotes))
+    .sort((a, b) =>
+      a.consultantName.localeCompare(b.consultantName) ||
+      a.weekStart.localeCompare(b.weekStart) ||
+      (a.timecode ?? "").localeCompare(b.timecode ?? "")
+    );
+}
+
+export async function getScenarioDiff(scenarioId: string) {
+  const session = await requireScenarioSession();
+  const scenario = await loadScenario(session, scenarioId);
+  return computeScenarioDiff(scenario);
+}
+
+/**
+ * Applies the scenario's changes to the live projections in one transaction,
+ * logging each cell change as a scenario promotion by the current user, and
+ * closes the scenario. If cells were edited live since the scenario was
+ * created, nothing is promoted and those conflicts are returned, unless
+ * `skipConflicts` confirms they should keep their live value.
+ */
+export async function promoteScenario(scenarioId: string, { skipConflicts = false } = {}) {
+  const session = await requireScenarioSession();
+  const scenario = await loadScenario(session, scenarioId, true);
+
+  // Serializable so live edits can't land between reading the diff and applying it
+  const result = await prisma.$transaction(async (tx) => {
+    const diff = await computeScenarioDiff(scenario, tx);
+    const conflicts = diff.filter(e => e.conflict);
+    if (conflicts.length > 0 && !skipConflicts) {
+      return { promoted: false, changes: 0, conflicts, consultantIds: [] };
+    }
+
+    const claimed = await tx.scenario.updateMany({
+      where: { id: scenarioId, status: ScenarioStatus.OPEN },
+      data: {
+        status: ScenarioStatus.PROMOTED,
+        promotedAt: new Date(),
+        promotedById: session.user.id,
+      },
+    });
+    if (claimed.count === 0) {
+      throw new Error("This scenario has already been promoted");
+    }
+
+    const entries = diff.filter(e => !e.conflict);
+    for (const entry of entries) {
+      const weekStart = new Date(entry.weekStart);
+      const where = {
+        consultantId_projectId_weekStart_entryType: {
+          consultantId: entry.consultantId,
+          projectId: entry.projectId,
+          weekStart,
+          entryType: AllocationEntryType.PROJECTED,
+        },
+      };
+      if (entry.scenarioHours === null) {
+        await tx.allocation.delete({ where });
+      } else {
+        await tx.allocation.upsert({
+          where,
+          update: { hours: entry.scenarioHours, notes: entry.scenarioNotes },
+          create: {
+            consultantId: entry.consultantId,
+            projectId: entry.projectId,
+            weekStart,
+            hours: entry.scenarioHours,
+            entryType: AllocationEntryType.PROJECTED,
+            notes: entry.scenarioNotes,
+            createdById: session.user.id,
+          },
+        });
+      }
+      for (const write of allocationHistoryWrites({
+        consultantId: entry.consultantId,
+        projectId: entry.projectId,
+        weekStart,
+        entryType: AllocationEntryType.PROJECTED,
+        oldHours: entry.liveHours,
+        newHours: entry.scenarioHours,
+        oldNotes: entry.liveNotes,
+        newNotes: entry.scenarioNotes,
+        source: AllocationChangeSource.SCENARIO_PROMOTION,
+        changedById: session.user.id,
+      }, tx)) {
+        await write;
+      }
+    }
+
+    return {
+      promoted: true,
+      changes: entries.length,
+      conflicts,
+      consultantIds: [...new Set(entries.map(e => e.consultantId))],
+    };
+  }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable, timeout: 30_000 });
+
+  const { consultantIds, ...outcome } = result;
+  if (!outcome.promoted) return outcome;
+
+  await notifyForecastChanged(consultantIds, session.user);
+
+  revalidatePath("/utilization");
+  revalidatePath("/utilization/scenarios");
+  revalidatePath(`/utilization/scenarios/${scenarioId}`);
+
+  return outcome;
+}
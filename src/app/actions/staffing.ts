@@ -0,0 +1,363 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import {
+  AllocationChangeSource,
+  AllocationEntryType,
+  GroupType,
+  HolidayCalendar,
+  NotificationType,
+  OvertimePreference,
+  ProjectStatus,
+  PTOStatus,
+  RoleLevel,
+} from "@prisma/client";
+import { addDays, isBefore, parseISO, startOfWeek } from "date-fns";
+import { getWeeklyCapacity, getWeeksInRange } from "@/lib/utils";
+import { decrypt } from "@/lib/encryption";
+import { allocationHistoryWrites } from "@/lib/allocation-history";
+import { assertCanModifyAllocations } from "@/lib/allocation-access";
+import { notify, userIdsForConsultants } from "@/lib/notifications";
+import { ptoWeeklyHours } from "@/lib/pto";
+import { getLeaveProjectIds } from "@/lib/leave-types";
+import { getHolidayDates, getHolidaysByWeek } from "@/lib/holidays";
+
+const searchSchema = z.object({
+  startDate: z.string().min(1, "Start date is required"),
+  endDate: z.string().min(1, "End date is required"),
+  hoursPerWeek: z.number().min(0.5).max(80),
+  roleDefinitionId: z.string().nullable(),
+  group: z.nativeEnum(GroupType).nullable(),
+  level: z.nativeEnum(RoleLevel).nullable(),
+  overtimeTolerance: z.number().min(0).max(40),
+  softBookings: z.enum(["ignore", "weighted", "full"]),
+});
+
+export type StaffingSearchCriteria = z.infer<typeof searchSchema>;
+
+export interface WeekAvailability {
+  weekStart: string;
+  capacity: number;
+  booked: number;
+  soft: number;
+  pto: number;
+  available: number;
+  fits: boolean;
+}
+
+export interface StaffingCandidate {
+  consultantId: string;
+  name: string;
+  groups: GroupType[];
+  billingRoles: string[];
+  standardHours: number;
+  overtimePreference: OvertimePreference;
+  overtimeAllowance: number;
+  weeks: WeekAvailability[];
+  weeksAvailable: number;
+  averageAvailable: number;
+}
+
+export interface StaffingSearchResult {
+  weeks: string[];
+  candidates: StaffingCandidate[];
+}
+
+function formatDateUTC(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+// Overtime a consultant can absorb per week, capped by the search tolerance.
+// LIMITED consultants only offer the hours recorded on their profile.
+function overtimeAllowance(
+  preference: OvertimePreference,
+  hoursAvailable: number,
+  tolerance: number
+) {
+  if (preference === OvertimePreference.NONE) return 0;
+  if (preference === OvertimePreference.LIMITED) return Math.min(hoursAvailable, tolerance);
+  return tolerance;
+}
+
+/**
+ * Ranks consultants by free capacity over a date range. A week's capacity is
+ * standard hours net of company holidays plus allowed overtime, less approved
+ * PTO and hours already
+ * booked: actuals for past weeks that have them, otherwise projected hours
+ * on active projects plus, if requested, soft bookings in full or weighted
+ * by win probability.
+ */
+export async function searchAvailability(
+  criteria: StaffingSearchCriteria
+): Promise<StaffingSearchResult> {
+  const session = await auth();
+  if (!session || !["ADMIN", "MANAGER"].includes(session.user.role)) {
+    throw new Error("Unauthorized");
+  }
+
+  const validated = searchSchema.parse(criteria);
+  const start = startOfWeek(parseISO(validated.startDate), { weekStartsOn: 0 });
+  const end = parseISO(validated.endDate);
+  if (isBefore(end, start)) {
+    throw new Error("End date must be after the start date");
+  }
+  const weeks = getWeeksInRange(start, end).map(formatDateUTC);
+
+  const consultants = await prisma.consultant.findMany({
+    where: {
+      ...(validated.group && { groups: { some: { group: validated.group } } }),
+      ...(validated.level && { roles: { some: { level: validated.level } } }),
+      ...(validated.roleDefinitionId && {
+        billingRoles: { some: { roleDefinitionId: validated.roleDefinitionId } },
+      }),
+    },
+    include: {
+      groups: true,
+      billingRoles: { include: { roleDefinition: { select: { name: true } } } },
+    },
+  });
+  const consultantIds = consultants.map(c => c.id);
+
+  // Approved time off is counted from the requests themselves, so the leave
+  // projects' allocations are left out of booked hours below.
+  const leaveProjectIds = await getLeaveProjectIds();
+
+  const rangeEnd = addDays(parseISO(weeks[weeks.length - 1]), 6);
+  const [allocations, ptoRequests, holidaysByWeek, usHolidays, caHolidays] = await Promise.all([
+    prisma.allocation.findMany({
+      where: {
+        consultantId: { in: consultantIds },
+        weekStart: { gte: start, lte: end },
+        projectId: { notIn: leaveProjectIds },
+        OR: [
+          { entryType: AllocationEntryType.ACTUAL },
+          { entryType: AllocationEntryType.PROJECTED, project: { status: ProjectStatus.ACTIVE } },
+          ...(validated.softBookings !== "ignore"
+            ? [{ entryType: AllocationEntryType.TENTATIVE, project: { status: ProjectStatus.ACTIVE } }]
+            : []),
+        ],
+      },
+      select: {
+        consultantId: true,
+        weekStart: true,
+        entryType: true,
+        hours: true,
+        project: { select: { winProbability: true } },
+      },
+    }),
+    prisma.pTORequest.findMany({
+      where: {
+        consultantId: { in: consultantIds },
+        status: PTOStatus.APPROVED,
+        startDate: { lte: end },
+        endDate: { gte: start },
+      },
+      include: { consultant: { select: { holidayCalendar: true } } },
+    }),
+    getHolidaysByWeek(start, rangeEnd),
+    getHolidayDates(HolidayCalendar.US, start, rangeEnd),
+    getHolidayDates(HolidayCalendar.CA, start, rangeEnd),
+  ]);
+  const holidayDates: Record<HolidayCalendar, Set<string>> = {
+    [HolidayCalendar.US]: usHolidays,
+    [HolidayCalendar.CA]: caHolidays,
+  };
+
+  // consultantId -> week -> hours
+  const actual = new Map<string, Map<string, number>>();
+  const projected = new Map<string, Map<string, number>>();
+  const soft = new Map<string, Map<string, number>>();
+  const pto = new Map<string, Map<string, number>>();
+  const add = (map: Map<string, Map<string, number>>, consultantId: string, week: string, hours: number) => {
+    if (!map.has(consultantId)) map.set(consultantId, new Map());
+    const weeksMap = map.get(consultantId)!;
+    weeksMap.set(week, (weeksMap.get(week) ?? 0) + hours);
+  };
+
+  for (const a of allocations) {
+    const week = formatDateUTC(a.weekStart);
+    if (a.entryType === AllocationEntryType.TENTATIVE) {
+      const weight = validated.softBookings === "weighted" ? (a.project.winProbability ?? 0) / 100 : 1;
+      add(soft, a.consultantId, week, a.hours * weight);
+    } else {
+      add(a.entryType === AllocationEntryType.ACTUAL ? actual : projected, a.consultantId, week, a.hours);
+    }
+  }
+  for (const request of ptoRequests) {
+    for (const { weekStart, hours } of ptoWeeklyHours(request, holidayDates[request.consultant.holidayCalendar])) {
+      add(pto, request.consultantId, formatDateUTC(weekStart), hours);
+    }
+  }
+
+  const currentWeek = formatDateUTC(startOfWeek(new Date(), { weekStartsOn: 0 }));
+
+  const candidates: StaffingCandidate[] = consultants.map(c => {
+    const allowance = overtimeAllowance(c.overtimePreference, c.overtimeHoursAvailable, validated.overtimeTolerance);
+
+    const weekAvailability = weeks.map(week => {
+      const holidayCount = holidaysByWeek[c.holidayCalendar][week]?.length ?? 0;
+      const capacity = getWeeklyCapacity(c.standardHours, holidayCount) + allowance;
+      const actualHours = actual.get(c.id)?.get(week);
+      const useActuals = week < currentWeek && actualHours !== undefined;
+      const booked = (useActuals ? actualHours : projected.get(c.id)?.get(week)) ?? 0;
+      const softHours = useActuals ? 0 : Math.round((soft.get(c.id)?.get(week) ?? 0) * 10) / 10;
+      const ptoHours = pto.get(c.id)?.get(week) ?? 0;
+      const available = Math.max(0, capacity - booked - softHours - ptoHours);
+      return {
+        weekStart: week,
+        capacity,
+        booked,
+        soft: softHours,
+        pto: ptoHours,
+        available,
+        fits: available >= validated.hoursPerWeek,
+      };
+    });
+
+    const totalAvailable = weekAvailability.reduce((sum, w) => sum + w.available, 0);
+    return {
+      consultantId: c.id,
+      name: decrypt(c.name),
+      groups: c.groups.map(g => g.group),
+      billingRoles: c.billingRoles.map(br => br.roleDefinition.name).sort(),
+      standardHours: c.standardHours,
+      overtimePreference: c.overtimePreference,
+      overtimeAllowance: allowance,
+      weeks: weekAvailability,
+      weeksAvailable: weekAvailability.filter(w => w.fits).length,
+      averageAvailable: weeks.length > 0 ? totalAvailable / weeks.length : 0,
+    };
+  });
+
+  candidates.sort((a, b) =>
+    b.weeksAvailable - a.weeksAvailable ||
+    b.averageAvailable - a.averageAvailable ||
+    a.name.localeCompare(b.name)
+  );
+
+  return { weeks, candidates };
+}
+
+const assignSchema = z.object({
+  consultantId: z.string().min(1, "Consultant is required"),
+  projectId: z.string().min(1, "Project is required"),
+  startDate: z.string().min(1, "Start date is required"),
+  endDate: z.string().min(1, "End date is required"),
+  hoursPerWeek: z.number().min(0.5).max(80),
+  roleDefinitionId: z.string().nullable(),
+  soft: z.boolean(),
+});
+
+export type StaffingAssignment = z.infer<typeof assignSchema>;
+
+/**
+ * Books projected hours (or soft bookings) on a project for every week of the
+ * search range. Admins can also add the consultant to the project team if
+ * they are not on it yet; managers can only book their direct reports who
+ * are already on the team.
+ */
+export async function assignToProject(data: StaffingAssignment) {
+  const session = await auth();
+  if (!session || !["ADMIN", "MANAGER"].includes(session.user.role)) {
+    throw new Error("Unauthorized");
+  }
+
+  const validated = assignSchema.parse(data);
+  await assertCanModifyAllocations(session, validated.consultantId, "edit");
+  const entryType = validated.soft ? AllocationEntryType.TENTATIVE : AllocationEntryType.PROJECTED;
+
+  const project = await prisma.project.findUnique({ where: { id: validated.projectId } });
+  if (!project) {
+    throw new Error("Project not found");
+  }
+
+  const weeks = getWeeksInRange(parseISO(validated.startDate), parseISO(validated.endDate))
+    .map(week => new Date(formatDateUTC(week)));
+
+  const [existingAllocations, existingMember] = await Promise.all([
+    prisma.allocation.findMany({
+      where: {
+        consultantId: validated.consultantId,
+        projectId: validated.projectId,
+        entryType,
+        weekStart: { in: weeks },
+      },
+    }),
+    prisma.projectMember.findFirst({
+      where: { consultantId: validated.consultantId, projectId: validated.projectId },
+    }),
+  ]);
+  if (!existingMember && session.user.role !== "ADMIN") {
+    throw new Error("This consultant isn't on the project team. Ask an admin to add them first.");
+  }
+  const existingByWeek = new Map(existingAllocations.map(a => [formatDateUTC(a.weekStart), a]));
+
+  // Verify user exists in database (handles stale sessions after db reset)
+  const user = await prisma.user.findUnique({ where: { id: session.user.id }, select: { id: true } });
+  const userId = user?.id ?? null;
+
+  await prisma.$transaction([
+    ...weeks.flatMap(weekStart => {
+      const existing = existingByWeek.get(formatDateUTC(weekStart));
+      return [
+        prisma.allocation.upsert({
+          where: {
+            consultantId_projectId_weekStart_entryType: {
+              consultantId: validated.consultantId,
+              projectId: validated.projectId,
+              weekStart,
+              entryType,
+            },
+          },
+          update: { hours: validated.hoursPerWeek },
+          create: {
+            consultantId: validated.consultantId,
+            projectId: validated.projectId,
+            weekStart,
+            hours: validated.hoursPerWeek,
+            entryType,
+            createdById: userId,
+          },
+        }),
+        ...allocationHistoryWrites({
+          consultantId: validated.consultantId,
+          projectId: validated.projectId,
+          weekStart,
+          entryType,
+          oldHours: existing?.hours ?? null,
+          newHours: validated.hoursPerWeek,
+          oldNotes: existing?.notes ?? null,
+          newNotes: existing?.notes ?? null,
+          source: AllocationChangeSource.STAFFING_ASSIGNMENT,
+          changedById: userId,
+        }),
+      ];
+    }),
+    ...(existingMember
+      ? []
+      : [prisma.projectMember.create({
+          data: {
+            consultantId: validated.consultantId,
+            projectId: validated.projectId,
+            roleDefinitionId: validated.roleDefinitionId,
+          },
+        })]),
+  ]);
+
+  if (!existingMember) {
+    await notify(await userIdsForConsultants([validated.consultantId]), {
+      type: NotificationType.PROJECT_MEMBER_ADDED,
+      projectId: project.id,
+      projectName: decrypt(project.projectName),
+    }, session.user.id);
+  }
+
+  revalidatePath("/staffing");
+  revalidatePath("/utilization");
+  revalidatePath(`/projects/${validated.projectId}`);
+
+  return { weeks: weeks.length };
+}
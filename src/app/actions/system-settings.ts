@@ -23,6 +23,7 @@ export async function upsertSystemSetting(key: string, value: string): Promise<v
 
   revalidatePath("/settings");
   revalidatePath("/invoicing");
+  revalidatePath("/pto/calendar");
 }
 
 export async function getAllSystemSettings(): Promise<Record<string, string>> {
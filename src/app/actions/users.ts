@@ -5,9 +5,10 @@ import { auth } from "@/lib/auth";
 import { revalidatePath } from "next/cache";
 import { z } from "zod";
 import bcrypt from "bcryptjs";
-import { UserRole } from "@prisma/client";
+import { NotificationType, UserRole } from "@prisma/client";
 import { passwordSchema } from "@/lib/password-validation";
 import { decrypt } from "@/lib/encryption";
+import { notify } from "@/lib/notifications";
 
 const userSchema = z.object({
   email: z.string().email("Invalid email address"),
@@ -208,6 +209,10 @@ export async function setRequirePasswordReset(id: string, require: boolean) {
     data: { requirePasswordReset: require },
   });
 
+  if (require) {
+    await notify([id], { type: NotificationType.PASSWORD_RESET_REQUIRED }, session.user.id);
+  }
+
   revalidatePath("/users");
   return { success: true };
 }
@@ -0,0 +1,134 @@
+"use server";
+
+import * as XLSX from "xlsx";
+import { format, isBefore, parseISO, startOfWeek } from "date-fns";
+import { AllocationEntryType } from "@prisma/client";
+import { getUtilizationData, type UtilizationData } from "./utilization";
+import { getScenarioUtilizationData } from "./scenarios";
+import {
+  BILLABLE_TYPES,
+  filterConsultantProjects,
+  filterConsultants,
+  type DisplayMode,
+  type GridFilterState,
+} from "@/lib/utilization-filters";
+
+export interface UtilizationExportOptions {
+  startDate: string;
+  endDate: string;
+  filters: GridFilterState;
+  displayMode: DisplayMode;
+  expandedConsultantIds: string[];
+  scenarioId?: string; // export the scenario's projections instead of live ones
+}
+
+export interface UtilizationExportFile {
+  fileName: string;
+  base64: string;
+}
+
+type Details = UtilizationData["allocations"][string][string]["details"];
+
+const LEADING_COLUMNS = ["Consultant", "Group", "Project", "Timecode"];
+const WEEK_COLUMNS = ["Actual", "Projected", "Variance"];
+
+function sumHours(details: Details, entryType: AllocationEntryType) {
+  return details
+    .filter(d => d.entryType === entryType)
+    .reduce((sum, d) => sum + d.hours, 0);
+}
+
+/**
+ * Builds an XLSX of the utilization grid as currently filtered on screen: one
+ * row per consultant, followed by project rows for consultants expanded in
+ * the grid. Each week spans Actual, Projected and Variance columns; variance
+ * is left blank for weeks that have not started yet, as in the grid. With a
+ * scenario, projected hours are the scenario's, as the grid shows them.
+ */
+export async function exportUtilizationGrid(
+  options: UtilizationExportOptions
+): Promise<UtilizationExportFile> {
+  // Both loaders enforce auth and scope managers to their reports
+  const data = options.scenarioId
+    ? await getScenarioUtilizationData(options.scenarioId, options.startDate, options.endDate)
+    : await getUtilizationData(options.startDate, options.endDate);
+  const consultants = filterConsultants(data, options.filters);
+  const expanded = new Set(options.expandedConsultantIds);
+
+  // Billable and available views only count billable + assigned work
+  const billableOnly = options.displayMode === "billable" || options.displayMode === "available";
+  const currentWeekStart = startOfWeek(new Date(), { weekStartsOn: 0 });
+  const pastWeeks = new Set(
+    data.weeks.filter(week => isBefore(parseISO(week), currentWeekStart))
+  );
+
+  const weekValues = (details: Details, week: string) => {
+    const actual = sumHours(details, AllocationEntryType.ACTUAL);
+    const projected = sumHours(details, AllocationEntryType.PROJECTED);
+    return [actual, projected, pastWeeks.has(week) ? actual - projected : null];
+  };
+
+  const header1: (string | null)[] = [...LEADING_COLUMNS];
+  const header2: (string | null)[] = LEADING_COLUMNS.map(() => null);
+  for (const week of data.weeks) {
+    header1.push(format(parseISO(week), "M/d/yyyy"), null, null);
+    header2.push(...WEEK_COLUMNS);
+  }
+
+  const rows: (string | number | null)[][] = [header1, header2];
+  for (const consultant of consultants) {
+    const group = [...consultant.groups].sort()[0] ?? "";
+    const cells = data.allocations[consultant.id] ?? {};
+
+    const summary: (string | number | null)[] = [consultant.name, group, null, null];
+    for (const week of data.weeks) {
+      const details = cells[week]?.details ?? [];
+      summary.push(...weekValues(
+        billableOnly ? details.filter(d => BILLABLE_TYPES.includes(d.projectType)) : details,
+        week
+      ));
+    }
+    rows.push(summary);
+
+    if (!expanded.has(consultant.id)) continue;
+    for (const project of filterConsultantProjects(data, consultant.id, options.filters.projects)) {
+      const projectRow: (string | number | null)[] = [
+        consultant.name,
+        group,
+        project.projectName,
+        project.timecode,
+      ];
+      for (const week of data.weeks) {
+        const details = (cells[week]?.details ?? []).filter(d => d.projectId === project.projectId);
+        projectRow.push(...weekValues(details, week));
+      }
+      rows.push(projectRow);
+    }
+  }
+
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  sheet["!merges"] = [
+    ...LEADING_COLUMNS.map((_, c) => ({ s: { r: 0, c }, e: { r: 1, c } })),
+    ...data.weeks.map((_, i) => {
+      const c = LEADING_COLUMNS.length + i * WEEK_COLUMNS.length;
+      return { s: { r: 0, c }, e: { r: 0, c: c + WEEK_COLUMNS.length - 1 } };
+    }),
+  ];
+  sheet["!cols"] = [
+    { wch: 28 },
+    { wch: 18 },
+    { wch: 32 },
+    { wch: 14 },
+    ...data.weeks.flatMap(() => WEEK_COLUMNS.map(() => ({ wch: 10 }))),
+  ];
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, "Utilization");
+
+  const first = data.weeks[0] ?? options.startDate;
+  const last = data.weeks[data.weeks.length - 1] ?? options.endDate;
+  return {
+    fileName: `utilization-${options.scenarioId ? "scenario-" : ""}${first}-to-${last}.xlsx`,
+    base64: XLSX.write(workbook, { type: "base64", bookType: "xlsx" }),
+  };
+}
@@ -3,10 +3,14 @@
 import { prisma } from "@/lib/prisma";
 import { auth } from "@/lib/auth";
 import { revalidatePath } from "next/cache";
-import { AllocationEntryType, ProjectStatus, ProjectType } from "@prisma/client";
-import { startOfWeek, parseISO } from "date-fns";
+import { AllocationChangeSource, AllocationEntryType, HolidayCalendar, ProjectStatus, ProjectType } from "@prisma/client";
+import { addDays, startOfWeek, parseISO } from "date-fns";
 import { getWeeksInRange, getDefaultDateRange } from "@/lib/utils";
 import { decrypt, decryptNullable } from "@/lib/encryption";
+import { allocationHistoryWrites, isMeaningfulChange, type AllocationChange } from "@/lib/allocation-history";
+import { getHolidaysByWeek } from "@/lib/holidays";
+import { notifyForecastChanged } from "@/lib/notifications";
+import { assertCanModifyAllocations } from "@/lib/allocation-access";
 
 // Helper to format dates consistently in UTC to avoid timezone issues
 function formatDateUTC(date: Date): string {
@@ -22,8 +26,10 @@ export interface UtilizationData {
     billingRoleIds: string[];
     groups: string[];
     managerName: string | null;
+    holidayCalendar: HolidayCalendar;
   }>;
   weeks: string[]; // ISO date strings of week starts
+  holidays: Record<HolidayCalendar, Record<string, string[]>>; // calendar -> week -> weekday holiday names
   allocations: Record<string, Record<string, {
     actual: number;
     projected: number;
@@ -63,12 +69,12 @@ export async function getUtilizationData(
   const consultantWhere: Record<string, unknown> = {};
   if (session.user.role === "EMPLOYEE") {
     if (!session.user.consultantId) {
-      return { consultants: [], weeks: weekStrings, allocations: {}, consultantProjects: {}, consultantProjectRoles: {} };
+      return { consultants: [], weeks: weekStrings, holidays: { US: {}, CA: {} }, allocations: {}, consultantProjects: {}, consultantProjectRoles: {} };
     }
     consultantWhere.id = session.user.consultantId;
   } else if (session.user.role === "MANAGER") {
     if (!session.user.consultantId) {
-      return { consultants: [], weeks: weekStrings, allocations: {}, consultantProjects: {}, consultantProjectRoles: {} };
+      return { consultants: [], weeks: weekStrings, holidays: { US: {}, CA: {} }, allocations: {}, consultantProjects: {}, consultantProjectRoles: {} };
     }
     consultantWhere.managerId = session.user.consultantId;
   }
@@ -92,14 +98,17 @@ export async function getUtilizationData(
 
   // Get allocations in the date range for visible consultants.
   // - ACTUAL allocations: shown for all projects (including inactive)
-  // - PROJECTED allocations: only shown for active projects
+  // - PROJECTED and TENTATIVE allocations: only shown for active projects
   const allocations = await prisma.allocation.findMany({
     where: {
       consultantId: { in: visibleConsultantIds },
       weekStart: { gte: start, lte: end },
       OR: [
         { entryType: AllocationEntryType.ACTUAL },
-        { entryType: AllocationEntryType.PROJECTED, project: { status: ProjectStatus.ACTIVE } },
+        {
+          entryType: { in: [AllocationEntryType.PROJECTED, AllocationEntryType.TENTATIVE] },
+          project: { status: ProjectStatus.ACTIVE },
+        },
       ],
     },
     include: {
@@ -140,9 +149,10 @@ export async function getUtilizationData(
     if (allocationMap[consultantId] && allocationMap[consultantId][weekKey]) {
       const cell = allocationMap[consultantId][weekKey];
       
+      // Soft bookings stay out of the confirmed totals; cells weight them from details
       if (allocation.entryType === AllocationEntryType.ACTUAL) {
         cell.actual += allocation.hours;
-      } else {
+      } else if (allocation.entryType === AllocationEntryType.PROJECTED) {
         cell.projected += allocation.hours;
       }
 
@@ -220,6 +230,10 @@ export async function getUtilizationData(
     }
   }
 
+  const holidays = weeks.length > 0
+    ? await getHolidaysByWeek(weeks[0], addDays(weeks[weeks.length - 1], 6))
+    : { US: {}, CA: {} };
+
   return {
     consultants: consultants.map((c) => ({
       id: c.id,
@@ -229,8 +243,10 @@ export async function getUtilizationData(
       billingRoleIds: c.billingRoles.map((br) => br.roleDefinitionId),
       groups: c.groups.map((g) => g.group),
       managerName: c.manager ? decrypt(c.manager.name) : null,
+      holidayCalendar: c.holidayCalendar,
     })),
     weeks: weekStrings,
+    holidays,
     allocations: allocationMap,
     consultantProjects: consultantProjectsMap,
     consultantProjectRoles: consultantProjectRolesMap,
@@ -250,19 +266,7 @@ export async function updateAllocation(
     throw new Error("Unauthorized");
   }
 
-  if (session.user.role === "EMPLOYEE" && session.user.consultantId !== consultantId) {
-    throw new Error("You can only edit your own allocations");
-  }
-
-  if (session.user.role === "MANAGER") {
-    const target = await prisma.consultant.findUnique({
-      where: { id: consultantId },
-      select: { managerId: true },
-    });
-    if (target?.managerId !== session.user.consultantId) {
-      throw new Error("You can only edit allocations for your direct reports");
-    }
-  }
+  await assertCanModifyAllocations(session, consultantId, "edit");
 
   const weekDate = startOfWeek(parseISO(weekStart), { weekStartsOn: 0 });
 
@@ -277,7 +281,7 @@ export async function updateAllocation(
     // User doesn't exist, proceed without createdById
   }
 
-  const allocation = await prisma.allocation.upsert({
+  const existing = await prisma.allocation.findUnique({
     where: {
       consultantId_projectId_weekStart_entryType: {
         consultantId,
@@ -286,21 +290,54 @@ export async function updateAllocation(
         entryType,
       },
     },
-    update: {
-      hours,
-      notes,
-    },
-    create: {
-      consultantId,
-      projectId,
-      weekStart: weekDate,
-      hours,
-      entryType,
-      notes,
-      createdById,
-    },
+    select: { hours: true, notes: true },
   });
 
+  const change: AllocationChange = {
+    consultantId,
+    projectId,
+    weekStart: weekDate,
+    entryType,
+    oldHours: existing?.hours ?? null,
+    newHours: hours,
+    oldNotes: existing?.notes ?? null,
+    newNotes: notes === undefined ? existing?.notes ?? null : notes,
+    source: AllocationChangeSource.GRID_EDIT,
+    changedById: createdById,
+  };
+
+  const [allocation] = await prisma.$transaction([
+    prisma.allocation.upsert({
+      where: {
+        consultantId_projectId_weekStart_entryType: {
+          consultantId,
+          projectId,
+          weekStart: weekDate,
+          entryType,
+        },
+      },
+      update: {
+        hours,
+        notes,
+      },
+      create: {
+        consultantId,
+        projectId,
+        weekStart: weekDate,
+        hours,
+        entryType,
+        notes,
+        createdById,
+      },
+    }),
+    ...allocationHistoryWrites(change),
+  ]);
+
+  // The grid editor re-saves every row, so only tell the consultant when hours moved
+  if (entryType === AllocationEntryType.PROJECTED && change.oldHours !== change.newHours) {
+    await notifyForecastChanged([consultantId], session.user);
+  }
+
   revalidatePath("/utilization");
   return allocation;
 }
@@ -316,32 +353,211 @@ export async function deleteAllocation(
     throw new Error("Unauthorized");
   }
 
+  await assertCanModifyAllocations(session, consultantId, "delete");
+
+  const weekDate = startOfWeek(parseISO(weekStart), { weekStartsOn: 0 });
+
+  const existing = await prisma.allocation.findUnique({
+    where: {
+      consultantId_projectId_weekStart_entryType: {
+        consultantId,
+        projectId,
+        weekStart: weekDate,
+        entryType,
+      },
+    },
+  });
+
+  if (!existing) {
+    throw new Error("Allocation not found");
+  }
+
+  const changedBy = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { id: true },
+  });
+
+  await prisma.$transaction([
+    prisma.allocation.delete({ where: { id: existing.id } }),
+    ...allocationHistoryWrites({
+      consultantId,
+      projectId,
+      weekStart: weekDate,
+      entryType,
+      oldHours: existing.hours,
+      newHours: null,
+      oldNotes: existing.notes,
+      newNotes: null,
+      source: AllocationChangeSource.GRID_EDIT,
+      changedById: changedBy?.id ?? null,
+    }),
+  ]);
+
+  if (entryType === AllocationEntryType.PROJECTED) {
+    await notifyForecastChanged([consultantId], session.user);
+  }
+
+  revalidatePath("/utilization");
+}
+
+export type AllocationHistoryEntry = {
+  id: string;
+  projectId: string;
+  projectName: string;
+  timecode: string | null;
+  entryType: AllocationEntryType;
+  oldHours: number | null;
+  newHours: number | null;
+  oldNotes: string | null;
+  newNotes: string | null;
+  source: AllocationChangeSource;
+  changedBy: string | null;
+  createdAt: Date;
+};
+
+/**
+ * Change log for one consultant/week cell, newest first.
+ */
+export async function getAllocationHistory(
+  consultantId: string,
+  weekStart: string
+): Promise<AllocationHistoryEntry[]> {
+  const session = await auth();
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
   if (session.user.role === "EMPLOYEE" && session.user.consultantId !== consultantId) {
-    throw new Error("You can only delete your own allocations");
+    throw new Error("You can only view your own allocation history");
   }
 
-  if (session.user.role === "MANAGER") {
+  if (session.user.role === "MANAGER" && session.user.consultantId !== consultantId) {
     const target = await prisma.consultant.findUnique({
       where: { id: consultantId },
       select: { managerId: true },
     });
     if (target?.managerId !== session.user.consultantId) {
-      throw new Error("You can only delete allocations for your direct reports");
+      throw new Error("You can only view allocation history for your direct reports");
     }
   }
 
   const weekDate = startOfWeek(parseISO(weekStart), { weekStartsOn: 0 });
 
-  await prisma.allocation.delete({
-    where: {
-      consultantId_projectId_weekStart_entryType: {
-        consultantId,
-        projectId,
-        weekStart: weekDate,
-        entryType,
-      },
+  const rows = await prisma.allocationHistory.findMany({
+    where: { consultantId, weekStart: weekDate },
+    include: {
+      project: { select: { projectName: true, timecode: true } },
+      changedBy: { select: { email: true } },
     },
+    orderBy: { createdAt: "desc" },
   });
 
+  return rows.map((r) => ({
+    id: r.id,
+    projectId: r.projectId,
+    projectName: decrypt(r.project.projectName),
+    timecode: decryptNullable(r.project.timecode),
+    entryType: r.entryType,
+    oldHours: r.oldHours,
+    newHours: r.newHours,
+    oldNotes: r.oldNotes,
+    newNotes: r.newNotes,
+    source: r.source,
+    changedBy: r.changedBy?.email ?? null,
+    createdAt: r.createdAt,
+  }));
+}
+
+/**
+ * Restores a cell to the value it held right after the given history entry.
+ * If that entry was a deletion, the allocation is deleted again. The revert
+ * itself is logged as a new history row.
+ */
+export async function revertAllocationChange(historyId: string) {
+  const session = await auth();
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  const entry = await prisma.allocationHistory.findUnique({ where: { id: historyId } });
+  if (!entry) {
+    throw new Error("History entry not found");
+  }
+
+  await assertCanModifyAllocations(session, entry.consultantId, "edit");
+
+  const where = {
+    consultantId_projectId_weekStart_entryType: {
+      consultantId: entry.consultantId,
+      projectId: entry.projectId,
+      weekStart: entry.weekStart,
+      entryType: entry.entryType,
+    },
+  };
+
+  const current = await prisma.allocation.findUnique({ where });
+  const changedBy = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { id: true },
+  });
+
+  const change: AllocationChange = {
+    consultantId: entry.consultantId,
+    projectId: entry.projectId,
+    weekStart: entry.weekStart,
+    entryType: entry.entryType,
+    oldHours: current?.hours ?? null,
+    newHours: entry.newHours,
+    oldNotes: current?.notes ?? null,
+    newNotes: entry.newHours === null ? null : entry.newNotes,
+    source: AllocationChangeSource.REVERT,
+    changedById: changedBy?.id ?? null,
+  };
+
+  if (!isMeaningfulChange(change)) {
+    return {
+      projectId: entry.projectId,
+      entryType: entry.entryType,
+      hours: current?.hours ?? null,
+      notes: current?.notes ?? null,
+    };
+  }
+
+  if (entry.newHours === null) {
+    if (current) {
+      await prisma.$transaction([
+        prisma.allocation.delete({ where: { id: current.id } }),
+        ...allocationHistoryWrites(change),
+      ]);
+    }
+  } else {
+    await prisma.$transaction([
+      prisma.allocation.upsert({
+        where,
+        update: { hours: entry.newHours, notes: entry.newNotes },
+        create: {
+          consultantId: entry.consultantId,
+          projectId: entry.projectId,
+          weekStart: entry.weekStart,
+          hours: entry.newHours,
+          entryType: entry.entryType,
+          notes: entry.newNotes,
+          createdById: changedBy?.id ?? null,
+        },
+      }),
+      ...allocationHistoryWrites(change),
+    ]);
+  }
+
+  if (entry.entryType === AllocationEntryType.PROJECTED && change.oldHours !== change.newHours) {
+    await notifyForecastChanged([entry.consultantId], session.user);
+  }
+
   revalidatePath("/utilization");
+  return {
+    projectId: entry.projectId,
+    entryType: entry.entryType,
+    hours: entry.newHours,
+    notes: change.newNotes ?? null,
+  };
 }
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { buildCalendarFeed, resolveCalendarFeedToken } from "@/lib/calendar-feed";
+
+export const runtime = "nodejs";
+
+// Public route: calendar clients can't sign in, so the token in the URL is the credential.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params;
+
+  const user = await resolveCalendarFeedToken(token.replace(/\.ics$/, ""));
+  if (!user) {
+    return new NextResponse("Not found", { status: 404 });
+  }
+
+  const ics = await buildCalendarFeed(user.consultantId, request.nextUrl.hostname);
+
+  return new NextResponse(ics, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": 'inline; filename="calendar.ics"',
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { decrypt } from "@/lib/encryption";
+
+export const runtime = "nodejs";
+
+/**
+ * Serves an issued invoice exactly as it was rendered. `?download=1` saves
+ * it as a file instead of opening it for printing.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session || session.user.role !== "ADMIN") {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const { id } = await params;
+
+  const document = await prisma.invoiceDocument.findUnique({
+    where: { id },
+    select: { invoiceNumber: true, html: true },
+  });
+
+  if (!document) {
+    return new NextResponse("Invoice not found", { status: 404 });
+  }
+
+  const headers: Record<string, string> = {
+    "Content-Type": "text/html; charset=utf-8",
+    "Cache-Control": "no-store",
+  };
+  if (request.nextUrl.searchParams.get("download")) {
+    headers["Content-Disposition"] = `attachment; filename="${document.invoiceNumber}.html"`;
+  }
+
+  return new NextResponse(decrypt(document.html), { headers });
+}
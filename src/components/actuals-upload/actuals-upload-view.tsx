@@ -4,6 +4,15 @@ import { useState, useCallback, useRef } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Table,
   TableBody,
@@ -22,29 +31,66 @@ import {
   ChevronDown,
   ChevronRight,
   X,
+  Trash2,
 } from "lucide-react";
 import {
-  processActualsUpload,
+  stageActualsUpload,
+  commitActualsImport,
+  discardActualsImport,
+  getActualsImports,
+  type ActualsImportSummary,
+  type ImportPreview,
+  type ImportRowChange,
   type UploadResult,
+  type WeekTotal,
   type UnmatchedEntry,
 } from "@/app/actions/actuals-upload";
+import type { AliasTargets } from "@/app/actions/import-aliases";
+import { AliasMapper } from "@/components/import-aliases/alias-mapper";
+import { ImportHistory } from "./import-history";
 import { format, parseISO } from "date-fns";
 
-export function ActualsUploadView() {
+// Lets the server pick the default profile, or the built-in layout when none is set
+const DEFAULT_PROFILE = "__default__";
+
+interface ActualsUploadViewProps {
+  profiles: Array<{ id: string; name: string; isDefault: boolean }>;
+  aliasTargets: AliasTargets;
+  imports: ActualsImportSummary[];
+  canRollback: boolean;
+}
+
+export function ActualsUploadView({
+  profiles,
+  aliasTargets,
+  imports: initialImports,
+  canRollback,
+}: ActualsUploadViewProps) {
   const [file, setFile] = useState<File | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [weekOverride, setWeekOverride] = useState("");
+  const [profileId, setProfileId] = useState(
+    profiles.find((p) => p.isDefault)?.id ?? DEFAULT_PROFILE
+  );
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [isCommitting, setIsCommitting] = useState(false);
   const [result, setResult] = useState<UploadResult | null>(null);
   const [expandedCodes, setExpandedCodes] = useState<Set<string>>(new Set());
+  const [mappedKeys, setMappedKeys] = useState<Set<string>>(new Set());
+  const [imports, setImports] = useState(initialImports);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFile = useCallback((f: File) => {
     if (
       f.type ===
         "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" ||
-      f.name.endsWith(".xlsx")
+      f.type === "text/csv" ||
+      f.name.endsWith(".xlsx") ||
+      f.name.endsWith(".csv")
     ) {
       setFile(f);
+      setPreview(null);
       setResult(null);
     }
   }, []);
@@ -62,27 +108,84 @@ export function ActualsUploadView() {
   const handleProcess = useCallback(async () => {
     if (!file) return;
     setIsProcessing(true);
+    setResult(null);
     try {
+      // Re-previewing (e.g. with a different week) replaces the staged import
+      if (preview?.success) {
+        await discardActualsImport(preview.importId).catch(() => {});
+      }
       const formData = new FormData();
       formData.append("file", file);
-      const res = await processActualsUpload(formData);
-      setResult(res);
+      if (weekOverride) formData.append("weekStart", weekOverride);
+      if (profileId !== DEFAULT_PROFILE) formData.append("profileId", profileId);
+      const res = await stageActualsUpload(formData);
+      setPreview(res);
       if (res.unmatched.length > 0) {
         setExpandedCodes(new Set(res.unmatched.map((u) => u.projectCode)));
       }
     } catch (err) {
-      setResult({
+      setPreview({
         success: false,
+        importId: "",
+        fileName: file.name,
         weekStart: "",
+        weekSource: "",
         dateRange: "",
-        processed: { count: 0, totalHours: 0 },
+        sheetCount: 0,
+        weeks: [],
+        rows: [],
         unmatched: [],
+        warnings: [],
         errors: [err instanceof Error ? err.message : "Upload failed"],
       });
     } finally {
       setIsProcessing(false);
     }
-  }, [file]);
+  }, [file, weekOverride, profileId, preview]);
+
+  const handleCommit = useCallback(async () => {
+    if (!preview?.success) return;
+    setIsCommitting(true);
+    try {
+      const res = await commitActualsImport(preview.importId);
+      setResult(res);
+      setPreview(null);
+      setImports(await getActualsImports());
+    } catch (err) {
+      setResult({
+        success: false,
+        weekStart: "",
+        dateRange: "",
+        processed: { count: 0, totalHours: 0 },
+        weeks: [],
+        unmatched: [],
+        errors: [err instanceof Error ? err.message : "Import failed"],
+      });
+    } finally {
+      setIsCommitting(false);
+    }
+  }, [preview]);
+
+  const handleDiscard = useCallback(async () => {
+    if (!preview?.success) return;
+    setIsCommitting(true);
+    try {
+      await discardActualsImport(preview.importId);
+      setPreview(null);
+    } catch (err) {
+      setResult({
+        success: false,
+        weekStart: "",
+        dateRange: "",
+        processed: { count: 0, totalHours: 0 },
+        weeks: [],
+        unmatched: [],
+        errors: [err instanceof Error ? err.message : "Failed to discard import"],
+      });
+    } finally {
+      setIsCommitting(false);
+    }
+  }, [preview]);
 
   const toggleCode = useCallback((code: string) => {
     setExpandedCodes((prev) => {
@@ -94,11 +197,26 @@ export function ActualsUploadView() {
   }, []);
 
   const clearFile = useCallback(() => {
+    if (preview?.success) {
+      discardActualsImport(preview.importId).catch(() => {});
+    }
     setFile(null);
+    setPreview(null);
     setResult(null);
     if (fileInputRef.current) fileInputRef.current.value = "";
+  }, [preview]);
+
+  const refreshImports = useCallback(async () => {
+    setImports(await getActualsImports());
+  }, []);
+
+  const markMapped = useCallback((key: string) => {
+    setMappedKeys((prev) => new Set(prev).add(key));
   }, []);
 
+  const failure = preview && !preview.success ? preview : result && !result.success ? result : null;
+  const unmatched = preview?.success ? preview.unmatched : result?.success ? result.unmatched : [];
+
   return (
     <div className="space-y-6">
       {/* Upload Area */}
@@ -106,8 +224,10 @@ export function ActualsUploadView() {
         <CardHeader>
           <CardTitle>Upload Spreadsheet</CardTitle>
           <CardDescription>
-            Upload a PM Report (.xlsx) to import actual hours. The date range
-            and column layout are auto-detected from the file.
+            Upload a timesheet export (.xlsx or .csv) to preview actual hours
+            before they are imported. Columns are read using the selected
+            import profile, and the week is auto-detected from the file unless
+            you choose it yourself.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -127,7 +247,7 @@ export function ActualsUploadView() {
             <input
               ref={fileInputRef}
               type="file"
-              accept=".xlsx"
+              accept=".xlsx,.csv"
               className="hidden"
               onChange={(e) => {
                 const f = e.target.files?.[0];
@@ -159,13 +279,46 @@ export function ActualsUploadView() {
               <div className="space-y-2">
                 <Upload className="h-10 w-10 mx-auto text-muted-foreground" />
                 <p className="text-sm text-muted-foreground">
-                  Drag and drop an .xlsx file here, or click to browse
+                  Drag and drop an .xlsx or .csv file here, or click to browse
                 </p>
               </div>
             )}
           </div>
 
-          <div className="flex justify-end">
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+            <div className="flex flex-col gap-4 sm:flex-row">
+            <div className="space-y-1">
+              <Label>Import Profile</Label>
+              <Select value={profileId} onValueChange={setProfileId}>
+                <SelectTrigger className="w-[240px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {!profiles.some((p) => p.isDefault) && (
+                    <SelectItem value={DEFAULT_PROFILE}>NetSuite PM Report (built-in)</SelectItem>
+                  )}
+                  {profiles.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>
+                      {p.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="week-override">Week (optional)</Label>
+              <Input
+                id="week-override"
+                type="date"
+                value={weekOverride}
+                onChange={(e) => setWeekOverride(e.target.value)}
+                className="w-[200px]"
+              />
+              <p className="text-xs text-muted-foreground">
+                Used for rows without a date column. Leave blank to detect it from the file.
+              </p>
+            </div>
+            </div>
             <Button
               onClick={handleProcess}
               disabled={!file || isProcessing}
@@ -179,7 +332,7 @@ export function ActualsUploadView() {
               ) : (
                 <>
                   <Upload className="mr-2 h-4 w-4" />
-                  Process File
+                  Preview Import
                 </>
               )}
             </Button>
@@ -187,131 +340,151 @@ export function ActualsUploadView() {
         </CardContent>
       </Card>
 
-      {/* Results */}
-      {result && (
-        <>
-          {/* Errors */}
-          {!result.success && result.errors.length > 0 && (
-            <Card className="border-destructive">
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2 text-destructive">
-                  <XCircle className="h-5 w-5" />
-                  Processing Failed
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <ul className="space-y-1">
+      {/* Errors */}
+      {failure && failure.errors.length > 0 && (
+        <Card className="border-destructive">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-destructive">
+              <XCircle className="h-5 w-5" />
+              Processing Failed
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-1">
+              {failure.errors.map((err, i) => (
+                <li key={i} className="text-sm text-destructive">
+                  {err}
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Staged Preview */}
+      {preview?.success && (
+        <ImportPreviewCard
+          preview={preview}
+          isBusy={isCommitting}
+          onCommit={handleCommit}
+          onDiscard={handleDiscard}
+        />
+      )}
+
+      {/* Success Summary */}
+      {result?.success && (
+        <Card className="border-green-200 dark:border-green-900/50">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CheckCircle2 className="h-5 w-5 text-green-600" />
+              Upload Complete
+            </CardTitle>
+            <CardDescription>
+              {result.weeks.length > 1
+                ? `${result.weeks.length} weeks`
+                : `Week of ${format(parseISO(result.weekStart), "MMM d, yyyy")}`}{" "}
+              ({result.dateRange})
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+              <div className="space-y-1">
+                <p className="text-sm text-muted-foreground">
+                  Allocations Saved
+                </p>
+                <p className="text-2xl font-bold">
+                  {result.processed.count}
+                </p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-sm text-muted-foreground">
+                  Total Hours
+                </p>
+                <p className="text-2xl font-bold">
+                  {result.processed.totalHours.toLocaleString("en-US", {
+                    maximumFractionDigits: 1,
+                  })}
+                </p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-sm text-muted-foreground">
+                  Unmatched Groups
+                </p>
+                <p className="text-2xl font-bold">
+                  {result.unmatched.length}
+                </p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-sm text-muted-foreground">Errors</p>
+                <p className="text-2xl font-bold">
+                  {result.errors.length}
+                </p>
+              </div>
+            </div>
+
+            {result.weeks.length > 1 && (
+              <WeekTotals weeks={result.weeks} className="mt-4" />
+            )}
+
+            {result.errors.length > 0 && (
+              <div className="mt-4 p-3 bg-red-50 dark:bg-red-900/20 rounded-md">
+                <p className="text-sm font-medium text-red-800 dark:text-red-300 mb-1">
+                  Save Errors:
+                </p>
+                <ul className="space-y-0.5">
                   {result.errors.map((err, i) => (
-                    <li key={i} className="text-sm text-destructive">
+                    <li
+                      key={i}
+                      className="text-sm text-red-600 dark:text-red-400"
+                    >
                       {err}
                     </li>
                   ))}
                 </ul>
-              </CardContent>
-            </Card>
-          )}
-
-          {/* Success Summary */}
-          {result.success && (
-            <Card className="border-green-200 dark:border-green-900/50">
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <CheckCircle2 className="h-5 w-5 text-green-600" />
-                  Upload Complete
-                </CardTitle>
-                <CardDescription>
-                  Week of{" "}
-                  {format(parseISO(result.weekStart), "MMM d, yyyy")} (
-                  {result.dateRange})
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
-                  <div className="space-y-1">
-                    <p className="text-sm text-muted-foreground">
-                      Allocations Saved
-                    </p>
-                    <p className="text-2xl font-bold">
-                      {result.processed.count}
-                    </p>
-                  </div>
-                  <div className="space-y-1">
-                    <p className="text-sm text-muted-foreground">
-                      Total Hours
-                    </p>
-                    <p className="text-2xl font-bold">
-                      {result.processed.totalHours.toLocaleString("en-US", {
-                        maximumFractionDigits: 1,
-                      })}
-                    </p>
-                  </div>
-                  <div className="space-y-1">
-                    <p className="text-sm text-muted-foreground">
-                      Unmatched Groups
-                    </p>
-                    <p className="text-2xl font-bold">
-                      {result.unmatched.length}
-                    </p>
-                  </div>
-                  <div className="space-y-1">
-                    <p className="text-sm text-muted-foreground">Errors</p>
-                    <p className="text-2xl font-bold">
-                      {result.errors.length}
-                    </p>
-                  </div>
-                </div>
-
-                {result.errors.length > 0 && (
-                  <div className="mt-4 p-3 bg-red-50 dark:bg-red-900/20 rounded-md">
-                    <p className="text-sm font-medium text-red-800 dark:text-red-300 mb-1">
-                      Save Errors:
-                    </p>
-                    <ul className="space-y-0.5">
-                      {result.errors.map((err, i) => (
-                        <li
-                          key={i}
-                          className="text-sm text-red-600 dark:text-red-400"
-                        >
-                          {err}
-                        </li>
-                      ))}
-                    </ul>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-          )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
 
-          {/* Unmatched Report */}
-          {result.success && result.unmatched.length > 0 && (
-            <Card className="border-yellow-200 dark:border-yellow-900/50">
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <AlertTriangle className="h-5 w-5 text-yellow-600" />
-                  Unmatched Data
-                </CardTitle>
-                <CardDescription>
-                  The following entries could not be matched to a project code
-                  and/or consultant in the system. Hours are aggregated per
-                  employee per project.
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-2">
-                  {result.unmatched.map((group) => (
-                    <UnmatchedGroup
-                      key={group.projectCode}
-                      group={group}
-                      expanded={expandedCodes.has(group.projectCode)}
-                      onToggle={() => toggleCode(group.projectCode)}
-                    />
-                  ))}
-                </div>
-              </CardContent>
-            </Card>
-          )}
-        </>
+      {/* Unmatched Report */}
+      {unmatched.length > 0 && (
+        <Card className="border-yellow-200 dark:border-yellow-900/50">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-yellow-600" />
+              Unmatched Data
+            </CardTitle>
+            <CardDescription>
+              The following entries could not be matched to a project code
+              and/or consultant in the system. Hours are aggregated per
+              employee per project. Map a name or code to save it as an alias
+              for future uploads, then preview again to include those hours.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {unmatched.map((group) => (
+                <UnmatchedGroup
+                  key={group.projectCode}
+                  group={group}
+                  expanded={expandedCodes.has(group.projectCode)}
+                  onToggle={() => toggleCode(group.projectCode)}
+                  aliasTargets={aliasTargets}
+                  mappedKeys={mappedKeys}
+                  onMapped={markMapped}
+                />
+              ))}
+            </div>
+          </CardContent>
+        </Card>
       )}
+
+      <ImportHistory
+        imports={imports}
+        canRollback={canRollback}
+        onRolledBack={refreshImports}
+      />
     </div>
   );
 }
@@ -320,11 +493,18 @@ function UnmatchedGroup({
   group,
   expanded,
   onToggle,
+  aliasTargets,
+  mappedKeys,
+  onMapped,
 }: {
   group: UnmatchedEntry;
   expanded: boolean;
   onToggle: () => void;
+  aliasTargets: AliasTargets;
+  mappedKeys: Set<string>;
+  onMapped: (key: string) => void;
 }) {
+  const projectKey = `PROJECT:${group.projectCode}`;
   const totalHours = group.entries.reduce((sum, e) => sum + e.totalHours, 0);
 
   return (
@@ -359,11 +539,30 @@ function UnmatchedGroup({
 
       {expanded && (
         <div className="border-t">
+          {!group.projectFound && (
+            <div className="flex items-center justify-between gap-4 px-4 py-3 bg-muted/30 border-b">
+              <span className="text-sm text-muted-foreground">
+                Match project code <span className="font-mono">{group.projectCode}</span> to:
+              </span>
+              {mappedKeys.has(projectKey) ? (
+                <MappedBadge />
+              ) : (
+                <AliasMapper
+                  type="PROJECT"
+                  alias={group.projectCode}
+                  targets={aliasTargets.projects}
+                  suggestions={group.projectSuggestions}
+                  onMapped={() => onMapped(projectKey)}
+                />
+              )}
+            </div>
+          )}
           <Table>
             <TableHeader>
               <TableRow>
                 <TableHead>Employee</TableHead>
                 <TableHead>Reason</TableHead>
+                <TableHead>Map Employee</TableHead>
                 <TableHead className="text-right">Hours</TableHead>
               </TableRow>
             </TableHeader>
@@ -397,6 +596,19 @@ function UnmatchedGroup({
                       </Badge>
                     )}
                   </TableCell>
+                  <TableCell>
+                    {entry.employeeFound ? null : mappedKeys.has(`EMPLOYEE:${entry.employee}`) ? (
+                      <MappedBadge />
+                    ) : (
+                      <AliasMapper
+                        type="EMPLOYEE"
+                        alias={entry.employee}
+                        targets={aliasTargets.consultants}
+                        suggestions={entry.employeeSuggestions}
+                        onMapped={() => onMapped(`EMPLOYEE:${entry.employee}`)}
+                      />
+                    )}
+                  </TableCell>
                   <TableCell className="text-right font-mono">
                     {entry.totalHours.toLocaleString("en-US", {
                       maximumFractionDigits: 1,
@@ -411,3 +623,202 @@ function UnmatchedGroup({
     </div>
   );
 }
+
+function formatHours(h: number) {
+  return h.toLocaleString("en-US", { maximumFractionDigits: 1 });
+}
+
+function WeekTotals({ weeks, className }: { weeks: WeekTotal[]; className?: string }) {
+  return (
+    <div className={`border rounded-lg ${className ?? ""}`}>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Week</TableHead>
+            <TableHead className="text-right">Allocations</TableHead>
+            <TableHead className="text-right">Hours</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {weeks.map((week) => (
+            <TableRow key={week.weekStart}>
+              <TableCell>Week of {format(parseISO(week.weekStart), "MMM d, yyyy")}</TableCell>
+              <TableCell className="text-right font-mono">{week.rowCount}</TableCell>
+              <TableCell className="text-right font-mono">{formatHours(week.totalHours)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+function MappedBadge() {
+  return (
+    <Badge
+      variant="secondary"
+      className="bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-200"
+    >
+      Mapped
+    </Badge>
+  );
+}
+
+const CHANGE_BADGES: Record<ImportRowChange, { label: string; className: string }> = {
+  NEW: {
+    label: "New",
+    className: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-200",
+  },
+  CHANGED: {
+    label: "Changed",
+    className: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-200",
+  },
+  UNCHANGED: {
+    label: "Unchanged",
+    className: "",
+  },
+};
+
+const WEEK_SOURCE_LABELS: Record<ImportPreview["weekSource"], string> = {
+  override: "chosen manually",
+  filename: "detected from the filename",
+  spreadsheet: "detected from the spreadsheet",
+  dateColumn: "read from the Date column",
+  mixed: "detected per sheet and row",
+  "": "",
+};
+
+function ImportPreviewCard({
+  preview,
+  isBusy,
+  onCommit,
+  onDiscard,
+}: {
+  preview: ImportPreview;
+  isBusy: boolean;
+  onCommit: () => void;
+  onDiscard: () => void;
+}) {
+  const counts = { NEW: 0, CHANGED: 0, UNCHANGED: 0 };
+  for (const row of preview.rows) counts[row.change]++;
+  const totalHours = preview.rows.reduce((sum, r) => sum + r.hours, 0);
+  const pendingCount = counts.NEW + counts.CHANGED;
+  const multiWeek = preview.weeks.length > 1;
+
+  return (
+    <Card className="border-blue-200 dark:border-blue-900/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileSpreadsheet className="h-5 w-5 text-blue-600" />
+          Review Import
+        </CardTitle>
+        <CardDescription>
+          {multiWeek
+            ? `${preview.weeks.length} weeks`
+            : `Week of ${format(parseISO(preview.weekStart), "MMM d, yyyy")}`}{" "}
+          ({preview.dateRange}), {WEEK_SOURCE_LABELS[preview.weekSource]}
+          {preview.sheetCount > 1 && ` across ${preview.sheetCount} sheets`}.
+          Nothing has been saved yet. If a week is wrong, choose it above and
+          preview again.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+          <div className="space-y-1">
+            <p className="text-sm text-muted-foreground">New</p>
+            <p className="text-2xl font-bold">{counts.NEW}</p>
+          </div>
+          <div className="space-y-1">
+            <p className="text-sm text-muted-foreground">Changed</p>
+            <p className="text-2xl font-bold">{counts.CHANGED}</p>
+          </div>
+          <div className="space-y-1">
+            <p className="text-sm text-muted-foreground">Unchanged</p>
+            <p className="text-2xl font-bold">{counts.UNCHANGED}</p>
+          </div>
+          <div className="space-y-1">
+            <p className="text-sm text-muted-foreground">Total Hours</p>
+            <p className="text-2xl font-bold">{formatHours(totalHours)}</p>
+          </div>
+        </div>
+
+        {multiWeek && <WeekTotals weeks={preview.weeks} />}
+
+        {preview.warnings.length > 0 && (
+          <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 rounded-md">
+            <ul className="space-y-0.5">
+              {preview.warnings.map((warning, i) => (
+                <li key={i} className="text-sm text-yellow-800 dark:text-yellow-300">
+                  {warning}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {preview.rows.length > 0 ? (
+          <div className="border rounded-lg max-h-[480px] overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {multiWeek && <TableHead>Week</TableHead>}
+                  <TableHead>Employee</TableHead>
+                  <TableHead>Project Code</TableHead>
+                  <TableHead className="text-right">Current</TableHead>
+                  <TableHead className="text-right">Imported</TableHead>
+                  <TableHead>Change</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.rows.map((row) => (
+                  <TableRow
+                    key={`${row.consultantId}_${row.projectId}_${row.weekStart}`}
+                    className={row.change === "UNCHANGED" ? "text-muted-foreground" : ""}
+                  >
+                    {multiWeek && (
+                      <TableCell className="whitespace-nowrap">
+                        {format(parseISO(row.weekStart), "MMM d")}
+                      </TableCell>
+                    )}
+                    <TableCell className="font-medium">{row.employee}</TableCell>
+                    <TableCell className="font-mono text-sm">{row.projectCode}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {row.existingHours === null ? "—" : formatHours(row.existingHours)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {formatHours(row.hours)}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="secondary" className={CHANGE_BADGES[row.change].className}>
+                        {CHANGE_BADGES[row.change].label}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No rows in this file matched a consultant and project.
+          </p>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onDiscard} disabled={isBusy}>
+            <Trash2 className="mr-2 h-4 w-4" />
+            Discard
+          </Button>
+          <Button onClick={onCommit} disabled={isBusy || pendingCount === 0}>
+            {isBusy ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <CheckCircle2 className="mr-2 h-4 w-4" />
+            )}
+            Commit {pendingCount} Change{pendingCount !== 1 ? "s" : ""}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,193 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { History, Loader2, Undo2 } from "lucide-react";
+import {
+  rollbackActualsImport,
+  type ActualsImportSummary,
+} from "@/app/actions/actuals-upload";
+
+interface ImportHistoryProps {
+  imports: ActualsImportSummary[];
+  canRollback: boolean;
+  onRolledBack: () => void;
+}
+
+export function ImportHistory({ imports, canRollback, onRolledBack }: ImportHistoryProps) {
+  const [confirming, setConfirming] = useState<ActualsImportSummary | null>(null);
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+
+  const handleRollback = useCallback(async () => {
+    if (!confirming) return;
+    const target = confirming;
+    setConfirming(null);
+    setRollingBackId(target.id);
+    try {
+      const res = await rollbackActualsImport(target.id);
+      const summary = `Restored ${res.restored}, removed ${res.removed}`;
+      if (res.skipped.length > 0) {
+        toast.warning(`${summary}. Skipped ${res.skipped.length} edited since import`, {
+          description: res.skipped.join("\n"),
+        });
+      } else {
+        toast.success(`Rolled back ${target.fileName}. ${summary}.`);
+      }
+      onRolledBack();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Rollback failed");
+    } finally {
+      setRollingBackId(null);
+    }
+  }, [confirming, onRolledBack]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Import History
+        </CardTitle>
+        <CardDescription>
+          Recent actuals imports. Rolling one back restores the hours it
+          overwrote and removes the allocations it created.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {imports.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No imports yet.
+          </p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>File</TableHead>
+                  <TableHead>Week</TableHead>
+                  <TableHead>Uploaded By</TableHead>
+                  <TableHead>Imported</TableHead>
+                  <TableHead className="text-right">Rows</TableHead>
+                  <TableHead className="text-right">Hours</TableHead>
+                  <TableHead>Status</TableHead>
+                  {canRollback && <TableHead className="w-[120px]"></TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {imports.map((imp) => (
+                  <TableRow key={imp.id} className={imp.status === "ROLLED_BACK" ? "opacity-60" : ""}>
+                    <TableCell className="font-medium max-w-[220px] truncate" title={imp.fileName}>
+                      {imp.fileName}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {format(parseISO(imp.weekStart), "MMM d, yyyy")}
+                      {imp.weekCount > 1 && (
+                        <span className="text-muted-foreground"> +{imp.weekCount - 1} more</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {imp.uploadedBy ?? "-"}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {imp.committedAt ? format(new Date(imp.committedAt), "MMM d, yyyy h:mm a") : "-"}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {imp.appliedCount}/{imp.rowCount}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {imp.totalHours.toLocaleString("en-US", { maximumFractionDigits: 1 })}
+                    </TableCell>
+                    <TableCell>
+                      {imp.status === "ROLLED_BACK" ? (
+                        <Badge
+                          variant="secondary"
+                          title={imp.rolledBackAt
+                            ? `Rolled back ${format(new Date(imp.rolledBackAt), "MMM d, yyyy h:mm a")}${imp.rolledBackBy ? ` by ${imp.rolledBackBy}` : ""}`
+                            : undefined}
+                        >
+                          Rolled Back
+                        </Badge>
+                      ) : (
+                        <Badge
+                          variant="secondary"
+                          className="bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-200"
+                        >
+                          Committed
+                        </Badge>
+                      )}
+                    </TableCell>
+                    {canRollback && (
+                      <TableCell>
+                        {imp.status === "COMMITTED" && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={rollingBackId !== null}
+                            onClick={() => setConfirming(imp)}
+                          >
+                            {rollingBackId === imp.id ? (
+                              <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />
+                            ) : (
+                              <Undo2 className="mr-1 h-3.5 w-3.5" />
+                            )}
+                            Roll Back
+                          </Button>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!confirming} onOpenChange={(open) => !open && setConfirming(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Roll back this import?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirming && (
+                <>
+                  The {confirming.appliedCount} allocation
+                  {confirming.appliedCount !== 1 ? "s" : ""} written by{" "}
+                  <span className="font-medium">{confirming.fileName}</span> for the week of{" "}
+                  {format(parseISO(confirming.weekStart), "MMM d, yyyy")}
+                  {confirming.weekCount > 1 && ` and ${confirming.weekCount - 1} later week${confirming.weekCount > 2 ? "s" : ""}`} will be restored to
+                  their earlier hours. Cells edited since the import are left unchanged.
+                </>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRollback}>Roll Back</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -3,7 +3,7 @@
 import { useForm, Controller } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { GroupType, OvertimePreference, Consultant, ConsultantGroup, ConsultantBillingRole } from "@prisma/client";
+import { GroupType, HolidayCalendar, OvertimePreference, Consultant, ConsultantGroup, ConsultantBillingRole } from "@prisma/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -29,6 +29,7 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { createConsultant, updateConsultant } from "@/app/actions/consultants";
+import { HOLIDAY_CALENDAR_LABELS } from "@/components/settings/holiday-calendar";
 import { useState, useEffect } from "react";
 import { X, Search } from "lucide-react";
 
@@ -38,6 +39,8 @@ const formSchema = z.object({
   standardHours: z.number().min(0).max(80),
   overtimePreference: z.nativeEnum(OvertimePreference),
   overtimeHoursAvailable: z.number().min(0).max(40),
+  holidayCalendar: z.nativeEnum(HolidayCalendar),
+  ptoPolicyId: z.string().optional().nullable(),
   managerId: z.string().optional().nullable(),
   groups: z.array(z.nativeEnum(GroupType)).min(1, "At least one group is required"),
   billingRoleIds: z.array(z.string()).min(1, "At least one billing role is required"),
@@ -65,9 +68,10 @@ interface ConsultantFormProps {
   onOpenChange: (open: boolean) => void;
   users?: UserOption[];
   roleDefinitions?: { id: string; name: string }[];
+  ptoPolicies?: { id: string; name: string }[];
 }
 
-const GROUP_LABELS: Record<GroupType, string> = {
+export const GROUP_LABELS: Record<GroupType, string> = {
   TECH: "Tech",
   FABA: "FA/BA",
   PEM: "PEM",
@@ -88,6 +92,7 @@ export function ConsultantForm({
   onOpenChange,
   users = [],
   roleDefinitions = [],
+  ptoPolicies = [],
 }: ConsultantFormProps) {
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
@@ -101,6 +106,8 @@ export function ConsultantForm({
       standardHours: 40,
       overtimePreference: OvertimePreference.NONE,
       overtimeHoursAvailable: 0,
+      holidayCalendar: HolidayCalendar.US,
+      ptoPolicyId: "",
       managerId: "",
       groups: [],
       billingRoleIds: [],
@@ -115,6 +122,8 @@ export function ConsultantForm({
         standardHours: consultant?.standardHours || 40,
         overtimePreference: consultant?.overtimePreference || OvertimePreference.NONE,
         overtimeHoursAvailable: consultant?.overtimeHoursAvailable || 0,
+        holidayCalendar: consultant?.holidayCalendar || HolidayCalendar.US,
+        ptoPolicyId: consultant?.ptoPolicyId || "",
         managerId: consultant?.managerId || "",
         groups: consultant?.groups.map((g) => g.group) || [],
         billingRoleIds: consultant?.billingRoles.map((br) => br.roleDefinitionId) || [],
@@ -293,6 +302,60 @@ export function ConsultantForm({
               />
             </div>
 
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="holidayCalendar"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Holiday Calendar</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.values(HolidayCalendar).map((c) => (
+                          <SelectItem key={c} value={c}>{HOLIDAY_CALENDAR_LABELS[c]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>Company holidays that reduce this consultant&apos;s weekly capacity</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="ptoPolicyId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>PTO Policy</FormLabel>
+                    <Select
+                      onValueChange={(v) => field.onChange(v === "__none__" ? "" : v)}
+                      value={field.value || "__none__"}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="__none__">No accrual</SelectItem>
+                        {ptoPolicies.map((policy) => (
+                          <SelectItem key={policy.id} value={policy.id}>{policy.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>Changing the policy restarts accrual from today</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
             {/* Groups — table + select to add */}
             <Controller
               control={form.control}
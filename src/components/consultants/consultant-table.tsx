@@ -27,9 +27,10 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { ArrowDown, ArrowUp, ArrowUpDown, MoreHorizontal, Pencil, Trash2 } from "lucide-react";
+import { ArrowDown, ArrowUp, ArrowUpDown, MoreHorizontal, Palmtree, Pencil, Trash2 } from "lucide-react";
 import { deleteConsultant } from "@/app/actions/consultants";
 import { ConsultantForm } from "./consultant-form";
+import { PTOLedgerDialog } from "./pto-ledger-dialog";
 import { type UserOption } from "./consultants-view";
 
 type ConsultantWithRelations = Consultant & {
@@ -45,6 +46,7 @@ interface ConsultantTableProps {
   consultants: ConsultantWithRelations[];
   users: UserOption[];
   roleDefinitions: { id: string; name: string }[];
+  ptoPolicies: { id: string; name: string }[];
 }
 
 const otPreferenceLabels: Record<OvertimePreference, string> = {
@@ -61,8 +63,9 @@ function SortIcon({ col, sortKey, sortDir }: { col: SortKey; sortKey: SortKey |
   return sortDir === "asc" ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />;
 }
 
-export function ConsultantTable({ consultants, users, roleDefinitions }: ConsultantTableProps) {
+export function ConsultantTable({ consultants, users, roleDefinitions, ptoPolicies }: ConsultantTableProps) {
   const [editingConsultant, setEditingConsultant] = useState<ConsultantWithRelations | null>(null);
+  const [ledgerConsultant, setLedgerConsultant] = useState<ConsultantWithRelations | null>(null);
   const [deletingConsultant, setDeletingConsultant] = useState<ConsultantWithRelations | null>(null);
   const [deleteError, setDeleteError] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
@@ -196,6 +199,10 @@ export function ConsultantTable({ consultants, users, roleDefinitions }: Consult
                           <Pencil className="mr-2 h-4 w-4" />
                           Edit
                         </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => setLedgerConsultant(consultant)}>
+                          <Palmtree className="mr-2 h-4 w-4" />
+                          PTO Balance
+                        </DropdownMenuItem>
                         <DropdownMenuItem
                           onClick={() => setDeletingConsultant(consultant)}
                           className="text-destructive focus:text-destructive"
@@ -219,6 +226,12 @@ export function ConsultantTable({ consultants, users, roleDefinitions }: Consult
         onOpenChange={(open) => !open && setEditingConsultant(null)}
         users={users}
         roleDefinitions={roleDefinitions}
+        ptoPolicies={ptoPolicies}
+      />
+
+      <PTOLedgerDialog
+        consultant={ledgerConsultant}
+        onOpenChange={(open) => !open && setLedgerConsultant(null)}
       />
 
       <AlertDialog open={!!deletingConsultant} onOpenChange={(open) => !open && setDeletingConsultant(null)}>
@@ -36,6 +36,7 @@ interface ConsultantsViewProps {
   consultants: ConsultantWithRelations[];
   users: UserOption[];
   roleDefinitions: { id: string; name: string }[];
+  ptoPolicies: { id: string; name: string }[];
 }
 
 const groupOptions = [
@@ -51,7 +52,7 @@ const groupOptions = [
   { value: GroupType.PRODUCT, label: "Product" },
 ];
 
-export function ConsultantsView({ consultants, users, roleDefinitions }: ConsultantsViewProps) {
+export function ConsultantsView({ consultants, users, roleDefinitions, ptoPolicies }: ConsultantsViewProps) {
   const [showForm, setShowForm] = useState(false);
   const [search, setSearch] = useState("");
   const [groupFilter, setGroupFilter] = useState<string>("all");
@@ -141,6 +142,7 @@ export function ConsultantsView({ consultants, users, roleDefinitions }: Consult
             consultants={filteredConsultants}
             users={users}
             roleDefinitions={roleDefinitions}
+            ptoPolicies={ptoPolicies}
           />
         </CardContent>
       </Card>
@@ -150,6 +152,7 @@ export function ConsultantsView({ consultants, users, roleDefinitions }: Consult
         onOpenChange={setShowForm}
         users={users}
         roleDefinitions={roleDefinitions}
+        ptoPolicies={ptoPolicies}
       />
     </>
   );
@@ -0,0 +1,182 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { format, parseISO } from "date-fns";
+import { PTOLedgerEntryType } from "@prisma/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, Plus } from "lucide-react";
+import { adjustPTOBalance, getPTOLedger, type PTOLedgerRow } from "@/app/actions/pto-policies";
+
+const ENTRY_TYPE_LABELS: Record<PTOLedgerEntryType, string> = {
+  [PTOLedgerEntryType.ACCRUAL]: "Accrual",
+  [PTOLedgerEntryType.USAGE]: "PTO taken",
+  [PTOLedgerEntryType.REVERSAL]: "PTO cancelled",
+  [PTOLedgerEntryType.CARRYOVER_FORFEIT]: "Carryover forfeit",
+  [PTOLedgerEntryType.ADJUSTMENT]: "Adjustment",
+};
+
+function formatHours(hours: number) {
+  const rounded = Math.round(hours * 100) / 100;
+  return `${rounded > 0 ? "+" : ""}${rounded}h`;
+}
+
+interface PTOLedgerDialogProps {
+  consultant: { id: string; name: string; ptoPolicyId: string | null } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function PTOLedgerDialog({ consultant, onOpenChange }: PTOLedgerDialogProps) {
+  const [ledger, setLedger] = useState<PTOLedgerRow[] | null>(null);
+  const [hours, setHours] = useState("");
+  const [note, setNote] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const consultantId = consultant?.id;
+
+  useEffect(() => {
+    if (!consultantId) return;
+    setLedger(null);
+    setHours("");
+    setNote("");
+    setError(null);
+    getPTOLedger(consultantId)
+      .then(setLedger)
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load PTO ledger"));
+  }, [consultantId]);
+
+  const handleAdjust = useCallback(async () => {
+    if (!consultantId) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await adjustPTOBalance(consultantId, parseFloat(hours), note);
+      setLedger(await getPTOLedger(consultantId));
+      setHours("");
+      setNote("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to adjust balance");
+    } finally {
+      setIsSaving(false);
+    }
+  }, [consultantId, hours, note]);
+
+  const balance = ledger && ledger.length > 0 ? ledger[ledger.length - 1].balance : 0;
+
+  return (
+    <Dialog open={!!consultant} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px]">
+        <DialogHeader>
+          <DialogTitle>PTO Balance: {consultant?.name}</DialogTitle>
+          <DialogDescription>
+            {consultant?.ptoPolicyId
+              ? `Current balance ${Math.round(balance * 100) / 100}h, including approved future PTO.`
+              : "No accrual policy is assigned, so approved PTO does not debit this balance."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="p-3 text-sm text-red-600 bg-red-50 dark:bg-red-900/20 dark:text-red-400 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {ledger === null ? (
+          !error && (
+            <div className="flex items-center justify-center py-8 text-sm text-muted-foreground">
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Loading...
+            </div>
+          )
+        ) : ledger.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">No ledger entries yet.</p>
+        ) : (
+          <ScrollArea className="max-h-[50vh]">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Entry</TableHead>
+                  <TableHead className="text-right">Hours</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...ledger].reverse().map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="text-sm">{format(parseISO(entry.effectiveDate), "MMM d, yyyy")}</TableCell>
+                    <TableCell>
+                      <p className="text-sm font-medium">{ENTRY_TYPE_LABELS[entry.type]}</p>
+                      {(entry.note || entry.createdBy) && (
+                        <p className="text-xs text-muted-foreground">
+                          {entry.note}
+                          {entry.note && entry.createdBy && " · "}
+                          {entry.createdBy}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell
+                      className={`text-right font-mono text-sm ${
+                        entry.hours < 0 ? "text-red-600 dark:text-red-400" : "text-green-600 dark:text-green-400"
+                      }`}
+                    >
+                      {formatHours(entry.hours)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-sm">
+                      {Math.round(entry.balance * 100) / 100}h
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        )}
+
+        <div className="grid grid-cols-[7rem_1fr_auto] items-end gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="pto-adjust-hours">Hours</Label>
+            <Input
+              id="pto-adjust-hours"
+              type="number"
+              step="0.5"
+              value={hours}
+              onChange={(e) => setHours(e.target.value)}
+              placeholder="e.g. -8"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="pto-adjust-note">Note</Label>
+            <Input
+              id="pto-adjust-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="e.g. Opening balance"
+            />
+          </div>
+          <Button onClick={handleAdjust} disabled={isSaving || !hours || !note.trim()}>
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+            Adjust
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,123 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { ImportAliasType } from "@prisma/client";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { createImportAlias } from "@/app/actions/import-aliases";
+import type { MatchSuggestion } from "@/lib/fuzzy-match";
+import { Loader2, Link2 } from "lucide-react";
+
+interface AliasTargetSelectProps {
+  targets: Array<{ id: string; label: string }>;
+  suggestions?: MatchSuggestion[];
+  value: string;
+  onValueChange: (value: string) => void;
+  placeholder: string;
+  className?: string;
+}
+
+/** Target picker that lists fuzzy-match suggestions ahead of everything else. */
+export function AliasTargetSelect({
+  targets,
+  suggestions = [],
+  value,
+  onValueChange,
+  placeholder,
+  className,
+}: AliasTargetSelectProps) {
+  const suggestedIds = new Set(suggestions.map((s) => s.id));
+  const others = targets.filter((t) => !suggestedIds.has(t.id));
+
+  return (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger className={className}>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent className="max-h-[300px]">
+        {suggestions.length > 0 && (
+          <>
+            <SelectGroup>
+              <SelectLabel>Suggested</SelectLabel>
+              {suggestions.map((s) => (
+                <SelectItem key={s.id} value={s.id}>
+                  {s.label}
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    {Math.round(s.score * 100)}%
+                  </span>
+                </SelectItem>
+              ))}
+            </SelectGroup>
+            <SelectSeparator />
+          </>
+        )}
+        <SelectGroup>
+          {suggestions.length > 0 && <SelectLabel>All</SelectLabel>}
+          {others.map((t) => (
+            <SelectItem key={t.id} value={t.id}>
+              {t.label}
+            </SelectItem>
+          ))}
+        </SelectGroup>
+      </SelectContent>
+    </Select>
+  );
+}
+
+interface AliasMapperProps {
+  type: ImportAliasType;
+  alias: string;
+  targets: Array<{ id: string; label: string }>;
+  suggestions: MatchSuggestion[];
+  onMapped: () => void;
+}
+
+/** Inline control on the unmatched report for saving an alias. */
+export function AliasMapper({ type, alias, targets, suggestions, onMapped }: AliasMapperProps) {
+  const [targetId, setTargetId] = useState(suggestions[0]?.id ?? "");
+  const [isPending, startTransition] = useTransition();
+
+  const handleSave = () => {
+    if (!targetId) return;
+    startTransition(async () => {
+      try {
+        await createImportAlias(type, alias, targetId);
+        toast.success(`"${alias}" will be matched on future uploads`);
+        onMapped();
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : "Failed to save alias");
+      }
+    });
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <AliasTargetSelect
+        targets={targets}
+        suggestions={suggestions}
+        value={targetId}
+        onValueChange={setTargetId}
+        placeholder={type === ImportAliasType.EMPLOYEE ? "Map to consultant" : "Map to project"}
+        className="h-8 w-[240px]"
+      />
+      <Button size="sm" variant="outline" onClick={handleSave} disabled={!targetId || isPending}>
+        {isPending ? (
+          <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />
+        ) : (
+          <Link2 className="mr-1 h-3.5 w-3.5" />
+        )}
+        Map
+      </Button>
+    </div>
+  );
+}
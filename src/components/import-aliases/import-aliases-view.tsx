@@ -0,0 +1,239 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import { format } from "date-fns";
+import { ImportAliasType } from "@prisma/client";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import {
+  createImportAlias,
+  deleteImportAlias,
+  getImportAliases,
+  type AliasTargets,
+  type ImportAliasData,
+} from "@/app/actions/import-aliases";
+import { AliasTargetSelect } from "./alias-mapper";
+
+interface ImportAliasesViewProps {
+  aliases: ImportAliasData[];
+  targets: AliasTargets;
+}
+
+export function ImportAliasesView({ aliases: initialAliases, targets }: ImportAliasesViewProps) {
+  const [aliases, setAliases] = useState(initialAliases);
+  const [type, setType] = useState<ImportAliasType>(ImportAliasType.EMPLOYEE);
+  const [alias, setAlias] = useState("");
+  const [targetId, setTargetId] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<ImportAliasData | null>(null);
+
+  const handleAdd = useCallback(async () => {
+    if (!alias.trim() || !targetId) {
+      setError("Enter an alias and choose what it maps to");
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      await createImportAlias(type, alias, targetId);
+      setAliases(await getImportAliases());
+      setAlias("");
+      setTargetId("");
+      toast.success("Alias saved");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save alias");
+    } finally {
+      setIsSaving(false);
+    }
+  }, [type, alias, targetId]);
+
+  const handleDelete = useCallback(async () => {
+    if (!deleting) return;
+    try {
+      await deleteImportAlias(deleting.id);
+      setAliases(prev => prev.filter(a => a.id !== deleting.id));
+      toast.success("Alias deleted");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to delete alias");
+    } finally {
+      setDeleting(null);
+    }
+  }, [deleting]);
+
+  return (
+    <>
+      <div>
+        <h1 className="text-3xl font-bold">Import Aliases</h1>
+        <p className="text-muted-foreground">
+          Map employee names and project codes from timesheet exports to consultants and projects
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Add Alias</CardTitle>
+          <CardDescription>
+            Aliases are matched case-insensitively on every actuals upload. You can also add
+            them directly from the unmatched report after an upload.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-[160px_1fr_1fr_auto] sm:items-end">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select
+                value={type}
+                onValueChange={(v) => {
+                  setType(v as ImportAliasType);
+                  setTargetId("");
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ImportAliasType.EMPLOYEE}>Employee</SelectItem>
+                  <SelectItem value={ImportAliasType.PROJECT}>Project Code</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="alias-value">
+                {type === ImportAliasType.EMPLOYEE ? "Name in spreadsheet" : "Code in spreadsheet"}
+              </Label>
+              <Input
+                id="alias-value"
+                value={alias}
+                onChange={(e) => setAlias(e.target.value)}
+                placeholder={type === ImportAliasType.EMPLOYEE ? "Smith, John" : "GT-1234"}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Maps to</Label>
+              <AliasTargetSelect
+                targets={type === ImportAliasType.EMPLOYEE ? targets.consultants : targets.projects}
+                value={targetId}
+                onValueChange={setTargetId}
+                placeholder={type === ImportAliasType.EMPLOYEE ? "Select consultant" : "Select project"}
+              />
+            </div>
+            <Button onClick={handleAdd} disabled={isSaving}>
+              {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+              Add
+            </Button>
+          </div>
+
+          {error && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 dark:bg-red-900/20 dark:text-red-400 rounded-md">
+              {error}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Aliases ({aliases.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {aliases.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No aliases yet.
+            </p>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[120px]">Type</TableHead>
+                    <TableHead>Alias</TableHead>
+                    <TableHead>Maps To</TableHead>
+                    <TableHead>Added By</TableHead>
+                    <TableHead>Added</TableHead>
+                    <TableHead className="w-[50px]"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {aliases.map((a) => (
+                    <TableRow key={a.id}>
+                      <TableCell>
+                        <Badge variant="secondary">
+                          {a.type === ImportAliasType.EMPLOYEE ? "Employee" : "Project"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className={a.type === ImportAliasType.PROJECT ? "font-mono" : ""}>
+                        {a.alias}
+                      </TableCell>
+                      <TableCell>{a.targetLabel}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{a.createdBy ?? "-"}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {format(new Date(a.createdAt), "MMM d, yyyy")}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="text-destructive hover:text-destructive"
+                          onClick={() => setDeleting(a)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete alias?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Future uploads will no longer match &quot;{deleting?.alias}&quot; to {deleting?.targetLabel}.
+              Hours already imported are not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -8,6 +8,7 @@ import {
   createOtherInvoice,
   updateOtherInvoice,
   deleteOtherInvoice,
+  generateInvoiceDocument,
   type InvoicingData,
   type InvoicePeriodData,
   type OtherInvoiceData,
@@ -39,11 +40,22 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { Label } from "@/components/ui/label";
-import { ChevronDown, ChevronRight, Pencil, Trash2, Plus } from "lucide-react";
-import { OtherInvoiceStatus } from "@prisma/client";
+import { ChevronDown, ChevronRight, Download, FileText, Pencil, Trash2, Plus } from "lucide-react";
+import { BillingCycle, BillingRateMode, OtherInvoiceStatus } from "@prisma/client";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
+import { RateReconciliation } from "./rate-reconciliation";
+import { MilestoneBillingSchedule } from "./milestone-billing";
 
 type Project = {
   id: string;
@@ -56,6 +68,18 @@ interface InvoicingClientProps {
   projects: Project[];
 }
 
+const BILLED_TOTAL_LABELS: Record<BillingRateMode, string> = {
+  MSRP_DISCOUNT: "Discounted Total",
+  NEGOTIATED: "Negotiated Total",
+};
+
+const BILLING_CYCLE_LABELS: Record<BillingCycle, string> = {
+  WEEKLY: "Weekly",
+  BIWEEKLY: "Bi-weekly",
+  SEMI_MONTHLY: "Semi-monthly",
+  MONTHLY: "Monthly",
+};
+
 function formatCurrency(amount: number, currency = "USD") {
   return new Intl.NumberFormat("en-US", {
     style: "currency",
@@ -174,8 +198,25 @@ function PeriodRow({
   onSaved: () => void;
 }) {
   const [expanded, setExpanded] = useState(false);
+  const [confirmingInvoice, setConfirmingInvoice] = useState(false);
   const [isPending, startTransition] = useTransition();
 
+  const hasProjectedHours = period.rows.some((r) => r.entryType !== "ACTUAL");
+
+  const handleGenerateInvoice = () => {
+    startTransition(async () => {
+      try {
+        const document = await generateInvoiceDocument(projectId, period.periodStart);
+        toast.success(`Invoice ${document.invoiceNumber} issued`);
+        setConfirmingInvoice(false);
+        window.open(`/api/invoices/${document.id}`, "_blank");
+        onSaved();
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : "Failed to generate invoice");
+      }
+    });
+  };
+
   const save = useCallback(
     (patch: {
       invoiceNumber?: string | null;
@@ -223,16 +264,20 @@ function PeriodRow({
           {formatCurrency(period.msrpTotal, currency)}
         </TableCell>
         <TableCell className="text-right font-mono">
-          {formatCurrency(period.discountedTotal, currency)}
+          {formatCurrency(period.billedTotal, currency)}
         </TableCell>
         {isBillable && (
           <>
             <TableCell>
-              <InlineField
-                value={period.invoiceNumber ?? ""}
-                placeholder="Enter #"
-                onSave={(v) => save({ invoiceNumber: v || null })}
-              />
+              {period.document ? (
+                <span className="px-1 text-sm font-mono">{period.document.invoiceNumber}</span>
+              ) : (
+                <InlineField
+                  value={period.invoiceNumber ?? ""}
+                  placeholder="Enter #"
+                  onSave={(v) => save({ invoiceNumber: v || null })}
+                />
+              )}
             </TableCell>
             <TableCell>
               <InlineField
@@ -251,11 +296,59 @@ function PeriodRow({
             className="max-w-[200px]"
           />
         </TableCell>
+        {isBillable && (
+          <TableCell>
+            {period.document ? (
+              <div className="flex">
+                <Button variant="ghost" size="icon" className="h-7 w-7" title="View invoice" asChild>
+                  <a href={`/api/invoices/${period.document.id}`} target="_blank" rel="noopener noreferrer">
+                    <FileText className="h-4 w-4" />
+                  </a>
+                </Button>
+                <Button variant="ghost" size="icon" className="h-7 w-7" title="Download invoice" asChild>
+                  <a href={`/api/invoices/${period.document.id}?download=1`}>
+                    <Download className="h-4 w-4" />
+                  </a>
+                </Button>
+              </div>
+            ) : (
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-7 whitespace-nowrap"
+                disabled={isPending || hasProjectedHours}
+                title={hasProjectedHours ? "Import actuals for every week before invoicing" : undefined}
+                onClick={() => setConfirmingInvoice(true)}
+              >
+                Generate invoice
+              </Button>
+            )}
+          </TableCell>
+        )}
       </TableRow>
 
+      <AlertDialog open={confirmingInvoice} onOpenChange={(open) => !isPending && setConfirmingInvoice(open)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Generate Invoice</AlertDialogTitle>
+            <AlertDialogDescription>
+              Issue an invoice for {formatDate(period.periodStart)} – {formatDate(period.periodEnd)} totalling{" "}
+              {formatCurrency(period.billedTotal, currency)}. It gets the next invoice number and is
+              saved exactly as issued, so later changes to hours or rates won&apos;t alter it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isPending}>Cancel</AlertDialogCancel>
+            <Button onClick={handleGenerateInvoice} disabled={isPending}>
+              {isPending ? "Generating..." : "Generate"}
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {expanded && (
         <TableRow className="bg-muted/30 hover:bg-muted/30">
-          <TableCell colSpan={isBillable ? 9 : 7} className="p-0">
+          <TableCell colSpan={isBillable ? 10 : 7} className="p-0">
             <div className="px-8 py-2">
               <Table>
                 <TableHeader>
@@ -556,6 +649,7 @@ function InvoicePeriodsGrid({
   isBillable,
   projectId,
   currency,
+  billingRateMode,
   onSaved,
 }: {
   title: string;
@@ -563,6 +657,7 @@ function InvoicePeriodsGrid({
   isBillable: boolean;
   projectId: string;
   currency: string;
+  billingRateMode: BillingRateMode;
   onSaved: () => void;
 }) {
   return (
@@ -577,7 +672,7 @@ function InvoicePeriodsGrid({
               <TableHead>End Date</TableHead>
               <TableHead>Status</TableHead>
               <TableHead className="text-right">MSRP Total</TableHead>
-              <TableHead className="text-right">Discounted Total</TableHead>
+              <TableHead className="text-right">{BILLED_TOTAL_LABELS[billingRateMode]}</TableHead>
               {isBillable && (
                 <>
                   <TableHead>Invoice #</TableHead>
@@ -585,12 +680,13 @@ function InvoicePeriodsGrid({
                 </>
               )}
               <TableHead>Comments</TableHead>
+              {isBillable && <TableHead className="w-[1%]">Invoice</TableHead>}
             </TableRow>
           </TableHeader>
           <TableBody>
             {periods.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={isBillable ? 9 : 7} className="text-center text-muted-foreground py-6">
+                <TableCell colSpan={isBillable ? 10 : 7} className="text-center text-muted-foreground py-6">
                   No billing periods found for this project.
                 </TableCell>
               </TableRow>
@@ -793,11 +889,12 @@ export function InvoicingClient({ projects }: InvoicingClientProps) {
 
           {/* Billable Consultants Grid */}
           <InvoicePeriodsGrid
-            title="Billable Consultant Invoices"
+            title={`Billable Consultant Invoices · ${BILLING_CYCLE_LABELS[data.project.billingCycle]}`}
             periods={data.billablePeriods}
             isBillable={true}
             projectId={data.project.id}
             currency={currency}
+            billingRateMode={data.project.billingRateMode}
             onSaved={() => loadData(data.project.id)}
           />
 
@@ -808,9 +905,30 @@ export function InvoicingClient({ projects }: InvoicingClientProps) {
             isBillable={false}
             projectId={data.project.id}
             currency={currency}
+            billingRateMode={data.project.billingRateMode}
             onSaved={() => loadData(data.project.id)}
           />
 
+          {/* Billing-rate reconciliation */}
+          <RateReconciliation
+            rows={data.reconciliation}
+            billingRateMode={data.project.billingRateMode}
+            salesDiscount={data.project.salesDiscount}
+            currency={currency}
+          />
+
+          {/* Milestone billing schedule (MILESTONE contracts only) */}
+          {data.milestoneBilling && (
+            <MilestoneBillingSchedule
+              projectId={data.project.id}
+              lines={data.milestoneBilling.lines}
+              milestones={data.milestoneBilling.milestones}
+              budget={data.project.budget}
+              currency={currency}
+              onSaved={() => loadData(data.project.id)}
+            />
+          )}
+
           {/* Other Invoices */}
           <OtherInvoicesSection
             projectId={data.project.id}
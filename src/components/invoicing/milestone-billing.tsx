@@ -0,0 +1,457 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { OtherInvoiceStatus } from "@prisma/client";
+import {
+  createMilestoneBillingLine,
+  updateMilestoneBillingLine,
+  deleteMilestoneBillingLine,
+  requestMilestoneInvoice,
+  markMilestoneInvoiced,
+  type MilestoneBillingLineData,
+  type MilestoneOption,
+} from "@/app/actions/invoicing";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Pencil, Plus, Send, Trash2, FileCheck } from "lucide-react";
+import { toast } from "sonner";
+
+const STATUS_STYLES: Record<OtherInvoiceStatus, string> = {
+  EXPECTED: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-200",
+  REQUESTED: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-200",
+  INVOICED: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-200",
+};
+
+type Basis = "amount" | "percent";
+
+function formatCurrency(amount: number, currency: string) {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    minimumFractionDigits: 2,
+  }).format(amount);
+}
+
+function formatDate(isoString: string | null) {
+  if (!isoString) return "—";
+  return new Date(isoString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+interface MilestoneBillingScheduleProps {
+  projectId: string;
+  lines: MilestoneBillingLineData[];
+  milestones: MilestoneOption[];
+  budget: number | null;
+  currency: string;
+  onSaved: () => void;
+}
+
+export function MilestoneBillingSchedule({
+  projectId,
+  lines,
+  milestones,
+  budget,
+  currency,
+  onSaved,
+}: MilestoneBillingScheduleProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingRequested, setEditingRequested] = useState(false);
+  const [form, setForm] = useState({ scheduleItemId: "", description: "", basis: "amount" as Basis, value: "" });
+  const [invoicingLine, setInvoicingLine] = useState<MilestoneBillingLineData | null>(null);
+  const [invoiceForm, setInvoiceForm] = useState({ invoiceNumber: "", invoiceDate: "" });
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const scheduled = lines.reduce((sum, l) => sum + (l.resolvedAmount ?? 0), 0);
+  const invoiced = lines
+    .filter((l) => l.status === OtherInvoiceStatus.INVOICED)
+    .reduce((sum, l) => sum + (l.resolvedAmount ?? 0), 0);
+
+  function openNew() {
+    setEditingId(null);
+    setEditingRequested(false);
+    setForm({ scheduleItemId: "", description: "", basis: "amount", value: "" });
+    setError(null);
+    setDialogOpen(true);
+  }
+
+  function openEdit(line: MilestoneBillingLineData) {
+    setEditingId(line.id);
+    setEditingRequested(line.status === OtherInvoiceStatus.REQUESTED);
+    setForm({
+      scheduleItemId: line.scheduleItemId ?? "",
+      description: line.description ?? "",
+      basis: line.percentOfBudget != null ? "percent" : "amount",
+      value: (line.percentOfBudget ?? line.amount ?? "").toString(),
+    });
+    setError(null);
+    setDialogOpen(true);
+  }
+
+  function openInvoiced(line: MilestoneBillingLineData) {
+    setInvoicingLine(line);
+    setInvoiceForm({ invoiceNumber: "", invoiceDate: new Date().toISOString().slice(0, 10) });
+    setError(null);
+  }
+
+  function handleSave() {
+    const value = parseFloat(form.value);
+    if (isNaN(value)) {
+      setError(form.basis === "amount" ? "Enter an amount" : "Enter a percent of budget");
+      return;
+    }
+    const data = {
+      scheduleItemId: form.scheduleItemId,
+      description: form.description || null,
+      amount: form.basis === "amount" ? value : null,
+      percentOfBudget: form.basis === "percent" ? value : null,
+    };
+    setError(null);
+    startTransition(async () => {
+      try {
+        if (editingId) {
+          await updateMilestoneBillingLine(editingId, data);
+        } else {
+          await createMilestoneBillingLine(projectId, data);
+        }
+        toast.success(editingId ? "Billing line updated" : "Billing line added");
+        setDialogOpen(false);
+        onSaved();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to save billing line");
+      }
+    });
+  }
+
+  function handleMarkInvoiced() {
+    if (!invoicingLine) return;
+    setError(null);
+    startTransition(async () => {
+      try {
+        await markMilestoneInvoiced(invoicingLine.id, invoiceForm);
+        toast.success("Milestone marked invoiced");
+        setInvoicingLine(null);
+        onSaved();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to mark invoiced");
+      }
+    });
+  }
+
+  function run(action: () => Promise<void>, success: string) {
+    startTransition(async () => {
+      try {
+        await action();
+        toast.success(success);
+        onSaved();
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : "Something went wrong");
+      }
+    });
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">Milestone Billing Schedule</h3>
+          <p className="text-sm text-muted-foreground">
+            Each line can be requested once its milestone is 100% complete.
+          </p>
+        </div>
+        <Button size="sm" variant="outline" onClick={openNew} disabled={milestones.length === 0}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Line
+        </Button>
+      </div>
+
+      <div className="border rounded-md">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Milestone</TableHead>
+              <TableHead>Description</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Invoice #</TableHead>
+              <TableHead>Invoice Date</TableHead>
+              <TableHead className="w-28" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {lines.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground py-6">
+                  {milestones.length === 0
+                    ? "Add milestones to the project schedule to build a billing schedule."
+                    : "No billing lines yet."}
+                </TableCell>
+              </TableRow>
+            ) : (
+              lines.map((line) => (
+                <TableRow key={line.id} className={isPending ? "opacity-60" : ""}>
+                  <TableCell>
+                    <p className="font-medium">{line.milestoneName ?? "Milestone removed"}</p>
+                    {line.milestoneName && (
+                      <p className="text-xs text-muted-foreground">
+                        {formatDate(line.milestoneDate)} · {line.percentComplete}% complete
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>{line.description ?? "—"}</TableCell>
+                  <TableCell className="text-right font-mono">
+                    {line.resolvedAmount != null ? formatCurrency(line.resolvedAmount, currency) : "—"}
+                    {line.percentOfBudget != null && (
+                      <p className="text-xs text-muted-foreground">{line.percentOfBudget}% of budget</p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="secondary" className={STATUS_STYLES[line.status]}>
+                      {line.status.charAt(0) + line.status.slice(1).toLowerCase()}
+                    </Badge>
+                    {line.status === OtherInvoiceStatus.EXPECTED && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {line.isReady ? "Ready to request" : "Waiting on milestone"}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>{line.invoiceNumber ?? "—"}</TableCell>
+                  <TableCell className="font-mono text-sm text-muted-foreground">
+                    {formatDate(line.invoiceDate)}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-1 justify-end">
+                      {line.status === OtherInvoiceStatus.EXPECTED && line.isReady && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          title="Request invoice"
+                          onClick={() => run(() => requestMilestoneInvoice(line.id), "Invoice requested")}
+                        >
+                          <Send className="h-3.5 w-3.5" />
+                        </Button>
+                      )}
+                      {line.status === OtherInvoiceStatus.REQUESTED && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          title="Mark invoiced"
+                          onClick={() => openInvoiced(line)}
+                        >
+                          <FileCheck className="h-3.5 w-3.5" />
+                        </Button>
+                      )}
+                      {line.status !== OtherInvoiceStatus.INVOICED && (
+                        <>
+                          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => openEdit(line)}>
+                            <Pencil className="h-3.5 w-3.5" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7 text-destructive hover:text-destructive"
+                            onClick={() => run(() => deleteMilestoneBillingLine(line.id), "Billing line deleted")}
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+          {lines.length > 0 && (
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={2} className="font-medium">
+                  Scheduled
+                  {budget != null && (
+                    <span className="ml-1 text-xs font-normal text-muted-foreground">
+                      of {formatCurrency(budget, currency)} budget
+                    </span>
+                  )}
+                </TableCell>
+                <TableCell className="text-right font-mono">{formatCurrency(scheduled, currency)}</TableCell>
+                <TableCell colSpan={4} className="text-sm text-muted-foreground">
+                  {formatCurrency(invoiced, currency)} invoiced
+                </TableCell>
+              </TableRow>
+            </TableFooter>
+          )}
+        </Table>
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Billing Line" : "Add Billing Line"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-1.5">
+              <Label>Milestone *</Label>
+              <Select
+                value={form.scheduleItemId}
+                onValueChange={(v) => setForm((f) => ({ ...f, scheduleItemId: v }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a milestone" />
+                </SelectTrigger>
+                <SelectContent>
+                  {milestones.map((m) => (
+                    <SelectItem key={m.id} value={m.id}>
+                      {m.name}{m.endDate ? ` (${formatDate(m.endDate)})` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label>Description</Label>
+              <Input
+                value={form.description}
+                onChange={(e) => setForm((f) => ({ ...f, description: e.target.value }))}
+                placeholder="Brief description"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1.5">
+                <Label>Bill As</Label>
+                <Select
+                  value={form.basis}
+                  onValueChange={(v) => setForm((f) => ({ ...f, basis: v as Basis }))}
+                  disabled={editingRequested}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="amount">Fixed amount</SelectItem>
+                    <SelectItem value="percent">Percent of budget</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label>{form.basis === "amount" ? `Amount (${currency})` : "Percent (%)"}</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  max={form.basis === "percent" ? "100" : undefined}
+                  step="0.01"
+                  value={form.value}
+                  onChange={(e) => setForm((f) => ({ ...f, value: e.target.value }))}
+                  placeholder={form.basis === "amount" ? "0.00" : "0"}
+                  disabled={editingRequested}
+                />
+              </div>
+            </div>
+            {editingRequested && (
+              <p className="text-xs text-muted-foreground">
+                This line has been requested, so its amount can no longer be changed.
+              </p>
+            )}
+            {form.basis === "percent" && budget == null && !editingRequested && (
+              <p className="text-xs text-muted-foreground">
+                This project has no budget yet, so the amount is set once one is entered.
+              </p>
+            )}
+            {error && (
+              <div className="p-3 text-sm text-red-600 bg-red-50 dark:bg-red-900/20 dark:text-red-400 rounded-md">
+                {error}
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isPending || !form.scheduleItemId}>
+              {isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!invoicingLine} onOpenChange={(open) => !open && setInvoicingLine(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Mark Invoiced</DialogTitle>
+            <DialogDescription>
+              {invoicingLine?.milestoneName}
+              {invoicingLine?.resolvedAmount != null && ` — ${formatCurrency(invoicingLine.resolvedAmount, currency)}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4 py-2">
+            <div className="space-y-1.5">
+              <Label>Invoice # *</Label>
+              <Input
+                value={invoiceForm.invoiceNumber}
+                onChange={(e) => setInvoiceForm((f) => ({ ...f, invoiceNumber: e.target.value }))}
+                placeholder="e.g. INV-001"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label>Invoice Date *</Label>
+              <Input
+                type="date"
+                value={invoiceForm.invoiceDate}
+                onChange={(e) => setInvoiceForm((f) => ({ ...f, invoiceDate: e.target.value }))}
+              />
+            </div>
+          </div>
+          {error && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 dark:bg-red-900/20 dark:text-red-400 rounded-md">
+              {error}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setInvoicingLine(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleMarkInvoiced}
+              disabled={isPending || !invoiceForm.invoiceNumber.trim() || !invoiceForm.invoiceDate}
+            >
+              {isPending ? "Saving..." : "Mark Invoiced"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import { BillingRateMode } from "@prisma/client";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import type { RateReconciliationRow } from "@/app/actions/invoicing";
+
+// Differences under half a cent are rounding, not disagreement
+const TOLERANCE = 0.005;
+
+function formatCurrency(amount: number, currency: string) {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    minimumFractionDigits: 2,
+  }).format(amount);
+}
+
+interface RateReconciliationProps {
+  rows: RateReconciliationRow[];
+  billingRateMode: BillingRateMode;
+  salesDiscount: number | null;
+  currency: string;
+}
+
+export function RateReconciliation({ rows, billingRateMode, salesDiscount, currency }: RateReconciliationProps) {
+  const differing = rows.filter((r) => Math.abs(r.difference) >= TOLERANCE);
+  const totals = rows.reduce(
+    (acc, r) => ({
+      hours: acc.hours + r.hours,
+      msrpDiscount: acc.msrpDiscount + r.msrpDiscountTotal,
+      negotiated: acc.negotiated + r.negotiatedTotal,
+      difference: acc.difference + r.difference,
+    }),
+    { hours: 0, msrpDiscount: 0, negotiated: 0, difference: 0 }
+  );
+  const inUse = (mode: BillingRateMode) =>
+    mode === billingRateMode ? <span className="ml-1 text-xs font-normal text-muted-foreground">(in use)</span> : null;
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h3 className="text-lg font-semibold">Billing Rate Reconciliation</h3>
+        <p className="text-sm text-muted-foreground">
+          Billable hours valued at MSRP less the {salesDiscount ?? 0}% sales discount and at each
+          member&apos;s negotiated rate, at the rates in force each week. Where a rate changed, the rate shown is
+          the hours-weighted average.{" "}
+          {rows.length === 0
+            ? ""
+            : differing.length === 0
+              ? "Both methods agree."
+              : `${differing.length} of ${rows.length} consultant${rows.length === 1 ? "" : "s"} differ.`}
+        </p>
+      </div>
+      <div className="border rounded-md">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Consultant</TableHead>
+              <TableHead className="text-right">Hours</TableHead>
+              <TableHead className="text-right">MSRP − Discount Rate</TableHead>
+              <TableHead className="text-right">Negotiated Rate</TableHead>
+              <TableHead className="text-right">
+                MSRP − Discount{inUse(BillingRateMode.MSRP_DISCOUNT)}
+              </TableHead>
+              <TableHead className="text-right">
+                Negotiated{inUse(BillingRateMode.NEGOTIATED)}
+              </TableHead>
+              <TableHead className="text-right">Difference</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground py-6">
+                  No billable hours to reconcile.
+                </TableCell>
+              </TableRow>
+            ) : (
+              rows.map((row) => {
+                const differs = Math.abs(row.difference) >= TOLERANCE;
+                return (
+                  <TableRow
+                    key={row.consultantId}
+                    className={cn(differs && "bg-amber-50 hover:bg-amber-100/70 dark:bg-amber-900/20")}
+                  >
+                    <TableCell>
+                      <p className="font-medium">{row.consultantName}</p>
+                      {row.roleName && <p className="text-xs text-muted-foreground">{row.roleName}</p>}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{row.hours}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {formatCurrency(row.msrpDiscountRate, currency)}
+                      <p className="text-xs text-muted-foreground">MSRP {formatCurrency(row.msrpRate, currency)}</p>
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {row.negotiatedRate != null ? formatCurrency(row.negotiatedRate, currency) : "—"}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{formatCurrency(row.msrpDiscountTotal, currency)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatCurrency(row.negotiatedTotal, currency)}</TableCell>
+                    <TableCell
+                      className={cn(
+                        "text-right font-mono",
+                        differs && (row.difference > 0 ? "text-green-600" : "text-destructive")
+                      )}
+                    >
+                      {differs ? formatCurrency(row.difference, currency) : "—"}
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+          {rows.length > 0 && (
+            <TableFooter>
+              <TableRow>
+                <TableCell className="font-medium">Total</TableCell>
+                <TableCell className="text-right font-mono">{Math.round(totals.hours * 100) / 100}</TableCell>
+                <TableCell colSpan={2} />
+                <TableCell className="text-right font-mono">{formatCurrency(totals.msrpDiscount, currency)}</TableCell>
+                <TableCell className="text-right font-mono">{formatCurrency(totals.negotiated, currency)}</TableCell>
+                <TableCell className="text-right font-mono">{formatCurrency(totals.difference, currency)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          )}
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { formatDistanceToNow } from "date-fns";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Bell, Mail, MailOpen } from "lucide-react";
+import { toast } from "sonner";
+import {
+  getNotifications,
+  markAllNotificationsRead,
+  setNotificationRead,
+  type NotificationEntry,
+  type NotificationInbox,
+} from "@/app/actions/notifications";
+
+interface NotificationBellProps {
+  inbox: NotificationInbox;
+}
+
+export function NotificationBell({ inbox: initialInbox }: NotificationBellProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [inbox, setInbox] = useState(initialInbox);
+
+  const handleOpenChange = async (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) {
+      try {
+        setInbox(await getNotifications());
+      } catch {
+        // Keep showing what we have
+      }
+    }
+  };
+
+  const applyRead = (id: string, read: boolean) => {
+    setInbox((prev) => {
+      const item = prev.items.find((n) => n.id === id);
+      if (!item || item.read === read) return prev;
+      return {
+        items: prev.items.map((n) => (n.id === id ? { ...n, read } : n)),
+        unreadCount: prev.unreadCount + (read ? -1 : 1),
+      };
+    });
+  };
+
+  const toggleRead = async (item: NotificationEntry) => {
+    applyRead(item.id, !item.read);
+    try {
+      await setNotificationRead(item.id, !item.read);
+    } catch {
+      applyRead(item.id, item.read);
+      toast.error("Failed to update notification");
+    }
+  };
+
+  const handleOpenItem = async (item: NotificationEntry) => {
+    setOpen(false);
+    if (!item.read) {
+      applyRead(item.id, true);
+      setNotificationRead(item.id, true).catch(() => applyRead(item.id, false));
+    }
+    router.push(item.link);
+  };
+
+  const handleMarkAllRead = async () => {
+    const previous = inbox;
+    setInbox((prev) => ({ items: prev.items.map((n) => ({ ...n, read: true })), unreadCount: 0 }));
+    try {
+      await markAllNotificationsRead();
+    } catch {
+      setInbox(previous);
+      toast.error("Failed to mark notifications as read");
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative h-10 w-10 rounded-full">
+          <Bell className="h-5 w-5" />
+          {inbox.unreadCount > 0 && (
+            <span className="absolute right-1.5 top-1.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-medium text-white">
+              {inbox.unreadCount > 99 ? "99+" : inbox.unreadCount}
+            </span>
+          )}
+          <span className="sr-only">Notifications</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <p className="text-sm font-medium">Notifications</p>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            disabled={inbox.unreadCount === 0}
+            onClick={handleMarkAllRead}
+          >
+            Mark all read
+          </Button>
+        </div>
+        {inbox.items.length === 0 ? (
+          <p className="px-4 py-8 text-center text-sm text-muted-foreground">You&apos;re all caught up.</p>
+        ) : (
+          <ScrollArea className="max-h-[420px]">
+            <div className="divide-y">
+              {inbox.items.map((item) => (
+                <div
+                  key={item.id}
+                  className={cn("flex gap-2 px-4 py-3", !item.read && "bg-muted/50")}
+                >
+                  <button
+                    type="button"
+                    className="flex-1 text-left"
+                    onClick={() => handleOpenItem(item)}
+                  >
+                    <p className={cn("text-sm", !item.read && "font-medium")}>{item.title}</p>
+                    <p className="text-xs text-muted-foreground">{item.body}</p>
+                    <p className="mt-1 text-[11px] text-muted-foreground">
+                      {formatDistanceToNow(item.createdAt, { addSuffix: true })}
+                    </p>
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 shrink-0"
+                    title={item.read ? "Mark as unread" : "Mark as read"}
+                    onClick={() => toggleRead(item)}
+                  >
+                    {item.read ? <Mail className="h-4 w-4" /> : <MailOpen className="h-4 w-4" />}
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
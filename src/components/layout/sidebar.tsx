@@ -16,6 +16,8 @@ import {
   FileUp,
   Receipt,
   Settings,
+  Link2,
+  UserSearch,
 } from "lucide-react";
 
 interface NavItem {
@@ -36,6 +38,12 @@ const navItems: NavItem[] = [
     href: "/utilization",
     icon: <BarChart3 className="h-5 w-5" />,
   },
+  {
+    label: "Staffing",
+    href: "/staffing",
+    icon: <UserSearch className="h-5 w-5" />,
+    roles: ["ADMIN", "MANAGER"],
+  },
   {
     label: "PTO Requests",
     href: "/pto",
@@ -47,6 +55,12 @@ const navItems: NavItem[] = [
     icon: <FileUp className="h-5 w-5" />,
     roles: ["ADMIN"],
   },
+  {
+    label: "Import Aliases",
+    href: "/import-aliases",
+    icon: <Link2 className="h-5 w-5" />,
+    roles: ["ADMIN"],
+  },
   {
     label: "Projected Hours Load",
     href: "/mass-load",
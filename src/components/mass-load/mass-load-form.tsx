@@ -398,6 +398,31 @@ export function MassLoadForm({ consultants, projects }: MassLoadFormProps) {
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="entryType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Booking</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={AllocationEntryType.PROJECTED}>Confirmed</SelectItem>
+                        <SelectItem value={AllocationEntryType.TENTATIVE}>Soft booking</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      Soft bookings are weighted by the project&apos;s win probability until converted
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="notes"
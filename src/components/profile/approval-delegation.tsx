@@ -0,0 +1,159 @@
+"use client";
+
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2, UserCheck } from "lucide-react";
+import { toast } from "sonner";
+import {
+  createDelegation,
+  deleteDelegation,
+  type DelegationEntry,
+} from "@/app/actions/pto-approvals";
+
+interface ApprovalDelegationSectionProps {
+  delegations: { given: DelegationEntry[]; received: DelegationEntry[] };
+  candidates: { id: string; name: string }[];
+}
+
+function formatRange(entry: DelegationEntry): string {
+  const from = format(parseISO(entry.startDate.toISOString().split("T")[0]), "MMM d, yyyy");
+  const to = format(parseISO(entry.endDate.toISOString().split("T")[0]), "MMM d, yyyy");
+  return from === to ? from : `${from} – ${to}`;
+}
+
+export function ApprovalDelegationSection({ delegations, candidates }: ApprovalDelegationSectionProps) {
+  const [delegateId, setDelegateId] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const handleCreate = async () => {
+    setError(null);
+    setLoading(true);
+    try {
+      await createDelegation({ delegateId, startDate, endDate });
+      setDelegateId("");
+      setStartDate("");
+      setEndDate("");
+      toast.success("Delegation added");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add delegation");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (entry: DelegationEntry) => {
+    try {
+      await deleteDelegation(entry.id);
+      toast.success(`Removed delegation to ${entry.consultantName}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to remove delegation");
+    }
+  };
+
+  return (
+    <Card className="md:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserCheck className="h-5 w-5" />
+          Approval Delegation
+        </CardTitle>
+        <CardDescription>
+          While you&apos;re out, let someone else approve or deny time off that is waiting on you.
+          Decisions they make are recorded as made on your behalf.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 sm:grid-cols-[1fr_auto_auto_auto] sm:items-end">
+          <div className="space-y-1">
+            <Label>Delegate</Label>
+            <Select value={delegateId} onValueChange={setDelegateId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a person" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map((c) => (
+                  <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="delegation-start">From</Label>
+            <Input
+              id="delegation-start"
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="delegation-end">To</Label>
+            <Input
+              id="delegation-end"
+              type="date"
+              value={endDate}
+              min={startDate || undefined}
+              onChange={(e) => setEndDate(e.target.value)}
+            />
+          </div>
+          <Button onClick={handleCreate} disabled={loading || !delegateId || !startDate || !endDate}>
+            <Plus className="h-4 w-4 mr-2" />
+            {loading ? "Adding..." : "Add"}
+          </Button>
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {delegations.given.length === 0 ? (
+          <p className="text-sm text-muted-foreground">You haven&apos;t delegated your approvals.</p>
+        ) : (
+          <div className="divide-y rounded-md border">
+            {delegations.given.map((entry) => (
+              <div key={entry.id} className="flex items-center justify-between gap-4 px-3 py-2">
+                <div>
+                  <p className="text-sm font-medium">{entry.consultantName}</p>
+                  <p className="text-xs text-muted-foreground">{formatRange(entry)}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-destructive hover:text-destructive"
+                  onClick={() => handleDelete(entry)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {delegations.received.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Approving on behalf of</p>
+            <div className="divide-y rounded-md border">
+              {delegations.received.map((entry) => (
+                <div key={entry.id} className="px-3 py-2">
+                  <p className="text-sm">{entry.consultantName}</p>
+                  <p className="text-xs text-muted-foreground">{formatRange(entry)}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
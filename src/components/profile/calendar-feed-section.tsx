@@ -0,0 +1,152 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { CalendarSync, Copy, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  createCalendarFeed,
+  revokeCalendarFeed,
+  type CalendarFeedEntry,
+} from "@/app/actions/calendar-feed";
+
+interface CalendarFeedSectionProps {
+  feeds: CalendarFeedEntry[];
+}
+
+export function CalendarFeedSection({ feeds }: CalendarFeedSectionProps) {
+  const [name, setName] = useState("");
+  const [newUrl, setNewUrl] = useState<string | null>(null);
+  const [revoking, setRevoking] = useState<CalendarFeedEntry | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const handleCreate = async () => {
+    setError(null);
+    setLoading(true);
+    try {
+      const token = await createCalendarFeed(name);
+      setNewUrl(`${window.location.origin}/api/calendar/${token}.ics`);
+      setName("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create feed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!revoking) return;
+    try {
+      await revokeCalendarFeed(revoking.id);
+      toast.success(`Revoked "${revoking.name}"`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to revoke feed");
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const copyUrl = async () => {
+    if (!newUrl) return;
+    await navigator.clipboard.writeText(newUrl);
+    toast.success("Feed URL copied");
+  };
+
+  return (
+    <Card className="md:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarSync className="h-5 w-5" />
+          Calendar Feeds
+        </CardTitle>
+        <CardDescription>
+          Subscribe to your approved PTO, your team&apos;s approved PTO and your project milestones
+          from Outlook, Google Calendar or Apple Calendar. Anyone with a feed URL can read it, so
+          revoke any you no longer use.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2 max-w-md">
+          <Input
+            placeholder="Feed name, e.g. Work laptop"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <Button onClick={handleCreate} disabled={loading || !name.trim()}>
+            <Plus className="h-4 w-4 mr-2" />
+            {loading ? "Creating..." : "Create"}
+          </Button>
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {newUrl && (
+          <div className="space-y-2 rounded-md border p-3">
+            <p className="text-sm text-muted-foreground">
+              Copy this URL into your calendar app now. It won&apos;t be shown again.
+            </p>
+            <div className="flex gap-2">
+              <code className="flex-1 text-xs bg-muted px-2 py-1.5 rounded font-mono break-all">{newUrl}</code>
+              <Button variant="outline" size="sm" onClick={copyUrl}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {feeds.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No calendar feeds yet.</p>
+        ) : (
+          <div className="divide-y rounded-md border">
+            {feeds.map((feed) => (
+              <div key={feed.id} className="flex items-center justify-between gap-4 px-3 py-2">
+                <div>
+                  <p className="text-sm font-medium">{feed.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Created {format(feed.createdAt, "MMM d, yyyy")}
+                    {" · "}
+                    {feed.lastUsedAt ? `Last synced ${format(feed.lastUsedAt, "MMM d, yyyy h:mm a")}` : "Never synced"}
+                  </p>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => setRevoking(feed)}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Revoke
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!revoking} onOpenChange={(open) => !open && setRevoking(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke Calendar Feed</AlertDialogTitle>
+            <AlertDialogDescription>
+              Calendars subscribed to &quot;{revoking?.name}&quot; will stop updating. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction variant="destructive" onClick={handleRevoke}>
+              Revoke
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { useState } from "react";
+import { NotificationType } from "@prisma/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Mail } from "lucide-react";
+import { toast } from "sonner";
+import { updateNotificationPreference } from "@/app/actions/notifications";
+
+const NOTIFICATION_LABELS: Record<NotificationType, { label: string; description: string }> = {
+  PTO_SUBMITTED: {
+    label: "PTO submitted",
+    description: "Someone you approve time off for submits a request",
+  },
+  PTO_APPROVED: {
+    label: "PTO approved",
+    description: "One of your time off requests is approved",
+  },
+  PTO_DENIED: {
+    label: "PTO denied",
+    description: "One of your time off requests is denied",
+  },
+  PASSWORD_RESET_REQUIRED: {
+    label: "Password reset required",
+    description: "An administrator asks you to choose a new password",
+  },
+  PROJECT_REPORT_FINALIZED: {
+    label: "Project report finalized",
+    description: "A status report is finalized on a project you belong to",
+  },
+  PROJECT_MEMBER_ADDED: {
+    label: "Added to a project",
+    description: "You are added as a member of a project",
+  },
+  FORECAST_CHANGED: {
+    label: "Forecast changed",
+    description: "Someone else changes your projected hours",
+  },
+  REPORT_DUE: {
+    label: "Report due",
+    description: "A status report for a project you manage is due",
+  },
+};
+
+interface NotificationPreferencesProps {
+  preferences: Record<NotificationType, boolean>;
+}
+
+export function NotificationPreferences({ preferences: initialPreferences }: NotificationPreferencesProps) {
+  const [preferences, setPreferences] = useState(initialPreferences);
+
+  const handleChange = async (type: NotificationType, email: boolean) => {
+    setPreferences((prev) => ({ ...prev, [type]: email }));
+    try {
+      await updateNotificationPreference(type, email);
+    } catch {
+      setPreferences((prev) => ({ ...prev, [type]: !email }));
+      toast.error("Failed to update notification preference");
+    }
+  };
+
+  return (
+    <Card className="md:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="h-5 w-5" />
+          Email Notifications
+        </CardTitle>
+        <CardDescription>Choose which events send you an email</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {Object.values(NotificationType).map((type) => (
+          <div key={type} className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor={`notify-${type}`}>{NOTIFICATION_LABELS[type].label}</Label>
+              <p className="text-sm text-muted-foreground">{NOTIFICATION_LABELS[type].description}</p>
+            </div>
+            <Switch
+              id={`notify-${type}`}
+              checked={preferences[type]}
+              onCheckedChange={(checked) => handleChange(type, checked)}
+            />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
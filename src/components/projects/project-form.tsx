@@ -3,7 +3,7 @@
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { ProjectType, ProjectStatus, SalesManager, Currency, ContractType, HealthStatus } from "@prisma/client";
+import { ProjectType, ProjectStatus, SalesManager, Currency, ContractType, HealthStatus, BillingRateMode, BillingCycle } from "@prisma/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -14,6 +14,7 @@ import {
   FormItem,
   FormLabel,
   FormMessage,
+  FormDescription,
 } from "@/components/ui/form";
 import {
   Select,
@@ -46,6 +47,7 @@ import { cn } from "@/lib/utils";
 import { createProject, updateProject } from "@/app/actions/projects";
 import { createProjectMember, updateProjectMember, removeProjectMember, seedMemberAllocations } from "@/app/actions/project-members";
 import { useState, useEffect, useCallback, useRef } from "react";
+import { format, parseISO } from "date-fns";
 import { Pencil, Plus, Trash2, X } from "lucide-react";
 
 const formSchema = z.object({
@@ -64,6 +66,9 @@ const formSchema = z.object({
   contractType: z.nativeEnum(ContractType).optional().nullable(),
   healthStatus: z.nativeEnum(HealthStatus).optional().nullable(),
   salesDiscount: z.string().optional().nullable(),
+  billingRateMode: z.nativeEnum(BillingRateMode),
+  billingCycle: z.nativeEnum(BillingCycle),
+  winProbability: z.string().optional().nullable(),
   comments: z.string().optional().nullable(),
 });
 
@@ -76,7 +81,8 @@ export type ProjectMemberRow = {
   roleDefinitionId: string | null;
   roleDefinitionName: string | null;
   msrpRate: number | null;
-  billingRate: number | null;
+  billingRate: number | null; // in force today
+  nextBillingRate: { rate: number; effectiveDate: string } | null;
   fromAllocation: boolean;
 };
 
@@ -96,6 +102,9 @@ export interface ProjectWithRelations {
   contractType?: ContractType | null;
   healthStatus?: HealthStatus | null;
   salesDiscount?: number | null;
+  billingRateMode?: BillingRateMode;
+  billingCycle?: BillingCycle;
+  winProbability?: number | null;
   comments?: string | null;
   projectManager?: { id: string; name: string } | null;
   members?: ProjectMemberRow[];
@@ -183,6 +192,7 @@ export function ProjectForm({
   const [editingMemberId, setEditingMemberId] = useState<string | null>(null);
   const [editRoleId, setEditRoleId] = useState("");
   const [editRate, setEditRate] = useState("");
+  const [editRateDate, setEditRateDate] = useState("");
 
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
@@ -201,6 +211,9 @@ export function ProjectForm({
       contractType: null,
       healthStatus: null,
       salesDiscount: "",
+      billingRateMode: BillingRateMode.MSRP_DISCOUNT,
+      billingCycle: BillingCycle.BIWEEKLY,
+      winProbability: "",
       comments: null,
     },
   });
@@ -223,6 +236,9 @@ export function ProjectForm({
         contractType: project?.contractType ?? null,
         healthStatus: project?.healthStatus ?? null,
         salesDiscount: project?.salesDiscount != null ? String(project.salesDiscount) : "",
+        billingRateMode: project?.billingRateMode ?? BillingRateMode.MSRP_DISCOUNT,
+        billingCycle: project?.billingCycle ?? BillingCycle.BIWEEKLY,
+        winProbability: project?.winProbability != null ? String(project.winProbability) : "",
         comments: project?.comments ?? null,
       });
       setMembers(project?.members ?? []);
@@ -306,6 +322,7 @@ export function ProjectForm({
           roleDefinitionName: role?.name ?? null,
           msrpRate: role?.msrpRate ?? null,
           billingRate: rate != null && !isNaN(rate) ? rate : null,
+          nextBillingRate: null,
           fromAllocation: false,
         },
       ]);
@@ -326,13 +343,12 @@ export function ProjectForm({
   const handleSaveMemberEdit = useCallback(async (memberId: string) => {
     setSavingMember(true);
     try {
-      const rate = editRate ? parseFloat(editRate) : null;
-      await updateProjectMember(
-        memberId,
-        editRoleId || null,
-        rate != null && !isNaN(rate) ? rate : null
-      );
+      const parsed = editRate ? parseFloat(editRate) : null;
+      const rate = parsed != null && !isNaN(parsed) ? parsed : null;
+      await updateProjectMember(memberId, editRoleId || null, rate, editRateDate || null);
       const role = roleDefinitions.find((r) => r.id === editRoleId);
+      // A future-dated rate is scheduled; anything else is in force now
+      const scheduled = rate != null && !!editRateDate && editRateDate > format(new Date(), "yyyy-MM-dd");
       setMembers((prev) =>
         prev.map((m) =>
           m.memberId === memberId
@@ -341,7 +357,9 @@ export function ProjectForm({
                 roleDefinitionId: editRoleId || null,
                 roleDefinitionName: role?.name ?? null,
                 msrpRate: role?.msrpRate ?? null,
-                billingRate: rate != null && !isNaN(rate) ? rate : null,
+                ...(scheduled && m.billingRate != null
+                  ? { nextBillingRate: { rate, effectiveDate: editRateDate } }
+                  : { billingRate: rate }),
               }
             : m
         )
@@ -352,7 +370,7 @@ export function ProjectForm({
     } finally {
       setSavingMember(false);
     }
-  }, [editRoleId, editRate, roleDefinitions]);
+  }, [editRoleId, editRate, editRateDate, roleDefinitions]);
 
   const handleRemoveMember = useCallback(async (memberId: string) => {
     try {
@@ -369,10 +387,12 @@ export function ProjectForm({
     try {
       const budgetVal = data.budget ? parseFloat(data.budget) : null;
       const discountVal = data.salesDiscount ? parseFloat(data.salesDiscount) : null;
+      const probabilityVal = data.winProbability ? parseInt(data.winProbability, 10) : null;
       const apiData = {
         ...data,
         budget: budgetVal != null && !isNaN(budgetVal) ? budgetVal : null,
         salesDiscount: discountVal != null && !isNaN(discountVal) ? discountVal : null,
+        winProbability: probabilityVal != null && !isNaN(probabilityVal) ? probabilityVal : null,
       };
 
       if (currentProject) {
@@ -794,6 +814,75 @@ export function ProjectForm({
                       </FormItem>
                     )}
                   />
+                  <FormField
+                    control={form.control}
+                    name="billingRateMode"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Billing Rates</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={BillingRateMode.MSRP_DISCOUNT}>MSRP less discount</SelectItem>
+                            <SelectItem value={BillingRateMode.NEGOTIATED}>Negotiated member rates</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>Used for invoices, reports and budget totals</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="billingCycle"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Billing Cycle</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={BillingCycle.WEEKLY}>Weekly</SelectItem>
+                            <SelectItem value={BillingCycle.BIWEEKLY}>Bi-weekly</SelectItem>
+                            <SelectItem value={BillingCycle.SEMI_MONTHLY}>Semi-monthly (1st–15th, 16th–end)</SelectItem>
+                            <SelectItem value={BillingCycle.MONTHLY}>Monthly</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>How hours are grouped into invoice periods</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="winProbability"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Win Probability (%)</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min="0"
+                            max="100"
+                            step="1"
+                            placeholder="—"
+                            {...field}
+                            value={field.value ?? ""}
+                            onChange={(e) => field.onChange(e.target.value)}
+                          />
+                        </FormControl>
+                        <FormDescription>Weights soft-booked hours in the utilization grid</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                 </div>
 
                 <FormField
@@ -917,6 +1006,15 @@ export function ProjectForm({
                                     onChange={(e) => setEditRate(e.target.value)}
                                     className="h-8 text-xs w-24 ml-auto"
                                   />
+                                  {member.billingRate != null && (
+                                    <Input
+                                      type="date"
+                                      title="Effective from — clear to correct the starting rate"
+                                      value={editRateDate}
+                                      onChange={(e) => setEditRateDate(e.target.value)}
+                                      className="h-8 text-xs w-32 ml-auto mt-1"
+                                    />
+                                  )}
                                 </TableCell>
                                 <TableCell>
                                   <div className="flex gap-1">
@@ -951,6 +1049,12 @@ export function ProjectForm({
                                     : member.msrpRate != null
                                     ? <span className="text-muted-foreground">${member.msrpRate.toFixed(2)} (MSRP)</span>
                                     : "—"}
+                                  {member.billingRate != null && member.nextBillingRate && (
+                                    <p className="text-xs text-muted-foreground">
+                                      ${member.nextBillingRate.rate.toFixed(2)} from{" "}
+                                      {format(parseISO(member.nextBillingRate.effectiveDate), "MMM d, yyyy")}
+                                    </p>
+                                  )}
                                 </TableCell>
                                 <TableCell>
                                   <div className="flex gap-1 justify-end">
@@ -968,6 +1072,7 @@ export function ProjectForm({
                                               member.msrpRate?.toString() ??
                                               ""
                                             );
+                                            setEditRateDate(format(new Date(), "yyyy-MM-dd"));
                                           }}
                                         >
                                           <Pencil className="h-3 w-3" />
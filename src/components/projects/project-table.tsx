@@ -22,6 +22,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import {
   AlertDialog,
+  AlertDialogAction,
   AlertDialogCancel,
   AlertDialogContent,
   AlertDialogDescription,
@@ -30,14 +31,16 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { cn } from "@/lib/utils";
-import { ArrowDown, ArrowUp, ArrowUpDown, Calendar, FileText, MoreHorizontal, Pencil, Trash2 } from "lucide-react";
-import { deleteProject } from "@/app/actions/projects";
+import { toast } from "sonner";
+import { ArrowDown, ArrowUp, ArrowUpDown, BadgeCheck, Calendar, FileText, MoreHorizontal, Pencil, Trash2 } from "lucide-react";
+import { convertSoftBookings, deleteProject } from "@/app/actions/projects";
 import { getProjectMembers } from "@/app/actions/project-members";
 import { ProjectForm, ProjectWithRelations } from "./project-form";
 
 // ProjectRow is the shape returned by getProjects() (with projectManager included)
 type ProjectRow = ProjectWithRelations & {
   projectManager: { id: string; name: string } | null;
+  softBookingCount: number;
 };
 
 interface ProjectTableProps {
@@ -81,6 +84,7 @@ export function ProjectTable({ projects, pemConsultants, roleDefinitions, allCon
   const [deletingProject, setDeletingProject] = useState<ProjectRow | null>(null);
   const [deleteError, setDeleteError] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [convertingProject, setConvertingProject] = useState<ProjectRow | null>(null);
   const [sortKey, setSortKey] = useState<SortKey | null>(null);
   const [sortDir, setSortDir] = useState<SortDir>("asc");
 
@@ -138,6 +142,18 @@ export function ProjectTable({ projects, pemConsultants, roleDefinitions, allCon
     }
   };
 
+  const handleConvert = async () => {
+    if (!convertingProject) return;
+    const target = convertingProject;
+    setConvertingProject(null);
+    try {
+      const res = await convertSoftBookings(target.id);
+      toast.success(`Converted ${res.converted} soft booking${res.converted !== 1 ? "s" : ""} on ${target.projectName}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to convert soft bookings");
+    }
+  };
+
   return (
     <>
       <div className="rounded-md border">
@@ -196,6 +212,11 @@ export function ProjectTable({ projects, pemConsultants, roleDefinitions, allCon
                     <Badge variant="secondary" className={typeColors[project.type]}>
                       {project.type}
                     </Badge>
+                    {project.winProbability != null && (
+                      <span className="block text-xs text-muted-foreground mt-1">
+                        {project.winProbability}% win
+                      </span>
+                    )}
                   </TableCell>
                   <TableCell>
                     <Badge variant="secondary" className={statusColors[project.status]}>
@@ -226,6 +247,12 @@ export function ProjectTable({ projects, pemConsultants, roleDefinitions, allCon
                           <Calendar className="mr-2 h-4 w-4" />
                           Schedule
                         </DropdownMenuItem>
+                        {project.softBookingCount > 0 && (
+                          <DropdownMenuItem onClick={() => setConvertingProject(project)}>
+                            <BadgeCheck className="mr-2 h-4 w-4" />
+                            Convert Soft Bookings
+                          </DropdownMenuItem>
+                        )}
                         <DropdownMenuSeparator />
                         <DropdownMenuItem
                           onClick={() => setDeletingProject(project)}
@@ -256,6 +283,23 @@ export function ProjectTable({ projects, pemConsultants, roleDefinitions, allCon
         allConsultants={allConsultants}
       />
 
+      <AlertDialog open={!!convertingProject} onOpenChange={(open) => !open && setConvertingProject(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Convert Soft Bookings</AlertDialogTitle>
+            <AlertDialogDescription>
+              The {convertingProject?.softBookingCount} soft booking
+              {convertingProject?.softBookingCount !== 1 ? "s" : ""} on &quot;{convertingProject?.projectName}&quot; will
+              become confirmed projected hours, and the win probability will be set to 100%.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConvert}>Convert</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <AlertDialog open={!!deletingProject} onOpenChange={(open) => !open && setDeletingProject(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
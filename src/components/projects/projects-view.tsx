@@ -18,6 +18,7 @@ import { Plus, Search } from "lucide-react";
 
 type ProjectRow = ProjectWithRelations & {
   projectManager: { id: string; name: string } | null;
+  softBookingCount: number;
 };
 
 interface ProjectsViewProps {
@@ -0,0 +1,318 @@
+"use client";
+
+import { useState, useCallback, useMemo } from "react";
+import {
+  addMonths,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfQuarter,
+  endOfWeek,
+  format,
+  isSameMonth,
+  startOfMonth,
+  startOfQuarter,
+  startOfWeek,
+} from "date-fns";
+import { GroupType, PTOStatus } from "@prisma/client";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { GROUP_LABELS } from "@/components/consultants/consultant-form";
+import { getAbsenceCalendar, type AbsenceCalendarData } from "@/app/actions/absence-calendar";
+
+type View = "month" | "quarter";
+type Absence = AbsenceCalendarData["absences"][number];
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const MAX_CHIPS = 4;
+
+function visibleRange(view: View, anchor: Date) {
+  return view === "month"
+    ? { start: startOfMonth(anchor), end: endOfMonth(anchor) }
+    : { start: startOfQuarter(anchor), end: endOfQuarter(anchor) };
+}
+
+function isWeekend(day: Date) {
+  return day.getDay() === 0 || day.getDay() === 6;
+}
+
+function absenceLabel(absence: Absence) {
+  return absence.allDay ? null : `${absence.startTime}–${absence.endTime}`;
+}
+
+interface AbsenceCalendarProps {
+  initialData: AbsenceCalendarData;
+  initialMonth: string; // yyyy-MM-dd, first of the month loaded in initialData
+}
+
+export function AbsenceCalendar({ initialData, initialMonth }: AbsenceCalendarProps) {
+  const [view, setView] = useState<View>("month");
+  const [anchor, setAnchor] = useState(() => startOfMonth(new Date(initialMonth + "T00:00:00")));
+  const [data, setData] = useState(initialData);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [groupFilter, setGroupFilter] = useState<string>("all");
+  const [projectFilter, setProjectFilter] = useState<string>("all");
+  const [threshold, setThreshold] = useState(initialData.overlapThreshold);
+
+  const navigate = useCallback(async (nextView: View, nextAnchor: Date) => {
+    const { start, end } = visibleRange(nextView, nextAnchor);
+    setIsLoading(true);
+    setError(null);
+    try {
+      setData(await getAbsenceCalendar(format(start, "yyyy-MM-dd"), format(end, "yyyy-MM-dd")));
+      setView(nextView);
+      setAnchor(nextAnchor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load absences");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const team = useMemo(
+    () => data.consultants.filter(c =>
+      (groupFilter === "all" || c.groups.includes(groupFilter as GroupType)) &&
+      (projectFilter === "all" || c.projectIds.includes(projectFilter))
+    ),
+    [data.consultants, groupFilter, projectFilter]
+  );
+
+  const names = useMemo(() => new Map(data.consultants.map(c => [c.id, c.name])), [data.consultants]);
+
+  // yyyy-MM-dd -> absences of the filtered team on that weekday
+  const absencesByDay = useMemo(() => {
+    const teamIds = new Set(team.map(c => c.id));
+    const { start, end } = visibleRange(view, anchor);
+    const byDay = new Map<string, Absence[]>();
+    for (const day of eachDayOfInterval({ start, end })) {
+      if (isWeekend(day)) continue;
+      const key = format(day, "yyyy-MM-dd");
+      const absences = data.absences.filter(a =>
+        teamIds.has(a.consultantId) && a.startDate <= key && a.endDate >= key
+      );
+      if (absences.length > 0) byDay.set(key, absences);
+    }
+    return byDay;
+  }, [team, data.absences, view, anchor]);
+
+  const dayStats = (day: Date) => {
+    const absences = absencesByDay.get(format(day, "yyyy-MM-dd")) ?? [];
+    const out = new Set(absences.map(a => a.consultantId)).size;
+    const share = team.length > 0 ? (out / team.length) * 100 : 0;
+    return { absences, out, overThreshold: out > 0 && share > threshold };
+  };
+
+  const step = view === "month" ? 1 : 3;
+  const { start: rangeStart } = visibleRange(view, anchor);
+  const title = view === "month"
+    ? format(anchor, "MMMM yyyy")
+    : `Q${Math.floor(rangeStart.getMonth() / 3) + 1} ${format(rangeStart, "yyyy")}`;
+  const months = view === "month" ? [anchor] : [0, 1, 2].map(i => addMonths(rangeStart, i));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <Tabs value={view} onValueChange={(v) => navigate(v as View, anchor)}>
+          <TabsList>
+            <TabsTrigger value="month">Month</TabsTrigger>
+            <TabsTrigger value="quarter">Quarter</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="icon" className="h-8 w-8" disabled={isLoading} onClick={() => navigate(view, addMonths(anchor, -step))}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="min-w-[8rem] text-center text-sm font-medium">{title}</span>
+          <Button variant="ghost" size="icon" className="h-8 w-8" disabled={isLoading} onClick={() => navigate(view, addMonths(anchor, step))}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          {isLoading && <Loader2 className="ml-1 h-4 w-4 animate-spin text-muted-foreground" />}
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs">Group</Label>
+          <Select value={groupFilter} onValueChange={setGroupFilter}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All groups</SelectItem>
+              {Object.values(GroupType).map((g) => (
+                <SelectItem key={g} value={g}>{GROUP_LABELS[g]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs">Project</Label>
+          <Select value={projectFilter} onValueChange={setProjectFilter}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All projects</SelectItem>
+              {data.projects.map((p) => (
+                <SelectItem key={p.id} value={p.id}>
+                  {p.timecode ? `${p.timecode} - ` : ""}{p.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="overlap-threshold" className="text-xs">Highlight above (% out)</Label>
+          <Input
+            id="overlap-threshold"
+            type="number"
+            min={1}
+            max={100}
+            value={threshold}
+            onChange={(e) => setThreshold(Number(e.target.value))}
+            className="w-24"
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 text-sm text-red-600 bg-red-50 dark:bg-red-900/20 dark:text-red-400 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+        <span>{team.length} {team.length === 1 ? "person" : "people"} in view</span>
+        <span className="flex items-center gap-1">
+          <span className="h-3 w-3 rounded-sm bg-blue-100 dark:bg-blue-900/40" /> Approved
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="h-3 w-3 rounded-sm border border-dashed border-blue-400" /> Pending
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="h-3 w-3 rounded-sm bg-red-100 dark:bg-red-900/40" /> More than {threshold}% out
+        </span>
+      </div>
+
+      {view === "month" ? (
+        <div className="rounded-md border">
+          <div className="grid grid-cols-7 border-b bg-muted/50 text-xs font-medium">
+            {WEEKDAYS.map((d) => (
+              <div key={d} className="px-2 py-1.5">{d}</div>
+            ))}
+          </div>
+          <div className="grid grid-cols-7">
+            {eachDayOfInterval({ start: startOfWeek(startOfMonth(anchor)), end: endOfWeek(endOfMonth(anchor)) }).map((day) => {
+              const { absences, out, overThreshold } = dayStats(day);
+              const inMonth = isSameMonth(day, anchor);
+              return (
+                <div
+                  key={day.toISOString()}
+                  className={cn(
+                    "min-h-[6.5rem] border-b border-r p-1.5 text-xs [&:nth-child(7n)]:border-r-0",
+                    !inMonth && "bg-muted/30 text-muted-foreground",
+                    isWeekend(day) && inMonth && "bg-muted/20",
+                    overThreshold && inMonth && "bg-red-50 dark:bg-red-900/20"
+                  )}
+                >
+                  <div className="mb-1 flex items-center justify-between">
+                    <span className="font-medium">{format(day, "d")}</span>
+                    {overThreshold && inMonth && (
+                      <span className="text-[10px] font-medium text-red-600 dark:text-red-400">
+                        {out}/{team.length} out
+                      </span>
+                    )}
+                  </div>
+                  {inMonth && (
+                    <div className="space-y-0.5">
+                      {absences.slice(0, MAX_CHIPS).map((a) => (
+                        <div
+                          key={a.id}
+                          className={cn(
+                            "truncate rounded px-1 py-0.5",
+                            a.status === PTOStatus.APPROVED
+                              ? "bg-blue-100 text-blue-900 dark:bg-blue-900/40 dark:text-blue-100"
+                              : "border border-dashed border-blue-400 text-blue-900 dark:text-blue-100"
+                          )}
+                          title={[names.get(a.consultantId), a.leaveType, absenceLabel(a)].filter(Boolean).join(" · ")}
+                        >
+                          {names.get(a.consultantId)}
+                          {absenceLabel(a) && <span className="ml-1 opacity-70">{absenceLabel(a)}</span>}
+                        </div>
+                      ))}
+                      {absences.length > MAX_CHIPS && (
+                        <div className="px-1 text-muted-foreground">+{absences.length - MAX_CHIPS} more</div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ) : (
+        <div className="grid gap-4 lg:grid-cols-3">
+          {months.map((month) => (
+            <div key={month.toISOString()} className="rounded-md border p-3">
+              <p className="mb-2 text-sm font-medium">{format(month, "MMMM")}</p>
+              <div className="grid grid-cols-7 gap-1 text-center text-[10px] text-muted-foreground">
+                {WEEKDAYS.map((d) => <div key={d}>{d[0]}</div>)}
+              </div>
+              <div className="mt-1 grid grid-cols-7 gap-1">
+                {eachDayOfInterval({ start: startOfWeek(startOfMonth(month)), end: endOfWeek(endOfMonth(month)) }).map((day) => {
+                  if (!isSameMonth(day, month)) return <div key={day.toISOString()} />;
+                  const { absences, out, overThreshold } = dayStats(day);
+                  const cell = (
+                    <div
+                      className={cn(
+                        "flex h-9 flex-col items-center justify-center rounded text-xs",
+                        isWeekend(day) && "text-muted-foreground",
+                        out > 0 && !overThreshold && "bg-blue-100 dark:bg-blue-900/40",
+                        overThreshold && "bg-red-100 font-medium text-red-700 dark:bg-red-900/40 dark:text-red-300"
+                      )}
+                    >
+                      <span>{format(day, "d")}</span>
+                      {out > 0 && <span className="text-[10px] leading-none">{out} out</span>}
+                    </div>
+                  );
+                  if (absences.length === 0) return <div key={day.toISOString()}>{cell}</div>;
+                  return (
+                    <Tooltip key={day.toISOString()}>
+                      <TooltipTrigger asChild>{cell}</TooltipTrigger>
+                      <TooltipContent>
+                        <div className="space-y-0.5 text-xs">
+                          <p className="font-medium">{format(day, "EEE, MMM d")} · {out}/{team.length} out</p>
+                          {absences.map((a) => (
+                            <p key={a.id}>
+                              {names.get(a.consultantId)}
+                              {absenceLabel(a) && ` (${absenceLabel(a)})`}
+                              {a.leaveType && ` · ${a.leaveType}`}
+                              {a.status === PTOStatus.PENDING && " · pending"}
+                            </p>
+                          ))}
+                        </div>
+                      </TooltipContent>
+                    </Tooltip>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertTriangle, Flag, Loader2 } from "lucide-react";
+import { approvePTORequest, getPTOConflicts, type PTOConflictReport } from "@/app/actions/pto";
+
+interface ApprovePTODialogProps {
+  request: {
+    id: string;
+    consultant: { name: string };
+    startDate: Date;
+    endDate: Date;
+    balanceAfter?: number | null;
+    approval?: { step: number; total: number } | null;
+  } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+function formatDate(date: Date) {
+  return format(parseISO(date.toISOString().split("T")[0]), "MMM d, yyyy");
+}
+
+export function ApprovePTODialog({ request, onOpenChange }: ApprovePTODialogProps) {
+  const [report, setReport] = useState<PTOConflictReport | null>(null);
+  const [reduceProjected, setReduceProjected] = useState(true);
+  const [comment, setComment] = useState("");
+  const [isApproving, setIsApproving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const requestId = request?.id;
+
+  useEffect(() => {
+    if (!requestId) return;
+    setReport(null);
+    setReduceProjected(true);
+    setComment("");
+    setError(null);
+    getPTOConflicts(requestId)
+      .then(setReport)
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to check conflicts"));
+  }, [requestId]);
+
+  const totalReduction = report?.weeks.reduce((sum, w) => sum + w.reduction, 0) ?? 0;
+  // Hours are only booked once the last approver signs off
+  const isFinalStep = !request?.approval || request.approval.step === request.approval.total;
+
+  const handleApprove = async () => {
+    if (!requestId) return;
+    setIsApproving(true);
+    setError(null);
+    try {
+      await approvePTORequest(requestId, {
+        reduceProjected: isFinalStep && reduceProjected && totalReduction > 0,
+        comment,
+      });
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to approve");
+    } finally {
+      setIsApproving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!request} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px]">
+        <DialogHeader>
+          <DialogTitle>Approve PTO</DialogTitle>
+          <DialogDescription>
+            {request && `${request.consultant.name}, ${formatDate(request.startDate)} – ${formatDate(request.endDate)}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="p-3 text-sm text-red-600 bg-red-50 dark:bg-red-900/20 dark:text-red-400 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {!isFinalStep && request?.approval && (
+          <p className="p-3 text-sm bg-muted rounded-md">
+            This is approval {request.approval.step} of {request.approval.total}. The time is booked
+            once the final approver signs off.
+          </p>
+        )}
+
+        {request?.balanceAfter != null && request.balanceAfter < 0 && (
+          <div className="flex items-center gap-2 p-3 text-sm text-red-600 bg-red-50 dark:bg-red-900/20 dark:text-red-400 rounded-md">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            Approving leaves a PTO balance of {request.balanceAfter}h.
+          </div>
+        )}
+
+        {report === null ? (
+          !error && (
+            <div className="flex items-center justify-center py-8 text-sm text-muted-foreground">
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Checking projected work...
+            </div>
+          )
+        ) : report.conflicts.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            No projected project work in the affected weeks.
+          </p>
+        ) : (
+          <>
+            <ScrollArea className="max-h-[45vh]">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Project</TableHead>
+                    <TableHead>Projected Hours</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.conflicts.map((conflict) => (
+                    <TableRow key={conflict.projectId}>
+                      <TableCell>
+                        <p className="font-medium">
+                          {conflict.timecode ? `${conflict.timecode} - ` : ""}{conflict.projectName}
+                        </p>
+                        {conflict.milestones.map((milestone) => (
+                          <Badge
+                            key={`${milestone.name}_${milestone.date}`}
+                            variant="secondary"
+                            className="mt-1 mr-1 bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-200"
+                          >
+                            <Flag className="mr-1 h-3 w-3" />
+                            {milestone.name} · {format(parseISO(milestone.date), "MMM d")}
+                          </Badge>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {conflict.weeks
+                          .map((w) => `${format(parseISO(w.weekStart), "MMM d")}: ${w.hours}h`)
+                          .join(", ")}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-sm">{conflict.hours}h</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+
+            {!isFinalStep ? null : totalReduction > 0 ? (
+              <label className="flex items-start gap-2 text-sm">
+                <Checkbox
+                  checked={reduceProjected}
+                  onCheckedChange={(checked) => setReduceProjected(checked === true)}
+                  className="mt-0.5"
+                />
+                <span>
+                  Reduce projected hours by {Math.round(totalReduction * 100) / 100}h so no affected week
+                  goes over capacity
+                  <span className="block text-xs text-muted-foreground">
+                    {report.weeks
+                      .filter((w) => w.reduction > 0)
+                      .map((w) => `${format(parseISO(w.weekStart), "MMM d")}: −${Math.round(w.reduction * 100) / 100}h`)
+                      .join(", ")}
+                  </span>
+                </span>
+              </label>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                The affected weeks stay within capacity with this PTO booked.
+              </p>
+            )}
+          </>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="approve-pto-comment">Comment (optional)</Label>
+          <Textarea
+            id="approve-pto-comment"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="Shown to the requester"
+            rows={2}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isApproving}>
+            Cancel
+          </Button>
+          <Button onClick={handleApprove} disabled={isApproving || (report === null && !error)}>
+            {isApproving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Approve
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,10 +1,11 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { format } from "date-fns";
+import { LeaveApprovalRule } from "@prisma/client";
 import { CalendarIcon } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -37,7 +38,7 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { createPTORequest } from "@/app/actions/pto";
+import { createPTORequest, getPTOBalancePreview, type PTOBalancePreview } from "@/app/actions/pto";
 import { cn } from "@/lib/utils";
 
 const formSchema = z.object({
@@ -47,6 +48,7 @@ const formSchema = z.object({
   allDay: z.boolean(),
   startTime: z.string().optional(),
   endTime: z.string().optional(),
+  leaveTypeId: z.string().optional(),
 }).refine((data) => data.endDate >= data.startDate, {
   message: "End date must be after start date",
   path: ["endDate"],
@@ -61,11 +63,19 @@ interface PTOFormProps {
   consultants: Array<{ id: string; name: string }>;
   currentConsultantId?: string | null;
   isEmployee?: boolean;
+  leaveTypes?: Array<{ id: string; name: string; approvalRule: LeaveApprovalRule }>;
   open: boolean;
   onOpenChange: (open: boolean) => void;
 }
 
-export function PTOForm({ consultants, currentConsultantId, isEmployee, open, onOpenChange }: PTOFormProps) {
+export function PTOForm({
+  consultants,
+  currentConsultantId,
+  isEmployee,
+  leaveTypes = [],
+  open,
+  onOpenChange,
+}: PTOFormProps) {
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
 
@@ -76,10 +86,44 @@ export function PTOForm({ consultants, currentConsultantId, isEmployee, open, on
       allDay: true,
       startTime: "09:00",
       endTime: "17:00",
+      leaveTypeId: "",
     },
   });
 
   const allDay = form.watch("allDay");
+  const [consultantId, startDate, endDate, startTime, endTime, leaveTypeId] = form.watch([
+    "consultantId",
+    "startDate",
+    "endDate",
+    "startTime",
+    "endTime",
+    "leaveTypeId",
+  ]);
+  const autoApproved = leaveTypes.find(t => t.id === leaveTypeId)?.approvalRule === LeaveApprovalRule.AUTO;
+  const [preview, setPreview] = useState<PTOBalancePreview | null>(null);
+
+  // Projected balance for consultants on an accrual policy
+  useEffect(() => {
+    if (!open || !consultantId || !startDate || !endDate || endDate < startDate) {
+      setPreview(null);
+      return;
+    }
+    let cancelled = false;
+    getPTOBalancePreview({
+      consultantId,
+      startDate: format(startDate, "yyyy-MM-dd"),
+      endDate: format(endDate, "yyyy-MM-dd"),
+      allDay,
+      startTime: allDay ? undefined : startTime,
+      endTime: allDay ? undefined : endTime,
+      leaveTypeId: leaveTypeId || null,
+    })
+      .then((result) => !cancelled && setPreview(result))
+      .catch(() => !cancelled && setPreview(null));
+    return () => {
+      cancelled = true;
+    };
+  }, [open, consultantId, startDate, endDate, allDay, startTime, endTime, leaveTypeId]);
 
   const onSubmit = async (data: FormData) => {
     setError(null);
@@ -93,6 +137,7 @@ export function PTOForm({ consultants, currentConsultantId, isEmployee, open, on
         allDay: data.allDay,
         startTime: data.allDay ? undefined : data.startTime,
         endTime: data.allDay ? undefined : data.endTime,
+        leaveTypeId: data.leaveTypeId || null,
       });
       form.reset();
       onOpenChange(false);
@@ -145,6 +190,40 @@ export function PTOForm({ consultants, currentConsultantId, isEmployee, open, on
               />
             )}
 
+            {leaveTypes.length > 0 && (
+              <FormField
+                control={form.control}
+                name="leaveTypeId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Leave Type</FormLabel>
+                    <Select
+                      onValueChange={(v) => field.onChange(v === "__general__" ? "" : v)}
+                      value={field.value || "__general__"}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="__general__">General PTO</SelectItem>
+                        {leaveTypes.map((leaveType) => (
+                          <SelectItem key={leaveType.id} value={leaveType.id}>
+                            {leaveType.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {autoApproved && (
+                      <FormDescription>This leave type is approved automatically.</FormDescription>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
             <div className="grid grid-cols-2 gap-4">
               <FormField
                 control={form.control}
@@ -280,6 +359,32 @@ export function PTOForm({ consultants, currentConsultantId, isEmployee, open, on
               </div>
             )}
 
+            {preview && (
+              <div
+                className={cn(
+                  "rounded-md border p-3 text-sm",
+                  preview.projectedBalance < 0 &&
+                    "border-red-200 bg-red-50 text-red-600 dark:border-red-900 dark:bg-red-900/20 dark:text-red-400"
+                )}
+              >
+                <div className="flex justify-between">
+                  <span>Current balance</span>
+                  <span className="font-mono">{preview.balance}h</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>This request</span>
+                  <span className="font-mono">-{preview.requestHours}h</span>
+                </div>
+                <div className="flex justify-between font-medium">
+                  <span>Balance after approval</span>
+                  <span className="font-mono">{preview.projectedBalance}h</span>
+                </div>
+                {preview.projectedBalance < 0 && (
+                  <p className="mt-2 text-xs">This request exceeds the available PTO balance.</p>
+                )}
+              </div>
+            )}
+
             <div className="flex justify-end gap-3 pt-4">
               <Button
                 type="button"
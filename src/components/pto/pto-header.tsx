@@ -1,17 +1,20 @@
 "use client";
 
 import { useState } from "react";
+import Link from "next/link";
+import { LeaveApprovalRule } from "@prisma/client";
 import { Button } from "@/components/ui/button";
 import { PTOForm } from "./pto-form";
-import { Plus } from "lucide-react";
+import { CalendarDays, Plus } from "lucide-react";
 
 interface PTOHeaderProps {
   consultants: Array<{ id: string; name: string }>;
   currentConsultantId?: string | null;
   isEmployee?: boolean;
+  leaveTypes?: Array<{ id: string; name: string; approvalRule: LeaveApprovalRule }>;
 }
 
-export function PTOHeader({ consultants, currentConsultantId, isEmployee }: PTOHeaderProps) {
+export function PTOHeader({ consultants, currentConsultantId, isEmployee, leaveTypes }: PTOHeaderProps) {
   const [showForm, setShowForm] = useState(false);
 
   return (
@@ -25,16 +28,27 @@ export function PTOHeader({ consultants, currentConsultantId, isEmployee }: PTOH
               : "Manage and approve time off requests"}
           </p>
         </div>
-        <Button onClick={() => setShowForm(true)}>
-          <Plus className="mr-2 h-4 w-4" />
-          Request PTO
-        </Button>
+        <div className="flex gap-2">
+          {!isEmployee && (
+            <Button variant="outline" asChild>
+              <Link href="/pto/calendar">
+                <CalendarDays className="mr-2 h-4 w-4" />
+                Team Calendar
+              </Link>
+            </Button>
+          )}
+          <Button onClick={() => setShowForm(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Request PTO
+          </Button>
+        </div>
       </div>
 
       <PTOForm
         consultants={consultants}
         currentConsultantId={currentConsultantId}
         isEmployee={isEmployee}
+        leaveTypes={leaveTypes}
         open={showForm}
         onOpenChange={setShowForm}
       />
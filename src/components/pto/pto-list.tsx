@@ -2,7 +2,7 @@
 
 import { useState, useMemo } from "react";
 import { format, parseISO } from "date-fns";
-import { PTOStatus, PTORequest, Consultant, User } from "@prisma/client";
+import { ApprovalStepApprover, PTOStatus, PTORequest, Consultant, User } from "@prisma/client";
 import {
   Table,
   TableBody,
@@ -13,6 +13,10 @@ import {
 } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -28,12 +32,49 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { ArrowDown, ArrowUp, ArrowUpDown, MoreHorizontal, Check, X, Ban } from "lucide-react";
-import { approvePTORequest, denyPTORequest, cancelPTORequest } from "@/app/actions/pto";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertTriangle, ArrowDown, ArrowUp, ArrowUpDown, MoreHorizontal, Check, X, Ban, Loader2, Search } from "lucide-react";
+import { toast } from "sonner";
+import {
+  bulkApprovePTORequests,
+  bulkDenyPTORequests,
+  cancelPTORequest,
+  type PTOBulkResult,
+} from "@/app/actions/pto";
+import { ApprovePTODialog } from "./approve-pto-dialog";
 
 type PTOWithRelations = PTORequest & {
   consultant: { id: string; name: string };
   approvedBy?: { id: string; email: string } | null;
+  leaveType?: { id: string; name: string } | null;
+  balanceAfter?: number | null;
+  approvalSteps?: Array<{
+    id: string;
+    decision: "APPROVED" | "DENIED";
+    decidedBy: string | null;
+    onBehalfOf: string | null;
+    comment: string | null;
+    createdAt: Date;
+  }>;
+  approval?: {
+    step: number;
+    total: number;
+    approver: ApprovalStepApprover;
+    canAct: boolean;
+  } | null;
+};
+
+export const APPROVER_LABELS: Record<ApprovalStepApprover, string> = {
+  DIRECT_MANAGER: "Manager",
+  GROUP_LEAD: "Group lead",
+  ADMIN: "Admin",
 };
 
 interface PTOListProps {
@@ -49,6 +90,8 @@ const statusColors: Record<PTOStatus, string> = {
   CANCELLED: "bg-gray-100 text-gray-600 dark:bg-gray-900/30 dark:text-gray-400",
 };
 
+type Decision = { ids: string[]; action: "approve" | "deny" };
+
 type SortKey = "employee" | "startDate" | "endDate" | "type" | "status" | "approvedBy";
 type SortDir = "asc" | "desc";
 
@@ -58,15 +101,24 @@ function SortIcon({ col, sortKey, sortDir }: { col: SortKey; sortKey: SortKey |
 }
 
 export function PTOList({ ptoRequests, userRole, currentConsultantId }: PTOListProps) {
-  const [actioningId, setActioningId] = useState<string | null>(null);
   const [cancelId, setCancelId] = useState<string | null>(null);
+  const [approving, setApproving] = useState<PTOWithRelations | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [sortKey, setSortKey] = useState<SortKey | null>(null);
   const [sortDir, setSortDir] = useState<SortDir>("asc");
+  const [search, setSearch] = useState("");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [decision, setDecision] = useState<Decision | null>(null);
+  const [comment, setComment] = useState("");
 
   const canManage = userRole === "ADMIN" || userRole === "MANAGER";
 
+  // Whoever the request's current approval step is waiting on
+  // (approver, their delegate, or an admin) can approve or deny it.
+  const canAct = (pto: PTOWithRelations) =>
+    pto.status === "PENDING" && (pto.approval ? pto.approval.canAct : canManage);
+
   const handleSort = (key: SortKey) => {
     if (sortKey === key) {
       setSortDir(sortDir === "asc" ? "desc" : "asc");
@@ -76,9 +128,23 @@ export function PTOList({ ptoRequests, userRole, currentConsultantId }: PTOListP
     }
   };
 
+  // Matches the employee, leave type, approvers and decision comments
+  const filteredRequests = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return ptoRequests;
+    return ptoRequests.filter((pto) =>
+      [
+        pto.consultant.name,
+        pto.leaveType?.name,
+        pto.approvedBy?.email,
+        ...(pto.approvalSteps ?? []).flatMap((step) => [step.decidedBy, step.onBehalfOf, step.comment]),
+      ].some((value) => value?.toLowerCase().includes(term))
+    );
+  }, [ptoRequests, search]);
+
   const sortedRequests = useMemo(() => {
-    if (!sortKey) return ptoRequests;
-    return [...ptoRequests].sort((a, b) => {
+    if (!sortKey) return filteredRequests;
+    return [...filteredRequests].sort((a, b) => {
       let cmp = 0;
       switch (sortKey) {
         case "employee":
@@ -102,31 +168,53 @@ export function PTOList({ ptoRequests, userRole, currentConsultantId }: PTOListP
       }
       return sortDir === "asc" ? cmp : -cmp;
     });
-  }, [ptoRequests, sortKey, sortDir]);
+  }, [filteredRequests, sortKey, sortDir]);
 
-  const handleApprove = async (id: string) => {
-    setLoading(true);
+  const actionableIds = sortedRequests.filter(canAct).map((pto) => pto.id);
+  // Requests decided elsewhere drop out of the selection once the list refreshes
+  const selectedIds = actionableIds.filter((id) => selected.has(id));
+  const allSelected = actionableIds.length > 0 && selectedIds.length === actionableIds.length;
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const openDecision = (ids: string[], action: Decision["action"]) => {
+    setComment("");
     setError(null);
-    try {
-      await approvePTORequest(id);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to approve");
-    } finally {
-      setLoading(false);
-      setActioningId(null);
-    }
+    setDecision({ ids, action });
   };
 
-  const handleDeny = async (id: string) => {
+  const handleDecision = async () => {
+    if (!decision) return;
     setLoading(true);
     setError(null);
     try {
-      await denyPTORequest(id);
+      const result: PTOBulkResult = decision.action === "approve"
+        ? await bulkApprovePTORequests(decision.ids, comment)
+        : await bulkDenyPTORequests(decision.ids, comment);
+
+      const verb = decision.action === "approve" ? "Approved" : "Denied";
+      if (result.succeeded.length > 0) {
+        toast.success(`${verb} ${result.succeeded.length} request${result.succeeded.length === 1 ? "" : "s"}`);
+      }
+      if (result.failed.length > 0) {
+        setError(
+          `${result.failed.length} request${result.failed.length === 1 ? "" : "s"} could not be updated: ` +
+          [...new Set(result.failed.map((f) => f.error))].join("; ")
+        );
+      }
+      setSelected((prev) => new Set([...prev].filter((id) => !result.succeeded.includes(id))));
+      setDecision(null);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to deny");
+      setError(err instanceof Error ? err.message : "Failed to update requests");
     } finally {
       setLoading(false);
-      setActioningId(null);
     }
   };
 
@@ -152,10 +240,56 @@ export function PTOList({ ptoRequests, userRole, currentConsultantId }: PTOListP
         </div>
       )}
 
+      <div className="mb-4 flex flex-wrap items-center gap-2">
+        <div className="relative w-full max-w-xs">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search employee, type or comments..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-8"
+          />
+        </div>
+        {selectedIds.length > 0 && (
+          <div className="ml-auto flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">{selectedIds.length} selected</span>
+            <Button
+              size="sm"
+              variant="outline"
+              className="text-green-600"
+              disabled={loading}
+              onClick={() => openDecision(selectedIds, "approve")}
+            >
+              <Check className="mr-2 h-4 w-4" />
+              Approve
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="text-red-600"
+              disabled={loading}
+              onClick={() => openDecision(selectedIds, "deny")}
+            >
+              <X className="mr-2 h-4 w-4" />
+              Deny
+            </Button>
+          </div>
+        )}
+      </div>
+
       <div className="rounded-md border">
         <Table>
           <TableHeader>
             <TableRow>
+              {actionableIds.length > 0 && (
+                <TableHead className="w-[40px]">
+                  <Checkbox
+                    checked={allSelected ? true : selectedIds.length > 0 ? "indeterminate" : false}
+                    onCheckedChange={(checked) => setSelected(checked === true ? new Set(actionableIds) : new Set())}
+                    aria-label="Select all pending requests"
+                  />
+                </TableHead>
+              )}
               <TableHead className="cursor-pointer select-none" onClick={() => handleSort("employee")}>
                 <span className="flex items-center gap-1">Employee <SortIcon col="employee" sortKey={sortKey} sortDir={sortDir} /></span>
               </TableHead>
@@ -180,16 +314,13 @@ export function PTOList({ ptoRequests, userRole, currentConsultantId }: PTOListP
           <TableBody>
             {sortedRequests.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                <TableCell colSpan={actionableIds.length > 0 ? 8 : 7} className="text-center py-8 text-muted-foreground">
                   No PTO requests found
                 </TableCell>
               </TableRow>
             ) : (
               sortedRequests.map((pto) => {
-                // Managers and admins can action (approve/deny) pending requests.
-                // Managers only see their own + direct reports via getPTORequests,
-                // so visibility implies manage permission.
-                const canAction = canManage && pto.status === "PENDING";
+                const canAction = canAct(pto);
 
                 // Cancel is available on PENDING and APPROVED requests.
                 // Employees can only cancel their own; managers/admins can cancel all they can see.
@@ -198,7 +329,18 @@ export function PTOList({ ptoRequests, userRole, currentConsultantId }: PTOListP
                   (canManage || pto.consultantId === currentConsultantId);
 
                 return (
-                  <TableRow key={pto.id}>
+                  <TableRow key={pto.id} data-state={selected.has(pto.id) ? "selected" : undefined}>
+                    {actionableIds.length > 0 && (
+                      <TableCell>
+                        {canAction && (
+                          <Checkbox
+                            checked={selected.has(pto.id)}
+                            onCheckedChange={(checked) => toggleSelected(pto.id, checked === true)}
+                            aria-label={`Select request from ${pto.consultant.name}`}
+                          />
+                        )}
+                      </TableCell>
+                    )}
                     <TableCell className="font-medium">{pto.consultant.name}</TableCell>
                     <TableCell>{format(parseISO(pto.startDate.toISOString().split("T")[0]), "MMM d, yyyy")}</TableCell>
                     <TableCell>{format(parseISO(pto.endDate.toISOString().split("T")[0]), "MMM d, yyyy")}</TableCell>
@@ -210,14 +352,50 @@ export function PTOList({ ptoRequests, userRole, currentConsultantId }: PTOListP
                           {pto.startTime} - {pto.endTime}
                         </span>
                       )}
+                      {pto.leaveType && (
+                        <p className="text-xs text-muted-foreground">{pto.leaveType.name}</p>
+                      )}
                     </TableCell>
                     <TableCell>
                       <Badge variant="secondary" className={statusColors[pto.status]}>
                         {pto.status.charAt(0) + pto.status.slice(1).toLowerCase()}
                       </Badge>
+                      {pto.status === "PENDING" && pto.approval && pto.approval.total > 1 && (
+                        <p className="mt-1 text-xs text-muted-foreground">
+                          Step {pto.approval.step} of {pto.approval.total} · {APPROVER_LABELS[pto.approval.approver]}
+                        </p>
+                      )}
+                      {canAction && pto.balanceAfter != null && pto.balanceAfter < 0 && (
+                        <p className="mt-1 flex items-center gap-1 text-xs text-red-600 dark:text-red-400">
+                          <AlertTriangle className="h-3 w-3" />
+                          Leaves balance at {pto.balanceAfter}h
+                        </p>
+                      )}
                     </TableCell>
                     <TableCell className="text-muted-foreground text-sm">
-                      {pto.approvedBy?.email || "-"}
+                      {pto.approvalSteps && pto.approvalSteps.length > 0 ? (
+                        <div className="space-y-0.5">
+                          {pto.approvalSteps.map((step) => (
+                            <div key={step.id}>
+                              <p className="flex items-center gap-1">
+                                {step.decision === "APPROVED"
+                                  ? <Check className="h-3 w-3 shrink-0 text-green-600" />
+                                  : <X className="h-3 w-3 shrink-0 text-red-600" />}
+                                <span>
+                                  {step.decidedBy ?? "Deleted user"}
+                                  {step.onBehalfOf && ` for ${step.onBehalfOf}`}
+                                  <span className="ml-1 text-xs">{format(step.createdAt, "MMM d, h:mm a")}</span>
+                                </span>
+                              </p>
+                              {step.comment && (
+                                <p className="ml-4 text-xs italic whitespace-pre-wrap">&ldquo;{step.comment}&rdquo;</p>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        pto.approvedBy?.email || (pto.status === "APPROVED" ? "Auto-approved" : "-")
+                      )}
                     </TableCell>
                     <TableCell>
                       {(canAction || canCancel) && (
@@ -231,14 +409,14 @@ export function PTOList({ ptoRequests, userRole, currentConsultantId }: PTOListP
                             {canAction && (
                               <>
                                 <DropdownMenuItem
-                                  onClick={() => handleApprove(pto.id)}
+                                  onClick={() => setApproving(pto)}
                                   className="text-green-600"
                                 >
                                   <Check className="mr-2 h-4 w-4" />
                                   Approve
                                 </DropdownMenuItem>
                                 <DropdownMenuItem
-                                  onClick={() => handleDeny(pto.id)}
+                                  onClick={() => openDecision([pto.id], "deny")}
                                   className="text-red-600"
                                 >
                                   <X className="mr-2 h-4 w-4" />
@@ -267,6 +445,52 @@ export function PTOList({ ptoRequests, userRole, currentConsultantId }: PTOListP
         </Table>
       </div>
 
+      <ApprovePTODialog
+        request={approving}
+        onOpenChange={(open) => !open && setApproving(null)}
+      />
+
+      <Dialog open={!!decision} onOpenChange={(open) => !open && !loading && setDecision(null)}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>
+              {decision?.action === "approve" ? "Approve" : "Deny"}{" "}
+              {decision && decision.ids.length > 1 ? `${decision.ids.length} Requests` : "Request"}
+            </DialogTitle>
+            <DialogDescription>
+              {decision?.action === "approve"
+                ? "Each request moves to its next approval step, or is booked if this is the last one."
+                : "The requester is told the reason you give."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="pto-decision-comment">
+              {decision?.action === "approve" ? "Comment (optional)" : "Reason"}
+            </Label>
+            <Textarea
+              id="pto-decision-comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Shown to the requester"
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDecision(null)} disabled={loading}>
+              Back
+            </Button>
+            <Button
+              onClick={handleDecision}
+              disabled={loading || (decision?.action === "deny" && !comment.trim())}
+              variant={decision?.action === "deny" ? "destructive" : "default"}
+            >
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {decision?.action === "approve" ? "Approve" : "Deny"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <AlertDialog open={!!cancelId} onOpenChange={(open) => !open && setCancelId(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
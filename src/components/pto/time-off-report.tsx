@@ -0,0 +1,119 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { getTimeOffReport, type TimeOffReport as TimeOffReportData } from "@/app/actions/pto";
+
+function formatHours(hours: number | undefined) {
+  return hours ? `${Math.round(hours * 10) / 10}h` : "—";
+}
+
+export function TimeOffReport({ report: initialReport }: { report: TimeOffReportData }) {
+  const [report, setReport] = useState(initialReport);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const changeYear = useCallback(async (year: number) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setReport(await getTimeOffReport(year));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load report");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const columnTotal = (key: string) =>
+    report.rows.reduce((sum, row) => sum + (row.hours[key] ?? 0), 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-1">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          disabled={isLoading}
+          onClick={() => changeYear(report.year - 1)}
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <span className="w-12 text-center text-sm font-medium">{report.year}</span>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          disabled={isLoading}
+          onClick={() => changeYear(report.year + 1)}
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+        {isLoading && <Loader2 className="ml-2 h-4 w-4 animate-spin text-muted-foreground" />}
+      </div>
+
+      {error && (
+        <div className="p-3 text-sm text-red-600 bg-red-50 dark:bg-red-900/20 dark:text-red-400 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {report.rows.length === 0 ? (
+        <p className="py-8 text-center text-sm text-muted-foreground">
+          No approved time off in {report.year}.
+        </p>
+      ) : (
+        <div className="rounded-md border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Employee</TableHead>
+                {report.columns.map((column) => (
+                  <TableHead key={column.key} className="text-right">{column.name}</TableHead>
+                ))}
+                <TableHead className="text-right">Total</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.rows.map((row) => (
+                <TableRow key={row.consultantId}>
+                  <TableCell className="font-medium">{row.consultantName}</TableCell>
+                  {report.columns.map((column) => (
+                    <TableCell key={column.key} className="text-right font-mono text-sm">
+                      {formatHours(row.hours[column.key])}
+                    </TableCell>
+                  ))}
+                  <TableCell className="text-right font-mono text-sm font-medium">{formatHours(row.total)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell>Total</TableCell>
+                {report.columns.map((column) => (
+                  <TableCell key={column.key} className="text-right font-mono text-sm">
+                    {formatHours(columnTotal(column.key))}
+                  </TableCell>
+                ))}
+                <TableCell className="text-right font-mono text-sm">
+                  {formatHours(report.rows.reduce((sum, row) => sum + row.total, 0))}
+                </TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useCallback } from "react";
+import { format } from "date-fns";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import {
   Table,
@@ -23,19 +24,35 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
-import { Pencil } from "lucide-react";
-import { updateRoleDefinition } from "@/app/actions/roles";
+import { History, Pencil, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { deleteRoleRateChange, updateRoleDefinition, type RoleRateChangeEntry } from "@/app/actions/roles";
 
 interface RoleDefinition {
   id: string;
   name: string;
   category: string;
-  msrpRate: number;
+  msrpRate: number; // in force today
+  startingRate: number;
+  rateChanges: RoleRateChangeEntry[];
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
+function formatRate(rate: number) {
+  return `$${rate.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+// Effective dates are stored as UTC midnight
+function formatEffectiveDate(date: Date) {
+  return format(new Date(date.toISOString().slice(0, 10) + "T00:00:00"), "MMM d, yyyy");
+}
+
+function isScheduled(change: RoleRateChangeEntry) {
+  return change.effectiveDate.getTime() > Date.now();
+}
+
 interface RolesViewProps {
   roles: RoleDefinition[];
 }
@@ -45,6 +62,8 @@ export function RolesView({ roles: initialRoles }: RolesViewProps) {
   const [editingRole, setEditingRole] = useState<RoleDefinition | null>(null);
   const [editRate, setEditRate] = useState("");
   const [editActive, setEditActive] = useState(true);
+  const [editEffectiveDate, setEditEffectiveDate] = useState("");
+  const [historyRole, setHistoryRole] = useState<RoleDefinition | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -52,9 +71,24 @@ export function RolesView({ roles: initialRoles }: RolesViewProps) {
     setEditingRole(role);
     setEditRate(role.msrpRate.toString());
     setEditActive(role.isActive);
+    setEditEffectiveDate(format(new Date(), "yyyy-MM-dd"));
     setError(null);
   }, []);
 
+  const replaceRole = useCallback((updated: RoleDefinition) => {
+    setRoles(prev => prev.map(r => r.id === updated.id ? updated : r));
+    setHistoryRole(prev => prev?.id === updated.id ? updated : prev);
+  }, []);
+
+  const handleCancelChange = useCallback(async (change: RoleRateChangeEntry) => {
+    try {
+      replaceRole(await deleteRoleRateChange(change.id));
+      toast.success("Scheduled rate change cancelled");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to cancel rate change");
+    }
+  }, [replaceRole]);
+
   const handleSave = useCallback(async () => {
     if (!editingRole) return;
 
@@ -70,15 +104,16 @@ export function RolesView({ roles: initialRoles }: RolesViewProps) {
       const updated = await updateRoleDefinition(editingRole.id, {
         msrpRate: rate,
         isActive: editActive,
+        effectiveDate: editEffectiveDate || null,
       });
-      setRoles(prev => prev.map(r => r.id === updated.id ? { ...r, msrpRate: updated.msrpRate, isActive: updated.isActive } : r));
+      replaceRole(updated);
       setEditingRole(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to save");
     } finally {
       setIsSaving(false);
     }
-  }, [editingRole, editRate, editActive]);
+  }, [editingRole, editRate, editActive, editEffectiveDate, replaceRole]);
 
   const activeCount = roles.filter(r => r.isActive).length;
 
@@ -99,6 +134,7 @@ export function RolesView({ roles: initialRoles }: RolesViewProps) {
           <CardTitle>Rates ({activeCount} active)</CardTitle>
           <CardDescription>
             Edit the MSRP rate and active status for each role. Only active roles can be assigned to consultants.
+            Rate changes take effect from a date, so hours already worked keep the rate they were worked at.
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -110,7 +146,7 @@ export function RolesView({ roles: initialRoles }: RolesViewProps) {
                   <TableHead>Role</TableHead>
                   <TableHead className="text-right">MSRP Rate</TableHead>
                   <TableHead className="text-center">Status</TableHead>
-                  <TableHead className="w-[50px]"></TableHead>
+                  <TableHead className="w-[90px]"></TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -124,9 +160,12 @@ export function RolesView({ roles: initialRoles }: RolesViewProps) {
                         </TableCell>
                         <TableCell>{role.name}</TableCell>
                         <TableCell className="text-right font-mono">
-                          {role.msrpRate > 0
-                            ? `$${role.msrpRate.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
-                            : "-"}
+                          {role.msrpRate > 0 ? formatRate(role.msrpRate) : "-"}
+                          {role.rateChanges.filter(isScheduled).slice(0, 1).map((next) => (
+                            <p key={next.id} className="text-xs text-muted-foreground">
+                              {formatRate(next.rate)} from {formatEffectiveDate(next.effectiveDate)}
+                            </p>
+                          ))}
                         </TableCell>
                         <TableCell className="text-center">
                           <Badge
@@ -141,9 +180,14 @@ export function RolesView({ roles: initialRoles }: RolesViewProps) {
                           </Badge>
                         </TableCell>
                         <TableCell>
-                          <Button variant="ghost" size="icon" onClick={() => openEdit(role)}>
-                            <Pencil className="h-4 w-4" />
-                          </Button>
+                          <div className="flex justify-end">
+                            <Button variant="ghost" size="icon" onClick={() => setHistoryRole(role)}>
+                              <History className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="icon" onClick={() => openEdit(role)}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                          </div>
                         </TableCell>
                       </TableRow>
                     ))
@@ -183,6 +227,20 @@ export function RolesView({ roles: initialRoles }: RolesViewProps) {
               />
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="rate-effective-date">Effective From</Label>
+              <Input
+                id="rate-effective-date"
+                type="date"
+                value={editEffectiveDate}
+                onChange={(e) => setEditEffectiveDate(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Hours from this date on are valued at the new rate; pick a future date to schedule an increase.
+                Clear it to correct the starting rate for all history.
+              </p>
+            </div>
+
             <div className="flex items-center justify-between">
               <Label htmlFor="role-active">Active</Label>
               <Switch
@@ -209,6 +267,75 @@ export function RolesView({ roles: initialRoles }: RolesViewProps) {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <Dialog open={!!historyRole} onOpenChange={(open) => !open && setHistoryRole(null)}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Rate History</DialogTitle>
+            <DialogDescription>
+              {historyRole && (
+                <>
+                  <span className="text-xs text-muted-foreground">{historyRole.category}</span>
+                  <br />
+                  <span className="font-medium text-foreground">{historyRole.name}</span>
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+
+          {historyRole && (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Effective From</TableHead>
+                    <TableHead className="text-right">MSRP Rate</TableHead>
+                    <TableHead className="w-[50px]"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  <TableRow>
+                    <TableCell className="text-muted-foreground">Starting rate</TableCell>
+                    <TableCell className="text-right font-mono">{formatRate(historyRole.startingRate)}</TableCell>
+                    <TableCell />
+                  </TableRow>
+                  {historyRole.rateChanges.map((change) => (
+                    <TableRow key={change.id}>
+                      <TableCell>
+                        {formatEffectiveDate(change.effectiveDate)}
+                        {isScheduled(change) && (
+                          <Badge variant="secondary" className="ml-2 bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-200">
+                            Scheduled
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{formatRate(change.rate)}</TableCell>
+                      <TableCell>
+                        {isScheduled(change) && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-destructive hover:text-destructive"
+                            onClick={() => handleCancelChange(change)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setHistoryRole(null)}>
+              Close
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </>
   );
 }
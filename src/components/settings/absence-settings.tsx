@@ -0,0 +1,64 @@
+"use client";
+
+import { useState } from "react";
+import { upsertSystemSetting } from "@/app/actions/system-settings";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+
+interface AbsenceSettingsProps {
+  settings: Record<string, string>;
+}
+
+export function AbsenceSettings({ settings }: AbsenceSettingsProps) {
+  const [threshold, setThreshold] = useState(settings["ABSENCE_OVERLAP_THRESHOLD"] ?? "30");
+  const [saving, setSaving] = useState(false);
+
+  async function handleSave() {
+    const value = Number(threshold);
+    if (!Number.isFinite(value) || value <= 0 || value > 100) {
+      toast.error("Threshold must be between 1 and 100");
+      return;
+    }
+    setSaving(true);
+    try {
+      await upsertSystemSetting("ABSENCE_OVERLAP_THRESHOLD", String(value));
+      toast.success("Settings saved");
+    } catch {
+      toast.error("Failed to save settings");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Team Calendar</CardTitle>
+        <CardDescription>
+          Days on the team absence calendar are highlighted when more than this share of the
+          filtered team or project is out.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="overlapThreshold">Overlap Threshold (%)</Label>
+          <Input
+            id="overlapThreshold"
+            type="number"
+            min={1}
+            max={100}
+            value={threshold}
+            onChange={(e) => setThreshold(e.target.value)}
+            className="w-48"
+          />
+        </div>
+        <Button onClick={handleSave} disabled={saving}>
+          {saving ? "Saving..." : "Save Settings"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,293 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import { toast } from "sonner";
+import { ApprovalStepApprover, GroupType } from "@prisma/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ArrowDown, ArrowUp, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { GROUP_LABELS } from "@/components/consultants/consultant-form";
+import { APPROVER_LABELS } from "@/components/pto/pto-list";
+import {
+  createApprovalLevel,
+  deleteApprovalLevel,
+  getApprovalChainSettings,
+  moveApprovalLevel,
+  setGroupLead,
+  updateApprovalLevel,
+  type ApprovalChainSettings as ApprovalChainSettingsData,
+  type ApprovalLevelEntry,
+  type ApprovalLevelFormData,
+} from "@/app/actions/pto-approvals";
+
+const NO_LEAD = "__none__";
+
+const EMPTY_FORM: ApprovalLevelFormData = {
+  approver: ApprovalStepApprover.DIRECT_MANAGER,
+  minDays: 0,
+};
+
+export function ApprovalChainSettings({ settings: initialSettings }: { settings: ApprovalChainSettingsData }) {
+  const [levels, setLevels] = useState(initialSettings.levels);
+  const [groupLeads, setGroupLeads] = useState(initialSettings.groupLeads);
+  const [editing, setEditing] = useState<ApprovalLevelEntry | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<ApprovalLevelFormData>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    setLevels((await getApprovalChainSettings()).levels);
+  }, []);
+
+  const openDialog = useCallback((level: ApprovalLevelEntry | null) => {
+    setEditing(level);
+    setForm(level ? { approver: level.approver, minDays: level.minDays } : EMPTY_FORM);
+    setError(null);
+    setDialogOpen(true);
+  }, []);
+
+  const handleSave = useCallback(async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (editing) {
+        await updateApprovalLevel(editing.id, form);
+      } else {
+        await createApprovalLevel(form);
+      }
+      await reload();
+      setDialogOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save approval level");
+    } finally {
+      setIsSaving(false);
+    }
+  }, [editing, form, reload]);
+
+  const handleDelete = useCallback(async (level: ApprovalLevelEntry) => {
+    try {
+      await deleteApprovalLevel(level.id);
+      await reload();
+      toast.success(`Removed level ${level.level}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to delete approval level");
+    }
+  }, [reload]);
+
+  const handleMove = useCallback(async (level: ApprovalLevelEntry, direction: -1 | 1) => {
+    try {
+      await moveApprovalLevel(level.id, direction);
+      await reload();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to reorder approval levels");
+    }
+  }, [reload]);
+
+  const handleGroupLeadChange = useCallback(async (group: GroupType, value: string) => {
+    const consultantId = value === NO_LEAD ? null : value;
+    const previous = groupLeads[group];
+    setGroupLeads(prev => ({ ...prev, [group]: consultantId ?? undefined }));
+    try {
+      await setGroupLead(group, consultantId);
+    } catch (err) {
+      setGroupLeads(prev => ({ ...prev, [group]: previous }));
+      toast.error(err instanceof Error ? err.message : "Failed to update group lead");
+    }
+  }, [groupLeads]);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>PTO Approval Chain</CardTitle>
+          <CardDescription>
+            Requests are approved level by level. Without any levels that apply, the
+            requester&apos;s manager approves, with admins covering anyone who has no manager.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => openDialog(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Level
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {levels.length === 0 ? (
+          <p className="py-4 text-center text-sm text-muted-foreground">
+            No levels yet. Every request goes to the requester&apos;s manager.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[1%]">Level</TableHead>
+                <TableHead>Approver</TableHead>
+                <TableHead>Applies To</TableHead>
+                <TableHead className="w-[1%]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {levels.map((level, index) => (
+                <TableRow key={level.id}>
+                  <TableCell className="font-medium">{level.level}</TableCell>
+                  <TableCell className="text-sm">{APPROVER_LABELS[level.approver]}</TableCell>
+                  <TableCell className="text-sm">
+                    {level.minDays === 0
+                      ? "All requests"
+                      : `Longer than ${level.minDays} weekday${level.minDays === 1 ? "" : "s"}`}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        disabled={index === 0}
+                        onClick={() => handleMove(level, -1)}
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        disabled={index === levels.length - 1}
+                        onClick={() => handleMove(level, 1)}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openDialog(level)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                        onClick={() => handleDelete(level)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="space-y-3">
+          <div>
+            <p className="text-sm font-medium">Group Leads</p>
+            <p className="text-sm text-muted-foreground">
+              Approve Group lead steps for members of their group. A consultant in several
+              groups goes to the first group with a lead.
+            </p>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            {Object.values(GroupType).map((group) => (
+              <div key={group} className="space-y-1">
+                <Label className="text-xs text-muted-foreground">{GROUP_LABELS[group]}</Label>
+                <Select
+                  value={groupLeads[group] ?? NO_LEAD}
+                  onValueChange={(v) => handleGroupLeadChange(group, v)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_LEAD}>No lead</SelectItem>
+                    {initialSettings.consultants.map((c) => (
+                      <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>{editing ? `Edit Level ${editing.level}` : "New Approval Level"}</DialogTitle>
+            <DialogDescription>
+              New levels are added after the existing ones.
+            </DialogDescription>
+          </DialogHeader>
+
+          {error && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 dark:bg-red-900/20 dark:text-red-400 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Approver</Label>
+              <Select
+                value={form.approver}
+                onValueChange={(v) => setForm({ ...form, approver: v as ApprovalStepApprover })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(ApprovalStepApprover).map((approver) => (
+                    <SelectItem key={approver} value={approver}>{APPROVER_LABELS[approver]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="approval-level-min-days">Only for requests longer than (weekdays)</Label>
+              <Input
+                id="approval-level-min-days"
+                type="number"
+                min={0}
+                value={form.minDays}
+                onChange={(e) => setForm({ ...form, minDays: Math.max(0, parseInt(e.target.value) || 0) })}
+              />
+              <p className="text-xs text-muted-foreground">Use 0 to apply this level to every request.</p>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {editing ? "Save" : "Create"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
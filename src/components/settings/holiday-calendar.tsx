@@ -0,0 +1,163 @@
+"use client";
+
+import { useState, useCallback, useMemo } from "react";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { HolidayCalendar } from "@prisma/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ChevronLeft, ChevronRight, Loader2, Plus, Trash2 } from "lucide-react";
+import {
+  createHoliday,
+  deleteHoliday,
+  getHolidays,
+  type HolidayEntry,
+} from "@/app/actions/holidays";
+
+export const HOLIDAY_CALENDAR_LABELS: Record<HolidayCalendar, string> = {
+  [HolidayCalendar.US]: "United States",
+  [HolidayCalendar.CA]: "Canada",
+};
+
+export function HolidayCalendarSettings({ holidays: initialHolidays }: { holidays: HolidayEntry[] }) {
+  const [holidays, setHolidays] = useState(initialHolidays);
+  const [calendar, setCalendar] = useState<HolidayCalendar>(HolidayCalendar.US);
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [date, setDate] = useState("");
+  const [name, setName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const visible = useMemo(
+    () => holidays.filter(h => h.calendar === calendar && h.date.startsWith(String(year))),
+    [holidays, calendar, year]
+  );
+
+  const handleAdd = useCallback(async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await createHoliday({ calendar, date, name });
+      setHolidays(await getHolidays());
+      setDate("");
+      setName("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add holiday");
+    } finally {
+      setIsSaving(false);
+    }
+  }, [calendar, date, name]);
+
+  const handleDelete = useCallback(async (holiday: HolidayEntry) => {
+    try {
+      await deleteHoliday(holiday.id);
+      setHolidays(prev => prev.filter(h => h.id !== holiday.id));
+      toast.success(`Removed ${holiday.name}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to remove holiday");
+    }
+  }, []);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Holiday Calendars</CardTitle>
+        <CardDescription>
+          Weekday holidays are not charged as PTO and reduce the weekly capacity of consultants
+          on that calendar by a fifth of their standard hours.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <Tabs value={calendar} onValueChange={(v) => setCalendar(v as HolidayCalendar)}>
+            <TabsList>
+              {Object.values(HolidayCalendar).map((c) => (
+                <TabsTrigger key={c} value={c}>{HOLIDAY_CALENDAR_LABELS[c]}</TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setYear(y => y - 1)}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="w-12 text-center text-sm font-medium">{year}</span>
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setYear(y => y + 1)}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="p-3 text-sm text-red-600 bg-red-50 dark:bg-red-900/20 dark:text-red-400 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {visible.length === 0 ? (
+          <p className="py-4 text-center text-sm text-muted-foreground">
+            No {HOLIDAY_CALENDAR_LABELS[calendar]} holidays in {year}.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Holiday</TableHead>
+                <TableHead className="w-[1%]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visible.map((holiday) => (
+                <TableRow key={holiday.id}>
+                  <TableCell className="text-sm">{format(parseISO(holiday.date), "EEE, MMM d")}</TableCell>
+                  <TableCell className="font-medium">{holiday.name}</TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive hover:text-destructive"
+                      onClick={() => handleDelete(holiday)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="grid grid-cols-[10rem_1fr_auto] items-end gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="holiday-date">Date</Label>
+            <Input id="holiday-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="holiday-name">Name</Label>
+            <Input
+              id="holiday-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Thanksgiving"
+            />
+          </div>
+          <Button onClick={handleAdd} disabled={isSaving || !date || !name.trim()}>
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+            Add
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,315 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import { toast } from "sonner";
+import type { ImportProfile } from "@prisma/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import {
+  createImportProfile,
+  deleteImportProfile,
+  getImportProfiles,
+  updateImportProfile,
+  type ImportProfileFormData,
+} from "@/app/actions/import-profiles";
+
+const EMPTY_FORM: ImportProfileFormData = {
+  name: "",
+  projectHeader: "",
+  employeeHeader: "",
+  hoursHeader: "",
+  dateHeader: "",
+  projectCodeDelimiter: "",
+  dateFormat: "",
+  isDefault: false,
+};
+
+function toForm(profile: ImportProfile): ImportProfileFormData {
+  return {
+    name: profile.name,
+    projectHeader: profile.projectHeader,
+    employeeHeader: profile.employeeHeader,
+    hoursHeader: profile.hoursHeader,
+    dateHeader: profile.dateHeader ?? "",
+    projectCodeDelimiter: profile.projectCodeDelimiter ?? "",
+    dateFormat: profile.dateFormat ?? "",
+    isDefault: profile.isDefault,
+  };
+}
+
+interface ImportProfilesProps {
+  profiles: ImportProfile[];
+}
+
+export function ImportProfiles({ profiles: initialProfiles }: ImportProfilesProps) {
+  const [profiles, setProfiles] = useState(initialProfiles);
+  const [editing, setEditing] = useState<ImportProfile | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<ImportProfileFormData>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<ImportProfile | null>(null);
+
+  const openDialog = (profile: ImportProfile | null) => {
+    setEditing(profile);
+    setForm(profile ? toForm(profile) : EMPTY_FORM);
+    setError(null);
+    setDialogOpen(true);
+  };
+
+  const setField = (field: keyof ImportProfileFormData, value: string) =>
+    setForm((prev) => ({ ...prev, [field]: value }));
+
+  const handleSave = useCallback(async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (editing) {
+        await updateImportProfile(editing.id, form);
+      } else {
+        await createImportProfile(form);
+      }
+      setProfiles(await getImportProfiles());
+      setDialogOpen(false);
+      toast.success(editing ? "Import profile updated" : "Import profile created");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save import profile");
+    } finally {
+      setIsSaving(false);
+    }
+  }, [editing, form]);
+
+  const handleDelete = useCallback(async () => {
+    if (!deleting) return;
+    try {
+      await deleteImportProfile(deleting.id);
+      setProfiles((prev) => prev.filter((p) => p.id !== deleting.id));
+      toast.success("Import profile deleted");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to delete import profile");
+    } finally {
+      setDeleting(null);
+    }
+  }, [deleting]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>Import Profiles</CardTitle>
+            <CardDescription>
+              Column layouts for actuals uploads. Without a default profile, uploads use the
+              NetSuite PM Report layout (Customer/Job, Employee, Time, Date).
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => openDialog(null)}>
+            <Plus className="mr-1 h-4 w-4" />
+            Add
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {profiles.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No import profiles yet.
+          </p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Columns</TableHead>
+                  <TableHead className="w-[90px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {profiles.map((p) => (
+                  <TableRow key={p.id}>
+                    <TableCell className="font-medium">
+                      {p.name}
+                      {p.isDefault && (
+                        <Badge variant="secondary" className="ml-2">Default</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {[p.projectHeader, p.employeeHeader, p.hoursHeader, p.dateHeader]
+                        .filter(Boolean)
+                        .join(", ")}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end">
+                        <Button variant="ghost" size="icon" onClick={() => openDialog(p)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="text-destructive hover:text-destructive"
+                          onClick={() => setDeleting(p)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[520px]">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Import Profile" : "New Import Profile"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="profile-name">Name</Label>
+              <Input
+                id="profile-name"
+                value={form.name}
+                onChange={(e) => setField("name", e.target.value)}
+                placeholder="Harvest CSV"
+              />
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="profile-project">Project column</Label>
+                <Input
+                  id="profile-project"
+                  value={form.projectHeader}
+                  onChange={(e) => setField("projectHeader", e.target.value)}
+                  placeholder="Customer/Job"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profile-employee">Employee column</Label>
+                <Input
+                  id="profile-employee"
+                  value={form.employeeHeader}
+                  onChange={(e) => setField("employeeHeader", e.target.value)}
+                  placeholder="Employee"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profile-hours">Hours column</Label>
+                <Input
+                  id="profile-hours"
+                  value={form.hoursHeader}
+                  onChange={(e) => setField("hoursHeader", e.target.value)}
+                  placeholder="Time"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profile-date">Date column (optional)</Label>
+                <Input
+                  id="profile-date"
+                  value={form.dateHeader ?? ""}
+                  onChange={(e) => setField("dateHeader", e.target.value)}
+                  placeholder="Date"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profile-delimiter">Project code delimiter (optional)</Label>
+                <Input
+                  id="profile-delimiter"
+                  value={form.projectCodeDelimiter ?? ""}
+                  onChange={(e) => setField("projectCodeDelimiter", e.target.value)}
+                  placeholder='" : "'
+                />
+                <p className="text-xs text-muted-foreground">
+                  The code is the text before this delimiter. Leave blank to use the whole cell.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profile-date-format">Date format (optional)</Label>
+                <Input
+                  id="profile-date-format"
+                  value={form.dateFormat ?? ""}
+                  onChange={(e) => setField("dateFormat", e.target.value)}
+                  placeholder="MM/dd/yyyy"
+                />
+                <p className="text-xs text-muted-foreground">
+                  For text dates in CSV files. Leave blank to auto-detect.
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="profile-default"
+                checked={form.isDefault}
+                onCheckedChange={(checked) => setForm((prev) => ({ ...prev, isDefault: checked }))}
+              />
+              <Label htmlFor="profile-default">Use by default for new uploads</Label>
+            </div>
+
+            {error && (
+              <div className="p-3 text-sm text-red-600 bg-red-50 dark:bg-red-900/20 dark:text-red-400 rounded-md">
+                {error}
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete import profile?</AlertDialogTitle>
+            <AlertDialogDescription>
+              &quot;{deleting?.name}&quot; will no longer be available for uploads. Past imports are
+              not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
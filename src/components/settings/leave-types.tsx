@@ -0,0 +1,269 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import { toast } from "sonner";
+import { LeaveApprovalRule } from "@prisma/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import {
+  createLeaveType,
+  deleteLeaveType,
+  getLeaveTypes,
+  updateLeaveType,
+  type LeaveTypeEntry,
+  type LeaveTypeFormData,
+} from "@/app/actions/leave-types";
+
+const APPROVAL_RULE_LABELS: Record<LeaveApprovalRule, string> = {
+  [LeaveApprovalRule.MANAGER]: "Manager approval",
+  [LeaveApprovalRule.AUTO]: "Auto-approve",
+};
+
+const EMPTY_FORM: LeaveTypeFormData = {
+  name: "",
+  timecode: "",
+  approvalRule: LeaveApprovalRule.MANAGER,
+  deductsFromBalance: true,
+  countsAgainstUtilization: false,
+  active: true,
+};
+
+export function LeaveTypeSettings({ leaveTypes: initialLeaveTypes }: { leaveTypes: LeaveTypeEntry[] }) {
+  const [leaveTypes, setLeaveTypes] = useState(initialLeaveTypes);
+  const [editing, setEditing] = useState<LeaveTypeEntry | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<LeaveTypeFormData>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const openDialog = useCallback((leaveType: LeaveTypeEntry | null) => {
+    setEditing(leaveType);
+    setForm(leaveType ?? EMPTY_FORM);
+    setError(null);
+    setDialogOpen(true);
+  }, []);
+
+  const handleSave = useCallback(async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const data: LeaveTypeFormData = {
+        name: form.name,
+        timecode: form.timecode,
+        approvalRule: form.approvalRule,
+        deductsFromBalance: form.deductsFromBalance,
+        countsAgainstUtilization: form.countsAgainstUtilization,
+        active: form.active,
+      };
+      if (editing) {
+        await updateLeaveType(editing.id, data);
+      } else {
+        await createLeaveType(data);
+      }
+      setLeaveTypes(await getLeaveTypes());
+      setDialogOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save leave type");
+    } finally {
+      setIsSaving(false);
+    }
+  }, [editing, form]);
+
+  const handleDelete = useCallback(async (leaveType: LeaveTypeEntry) => {
+    try {
+      await deleteLeaveType(leaveType.id);
+      setLeaveTypes(prev => prev.filter(t => t.id !== leaveType.id));
+      toast.success(`Deleted ${leaveType.name}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to delete leave type");
+    }
+  }, []);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Leave Types</CardTitle>
+          <CardDescription>
+            Approved time off is booked to each type&apos;s timecode. Requests without a type
+            use the general PTO timecode with manager approval.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => openDialog(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Type
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {leaveTypes.length === 0 ? (
+          <p className="py-4 text-center text-sm text-muted-foreground">No leave types yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Type</TableHead>
+                <TableHead>Approval</TableHead>
+                <TableHead>Balance</TableHead>
+                <TableHead>Utilization</TableHead>
+                <TableHead className="w-[1%]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {leaveTypes.map((leaveType) => (
+                <TableRow key={leaveType.id}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{leaveType.name}</span>
+                      {!leaveType.active && <Badge variant="secondary">Inactive</Badge>}
+                    </div>
+                    <p className="font-mono text-xs text-muted-foreground">{leaveType.timecode}</p>
+                  </TableCell>
+                  <TableCell className="text-sm">{APPROVAL_RULE_LABELS[leaveType.approvalRule]}</TableCell>
+                  <TableCell className="text-sm">
+                    {leaveType.deductsFromBalance ? "Deducts" : "Not tracked"}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {leaveType.countsAgainstUtilization ? "Counts against" : "Excluded"}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex">
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openDialog(leaveType)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                        onClick={() => handleDelete(leaveType)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Leave Type" : "New Leave Type"}</DialogTitle>
+            <DialogDescription>
+              Using an existing project&apos;s timecode books this type&apos;s hours to that project.
+            </DialogDescription>
+          </DialogHeader>
+
+          {error && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 dark:bg-red-900/20 dark:text-red-400 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="leave-type-name">Name</Label>
+                <Input
+                  id="leave-type-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g. Sick"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="leave-type-timecode">Timecode</Label>
+                <Input
+                  id="leave-type-timecode"
+                  value={form.timecode}
+                  onChange={(e) => setForm({ ...form, timecode: e.target.value })}
+                  placeholder="e.g. INT-SCK-001"
+                  disabled={!!editing}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Approval</Label>
+              <Select
+                value={form.approvalRule}
+                onValueChange={(v) => setForm({ ...form, approvalRule: v as LeaveApprovalRule })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(LeaveApprovalRule).map((rule) => (
+                    <SelectItem key={rule} value={rule}>{APPROVAL_RULE_LABELS[rule]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-3">
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={form.deductsFromBalance}
+                  onCheckedChange={(checked) => setForm({ ...form, deductsFromBalance: checked === true })}
+                />
+                Deducts from the accrued PTO balance
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={form.countsAgainstUtilization}
+                  onCheckedChange={(checked) => setForm({ ...form, countsAgainstUtilization: checked === true })}
+                />
+                Counts against utilization targets
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={form.active}
+                  onCheckedChange={(checked) => setForm({ ...form, active: checked === true })}
+                />
+                Available for new requests
+              </label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving || !form.name.trim() || !form.timecode.trim()}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {editing ? "Save" : "Create"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,287 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import {
+  createPTOPolicy,
+  deletePTOPolicy,
+  getPTOPolicies,
+  updatePTOPolicy,
+  type PTOPolicyEntry,
+  type PTOPolicyFormData,
+} from "@/app/actions/pto-policies";
+
+const PAY_PERIOD_LABELS: Record<PTOPolicyFormData["payPeriodsPerYear"], string> = {
+  12: "Monthly",
+  24: "Semi-monthly",
+  26: "Biweekly",
+  52: "Weekly",
+};
+
+type FormState = {
+  name: string;
+  hoursPerPeriod: string;
+  payPeriodsPerYear: PTOPolicyFormData["payPeriodsPerYear"];
+  annualCap: string;
+  carryoverLimit: string;
+};
+
+const EMPTY_FORM: FormState = {
+  name: "",
+  hoursPerPeriod: "",
+  payPeriodsPerYear: 26,
+  annualCap: "",
+  carryoverLimit: "",
+};
+
+function toFormState(policy: PTOPolicyEntry): FormState {
+  return {
+    name: policy.name,
+    hoursPerPeriod: String(policy.hoursPerPeriod),
+    payPeriodsPerYear: policy.payPeriodsPerYear,
+    annualCap: policy.annualCap === null ? "" : String(policy.annualCap),
+    carryoverLimit: policy.carryoverLimit === null ? "" : String(policy.carryoverLimit),
+  };
+}
+
+function parseOptional(value: string): number | null {
+  return value.trim() === "" ? null : parseFloat(value);
+}
+
+export function PTOPolicySettings({ policies: initialPolicies }: { policies: PTOPolicyEntry[] }) {
+  const [policies, setPolicies] = useState(initialPolicies);
+  const [editing, setEditing] = useState<PTOPolicyEntry | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<FormState>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const openDialog = useCallback((policy: PTOPolicyEntry | null) => {
+    setEditing(policy);
+    setForm(policy ? toFormState(policy) : EMPTY_FORM);
+    setError(null);
+    setDialogOpen(true);
+  }, []);
+
+  const handleSave = useCallback(async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const data: PTOPolicyFormData = {
+        name: form.name.trim(),
+        hoursPerPeriod: parseFloat(form.hoursPerPeriod),
+        payPeriodsPerYear: form.payPeriodsPerYear,
+        annualCap: parseOptional(form.annualCap),
+        carryoverLimit: parseOptional(form.carryoverLimit),
+      };
+      if (editing) {
+        await updatePTOPolicy(editing.id, data);
+      } else {
+        await createPTOPolicy(data);
+      }
+      setPolicies(await getPTOPolicies());
+      setDialogOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save policy");
+    } finally {
+      setIsSaving(false);
+    }
+  }, [editing, form]);
+
+  const handleDelete = useCallback(async (policy: PTOPolicyEntry) => {
+    try {
+      await deletePTOPolicy(policy.id);
+      setPolicies(prev => prev.filter(p => p.id !== policy.id));
+      toast.success(`Deleted ${policy.name}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to delete policy");
+    }
+  }, []);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>PTO Accrual Policies</CardTitle>
+          <CardDescription>
+            Consultants on a policy accrue PTO each pay period. Approved requests are debited
+            from their balance and cancellations credit it back.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => openDialog(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Policy
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {policies.length === 0 ? (
+          <p className="py-4 text-center text-sm text-muted-foreground">No accrual policies yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Policy</TableHead>
+                <TableHead className="text-right">Accrual</TableHead>
+                <TableHead className="text-right">Annual Cap</TableHead>
+                <TableHead className="text-right">Carryover</TableHead>
+                <TableHead className="text-right">Consultants</TableHead>
+                <TableHead className="w-[1%]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {policies.map((policy) => (
+                <TableRow key={policy.id}>
+                  <TableCell className="font-medium">{policy.name}</TableCell>
+                  <TableCell className="text-right text-sm">
+                    {policy.hoursPerPeriod}h {PAY_PERIOD_LABELS[policy.payPeriodsPerYear].toLowerCase()}
+                  </TableCell>
+                  <TableCell className="text-right text-sm">
+                    {policy.annualCap === null ? "None" : `${policy.annualCap}h`}
+                  </TableCell>
+                  <TableCell className="text-right text-sm">
+                    {policy.carryoverLimit === null ? "Unlimited" : `${policy.carryoverLimit}h`}
+                  </TableCell>
+                  <TableCell className="text-right text-sm">{policy.consultantCount}</TableCell>
+                  <TableCell>
+                    <div className="flex">
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openDialog(policy)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                        onClick={() => handleDelete(policy)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Policy" : "New Policy"}</DialogTitle>
+            <DialogDescription>
+              Leave the cap or carryover limit blank for no limit.
+            </DialogDescription>
+          </DialogHeader>
+
+          {error && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 dark:bg-red-900/20 dark:text-red-400 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="policy-name">Name</Label>
+              <Input
+                id="policy-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. Standard (15 days)"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="policy-hours">Hours per Pay Period</Label>
+                <Input
+                  id="policy-hours"
+                  type="number"
+                  step="0.01"
+                  value={form.hoursPerPeriod}
+                  onChange={(e) => setForm({ ...form, hoursPerPeriod: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Pay Period</Label>
+                <Select
+                  value={String(form.payPeriodsPerYear)}
+                  onValueChange={(v) =>
+                    setForm({ ...form, payPeriodsPerYear: Number(v) as PTOPolicyFormData["payPeriodsPerYear"] })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(PAY_PERIOD_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="policy-cap">Annual Cap (hours)</Label>
+                <Input
+                  id="policy-cap"
+                  type="number"
+                  value={form.annualCap}
+                  onChange={(e) => setForm({ ...form, annualCap: e.target.value })}
+                  placeholder="No cap"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="policy-carryover">Carryover Limit (hours)</Label>
+                <Input
+                  id="policy-carryover"
+                  type="number"
+                  value={form.carryoverLimit}
+                  onChange={(e) => setForm({ ...form, carryoverLimit: e.target.value })}
+                  placeholder="Unlimited"
+                />
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving || !form.name.trim() || !form.hoursPerPeriod}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {editing ? "Save" : "Create"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
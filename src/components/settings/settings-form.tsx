@@ -35,8 +35,9 @@ export function SettingsForm({ settings }: SettingsFormProps) {
       <CardHeader>
         <CardTitle>Billing Periods</CardTitle>
         <CardDescription>
-          Set the anchor date used to compute all bi-weekly billing periods. All invoice periods
-          are calculated as 14-day windows starting from this date.
+          Set the anchor date used to compute weekly and bi-weekly billing periods. Those invoice
+          periods are calculated as 7- or 14-day windows starting from this date; semi-monthly and
+          monthly projects follow the calendar.
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -0,0 +1,35 @@
+"use client";
+
+import { format, parseISO } from "date-fns";
+import { cn } from "@/lib/utils";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import type { WeekAvailability } from "@/app/actions/staffing";
+
+function stripColor(week: WeekAvailability) {
+  if (week.fits) return "bg-green-500 dark:bg-green-600";
+  if (week.available > 0) return "bg-yellow-400 dark:bg-yellow-600";
+  return "bg-red-400 dark:bg-red-700";
+}
+
+export function AvailabilityStrip({ weeks }: { weeks: WeekAvailability[] }) {
+  return (
+    <div className="flex gap-0.5">
+      {weeks.map((week) => (
+        <Tooltip key={week.weekStart}>
+          <TooltipTrigger asChild>
+            <div className={cn("h-5 w-3 rounded-sm", stripColor(week))} />
+          </TooltipTrigger>
+          <TooltipContent>
+            <div className="space-y-0.5 text-xs">
+              <p className="font-medium">Week of {format(parseISO(week.weekStart), "MMM d, yyyy")}</p>
+              <p>{week.available} of {week.capacity} hrs free</p>
+              <p>Booked: {week.booked} hrs</p>
+              {week.soft > 0 && <p>Soft bookings: {week.soft} hrs</p>}
+              {week.pto > 0 && <p>PTO: {week.pto} hrs</p>}
+            </div>
+          </TooltipContent>
+        </Tooltip>
+      ))}
+    </div>
+  );
+}
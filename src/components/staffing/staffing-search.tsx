@@ -0,0 +1,386 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import { addWeeks, format } from "date-fns";
+import { toast } from "sonner";
+import { GroupType, RoleLevel } from "@prisma/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, Search, UserPlus } from "lucide-react";
+import {
+  assignToProject,
+  searchAvailability,
+  type StaffingCandidate,
+  type StaffingSearchCriteria,
+  type StaffingSearchResult,
+} from "@/app/actions/staffing";
+import { GROUP_LABELS } from "@/components/consultants/consultant-form";
+import { AvailabilityStrip } from "./availability-strip";
+
+const ANY = "all";
+
+interface StaffingSearchProps {
+  roleDefinitions: Array<{ id: string; name: string }>;
+  projects: Array<{ id: string; client: string; projectName: string; timecode: string | null }>;
+}
+
+export function StaffingSearch({ roleDefinitions, projects }: StaffingSearchProps) {
+  const [startDate, setStartDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [endDate, setEndDate] = useState(format(addWeeks(new Date(), 12), "yyyy-MM-dd"));
+  const [hoursPerWeek, setHoursPerWeek] = useState("20");
+  const [roleDefinitionId, setRoleDefinitionId] = useState(ANY);
+  const [group, setGroup] = useState(ANY);
+  const [level, setLevel] = useState(ANY);
+  const [overtimeTolerance, setOvertimeTolerance] = useState("0");
+  const [softBookings, setSoftBookings] = useState<StaffingSearchCriteria["softBookings"]>("weighted");
+
+  const [criteria, setCriteria] = useState<StaffingSearchCriteria | null>(null);
+  const [result, setResult] = useState<StaffingSearchResult | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [assigning, setAssigning] = useState<StaffingCandidate | null>(null);
+  const [projectId, setProjectId] = useState("");
+  const [softAssign, setSoftAssign] = useState(false);
+  const [isAssigning, setIsAssigning] = useState(false);
+
+  const runSearch = useCallback(async (search: StaffingSearchCriteria) => {
+    setIsSearching(true);
+    setError(null);
+    try {
+      setResult(await searchAvailability(search));
+      setCriteria(search);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Search failed");
+    } finally {
+      setIsSearching(false);
+    }
+  }, []);
+
+  const handleSearch = useCallback(() => {
+    runSearch({
+      startDate,
+      endDate,
+      hoursPerWeek: Number(hoursPerWeek),
+      roleDefinitionId: roleDefinitionId === ANY ? null : roleDefinitionId,
+      group: group === ANY ? null : (group as GroupType),
+      level: level === ANY ? null : (level as RoleLevel),
+      overtimeTolerance: Number(overtimeTolerance) || 0,
+      softBookings,
+    });
+  }, [runSearch, startDate, endDate, hoursPerWeek, roleDefinitionId, group, level, overtimeTolerance, softBookings]);
+
+  const handleAssign = useCallback(async () => {
+    if (!assigning || !criteria || !projectId) return;
+    setIsAssigning(true);
+    try {
+      const res = await assignToProject({
+        consultantId: assigning.consultantId,
+        projectId,
+        startDate: criteria.startDate,
+        endDate: criteria.endDate,
+        hoursPerWeek: criteria.hoursPerWeek,
+        roleDefinitionId: criteria.roleDefinitionId,
+        soft: softAssign,
+      });
+      const project = projects.find(p => p.id === projectId);
+      toast.success(
+        `${softAssign ? "Soft-booked" : "Booked"} ${assigning.name} on ${project?.projectName ?? "project"} for ${res.weeks} week${res.weeks !== 1 ? "s" : ""}`
+      );
+      setAssigning(null);
+      setProjectId("");
+      setSoftAssign(false);
+      await runSearch(criteria);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Assignment failed");
+    } finally {
+      setIsAssigning(false);
+    }
+  }, [assigning, criteria, projectId, softAssign, projects, runSearch]);
+
+  const weekCount = result?.weeks.length ?? 0;
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle>Staffing Request</CardTitle>
+          <CardDescription>
+            Availability accounts for projected and actual hours, soft bookings, approved PTO,
+            and each consultant&apos;s overtime preference up to the tolerance below.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <div className="space-y-2">
+              <Label htmlFor="staffing-start">From</Label>
+              <Input
+                id="staffing-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="staffing-end">To</Label>
+              <Input
+                id="staffing-end"
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="staffing-hours">Hours per week</Label>
+              <Input
+                id="staffing-hours"
+                type="number"
+                min={0.5}
+                max={80}
+                step={0.5}
+                value={hoursPerWeek}
+                onChange={(e) => setHoursPerWeek(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="staffing-overtime">Overtime tolerance (hrs/week)</Label>
+              <Input
+                id="staffing-overtime"
+                type="number"
+                min={0}
+                max={40}
+                value={overtimeTolerance}
+                onChange={(e) => setOvertimeTolerance(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Billing Role</Label>
+              <Select value={roleDefinitionId} onValueChange={setRoleDefinitionId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any role</SelectItem>
+                  {roleDefinitions.map((rd) => (
+                    <SelectItem key={rd.id} value={rd.id}>{rd.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Group</Label>
+              <Select value={group} onValueChange={setGroup}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any group</SelectItem>
+                  {Object.values(GroupType).map((g) => (
+                    <SelectItem key={g} value={g}>{GROUP_LABELS[g]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Level</Label>
+              <Select value={level} onValueChange={setLevel}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any level</SelectItem>
+                  {Object.values(RoleLevel).map((l) => (
+                    <SelectItem key={l} value={l}>{l}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Soft Bookings</Label>
+              <Select
+                value={softBookings}
+                onValueChange={(v) => setSoftBookings(v as StaffingSearchCriteria["softBookings"])}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ignore">Ignore</SelectItem>
+                  <SelectItem value="weighted">Weighted by win probability</SelectItem>
+                  <SelectItem value="full">Count in full</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-end">
+              <Button className="w-full" onClick={handleSearch} disabled={isSearching}>
+                {isSearching ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Search className="mr-2 h-4 w-4" />
+                )}
+                Find Availability
+              </Button>
+            </div>
+          </div>
+
+          {error && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 dark:bg-red-900/20 dark:text-red-400 rounded-md">
+              {error}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {result && criteria && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Candidates ({result.candidates.length})</CardTitle>
+            <CardDescription>
+              Ranked by the number of weeks with at least {criteria.hoursPerWeek} free hours,
+              then by average free hours per week.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {result.candidates.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">
+                No consultants match these filters.
+              </p>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Consultant</TableHead>
+                      <TableHead>Weeks Available</TableHead>
+                      <TableHead className="text-right">Avg Free Hrs</TableHead>
+                      <TableHead>Availability</TableHead>
+                      <TableHead className="w-[110px]"></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.candidates.map((c) => (
+                      <TableRow key={c.consultantId}>
+                        <TableCell>
+                          <p className="font-medium">{c.name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {[...c.groups.map(g => GROUP_LABELS[g]), ...c.billingRoles].join(" · ") || "—"}
+                          </p>
+                          {c.overtimeAllowance > 0 && (
+                            <p className="text-xs text-muted-foreground">
+                              Includes {c.overtimeAllowance} hrs/week overtime
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {c.weeksAvailable === weekCount ? (
+                            <Badge
+                              variant="secondary"
+                              className="bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-200"
+                            >
+                              All {weekCount} weeks
+                            </Badge>
+                          ) : (
+                            <span className="text-sm">{c.weeksAvailable} of {weekCount}</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {c.averageAvailable.toFixed(1)}
+                        </TableCell>
+                        <TableCell>
+                          <AvailabilityStrip weeks={c.weeks} />
+                        </TableCell>
+                        <TableCell>
+                          <Button variant="outline" size="sm" onClick={() => setAssigning(c)}>
+                            <UserPlus className="mr-1 h-3.5 w-3.5" />
+                            Assign
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={!!assigning} onOpenChange={(open) => !open && setAssigning(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Assign {assigning?.name}</DialogTitle>
+            <DialogDescription>
+              {criteria && (
+                <>
+                  Books {criteria.hoursPerWeek} hours per week from{" "}
+                  {format(new Date(criteria.startDate + "T12:00:00"), "MMM d, yyyy")} to{" "}
+                  {format(new Date(criteria.endDate + "T12:00:00"), "MMM d, yyyy")}, replacing any
+                  hours of the same kind already on the project for those weeks.
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Project</Label>
+            <Select value={projectId} onValueChange={setProjectId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select project" />
+              </SelectTrigger>
+              <SelectContent>
+                {projects.map((p) => (
+                  <SelectItem key={p.id} value={p.id}>
+                    {p.timecode ? `${p.timecode} — ` : ""}{p.client}: {p.projectName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="staffing-soft"
+              checked={softAssign}
+              onCheckedChange={(checked) => setSoftAssign(checked === true)}
+            />
+            <Label htmlFor="staffing-soft">Soft booking (deal not yet won)</Label>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAssigning(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleAssign} disabled={!projectId || isAssigning}>
+              {isAssigning && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Assign
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
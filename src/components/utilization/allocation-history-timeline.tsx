@@ -0,0 +1,178 @@
+"use client";
+
+import { useState, useEffect, useCallback, useTransition } from "react";
+import { format } from "date-fns";
+import { AllocationChangeSource, AllocationEntryType } from "@prisma/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  getAllocationHistory,
+  revertAllocationChange,
+  type AllocationHistoryEntry,
+} from "@/app/actions/utilization";
+import { Loader2, RotateCcw } from "lucide-react";
+
+const SOURCE_LABELS: Record<AllocationChangeSource, string> = {
+  [AllocationChangeSource.GRID_EDIT]: "Grid edit",
+  [AllocationChangeSource.MASS_LOAD]: "Mass load",
+  [AllocationChangeSource.ACTUALS_UPLOAD]: "Actuals upload",
+  [AllocationChangeSource.PTO_APPROVAL]: "PTO approval",
+  [AllocationChangeSource.PTO_CANCELLATION]: "PTO cancellation",
+  [AllocationChangeSource.MEMBER_SEEDING]: "Member seeding",
+  [AllocationChangeSource.REVERT]: "Revert",
+  [AllocationChangeSource.IMPORT_ROLLBACK]: "Import rollback",
+  [AllocationChangeSource.STAFFING_ASSIGNMENT]: "Staffing assignment",
+  [AllocationChangeSource.SOFT_BOOKING_CONVERSION]: "Soft booking conversion",
+  [AllocationChangeSource.SCENARIO_PROMOTION]: "Scenario promotion",
+};
+
+const ENTRY_TYPE_LABELS: Record<AllocationEntryType, string> = {
+  [AllocationEntryType.ACTUAL]: "Actual",
+  [AllocationEntryType.PROJECTED]: "Projected",
+  [AllocationEntryType.TENTATIVE]: "Soft",
+};
+
+export type RevertResult = Awaited<ReturnType<typeof revertAllocationChange>>;
+
+interface AllocationHistoryTimelineProps {
+  consultantId: string;
+  week: string;
+  onReverted?: (result: RevertResult) => void;
+}
+
+function formatHours(hours: number | null) {
+  return hours === null ? "—" : `${hours}h`;
+}
+
+export function AllocationHistoryTimeline({
+  consultantId,
+  week,
+  onReverted,
+}: AllocationHistoryTimelineProps) {
+  const [entries, setEntries] = useState<AllocationHistoryEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const load = useCallback(() => {
+    startTransition(async () => {
+      try {
+        setEntries(await getAllocationHistory(consultantId, week));
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load history");
+      }
+    });
+  }, [consultantId, week]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleRevert = useCallback((entry: AllocationHistoryEntry) => {
+    setRevertingId(entry.id);
+    setError(null);
+    startTransition(async () => {
+      try {
+        const result = await revertAllocationChange(entry.id);
+        onReverted?.(result);
+        setEntries(await getAllocationHistory(consultantId, week));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to revert");
+      } finally {
+        setRevertingId(null);
+      }
+    });
+  }, [consultantId, week, onReverted]);
+
+  // The newest entry per project/entry type is the cell's current value, so it can't be reverted to
+  const currentIds = new Set<string>();
+  const seen = new Set<string>();
+  for (const entry of entries ?? []) {
+    const key = `${entry.projectId}_${entry.entryType}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      currentIds.add(entry.id);
+    }
+  }
+
+  if (entries === null) {
+    return (
+      <div className="flex items-center justify-center py-8 text-sm text-muted-foreground">
+        {error ?? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Loading history...
+          </>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {error && (
+        <div className="p-3 text-sm text-red-600 bg-red-50 dark:bg-red-900/20 dark:text-red-400 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {entries.length === 0 ? (
+        <p className="py-8 text-center text-sm text-muted-foreground">
+          No changes have been recorded for this week.
+        </p>
+      ) : (
+        <ScrollArea className="max-h-[400px] pr-4">
+          <ol className="relative border-l ml-2 space-y-4">
+            {entries.map((entry) => (
+              <li key={entry.id} className="ml-4">
+                <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border bg-background" />
+                <div className="flex items-start justify-between gap-2">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2 text-sm">
+                      <span className="font-medium">
+                        {entry.timecode ? `${entry.timecode} - ` : ""}{entry.projectName}
+                      </span>
+                      <Badge variant={entry.entryType === AllocationEntryType.ACTUAL ? "default" : "secondary"} className="text-xs">
+                        {ENTRY_TYPE_LABELS[entry.entryType]}
+                      </Badge>
+                    </div>
+                    <div className="text-sm font-mono">
+                      {formatHours(entry.oldHours)} → {formatHours(entry.newHours)}
+                    </div>
+                    {entry.oldNotes !== entry.newNotes && (
+                      <div className="text-xs text-muted-foreground">
+                        Notes: {entry.oldNotes || "—"} → {entry.newNotes || "—"}
+                      </div>
+                    )}
+                    <div className="text-xs text-muted-foreground">
+                      {SOURCE_LABELS[entry.source]} &middot; {entry.changedBy ?? "System"} &middot;{" "}
+                      {format(new Date(entry.createdAt), "MMM d, yyyy h:mm a")}
+                    </div>
+                  </div>
+                  {!currentIds.has(entry.id) && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="shrink-0"
+                      disabled={isPending}
+                      onClick={() => handleRevert(entry)}
+                    >
+                      {revertingId === entry.id ? (
+                        <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />
+                      ) : (
+                        <RotateCcw className="mr-1 h-3.5 w-3.5" />
+                      )}
+                      Revert to this value
+                    </Button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ol>
+        </ScrollArea>
+      )}
+    </div>
+  );
+}
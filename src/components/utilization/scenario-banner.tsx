@@ -0,0 +1,254 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { ScenarioStatus } from "@prisma/client";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ArrowLeft, FlaskConical, GitCompare, Loader2, Upload } from "lucide-react";
+import {
+  getScenarioDiff,
+  promoteScenario,
+  type ScenarioDiffEntry,
+  type ScenarioSummary,
+} from "@/app/actions/scenarios";
+
+function formatHours(hours: number | null) {
+  return hours === null ? "—" : `${hours}h`;
+}
+
+function changeClass(entry: ScenarioDiffEntry) {
+  const live = entry.liveHours ?? 0;
+  const planned = entry.scenarioHours ?? 0;
+  if (planned > live) return "text-green-600 dark:text-green-400";
+  if (planned < live) return "text-red-600 dark:text-red-400";
+  return "text-muted-foreground";
+}
+
+export function ScenarioBanner({ scenario }: { scenario: ScenarioSummary }) {
+  const router = useRouter();
+  const [diffOpen, setDiffOpen] = useState(false);
+  const [diff, setDiff] = useState<ScenarioDiffEntry[] | null>(null);
+  const [diffError, setDiffError] = useState<string | null>(null);
+  const [confirmPromote, setConfirmPromote] = useState(false);
+  const [isPromoting, setIsPromoting] = useState(false);
+  // Cells edited live since the scenario was created, once a promotion found them
+  const [conflictCount, setConflictCount] = useState<number | null>(null);
+
+  const isOpen = scenario.status === ScenarioStatus.OPEN;
+
+  const handleCompare = useCallback(async () => {
+    setDiffOpen(true);
+    setDiff(null);
+    setDiffError(null);
+    try {
+      setDiff(await getScenarioDiff(scenario.id));
+    } catch (err) {
+      setDiffError(err instanceof Error ? err.message : "Failed to load changes");
+    }
+  }, [scenario.id]);
+
+  const handlePromote = useCallback(async (skipConflicts: boolean) => {
+    setIsPromoting(true);
+    try {
+      const { promoted, changes, conflicts } = await promoteScenario(scenario.id, { skipConflicts });
+      if (!promoted) {
+        // Keep the dialog open so the conflicts can be skipped explicitly
+        setConflictCount(conflicts.length);
+        return;
+      }
+      toast.success(`Promoted "${scenario.name}" (${changes} cell${changes !== 1 ? "s" : ""} changed)`);
+      if (conflicts.length > 0) {
+        toast.warning(
+          `${conflicts.length} cell${conflicts.length !== 1 ? "s were" : " was"} edited live since the scenario was created and kept the live value`
+        );
+      }
+      setConfirmPromote(false);
+      router.refresh();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to promote scenario");
+      setConfirmPromote(false);
+    } finally {
+      setIsPromoting(false);
+    }
+  }, [scenario.id, scenario.name, router]);
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-3 rounded-lg border border-amber-300 bg-amber-50 p-4 dark:border-amber-700 dark:bg-amber-900/20">
+        <FlaskConical className="h-5 w-5 shrink-0 text-amber-600 dark:text-amber-400" />
+        <div className="min-w-0 flex-1">
+          <p className="font-medium">Scenario: {scenario.name}</p>
+          <p className="text-sm text-muted-foreground">
+            {format(parseISO(scenario.startDate), "MMM d, yyyy")} – {format(parseISO(scenario.endDate), "MMM d, yyyy")}
+            {" · "}
+            {isOpen
+              ? "Edits to projected hours here do not change the live forecast."
+              : `Promoted${scenario.promotedBy ? ` by ${scenario.promotedBy}` : ""}${
+                  scenario.promotedAt ? ` on ${format(new Date(scenario.promotedAt), "MMM d, yyyy h:mm a")}` : ""
+                }.`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/utilization/scenarios">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              All Scenarios
+            </Link>
+          </Button>
+          {isOpen && (
+            <>
+              <Button variant="outline" size="sm" onClick={handleCompare}>
+                <GitCompare className="mr-2 h-4 w-4" />
+                Compare with Live
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => {
+                  setConflictCount(null);
+                  setConfirmPromote(true);
+                }}
+              >
+                <Upload className="mr-2 h-4 w-4" />
+                Promote
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={diffOpen} onOpenChange={setDiffOpen}>
+        <DialogContent className="sm:max-w-[800px]">
+          <DialogHeader>
+            <DialogTitle>Changes vs Live</DialogTitle>
+            <DialogDescription>
+              Projected hours that promoting &quot;{scenario.name}&quot; would change. Highlighted cells were
+              edited live since the scenario was created; promoting stops until you choose to keep
+              their live value.
+            </DialogDescription>
+          </DialogHeader>
+
+          {diffError ? (
+            <div className="p-3 text-sm text-red-600 bg-red-50 dark:bg-red-900/20 dark:text-red-400 rounded-md">
+              {diffError}
+            </div>
+          ) : diff === null ? (
+            <div className="flex items-center justify-center py-8 text-sm text-muted-foreground">
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Comparing...
+            </div>
+          ) : diff.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              The scenario matches the live forecast.
+            </p>
+          ) : (
+            <ScrollArea className="max-h-[60vh]">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Consultant</TableHead>
+                    <TableHead>Project</TableHead>
+                    <TableHead>Week</TableHead>
+                    <TableHead className="text-right">Live</TableHead>
+                    <TableHead className="text-right">Scenario</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {diff.map((entry) => (
+                    <TableRow
+                      key={`${entry.consultantId}_${entry.projectId}_${entry.weekStart}`}
+                      className={entry.conflict ? "bg-amber-50 dark:bg-amber-900/20" : undefined}
+                    >
+                      <TableCell className="font-medium">{entry.consultantName}</TableCell>
+                      <TableCell className="text-sm">
+                        {entry.timecode ? `${entry.timecode} - ` : ""}{entry.projectName}
+                      </TableCell>
+                      <TableCell className="text-sm">{format(parseISO(entry.weekStart), "MMM d")}</TableCell>
+                      <TableCell className="text-right font-mono text-sm">
+                        {formatHours(entry.liveHours)}
+                        {entry.conflict && (
+                          <p className="text-xs font-sans text-amber-700 dark:text-amber-400">
+                            was {formatHours(entry.baseHours)}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell className={`text-right font-mono text-sm ${changeClass(entry)}`}>
+                        {formatHours(entry.scenarioHours)}
+                        {entry.liveHours === entry.scenarioHours && " (notes)"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={confirmPromote} onOpenChange={setConfirmPromote}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Promote scenario?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {conflictCount === null ? (
+                <>
+                  Every projected hour changed in this scenario between{" "}
+                  {format(parseISO(scenario.startDate), "MMM d")} and {format(parseISO(scenario.endDate), "MMM d, yyyy")}{" "}
+                  will be applied to the live forecast in a single update. The scenario is closed
+                  afterwards.
+                </>
+              ) : (
+                <>
+                  {conflictCount} cell{conflictCount !== 1 ? "s were" : " was"} edited on the live grid since
+                  the scenario was created, so nothing was promoted. Review them under Compare with Live,
+                  or promote the rest and keep the live value for those cells.
+                </>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isPromoting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handlePromote(conflictCount !== null);
+              }}
+              disabled={isPromoting}
+            >
+              {isPromoting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {conflictCount === null ? "Promote" : "Promote Without Them"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
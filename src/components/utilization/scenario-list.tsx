@@ -0,0 +1,247 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { addWeeks, format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { ScenarioStatus } from "@prisma/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import {
+  createScenario,
+  deleteScenario,
+  type ScenarioFormData,
+  type ScenarioSummary,
+} from "@/app/actions/scenarios";
+
+function emptyForm(): ScenarioFormData {
+  return {
+    name: "",
+    startDate: format(new Date(), "yyyy-MM-dd"),
+    endDate: format(addWeeks(new Date(), 12), "yyyy-MM-dd"),
+  };
+}
+
+function formatRange(scenario: ScenarioSummary) {
+  return `${format(parseISO(scenario.startDate), "MMM d, yyyy")} – ${format(parseISO(scenario.endDate), "MMM d, yyyy")}`;
+}
+
+export function ScenarioList({ scenarios }: { scenarios: ScenarioSummary[] }) {
+  const router = useRouter();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<ScenarioFormData>(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<ScenarioSummary | null>(null);
+
+  const openCreate = useCallback(() => {
+    setForm(emptyForm());
+    setError(null);
+    setDialogOpen(true);
+  }, []);
+
+  const handleCreate = useCallback(async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const scenario = await createScenario(form);
+      setDialogOpen(false);
+      router.push(`/utilization/scenarios/${scenario.id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create scenario");
+    } finally {
+      setIsSaving(false);
+    }
+  }, [form, router]);
+
+  const handleDelete = useCallback(async () => {
+    if (!deleting) return;
+    try {
+      await deleteScenario(deleting.id);
+      toast.success(`Deleted scenario "${deleting.name}"`);
+      router.refresh();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to delete scenario");
+    } finally {
+      setDeleting(null);
+    }
+  }, [deleting, router]);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Staffing Scenarios</CardTitle>
+          <CardDescription>
+            A new scenario copies the projected hours in its date range. Edits stay in the
+            scenario until it is promoted.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={openCreate}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Scenario
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {scenarios.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No scenarios yet.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Weeks</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="w-[1%]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {scenarios.map((scenario) => (
+                <TableRow key={scenario.id}>
+                  <TableCell>
+                    <Link href={`/utilization/scenarios/${scenario.id}`} className="font-medium hover:underline">
+                      {scenario.name}
+                    </Link>
+                  </TableCell>
+                  <TableCell className="text-sm">{formatRange(scenario)}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {format(new Date(scenario.createdAt), "MMM d, yyyy")}
+                    {scenario.createdBy && ` by ${scenario.createdBy}`}
+                  </TableCell>
+                  <TableCell>
+                    {scenario.status === ScenarioStatus.PROMOTED ? (
+                      <Badge className="bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-200">
+                        Promoted{scenario.promotedAt && ` ${format(new Date(scenario.promotedAt), "MMM d")}`}
+                      </Badge>
+                    ) : (
+                      <Badge variant="secondary">Open</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive hover:text-destructive"
+                      onClick={() => setDeleting(scenario)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>New Scenario</DialogTitle>
+            <DialogDescription>
+              Projected hours on active projects in this range are copied into the scenario.
+            </DialogDescription>
+          </DialogHeader>
+
+          {error && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 dark:bg-red-900/20 dark:text-red-400 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="scenario-name">Name</Label>
+              <Input
+                id="scenario-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. Q3 reshuffle"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="scenario-start">From</Label>
+                <Input
+                  id="scenario-start"
+                  type="date"
+                  value={form.startDate}
+                  onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="scenario-end">To</Label>
+                <Input
+                  id="scenario-end"
+                  type="date"
+                  value={form.endDate}
+                  onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                />
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={isSaving || !form.name.trim()}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete scenario?</AlertDialogTitle>
+            <AlertDialogDescription>
+              &quot;{deleting?.name}&quot; and its planned hours will be deleted. Live allocations
+              are not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
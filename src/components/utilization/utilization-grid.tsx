@@ -2,14 +2,23 @@
 
 import { useState, useMemo, useCallback, useTransition } from "react";
 import { format, parseISO, addWeeks } from "date-fns";
-import { AllocationEntryType, ProjectStatus, ProjectType } from "@prisma/client";
+import { AllocationEntryType, ProjectStatus, ProjectType, ScenarioStatus } from "@prisma/client";
+import { toast } from "sonner";
 import { UtilizationData, getUtilizationData } from "@/app/actions/utilization";
-import { groupWeeksByMonth, getFirstFullWeekOfMonth } from "@/lib/utils";
-import { WeekCell, ProjectWeekCell, type DisplayMode } from "./week-cell";
+import { exportUtilizationGrid } from "@/app/actions/utilization-export";
+import { getScenarioUtilizationData, type ScenarioSummary } from "@/app/actions/scenarios";
+import { groupWeeksByMonth, getFirstFullWeekOfMonth, getWeeklyCapacity } from "@/lib/utils";
+import {
+  filterConsultants,
+  filterConsultantProjects,
+  type DisplayMode,
+  type GridFilterState,
+} from "@/lib/utilization-filters";
+import { WeekCell, ProjectWeekCell } from "./week-cell";
 import { GridFilters } from "./grid-filters";
 import { Button } from "@/components/ui/button";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { Loader2, ChevronDown, ChevronRight } from "lucide-react";
+import { Loader2, ChevronDown, ChevronRight, Download } from "lucide-react";
 
 interface UtilizationGridProps {
   initialData: UtilizationData;
@@ -22,11 +31,13 @@ interface UtilizationGridProps {
     status: ProjectStatus;
     startDate: Date | null;
     endDate: Date | null;
+    winProbability: number | null;
     projectManager: { name: string } | null;
   }>;
   roleDefinitions: Array<{ id: string; name: string; msrpRate: number }>;
   userRole: string;
   currentConsultantId?: string | null;
+  scenario?: ScenarioSummary; // grid shows and edits this scenario instead of live projections
 }
 
 const TYPE_BORDER_COLOR: Record<ProjectType, string> = {
@@ -54,7 +65,8 @@ export function UtilizationGrid({
   projects,
   roleDefinitions,
   userRole,
-  currentConsultantId
+  currentConsultantId,
+  scenario
 }: UtilizationGridProps) {
   const [isPending, startTransition] = useTransition();
   const [data, setData] = useState<UtilizationData>(initialData);
@@ -62,8 +74,8 @@ export function UtilizationGrid({
   const defaultStart = getFirstFullWeekOfMonth();
   const defaultEnd = addWeeks(defaultStart, 13);
   
-  const [startDate, setStartDate] = useState<Date>(defaultStart);
-  const [endDate, setEndDate] = useState<Date>(defaultEnd);
+  const [startDate, setStartDate] = useState<Date>(scenario ? parseISO(scenario.startDate) : defaultStart);
+  const [endDate, setEndDate] = useState<Date>(scenario ? parseISO(scenario.endDate) : defaultEnd);
   
   const [roleFilter, setRoleFilter] = useState<string>("all");
   const [groupFilter, setGroupFilter] = useState<string>("all");
@@ -72,6 +84,7 @@ export function UtilizationGrid({
   const [displayMode, setDisplayMode] = useState<DisplayMode>("all");
 
   const [expandedConsultants, setExpandedConsultants] = useState<Set<string>>(new Set());
+  const [isExporting, setIsExporting] = useState(false);
 
   const handleDateRangeChange = useCallback((newStart: Date, newEnd: Date) => {
     setStartDate(newStart);
@@ -79,16 +92,22 @@ export function UtilizationGrid({
     
     startTransition(async () => {
       try {
-        const newData = await getUtilizationData(
-          format(newStart, "yyyy-MM-dd"),
-          format(newEnd, "yyyy-MM-dd")
-        );
+        const newData = scenario
+          ? await getScenarioUtilizationData(
+              scenario.id,
+              format(newStart, "yyyy-MM-dd"),
+              format(newEnd, "yyyy-MM-dd")
+            )
+          : await getUtilizationData(
+              format(newStart, "yyyy-MM-dd"),
+              format(newEnd, "yyyy-MM-dd")
+            );
         setData(newData);
       } catch (error) {
         console.error("Failed to fetch utilization data:", error);
       }
     });
-  }, []);
+  }, [scenario]);
 
   const weekDates = useMemo(
     () => data.weeks.map((w) => parseISO(w)),
@@ -100,39 +119,15 @@ export function UtilizationGrid({
     [weekDates]
   );
 
-  const filteredConsultants = useMemo(() => {
-    const filtered = data.consultants.filter((consultant) => {
-      if (roleFilter !== "all" && !consultant.roles.includes(roleFilter)) {
-        return false;
-      }
-      if (groupFilter !== "all" && !consultant.groups.includes(groupFilter)) {
-        return false;
-      }
-      if (searchFilter && !consultant.name.toLowerCase().includes(searchFilter.toLowerCase())) {
-        return false;
-      }
-      if (projectFilter.length > 0) {
-        const consultantProjects = data.consultantProjects[consultant.id] || [];
-        if (!consultantProjects.some(p => p.timecode && projectFilter.includes(p.timecode))) {
-          return false;
-        }
-      }
-      return true;
-    });
-
-    // Sort: primary = first group (alphabetical), secondary = manager name, tertiary = consultant name
-    return filtered.sort((a, b) => {
-      const groupA = [...a.groups].sort()[0] ?? "";
-      const groupB = [...b.groups].sort()[0] ?? "";
-      if (groupA !== groupB) return groupA.localeCompare(groupB);
-
-      const managerA = a.managerName ?? "";
-      const managerB = b.managerName ?? "";
-      if (managerA !== managerB) return managerA.localeCompare(managerB);
+  const filters = useMemo<GridFilterState>(
+    () => ({ role: roleFilter, group: groupFilter, search: searchFilter, projects: projectFilter }),
+    [roleFilter, groupFilter, searchFilter, projectFilter]
+  );
 
-      return a.name.localeCompare(b.name);
-    });
-  }, [data.consultants, data.consultantProjects, roleFilter, groupFilter, searchFilter, projectFilter]);
+  const filteredConsultants = useMemo(
+    () => filterConsultants(data, filters),
+    [data, filters]
+  );
 
   const getCellDetails = useCallback(
     (consultantId: string, week: string) => {
@@ -149,6 +144,13 @@ export function UtilizationGrid({
     [userRole]
   );
 
+  // Scenario cells are editable only inside the scenario's weeks until it is promoted
+  const canEditWeek = useCallback(
+    (week: string) => !scenario ||
+      (scenario.status === ScenarioStatus.OPEN && week >= scenario.startDate && week <= scenario.endDate),
+    [scenario]
+  );
+
   const allRoles = useMemo(() => {
     const roles = new Set<string>();
     data.consultants.forEach((c) => c.roles.forEach((r) => roles.add(r)));
@@ -184,6 +186,33 @@ export function UtilizationGrid({
     });
   }, []);
 
+  const handleExport = useCallback(async () => {
+    setIsExporting(true);
+    try {
+      const file = await exportUtilizationGrid({
+        startDate: format(startDate, "yyyy-MM-dd"),
+        endDate: format(endDate, "yyyy-MM-dd"),
+        filters,
+        displayMode,
+        expandedConsultantIds: Array.from(expandedConsultants),
+        scenarioId: scenario?.id,
+      });
+      const bytes = Uint8Array.from(atob(file.base64), c => c.charCodeAt(0));
+      const url = URL.createObjectURL(new Blob([bytes], {
+        type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = file.fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Export failed");
+    } finally {
+      setIsExporting(false);
+    }
+  }, [startDate, endDate, filters, displayMode, expandedConsultants, scenario]);
+
   const updateLocalAllocations = useCallback((
     consultantId: string,
     week: string,
@@ -205,12 +234,15 @@ export function UtilizationGrid({
         ? { ...consultantAllocs[week] }
         : { actual: 0, projected: 0, details: [] as typeof prev.allocations[string][string]['details'] };
 
+      // Soft bookings are not edited from the grid, so they always carry over
       let newDetails: typeof weekData.details;
       if (replaceAll) {
-        newDetails = [];
+        newDetails = weekData.details.filter(d => d.entryType === AllocationEntryType.TENTATIVE);
       } else {
         const updatedProjectIds = new Set(projectUpdates.map(u => u.projectId));
-        newDetails = weekData.details.filter(d => !updatedProjectIds.has(d.projectId));
+        newDetails = weekData.details.filter(d =>
+          d.entryType === AllocationEntryType.TENTATIVE || !updatedProjectIds.has(d.projectId)
+        );
       }
 
       for (const update of projectUpdates) {
@@ -278,12 +310,13 @@ export function UtilizationGrid({
       />
 
       {/* Display mode toggle */}
-      <div className="flex gap-1 flex-wrap">
+      <div className="flex gap-1 flex-wrap items-center">
         {([
           { value: "all",       label: "All Hours" },
           { value: "billable",  label: "Billable + Assigned" },
           { value: "available", label: "Available Hours" },
           { value: "variance",  label: "Actual vs Projected" },
+          { value: "pipeline",  label: "Confirmed vs Weighted" },
         ] as { value: DisplayMode; label: string }[]).map(({ value, label }) => (
           <Button
             key={value}
@@ -294,6 +327,20 @@ export function UtilizationGrid({
             {label}
           </Button>
         ))}
+        <Button
+          size="sm"
+          variant="outline"
+          className="ml-auto"
+          onClick={handleExport}
+          disabled={isExporting || filteredConsultants.length === 0}
+        >
+          {isExporting ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Download className="mr-2 h-4 w-4" />
+          )}
+          Export XLSX
+        </Button>
       </div>
 
       <div className="border rounded-lg overflow-auto max-h-[calc(100vh-240px)] relative">
@@ -344,10 +391,7 @@ export function UtilizationGrid({
             ) : (
               filteredConsultants.map((consultant) => {
                 const isExpanded = expandedConsultants.has(consultant.id);
-                const allConsultantProjects = data.consultantProjects[consultant.id] || [];
-                const consultantProjectsList = projectFilter.length > 0
-                  ? allConsultantProjects.filter(p => p.timecode && projectFilter.includes(p.timecode))
-                  : allConsultantProjects;
+                const consultantProjectsList = filterConsultantProjects(data, consultant.id, projectFilter);
 
                 return (
                   <div key={consultant.id}>
@@ -382,7 +426,8 @@ export function UtilizationGrid({
                       {/* Week cells */}
                       {data.weeks.map((week) => {
                         const details = getCellDetails(consultant.id, week);
-                        const editable = canEdit(consultant.id);
+                        const editable = canEdit(consultant.id) && canEditWeek(week);
+                        const holidays = data.holidays[consultant.holidayCalendar]?.[week] ?? [];
 
                         return (
                           <WeekCell
@@ -391,13 +436,15 @@ export function UtilizationGrid({
                             consultantName={consultant.name}
                             week={week}
                             details={details}
-                            standardHours={consultant.standardHours}
+                            standardHours={getWeeklyCapacity(consultant.standardHours, holidays.length)}
+                            holidays={holidays}
                             editable={editable}
                             displayMode={displayMode}
                             projects={projects}
                             roleDefinitions={roleDefinitions.filter((rd) =>
                               consultant.billingRoleIds.includes(rd.id)
                             )}
+                            scenarioId={scenario?.id}
                             onSave={(allocations) => {
                               updateLocalAllocations(
                                 consultant.id,
@@ -520,7 +567,8 @@ export function UtilizationGrid({
                                 projectId={project.projectId}
                                 projectName={project.projectName}
                                 timecode={project.timecode}
-                                editable={editable}
+                                editable={editable && canEditWeek(week)}
+                                scenarioId={scenario?.id}
                                 onSave={(projectedHours, actualHours, notes) => {
                                   updateLocalAllocations(
                                     consultant.id,
@@ -572,7 +620,11 @@ export function UtilizationGrid({
             <span className="absolute top-0 left-0.5 text-[6px] leading-none">P</span>
             <span className="absolute bottom-0 right-0.5 text-[6px] leading-none">A</span>
           </div>
-          <span>Past weeks: Projected / Actual</span>
+          <span>
+            {displayMode === "pipeline"
+              ? "Confirmed / Weighted (incl. soft bookings)"
+              : "Past weeks: Projected / Actual"}
+          </span>
         </div>
       </div>
     </div>
@@ -14,6 +14,12 @@ import {
   DialogTitle,
   DialogDescription,
 } from "@/components/ui/dialog";
+import {
+  Tabs,
+  TabsContent,
+  TabsList,
+  TabsTrigger,
+} from "@/components/ui/tabs";
 import {
   Select,
   SelectContent,
@@ -22,9 +28,11 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { updateAllocation, deleteAllocation } from "@/app/actions/utilization";
+import { updateScenarioAllocation, deleteScenarioAllocation } from "@/app/actions/scenarios";
 import { createProjectMember } from "@/app/actions/project-members";
-import { Loader2, Plus, Trash2 } from "lucide-react";
+import { Loader2, Plus, Trash2, History } from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { AllocationHistoryTimeline, type RevertResult } from "./allocation-history-timeline";
 
 interface AllocationDetail {
   projectId: string;
@@ -38,6 +46,67 @@ interface AllocationDetail {
   updatedAt: Date;
 }
 
+interface EditedAllocation {
+  projectId: string;
+  actualHours: number;
+  projectedHours: number;
+  notes: string;
+  roleDefinitionId?: string | null; // only set for newly-added rows
+}
+
+// Soft bookings are managed outside the editor and left out of the editable rows
+function groupDetails(details: AllocationDetail[]): EditedAllocation[] {
+  const grouped = new Map<string, EditedAllocation>();
+
+  details.forEach((d) => {
+    if (d.entryType === AllocationEntryType.TENTATIVE) return;
+    if (!grouped.has(d.projectId)) {
+      grouped.set(d.projectId, {
+        projectId: d.projectId,
+        actualHours: 0,
+        projectedHours: 0,
+        notes: d.notes || "",
+      });
+    }
+    const entry = grouped.get(d.projectId)!;
+    if (d.entryType === AllocationEntryType.ACTUAL) {
+      entry.actualHours = d.hours;
+    } else {
+      entry.projectedHours = d.hours;
+    }
+    if (d.notes && !entry.notes) {
+      entry.notes = d.notes;
+    }
+  });
+
+  return Array.from(grouped.values());
+}
+
+// Applies a reverted cell value to a grouped allocation list
+function applyRevert(allocations: EditedAllocation[], result: RevertResult): EditedAllocation[] {
+  if (result.entryType === AllocationEntryType.TENTATIVE) return allocations;
+  const field = result.entryType === AllocationEntryType.ACTUAL ? "actualHours" : "projectedHours";
+  const hours = result.hours ?? 0;
+  const existing = allocations.find(a => a.projectId === result.projectId);
+
+  if (!existing) {
+    if (hours === 0) return allocations;
+    return [...allocations, {
+      projectId: result.projectId,
+      actualHours: 0,
+      projectedHours: 0,
+      notes: result.notes ?? "",
+      [field]: hours,
+    }];
+  }
+
+  return allocations.map(a =>
+    a.projectId === result.projectId
+      ? { ...a, [field]: hours, notes: result.notes ?? a.notes }
+      : a
+  );
+}
+
 interface WeekCellEditorProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -49,6 +118,7 @@ interface WeekCellEditorProps {
   projects: Array<{ id: string; projectName: string; timecode: string | null }>;
   roleDefinitions: Array<{ id: string; name: string; msrpRate: number }>;
   onSave?: (allocations: Array<{ projectId: string; projectedHours: number; actualHours: number; notes: string }>) => void;
+  scenarioId?: string; // edit this scenario's projected hours instead of the live allocations
 }
 
 export function WeekCellEditor({
@@ -62,18 +132,14 @@ export function WeekCellEditor({
   projects,
   roleDefinitions,
   onSave,
+  scenarioId,
 }: WeekCellEditorProps) {
   const [isPending, startTransition] = useTransition();
   const [error, setError] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState("edit");
   
   // Local state for editing
-  const [editedAllocations, setEditedAllocations] = useState<{
-    projectId: string;
-    actualHours: number;
-    projectedHours: number;
-    notes: string;
-    roleDefinitionId?: string | null; // only set for newly-added rows
-  }[]>([]);
+  const [editedAllocations, setEditedAllocations] = useState<EditedAllocation[]>([]);
 
   // New allocation form
   const [newProjectId, setNewProjectId] = useState<string>("");
@@ -87,38 +153,14 @@ export function WeekCellEditor({
   const isPast = isBefore(weekDate, currentWeekStart);
   const isFuture = isAfter(weekDate, currentWeekStart);
   const isCurrent = !isPast && !isFuture;
+  // Scenarios only plan projected hours; actuals always stay live
+  const showActuals = !isFuture && !scenarioId;
 
   // Initialize edited allocations from details
   useEffect(() => {
     if (open) {
-      const grouped = new Map<string, {
-        projectId: string;
-        actualHours: number;
-        projectedHours: number;
-        notes: string;
-      }>();
-
-      details.forEach((d) => {
-        if (!grouped.has(d.projectId)) {
-          grouped.set(d.projectId, {
-            projectId: d.projectId,
-            actualHours: 0,
-            projectedHours: 0,
-            notes: d.notes || "",
-          });
-        }
-        const entry = grouped.get(d.projectId)!;
-        if (d.entryType === AllocationEntryType.ACTUAL) {
-          entry.actualHours = d.hours;
-        } else {
-          entry.projectedHours = d.hours;
-        }
-        if (d.notes && !entry.notes) {
-          entry.notes = d.notes;
-        }
-      });
-
-      setEditedAllocations(Array.from(grouped.values()));
+      setEditedAllocations(groupDetails(details));
+      setActiveTab("edit");
       setError(null);
     }
   // Intentionally only re-init when the dialog opens (not on details prop changes mid-edit,
@@ -158,7 +200,7 @@ export function WeekCellEditor({
 
     setEditedAllocations(prev => [...prev, {
       projectId: newProjectId,
-      actualHours: isPast || isCurrent ? newActualHours : 0,
+      actualHours: showActuals && (isPast || isCurrent) ? newActualHours : 0,
       projectedHours: newProjectedHours,
       notes: "",
       roleDefinitionId: newRoleId || null,
@@ -168,26 +210,36 @@ export function WeekCellEditor({
     setNewActualHours(0);
     setNewProjectedHours(8);
     setNewRoleId("");
-  }, [newProjectId, newActualHours, newProjectedHours, newRoleId, editedAllocations, isPast, isCurrent]);
+  }, [newProjectId, newActualHours, newProjectedHours, newRoleId, editedAllocations, isPast, isCurrent, showActuals]);
 
   const handleSaveAll = useCallback(() => {
     setError(null);
     startTransition(async () => {
       try {
+        const saveProjected = (projectId: string, hours: number, notes?: string) => scenarioId
+          ? updateScenarioAllocation(scenarioId, consultantId, week, projectId, hours, notes)
+          : updateAllocation(consultantId, week, projectId, hours, AllocationEntryType.PROJECTED, notes);
+        const removeProjected = (projectId: string) => scenarioId
+          ? deleteScenarioAllocation(scenarioId, consultantId, projectId, week)
+          : deleteAllocation(consultantId, projectId, week, AllocationEntryType.PROJECTED);
+
         // Get existing allocations to determine what to delete
         const existingProjectIds = new Set(details.map(d => d.projectId));
         const newProjectIds = new Set(editedAllocations.map(a => a.projectId));
         
         // Delete allocations for removed projects
         for (const detail of details) {
-          if (!newProjectIds.has(detail.projectId)) {
+          if (detail.entryType === AllocationEntryType.TENTATIVE || newProjectIds.has(detail.projectId)) continue;
+          if (detail.entryType === AllocationEntryType.PROJECTED) {
+            await removeProjected(detail.projectId);
+          } else if (!scenarioId) {
             await deleteAllocation(consultantId, detail.projectId, week, detail.entryType);
           }
         }
 
         // Upsert ProjectMember role for any newly-added project that had a role selected
         for (const allocation of editedAllocations) {
-          if (allocation.roleDefinitionId !== undefined && allocation.roleDefinitionId !== null) {
+          if (!scenarioId && allocation.roleDefinitionId !== undefined && allocation.roleDefinitionId !== null) {
             await createProjectMember(allocation.projectId, consultantId, allocation.roleDefinitionId, null);
           }
         }
@@ -198,7 +250,7 @@ export function WeekCellEditor({
           // For future weeks: only update projected, no actuals
           // For current week: update both
           
-          if (!isFuture && allocation.actualHours > 0) {
+          if (showActuals && allocation.actualHours > 0) {
             await updateAllocation(
               consultantId,
               week,
@@ -207,7 +259,7 @@ export function WeekCellEditor({
               AllocationEntryType.ACTUAL,
               allocation.notes || undefined
             );
-          } else if (!isFuture && allocation.actualHours === 0) {
+          } else if (showActuals && allocation.actualHours === 0) {
             // Delete actual if set to 0
             const existingActual = details.find(d => d.projectId === allocation.projectId && d.entryType === AllocationEntryType.ACTUAL);
             if (existingActual) {
@@ -216,19 +268,12 @@ export function WeekCellEditor({
           }
           
           if (allocation.projectedHours > 0) {
-            await updateAllocation(
-              consultantId,
-              week,
-              allocation.projectId,
-              allocation.projectedHours,
-              AllocationEntryType.PROJECTED,
-              allocation.notes || undefined
-            );
+            await saveProjected(allocation.projectId, allocation.projectedHours, allocation.notes || undefined);
           } else if (allocation.projectedHours === 0) {
             // Delete projected if set to 0
             const existingProjected = details.find(d => d.projectId === allocation.projectId && d.entryType === AllocationEntryType.PROJECTED);
             if (existingProjected) {
-              await deleteAllocation(consultantId, allocation.projectId, week, AllocationEntryType.PROJECTED);
+              await removeProjected(allocation.projectId);
             }
           }
         }
@@ -244,11 +289,23 @@ export function WeekCellEditor({
         setError(err instanceof Error ? err.message : "Failed to save allocations");
       }
     });
-  }, [consultantId, week, details, editedAllocations, isFuture, onOpenChange, onSave]);
+  }, [consultantId, week, details, editedAllocations, showActuals, scenarioId, onOpenChange, onSave]);
+
+  // A revert is already persisted, so sync it into both the grid and any in-progress edits
+  const handleReverted = useCallback((result: RevertResult) => {
+    setEditedAllocations(prev => applyRevert(prev, result));
+    onSave?.(applyRevert(groupDetails(details), result).map(a => ({
+      projectId: a.projectId,
+      projectedHours: a.projectedHours,
+      actualHours: a.actualHours,
+      notes: a.notes,
+    })));
+  }, [details, onSave]);
 
   // Calculate totals
   const totalActual = editedAllocations.reduce((sum, a) => sum + a.actualHours, 0);
   const totalProjected = editedAllocations.reduce((sum, a) => sum + a.projectedHours, 0);
+  const softBookings = details.filter(d => d.entryType === AllocationEntryType.TENTATIVE);
 
   // Get unused projects for the dropdown
   const usedProjectIds = new Set(editedAllocations.map(a => a.projectId));
@@ -263,183 +320,217 @@ export function WeekCellEditor({
             Week of {format(weekDate, "MMMM d, yyyy")}
             {isPast && " (Past week - actuals only)"}
             {isFuture && " (Future week - projected only)"}
+            {scenarioId && !isFuture && " (Scenario - projected only)"}
           </DialogDescription>
         </DialogHeader>
 
-        {error && (
-          <div className="p-3 text-sm text-red-600 bg-red-50 dark:bg-red-900/20 dark:text-red-400 rounded-md">
-            {error}
-          </div>
-        )}
-
-        <ScrollArea className="max-h-[400px] pr-4">
-          <div className="space-y-4">
-            {/* Existing allocations */}
-            {editedAllocations.map((allocation, index) => (
-              <div key={allocation.projectId} className="border rounded-lg p-4 space-y-3">
-                <div className="flex items-center justify-between">
-                  <span className="font-medium text-sm">{getProjectName(allocation.projectId)}</span>
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    onClick={() => handleRemoveAllocation(index)}
-                    className="h-8 w-8 text-destructive hover:text-destructive"
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
-                </div>
-                
-                <div className="grid grid-cols-2 gap-4">
-                  {/* Actual Hours - only show for past/current weeks */}
-                  {!isFuture && (
-                    <div className="space-y-1">
-                      <Label className="text-xs">Actual Hours</Label>
-                      <Input
-                        type="number"
-                        min="0"
-                        max="80"
-                        step="0.5"
-                        value={allocation.actualHours}
-                        onFocus={(e) => e.target.select()}
-                        onChange={(e) => handleUpdateAllocation(index, 'actualHours', parseFloat(e.target.value) || 0)}
-                      />
-                    </div>
-                  )}
-
-                  {/* Projected Hours - always show but read-only for past weeks */}
-                  <div className="space-y-1">
-                    <Label className="text-xs">
-                      Projected Hours
-                      {isPast && " (read-only)"}
-                    </Label>
-                    <Input
-                      type="number"
-                      min="0"
-                      max="80"
-                      step="0.5"
-                      value={allocation.projectedHours}
-                      onFocus={(e) => e.target.select()}
-                      onChange={(e) => handleUpdateAllocation(index, 'projectedHours', parseFloat(e.target.value) || 0)}
-                      disabled={isPast}
-                      className={isPast ? "bg-muted" : ""}
-                    />
-                  </div>
-                </div>
+        <Tabs value={activeTab} onValueChange={setActiveTab}>
+          {/* History is only recorded for live allocations */}
+          {!scenarioId && (
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="edit">Allocations</TabsTrigger>
+              <TabsTrigger value="history">
+                <History className="h-4 w-4 mr-1" />
+                History
+              </TabsTrigger>
+            </TabsList>
+          )}
 
-                <div className="space-y-1">
-                  <Label className="text-xs">Notes</Label>
-                  <Textarea
-                    value={allocation.notes}
-                    onChange={(e) => handleUpdateAllocation(index, 'notes', e.target.value)}
-                    placeholder="Add a comment..."
-                    className="resize-none text-xs"
-                    rows={2}
-                  />
-                </div>
+          <TabsContent value="edit" className="space-y-4">
+            {error && (
+              <div className="p-3 text-sm text-red-600 bg-red-50 dark:bg-red-900/20 dark:text-red-400 rounded-md">
+                {error}
               </div>
-            ))}
-
-            {/* Add new project */}
-            {availableProjects.length > 0 && (
-              <div className="border-2 border-dashed rounded-lg p-4 space-y-3">
-                <Label className="text-sm font-medium">Add Project</Label>
-                <div className="grid grid-cols-2 gap-2">
-                  <Select value={newProjectId} onValueChange={setNewProjectId}>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select project" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {availableProjects.map((project) => (
-                        <SelectItem key={project.id} value={project.id}>
-                          {project.timecode} - {project.projectName}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                  <Select value={newRoleId || "__none__"} onValueChange={(v) => setNewRoleId(v === "__none__" ? "" : v)}>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Billing role (optional)" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="__none__">— No role —</SelectItem>
-                      {roleDefinitions.map((r) => (
-                        <SelectItem key={r.id} value={r.id}>{r.name}</SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-                <Button onClick={handleAddProject} disabled={!newProjectId} size="sm">
-                  <Plus className="h-4 w-4 mr-1" />
-                  Add
-                </Button>
-
-                {newProjectId && (
-                  <div className="grid grid-cols-2 gap-4">
-                    {!isFuture && (
+            )}
+
+            <ScrollArea className="max-h-[400px] pr-4">
+              <div className="space-y-4">
+                {/* Existing allocations */}
+                {editedAllocations.map((allocation, index) => (
+                  <div key={allocation.projectId} className="border rounded-lg p-4 space-y-3">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-sm">{getProjectName(allocation.projectId)}</span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleRemoveAllocation(index)}
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                
+                    <div className="grid grid-cols-2 gap-4">
+                      {/* Actual Hours - only show for past/current weeks */}
+                      {showActuals && (
+                        <div className="space-y-1">
+                          <Label className="text-xs">Actual Hours</Label>
+                          <Input
+                            type="number"
+                            min="0"
+                            max="80"
+                            step="0.5"
+                            value={allocation.actualHours}
+                            onFocus={(e) => e.target.select()}
+                            onChange={(e) => handleUpdateAllocation(index, 'actualHours', parseFloat(e.target.value) || 0)}
+                          />
+                        </div>
+                      )}
+
+                      {/* Projected Hours - always show but read-only for past weeks */}
                       <div className="space-y-1">
-                        <Label className="text-xs">Actual Hours</Label>
+                        <Label className="text-xs">
+                          Projected Hours
+                          {isPast && " (read-only)"}
+                        </Label>
                         <Input
                           type="number"
                           min="0"
                           max="80"
                           step="0.5"
-                          value={newActualHours}
+                          value={allocation.projectedHours}
                           onFocus={(e) => e.target.select()}
-                          onChange={(e) => setNewActualHours(parseFloat(e.target.value) || 0)}
+                          onChange={(e) => handleUpdateAllocation(index, 'projectedHours', parseFloat(e.target.value) || 0)}
+                          disabled={isPast}
+                          className={isPast ? "bg-muted" : ""}
                         />
                       </div>
-                    )}
+                    </div>
+
                     <div className="space-y-1">
-                      <Label className="text-xs">Projected Hours</Label>
-                      <Input
-                        type="number"
-                        min="0"
-                        max="80"
-                        step="0.5"
-                        value={newProjectedHours}
-                        onFocus={(e) => e.target.select()}
-                        onChange={(e) => setNewProjectedHours(parseFloat(e.target.value) || 0)}
+                      <Label className="text-xs">Notes</Label>
+                      <Textarea
+                        value={allocation.notes}
+                        onChange={(e) => handleUpdateAllocation(index, 'notes', e.target.value)}
+                        placeholder="Add a comment..."
+                        className="resize-none text-xs"
+                        rows={2}
                       />
                     </div>
                   </div>
+                ))}
+
+                {/* Add new project */}
+                {availableProjects.length > 0 && (
+                  <div className="border-2 border-dashed rounded-lg p-4 space-y-3">
+                    <Label className="text-sm font-medium">Add Project</Label>
+                    <div className="grid grid-cols-2 gap-2">
+                      <Select value={newProjectId} onValueChange={setNewProjectId}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select project" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {availableProjects.map((project) => (
+                            <SelectItem key={project.id} value={project.id}>
+                              {project.timecode} - {project.projectName}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {!scenarioId && (
+                        <Select value={newRoleId || "__none__"} onValueChange={(v) => setNewRoleId(v === "__none__" ? "" : v)}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Billing role (optional)" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="__none__">— No role —</SelectItem>
+                            {roleDefinitions.map((r) => (
+                              <SelectItem key={r.id} value={r.id}>{r.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
+                    <Button onClick={handleAddProject} disabled={!newProjectId} size="sm">
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add
+                    </Button>
+
+                    {newProjectId && (
+                      <div className="grid grid-cols-2 gap-4">
+                        {showActuals && (
+                          <div className="space-y-1">
+                            <Label className="text-xs">Actual Hours</Label>
+                            <Input
+                              type="number"
+                              min="0"
+                              max="80"
+                              step="0.5"
+                              value={newActualHours}
+                              onFocus={(e) => e.target.select()}
+                              onChange={(e) => setNewActualHours(parseFloat(e.target.value) || 0)}
+                            />
+                          </div>
+                        )}
+                        <div className="space-y-1">
+                          <Label className="text-xs">Projected Hours</Label>
+                          <Input
+                            type="number"
+                            min="0"
+                            max="80"
+                            step="0.5"
+                            value={newProjectedHours}
+                            onFocus={(e) => e.target.select()}
+                            onChange={(e) => setNewProjectedHours(parseFloat(e.target.value) || 0)}
+                          />
+                        </div>
+                      </div>
+                    )}
+                  </div>
                 )}
               </div>
-            )}
-          </div>
-        </ScrollArea>
-
-        {/* Summary */}
-        <div className="border-t pt-4 space-y-2">
-          <div className="flex justify-between text-sm">
-            <span className="text-muted-foreground">Standard Hours:</span>
-            <span className="font-medium">{standardHours}</span>
-          </div>
-          {!isFuture && (
-            <div className="flex justify-between text-sm">
-              <span className="text-muted-foreground">Total Actual:</span>
-              <span className={`font-medium ${totalActual > standardHours ? 'text-red-600' : totalActual < standardHours * 0.9 ? 'text-yellow-600' : 'text-green-600'}`}>
-                {totalActual} ({Math.round((totalActual / standardHours) * 100)}%)
-              </span>
+            </ScrollArea>
+
+            {/* Summary */}
+            <div className="border-t pt-4 space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Standard Hours:</span>
+                <span className="font-medium">{standardHours}</span>
+              </div>
+              {showActuals && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Total Actual:</span>
+                  <span className={`font-medium ${totalActual > standardHours ? 'text-red-600' : totalActual < standardHours * 0.9 ? 'text-yellow-600' : 'text-green-600'}`}>
+                    {totalActual} ({Math.round((totalActual / standardHours) * 100)}%)
+                  </span>
+                </div>
+              )}
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Total Projected:</span>
+                <span className={`font-medium ${totalProjected > standardHours ? 'text-red-600' : totalProjected < standardHours * 0.9 ? 'text-yellow-600' : 'text-green-600'}`}>
+                  {totalProjected} ({Math.round((totalProjected / standardHours) * 100)}%)
+                </span>
+              </div>
+              {softBookings.length > 0 && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Soft Bookings:</span>
+                  <span className="text-muted-foreground">
+                    {softBookings.map(d => `${d.timecode ?? d.projectName} ${d.hours}h`).join(", ")}
+                  </span>
+                </div>
+              )}
             </div>
-          )}
-          <div className="flex justify-between text-sm">
-            <span className="text-muted-foreground">Total Projected:</span>
-            <span className={`font-medium ${totalProjected > standardHours ? 'text-red-600' : totalProjected < standardHours * 0.9 ? 'text-yellow-600' : 'text-green-600'}`}>
-              {totalProjected} ({Math.round((totalProjected / standardHours) * 100)}%)
-            </span>
-          </div>
-        </div>
-
-        {/* Actions */}
-        <div className="flex justify-end gap-2 pt-2">
-          <Button variant="outline" onClick={() => onOpenChange(false)}>
-            Cancel
-          </Button>
-          <Button onClick={handleSaveAll} disabled={isPending}>
-            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-            Save All Changes
-          </Button>
-        </div>
+
+            {/* Actions */}
+            <div className="flex justify-end gap-2 pt-2">
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSaveAll} disabled={isPending}>
+                {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save All Changes
+              </Button>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="history">
+            <AllocationHistoryTimeline
+              consultantId={consultantId}
+              week={week}
+              onReverted={handleReverted}
+            />
+          </TabsContent>
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
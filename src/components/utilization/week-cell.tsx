@@ -4,6 +4,7 @@ import { useState, useMemo, useCallback, useTransition, useEffect } from "react"
 import { format, parseISO, startOfWeek, isBefore, isAfter } from "date-fns";
 import { AllocationEntryType, ProjectType } from "@prisma/client";
 import { cn, getUtilizationColor } from "@/lib/utils";
+import { BILLABLE_TYPES, type DisplayMode } from "@/lib/utilization-filters";
 import {
   Tooltip,
   TooltipContent,
@@ -22,11 +23,14 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Loader2 } from "lucide-react";
 import { updateAllocation, deleteAllocation } from "@/app/actions/utilization";
+import { updateScenarioAllocation, deleteScenarioAllocation } from "@/app/actions/scenarios";
 import { WeekCellEditor } from "./week-cell-editor";
 
-export type DisplayMode = "all" | "billable" | "available" | "variance";
-
-const BILLABLE_TYPES: ProjectType[] = [ProjectType.BILLABLE, ProjectType.ASSIGNED];
+const ENTRY_TYPE_ABBREVIATIONS: Record<AllocationEntryType, string> = {
+  [AllocationEntryType.ACTUAL]: "A",
+  [AllocationEntryType.PROJECTED]: "P",
+  [AllocationEntryType.TENTATIVE]: "S",
+};
 
 interface AllocationDetail {
   projectId: string;
@@ -45,12 +49,14 @@ interface WeekCellProps {
   consultantName: string;
   week: string;
   details: AllocationDetail[];
-  standardHours: number;
+  standardHours: number; // capacity for the week, net of holidays
+  holidays?: string[];
   editable: boolean;
   displayMode: DisplayMode;
-  projects: Array<{ id: string; projectName: string; timecode: string | null }>;
+  projects: Array<{ id: string; projectName: string; timecode: string | null; winProbability?: number | null }>;
   roleDefinitions: Array<{ id: string; name: string; msrpRate: number }>;
   onSave?: (allocations: Array<{ projectId: string; projectedHours: number; actualHours: number; notes: string }>) => void;
+  scenarioId?: string;
 }
 
 function DiagonalLine({ className }: { className?: string }) {
@@ -95,11 +101,13 @@ export function WeekCell({
   week,
   details,
   standardHours,
+  holidays = [],
   editable,
   displayMode,
   projects,
   roleDefinitions,
   onSave,
+  scenarioId,
 }: WeekCellProps) {
   const [isEditing, setIsEditing] = useState(false);
 
@@ -122,6 +130,14 @@ export function WeekCell({
       .filter(d => d.entryType === AllocationEntryType.PROJECTED && BILLABLE_TYPES.includes(d.projectType))
       .reduce((sum, d) => sum + d.hours, 0);
 
+    // Soft bookings count at the project's win probability (none set = 0%)
+    const softBookings = details.filter(d => d.entryType === AllocationEntryType.TENTATIVE);
+    const softAll = softBookings.reduce((sum, d) => sum + d.hours, 0);
+    const weightedSoft = softBookings.reduce((sum, d) => {
+      const probability = projects.find(p => p.id === d.projectId)?.winProbability ?? 0;
+      return sum + d.hours * probability / 100;
+    }, 0);
+
     // Coloring: always based on billable+assigned vs standard hours
     const colorBasis = isPast ? billableActual : billableProjected;
     const ratio = standardHours > 0 ? colorBasis / standardHours : 0;
@@ -131,10 +147,26 @@ export function WeekCell({
       else if (ratio > 1.1) status = "over";
     }
 
-    return { actualAll, projectedAll, billableActual, billableProjected, status };
-  }, [details, standardHours, isPast]);
-
-  const { actualAll, projectedAll, billableActual, billableProjected, status } = computed;
+    return {
+      actualAll,
+      projectedAll,
+      billableActual,
+      billableProjected,
+      softAll,
+      weightedLoad: Math.round((projectedAll + weightedSoft) * 10) / 10,
+      status,
+    };
+  }, [details, standardHours, isPast, projects]);
+
+  const {
+    actualAll,
+    projectedAll,
+    billableActual,
+    billableProjected,
+    softAll,
+    weightedLoad,
+    status,
+  } = computed;
 
   // What the cell actually shows, per mode
   const displayTop = (() => {
@@ -143,10 +175,11 @@ export function WeekCell({
       ? standardHours - billableActual
       : standardHours - billableProjected;
     if (displayMode === "variance") return isPast ? actualAll - projectedAll : null;
-    return projectedAll; // "all"
+    return projectedAll; // "all" and "pipeline"
   })();
 
   const displayBottom = (() => {
+    if (displayMode === "pipeline") return weightedLoad;
     if (!isPast) return null;
     if (displayMode === "billable") return billableActual;
     if (displayMode === "available" || displayMode === "variance") return null; // single number
@@ -156,6 +189,9 @@ export function WeekCell({
   // For "available" and "variance" past weeks, use a single centered value
   const useSingleValue = displayMode === "available" || displayMode === "variance";
 
+  // Pipeline view splits every week into confirmed (top) and weighted (bottom) load
+  const useSplitValue = displayMode === "pipeline" || (isPast && !useSingleValue);
+
   const hasValue = isPast
     ? (actualAll > 0 || projectedAll > 0)
     : projectedAll > 0;
@@ -181,7 +217,7 @@ export function WeekCell({
             disabled={!editable}
             onClick={() => editable && setIsEditing(true)}
           >
-            {isPast && !useSingleValue ? (
+            {useSplitValue ? (
               <>
                 <DiagonalLine />
                 <span className="absolute top-0 left-1 text-xs leading-tight font-medium">
@@ -204,9 +240,15 @@ export function WeekCell({
               Week of {format(weekDate, "MMM d, yyyy")}
               {isPast && <span className="text-muted-foreground ml-1">(Past)</span>}
             </div>
+            {holidays.length > 0 && (
+              <div className="text-sm text-muted-foreground">Holiday: {holidays.join(", ")}</div>
+            )}
             <div className="text-sm space-y-1">
               <div>Projected: {projectedAll}h / {standardHours}h ({standardHours > 0 ? Math.round((projectedAll / standardHours) * 100) : 0}%)</div>
               {isPast && <div>Actual: {actualAll}h / {standardHours}h ({standardHours > 0 ? Math.round((actualAll / standardHours) * 100) : 0}%)</div>}
+              {softAll > 0 && (
+                <div>Soft: {softAll}h · weighted load {weightedLoad}h</div>
+              )}
               {(billableProjected !== projectedAll || billableActual !== actualAll) && (
                 <div className="text-muted-foreground">
                   Billable/Assigned proj: {billableProjected}h
@@ -220,7 +262,7 @@ export function WeekCell({
                   <div key={idx} className="text-sm">
                     <span className="font-medium">{detail.timecode}</span>: {detail.hours}h
                     <span className="text-muted-foreground text-xs ml-1">
-                      ({detail.entryType === AllocationEntryType.ACTUAL ? "A" : "P"})
+                      ({ENTRY_TYPE_ABBREVIATIONS[detail.entryType]})
                     </span>
                     {detail.notes && <span className="text-muted-foreground"> - {detail.notes}</span>}
                   </div>
@@ -246,6 +288,7 @@ export function WeekCell({
           projects={projects}
           roleDefinitions={roleDefinitions}
           onSave={onSave}
+          scenarioId={scenarioId}
         />
       )}
     </>
@@ -266,6 +309,7 @@ interface ProjectWeekCellProps {
   timecode: string | null;
   editable: boolean;
   onSave?: (projectedHours: number, actualHours: number, notes: string) => void;
+  scenarioId?: string;
 }
 
 function ProjectCellEditor({
@@ -281,6 +325,7 @@ function ProjectCellEditor({
   projectName,
   timecode,
   onSave,
+  scenarioId,
 }: {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -294,6 +339,7 @@ function ProjectCellEditor({
   projectName: string;
   timecode: string | null;
   onSave?: (projectedHours: number, actualHours: number, notes: string) => void;
+  scenarioId?: string;
 }) {
   const [isPending, startTransition] = useTransition();
   const [error, setError] = useState<string | null>(null);
@@ -305,6 +351,8 @@ function ProjectCellEditor({
   const currentWeekStart = startOfWeek(new Date(), { weekStartsOn: 0 });
   const isPast = isBefore(weekDate, currentWeekStart);
   const isFuture = isAfter(weekDate, currentWeekStart);
+  // Scenarios only plan projected hours; actuals always stay live
+  const showActuals = !isFuture && !scenarioId;
 
   useEffect(() => {
     if (open) {
@@ -322,12 +370,20 @@ function ProjectCellEditor({
     startTransition(async () => {
       try {
         if (projectedHours > 0) {
-          await updateAllocation(consultantId, week, projectId, projectedHours, AllocationEntryType.PROJECTED, notes || undefined);
+          if (scenarioId) {
+            await updateScenarioAllocation(scenarioId, consultantId, week, projectId, projectedHours, notes || undefined);
+          } else {
+            await updateAllocation(consultantId, week, projectId, projectedHours, AllocationEntryType.PROJECTED, notes || undefined);
+          }
         } else if (projected > 0) {
-          await deleteAllocation(consultantId, projectId, week, AllocationEntryType.PROJECTED);
+          if (scenarioId) {
+            await deleteScenarioAllocation(scenarioId, consultantId, projectId, week);
+          } else {
+            await deleteAllocation(consultantId, projectId, week, AllocationEntryType.PROJECTED);
+          }
         }
 
-        if (!isFuture) {
+        if (showActuals) {
           if (actualHours > 0) {
             await updateAllocation(consultantId, week, projectId, actualHours, AllocationEntryType.ACTUAL, notes || undefined);
           } else if (actual > 0) {
@@ -341,7 +397,7 @@ function ProjectCellEditor({
         setError(err instanceof Error ? err.message : "Failed to save");
       }
     });
-  }, [consultantId, week, projectId, projectedHours, actualHours, notes, projected, actual, isFuture, onOpenChange, onSave]);
+  }, [consultantId, week, projectId, projectedHours, actualHours, notes, projected, actual, showActuals, scenarioId, onOpenChange, onSave]);
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -377,7 +433,7 @@ function ProjectCellEditor({
               className={isPast ? "bg-muted" : ""}
             />
           </div>
-          {!isFuture && (
+          {showActuals && (
             <div className="space-y-1.5">
               <Label className="text-sm">Actual Hours</Label>
               <Input
@@ -429,6 +485,7 @@ export function ProjectWeekCell({
   timecode,
   editable,
   onSave,
+  scenarioId,
 }: ProjectWeekCellProps) {
   const [isEditing, setIsEditing] = useState(false);
   const weekDate = parseISO(week);
@@ -509,6 +566,7 @@ export function ProjectWeekCell({
           projectName={projectName}
           timecode={timecode}
           onSave={onSave}
+          scenarioId={scenarioId}
         />
       )}
     </>
@@ -0,0 +1,23 @@
+import { prisma } from "./prisma";
+import type { Session } from "next-auth";
+
+// Employees may touch only their own rows, managers only their direct reports'.
+export async function assertCanModifyAllocations(
+  session: Session,
+  consultantId: string,
+  verb: "edit" | "delete"
+) {
+  if (session.user.role === "EMPLOYEE" && session.user.consultantId !== consultantId) {
+    throw new Error(`You can only ${verb} your own allocations`);
+  }
+
+  if (session.user.role === "MANAGER") {
+    const target = await prisma.consultant.findUnique({
+      where: { id: consultantId },
+      select: { managerId: true },
+    });
+    if (target?.managerId !== session.user.consultantId) {
+      throw new Error(`You can only ${verb} allocations for your direct reports`);
+    }
+  }
+}
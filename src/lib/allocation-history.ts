@@ -0,0 +1,48 @@
+import { prisma } from "./prisma";
+import { AllocationChangeSource, AllocationEntryType, type Prisma } from "@prisma/client";
+
+export type AllocationChange = {
+  consultantId: string;
+  projectId: string;
+  weekStart: Date;
+  entryType: AllocationEntryType;
+  oldHours: number | null;
+  newHours: number | null;
+  oldNotes?: string | null;
+  newNotes?: string | null;
+  source: AllocationChangeSource;
+  changedById: string | null;
+};
+
+/** True when the change actually moves hours or notes (no-op saves are not logged). */
+export function isMeaningfulChange(change: AllocationChange): boolean {
+  return (
+    change.oldHours !== change.newHours ||
+    (change.oldNotes ?? null) !== (change.newNotes ?? null)
+  );
+}
+
+function toHistoryRow(change: AllocationChange) {
+  return {
+    consultantId: change.consultantId,
+    projectId: change.projectId,
+    weekStart: change.weekStart,
+    entryType: change.entryType,
+    oldHours: change.oldHours,
+    newHours: change.newHours,
+    oldNotes: change.oldNotes ?? null,
+    newNotes: change.newNotes ?? null,
+    source: change.source,
+    changedById: change.changedById,
+  };
+}
+
+/**
+ * Queries to log a change, for spreading into prisma.$transaction([...])
+ * next to the allocation write, or awaiting on an interactive transaction's
+ * client `db`. Empty when the change is a no-op.
+ */
+export function allocationHistoryWrites(change: AllocationChange, db: Prisma.TransactionClient = prisma) {
+  if (!isMeaningfulChange(change)) return [];
+  return [db.allocationHistory.create({ data: toHistoryRow(change) })];
+}
@@ -0,0 +1,75 @@
+import { BillingRateMode } from "@prisma/client";
+
+export type DatedRate = { rate: number; effectiveDate: Date };
+
+type RatedMember = {
+  billingRate: number | null;
+  rateChanges: DatedRate[];
+  roleDefinition: { msrpRate: number; rateChanges: DatedRate[] } | null;
+};
+
+/** Prisma include for the dated changes of a role or member rate. */
+export const RATE_CHANGES_SELECT = { select: { rate: true, effectiveDate: true } } as const;
+
+/**
+ * The rate in force on `date`: the latest change effective on or before it,
+ * or the starting rate when none has taken effect yet.
+ */
+export function rateOn<T extends number | null>(startingRate: T, changes: DatedRate[], date: Date): number | T {
+  let latest: DatedRate | null = null;
+  for (const change of changes) {
+    if (change.effectiveDate.getTime() > date.getTime()) continue;
+    if (!latest || change.effectiveDate.getTime() > latest.effectiveDate.getTime()) latest = change;
+  }
+  return latest ? latest.rate : startingRate;
+}
+
+export function currentRate<T extends number | null>(startingRate: T, changes: DatedRate[]): number | T {
+  return rateOn(startingRate, changes, new Date());
+}
+
+/** The earliest change that hasn't taken effect yet, if one is scheduled. */
+export function nextRateChange(changes: DatedRate[]): DatedRate | null {
+  const now = Date.now();
+  return changes
+    .filter((c) => c.effectiveDate.getTime() > now)
+    .reduce<DatedRate | null>((next, c) => (!next || c.effectiveDate < next.effectiveDate ? c : next), null);
+}
+
+/** Role MSRP rate in force during the week. */
+export function msrpRate(member: RatedMember | undefined, weekStart: Date): number {
+  const role = member?.roleDefinition;
+  return role ? rateOn(role.msrpRate, role.rateChanges, weekStart) : 0;
+}
+
+/** Role MSRP rate less the project's sales discount (a percentage). */
+export function msrpDiscountRate(
+  member: RatedMember | undefined,
+  salesDiscount: number | null,
+  weekStart: Date
+): number {
+  return msrpRate(member, weekStart) * (1 - (salesDiscount ?? 0) / 100);
+}
+
+/** The member's negotiated rate for the week; members without one aren't billed. */
+export function negotiatedRate(member: RatedMember | undefined, weekStart: Date): number {
+  if (!member || member.billingRate == null) return 0;
+  return rateOn(member.billingRate, member.rateChanges, weekStart);
+}
+
+/**
+ * Hourly value of a member's time in a given week under the project's
+ * billing-rate mode. Invoicing, project reports and budget totals all price
+ * hours through this so they agree with each other, and so a rate change only
+ * affects the weeks it was in force for.
+ */
+export function effectiveRate(
+  mode: BillingRateMode,
+  member: RatedMember | undefined,
+  salesDiscount: number | null,
+  weekStart: Date
+): number {
+  return mode === BillingRateMode.NEGOTIATED
+    ? negotiatedRate(member, weekStart)
+    : msrpDiscountRate(member, salesDiscount, weekStart);
+}
@@ -0,0 +1,97 @@
+import { prisma } from "./prisma";
+import { PTOStatus, ScheduleItemType } from "@prisma/client";
+import { subYears } from "date-fns";
+import { decrypt, decryptNullable } from "./encryption";
+import { buildIcsCalendar, type IcsEvent } from "./ics";
+import { hashToken } from "./totp";
+
+function formatDateUTC(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Resolves a raw feed token to its owner, recording when the feed was last
+ * fetched. Returns null for unknown or revoked tokens.
+ */
+export async function resolveCalendarFeedToken(rawToken: string) {
+  const record = await prisma.calendarFeedToken.findUnique({
+    where: { tokenHash: hashToken(rawToken) },
+    include: { user: { select: { id: true, consultantId: true } } },
+  });
+  if (!record) return null;
+
+  await prisma.calendarFeedToken.update({
+    where: { id: record.id },
+    data: { lastUsedAt: new Date() },
+  });
+  return record.user;
+}
+
+/**
+ * The ICS document for a user's feed: their own approved PTO, approved PTO
+ * of their direct reports, and milestones on projects they are a member of.
+ * Events ending more than a year ago are left out.
+ */
+export async function buildCalendarFeed(consultantId: string | null, host: string): Promise<string> {
+  if (!consultantId) return buildIcsCalendar("Time Off & Milestones", []);
+
+  const since = subYears(new Date(), 1);
+  const [ptoRequests, memberships] = await Promise.all([
+    prisma.pTORequest.findMany({
+      where: {
+        status: PTOStatus.APPROVED,
+        endDate: { gte: since },
+        OR: [{ consultantId }, { consultant: { managerId: consultantId } }],
+      },
+      include: {
+        consultant: { select: { name: true } },
+        leaveType: { select: { name: true } },
+      },
+      orderBy: { startDate: "asc" },
+    }),
+    prisma.projectMember.findMany({
+      where: { consultantId },
+      select: { projectId: true },
+    }),
+  ]);
+
+  const milestones = memberships.length === 0 ? [] : await prisma.projectScheduleItem.findMany({
+    where: {
+      projectId: { in: memberships.map(m => m.projectId) },
+      type: ScheduleItemType.MILESTONE,
+      OR: [{ endDate: { gte: since } }, { endDate: null, startDate: { gte: since } }],
+    },
+    include: { project: { select: { projectName: true, timecode: true } } },
+  });
+
+  const events: IcsEvent[] = ptoRequests.map(pto => {
+    const name = decrypt(pto.consultant.name);
+    const leave = pto.leaveType?.name ?? "PTO";
+    const own = pto.consultantId === consultantId;
+    return {
+      uid: `pto-${pto.id}@${host}`,
+      summary: own ? leave : `${name} – ${leave}`,
+      description: pto.allDay ? undefined : `${pto.startTime}–${pto.endTime} each day`,
+      startDate: formatDateUTC(pto.startDate),
+      endDate: formatDateUTC(pto.endDate),
+      startTime: pto.allDay ? null : pto.startTime,
+      endTime: pto.allDay ? null : pto.endTime,
+    };
+  });
+
+  for (const milestone of milestones) {
+    const date = milestone.endDate ?? milestone.startDate;
+    if (!date) continue;
+    const timecode = decryptNullable(milestone.project.timecode);
+    const projectName = decrypt(milestone.project.projectName);
+    events.push({
+      uid: `milestone-${milestone.id}@${host}`,
+      summary: `${decrypt(milestone.name)} (${timecode ?? projectName})`,
+      description: timecode ? `${timecode} - ${projectName}` : projectName,
+      startDate: formatDateUTC(date),
+      endDate: formatDateUTC(date),
+    });
+  }
+
+  return buildIcsCalendar("Time Off & Milestones", events);
+}
@@ -0,0 +1,119 @@
+import path from "path";
+import fs from "fs/promises";
+import { randomBytes } from "crypto";
+import nodemailer from "nodemailer";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = "GT Utilization Tracker <no-reply@localhost>";
+const SMTP_TIMEOUT_MS = 30_000;
+
+// ── SMTP ───────────────────────────────────────────────────────────────────────
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // implicit TLS (usually port 465); otherwise STARTTLS when offered
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+/**
+ * Sends through an SMTP server. With credentials, a connection that isn't
+ * implicit TLS must upgrade with STARTTLS, so they are never sent in the clear.
+ */
+export function smtpTransport(config: SmtpConfig): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    requireTLS: !config.secure && !!config.user,
+    auth: config.user ? { user: config.user, pass: config.password ?? "" } : undefined,
+    connectionTimeout: SMTP_TIMEOUT_MS,
+    greetingTimeout: SMTP_TIMEOUT_MS,
+    socketTimeout: SMTP_TIMEOUT_MS,
+  });
+
+  return {
+    async send(message) {
+      await transporter.sendMail({ from: config.from, ...message });
+    },
+  };
+}
+
+// ── Development transports ─────────────────────────────────────────────────────
+
+/** Writes each message to an .eml file in `dir`, for dev and test environments. */
+export function fileTransport(dir: string, from: string): EmailTransport {
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: "windows" });
+
+  return {
+    async send(message) {
+      const info = await transporter.sendMail({ from, ...message });
+      await fs.mkdir(dir, { recursive: true });
+      const name = `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomBytes(4).toString("hex")}.eml`;
+      await fs.writeFile(path.join(dir, name), info.message as Buffer);
+    },
+  };
+}
+
+/** Logs each message to stdout instead of sending it. */
+export function consoleTransport(): EmailTransport {
+  return {
+    async send(message) {
+      console.log(`[email] To: ${message.to}\n[email] Subject: ${message.subject}\n${message.text}\n`);
+    },
+  };
+}
+
+/** Drops every message, for deployments that only use the in-app inbox. */
+export function disabledTransport(): EmailTransport {
+  return {
+    async send() {},
+  };
+}
+
+/**
+ * The transport selected by EMAIL_TRANSPORT ("smtp", "file", "console" or
+ * "none"). Outside production it defaults to the console; production must
+ * choose one, so message contents are never logged by accident.
+ */
+export function getEmailTransport(): EmailTransport {
+  const from = process.env.EMAIL_FROM || DEFAULT_FROM;
+
+  switch (process.env.EMAIL_TRANSPORT) {
+    case "smtp": {
+      if (!process.env.SMTP_HOST) throw new Error("SMTP_HOST is not set");
+      const secure = process.env.SMTP_SECURE === "true";
+      return smtpTransport({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+        secure,
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+        from,
+      });
+    }
+    case "file":
+      return fileTransport(process.env.EMAIL_FILE_DIR || path.join(process.cwd(), ".emails"), from);
+    case "console":
+      return consoleTransport();
+    case "none":
+      return disabledTransport();
+    case undefined:
+    case "":
+      if (process.env.NODE_ENV === "production") throw new Error("EMAIL_TRANSPORT is not set");
+      return consoleTransport();
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${process.env.EMAIL_TRANSPORT}"`);
+  }
+}
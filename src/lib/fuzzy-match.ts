@@ -0,0 +1,83 @@
+export interface MatchCandidate {
+  id: string;
+  label: string;
+  /** Strings the candidate is known by (already decrypted) */
+  names: string[];
+}
+
+export interface MatchSuggestion {
+  id: string;
+  label: string;
+  score: number;
+}
+
+/** Lowercase and collapse whitespace: the form import aliases are stored and matched in. */
+export function normalizeAlias(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/** Lowercase, collapse whitespace, and turn "Last, First" into "first last". */
+export function normalizeName(value: string): string {
+  const collapsed = value.trim().toLowerCase().replace(/\s+/g, " ");
+  const commaIdx = collapsed.indexOf(",");
+  if (commaIdx === -1) return collapsed;
+  const last = collapsed.slice(0, commaIdx).trim();
+  const first = collapsed.slice(commaIdx + 1).trim();
+  return first ? `${first} ${last}` : last;
+}
+
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+/** 1 for identical strings down to 0 for completely different ones. */
+function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+  return 1 - editDistance(a, b) / longest;
+}
+
+/**
+ * Ranks candidates by how closely one of their names resembles the query.
+ * Word order is ignored so "Smith John" still finds "John Smith".
+ */
+export function suggestMatches(
+  query: string,
+  candidates: MatchCandidate[],
+  limit = 3,
+  minScore = 0.6
+): MatchSuggestion[] {
+  const normalized = normalizeName(query);
+  const sortedWords = normalized.split(" ").sort().join(" ");
+
+  return candidates
+    .map((candidate) => {
+      const score = Math.max(
+        0,
+        ...candidate.names.map((name) => {
+          const n = normalizeName(name);
+          return Math.max(
+            similarity(normalized, n),
+            similarity(sortedWords, n.split(" ").sort().join(" "))
+          );
+        })
+      );
+      return { id: candidate.id, label: candidate.label, score };
+    })
+    .filter((s) => s.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
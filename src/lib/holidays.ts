@@ -0,0 +1,50 @@
+import { prisma } from "./prisma";
+import { HolidayCalendar } from "@prisma/client";
+import { startOfWeek } from "date-fns";
+
+function formatDateUTC(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+function isWeekday(date: Date): boolean {
+  const day = date.getUTCDay();
+  return day !== 0 && day !== 6;
+}
+
+/** Weekday holiday dates (yyyy-MM-dd) on a calendar between two dates, inclusive. */
+export async function getHolidayDates(
+  calendar: HolidayCalendar,
+  start: Date,
+  end: Date
+): Promise<Set<string>> {
+  const holidays = await prisma.holiday.findMany({
+    where: { calendar, date: { gte: start, lte: end } },
+    select: { date: true },
+  });
+  return new Set(holidays.filter(h => isWeekday(h.date)).map(h => formatDateUTC(h.date)));
+}
+
+/**
+ * Weekday holiday names per calendar, keyed by the Sunday that starts their
+ * week, for every holiday between two dates.
+ */
+export async function getHolidaysByWeek(
+  start: Date,
+  end: Date
+): Promise<Record<HolidayCalendar, Record<string, string[]>>> {
+  const holidays = await prisma.holiday.findMany({
+    where: { date: { gte: start, lte: end } },
+    orderBy: { date: "asc" },
+  });
+
+  const byWeek: Record<HolidayCalendar, Record<string, string[]>> = {
+    [HolidayCalendar.US]: {},
+    [HolidayCalendar.CA]: {},
+  };
+  for (const holiday of holidays) {
+    if (!isWeekday(holiday.date)) continue;
+    const week = formatDateUTC(startOfWeek(holiday.date, { weekStartsOn: 0 }));
+    (byWeek[holiday.calendar][week] ??= []).push(holiday.name);
+  }
+  return byWeek;
+}
@@ -0,0 +1,86 @@
+import { addDays, format, parseISO } from "date-fns";
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  startDate: string; // yyyy-MM-dd
+  endDate: string; // yyyy-MM-dd, inclusive
+  startTime?: string | null; // HH:mm, floating local time
+  endTime?: string | null;
+}
+
+/** Escapes TEXT values per RFC 5545 §3.3.11. */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/** Folds a content line to 75 octets, continuing with a leading space. */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char);
+    if (currentBytes + bytes > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function compactDate(date: string): string {
+  return date.replace(/-/g, "");
+}
+
+function compactTime(time: string): string {
+  return time.replace(":", "") + "00";
+}
+
+/**
+ * Serializes events into an iCalendar document. Events with times on a
+ * single day become timed events; everything else is an all-day event
+ * spanning its dates (DTEND is exclusive, so one day past endDate).
+ */
+export function buildIcsCalendar(name: string, events: IcsEvent[]): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, "").split(".")[0] + "Z";
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//GT Utilization Tracker//Calendar Feed//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+
+  for (const event of events) {
+    lines.push("BEGIN:VEVENT", `UID:${event.uid}`, `DTSTAMP:${stamp}`);
+    if (event.startTime && event.endTime && event.startDate === event.endDate) {
+      lines.push(
+        `DTSTART:${compactDate(event.startDate)}T${compactTime(event.startTime)}`,
+        `DTEND:${compactDate(event.endDate)}T${compactTime(event.endTime)}`
+      );
+    } else {
+      const exclusiveEnd = format(addDays(parseISO(event.endDate), 1), "yyyyMMdd");
+      lines.push(
+        `DTSTART;VALUE=DATE:${compactDate(event.startDate)}`,
+        `DTEND;VALUE=DATE:${exclusiveEnd}`
+      );
+    }
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    lines.push("TRANSP:TRANSPARENT", "END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,37 @@
+import { prisma } from "./prisma";
+
+export interface ImportProfileConfig {
+  name: string;
+  projectHeader: string;
+  employeeHeader: string;
+  hoursHeader: string;
+  dateHeader: string | null;
+  projectCodeDelimiter: string | null;
+  dateFormat: string | null;
+}
+
+/** Layout of the NetSuite PM Report, used when no profile has been configured. */
+export const NETSUITE_PM_REPORT_PROFILE: ImportProfileConfig = {
+  name: "NetSuite PM Report",
+  projectHeader: "Customer/Job",
+  employeeHeader: "Employee",
+  hoursHeader: "Time",
+  dateHeader: "Date",
+  projectCodeDelimiter: " : ",
+  dateFormat: null,
+};
+
+/**
+ * Returns the requested profile, else the one marked default, else the
+ * built-in NetSuite layout.
+ */
+export async function loadImportProfile(profileId?: string | null): Promise<ImportProfileConfig> {
+  const profile = profileId
+    ? await prisma.importProfile.findUnique({ where: { id: profileId } })
+    : await prisma.importProfile.findFirst({ where: { isDefault: true } });
+
+  if (profileId && !profile) {
+    throw new Error("Import profile not found");
+  }
+  return profile ?? NETSUITE_PM_REPORT_PROFILE;
+}
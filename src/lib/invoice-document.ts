@@ -0,0 +1,99 @@
+import fs from "fs/promises";
+import path from "path";
+import { format, parseISO } from "date-fns";
+
+const INVOICE_NUMBER_PREFIX = "INV-";
+
+export type InvoiceLine = {
+  consultantName: string;
+  roleName: string | null;
+  weekStart: string; // YYYY-MM-DD
+  hours: number;
+  rate: number;
+  amount: number;
+};
+
+/** Everything printed on an invoice, frozen when it is issued. */
+export type InvoiceSnapshot = {
+  invoiceNumber: string;
+  issueDate: string; // YYYY-MM-DD
+  client: string;
+  projectName: string;
+  timecode: string | null;
+  periodStart: string; // YYYY-MM-DD
+  periodEnd: string; // YYYY-MM-DD
+  currency: string;
+  lines: InvoiceLine[];
+  totalHours: number;
+  subtotal: number;
+  discountPercent: number;
+  discountAmount: number;
+  total: number;
+};
+
+export function formatInvoiceNumber(sequence: number): string {
+  return `${INVOICE_NUMBER_PREFIX}${String(sequence).padStart(6, "0")}`;
+}
+
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#039;");
+}
+
+function formatDay(date: string): string {
+  return format(parseISO(date), "MMM d, yyyy");
+}
+
+function formatMoney(amount: number, currency: string): string {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency, minimumFractionDigits: 2 }).format(amount);
+}
+
+function formatHours(hours: number): string {
+  return (Math.round(hours * 100) / 100).toString();
+}
+
+/**
+ * Fills the branded invoice template. Every value is escaped, so the result
+ * can be served as-is.
+ */
+export async function renderInvoiceHtml(snapshot: InvoiceSnapshot): Promise<string> {
+  const template = await fs.readFile(
+    path.join(process.cwd(), "public", "report-templates", "invoice.html"),
+    "utf-8"
+  );
+  const money = (amount: number) => escapeHtml(formatMoney(amount, snapshot.currency));
+
+  const lines = snapshot.lines
+    .map((line) => `          <tr>
+            <td>${escapeHtml(formatDay(line.weekStart))}</td>
+            <td>${escapeHtml(line.consultantName)}${line.roleName ? `<div class="role">${escapeHtml(line.roleName)}</div>` : ""}</td>
+            <td class="num">${formatHours(line.hours)}</td>
+            <td class="num">${money(line.rate)}</td>
+            <td class="num">${money(line.amount)}</td>
+          </tr>`)
+    .join("\n");
+
+  const values: Record<string, string> = {
+    invoiceNumber: escapeHtml(snapshot.invoiceNumber),
+    client: escapeHtml(snapshot.client),
+    projectName: escapeHtml(snapshot.projectName),
+    timecode: snapshot.timecode ? ` (${escapeHtml(snapshot.timecode)})` : "",
+    issueDate: escapeHtml(formatDay(snapshot.issueDate)),
+    periodStart: escapeHtml(formatDay(snapshot.periodStart)),
+    periodEnd: escapeHtml(formatDay(snapshot.periodEnd)),
+    currency: escapeHtml(snapshot.currency),
+    lines,
+    totalHours: formatHours(snapshot.totalHours),
+    subtotal: money(snapshot.subtotal),
+    discountRow: snapshot.discountPercent
+      ? `<tr><td>Discount (${formatHours(snapshot.discountPercent)}%)</td><td class="num">−${money(snapshot.discountAmount)}</td></tr>`
+      : "",
+    total: money(snapshot.total),
+  };
+
+  return template.replace(/\{\{(\w+)\}\}/g, (match, key: string) => values[key] ?? match);
+}
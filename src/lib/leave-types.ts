@@ -0,0 +1,70 @@
+import { prisma } from "./prisma";
+import { ProjectType } from "@prisma/client";
+import { decrypt, encrypt } from "./encryption";
+import { PTO_TIMECODE } from "./pto";
+
+/** Project type that makes leave hours count (FILLER) or not (ASSIGNED) against utilization. */
+export function leaveProjectType(countsAgainstUtilization: boolean): ProjectType {
+  return countsAgainstUtilization ? ProjectType.FILLER : ProjectType.ASSIGNED;
+}
+
+/** Project with the given timecode. Timecodes are encrypted, so all projects are scanned. */
+export async function findProjectByTimecode(timecode: string) {
+  const projects = await prisma.project.findMany({
+    select: { id: true, timecode: true, type: true },
+  });
+  return projects.find((p) => {
+    try { return p.timecode && decrypt(p.timecode) === timecode; } catch { return false; }
+  }) ?? null;
+}
+
+/**
+ * Where a request's approved hours are booked and whether they debit the PTO
+ * balance. Requests without a leave type use the general PTO project, which
+ * is created on first use.
+ */
+export async function getLeaveBooking(
+  leaveTypeId: string | null
+): Promise<{ projectId: string; deductsFromBalance: boolean } | null> {
+  if (leaveTypeId) {
+    const leaveType = await prisma.leaveType.findUnique({
+      where: { id: leaveTypeId },
+      select: { projectId: true, deductsFromBalance: true },
+    });
+    return leaveType;
+  }
+
+  const ptoProject = await findProjectByTimecode(PTO_TIMECODE);
+  return ptoProject ? { projectId: ptoProject.id, deductsFromBalance: true } : null;
+}
+
+/** Same as getLeaveBooking, creating the general PTO project when it is missing. */
+export async function getOrCreateLeaveBooking(
+  leaveTypeId: string | null
+): Promise<{ projectId: string; deductsFromBalance: boolean }> {
+  const booking = await getLeaveBooking(leaveTypeId);
+  if (booking) return booking;
+  if (leaveTypeId) throw new Error("Leave type not found");
+
+  const ptoProject = await prisma.project.create({
+    data: {
+      client: encrypt("Internal"),
+      projectName: encrypt("PTO"),
+      timecode: encrypt(PTO_TIMECODE),
+      type: ProjectType.ASSIGNED,
+      status: "ACTIVE",
+    },
+  });
+  return { projectId: ptoProject.id, deductsFromBalance: true };
+}
+
+/** Ids of every project approved time off is booked to. */
+export async function getLeaveProjectIds(): Promise<string[]> {
+  const [ptoProject, leaveTypes] = await Promise.all([
+    findProjectByTimecode(PTO_TIMECODE),
+    prisma.leaveType.findMany({ select: { projectId: true } }),
+  ]);
+  const ids = new Set(leaveTypes.map((t) => t.projectId));
+  if (ptoProject) ids.add(ptoProject.id);
+  return [...ids];
+}
@@ -0,0 +1,315 @@
+import { prisma } from "./prisma";
+import { after } from "next/server";
+import { NotificationType, ProjectStatus } from "@prisma/client";
+import { addDays, format, parseISO, startOfDay } from "date-fns";
+import { decrypt, encrypt } from "./encryption";
+import { getEmailTransport } from "./email";
+
+export type Notification =
+  | {
+      type: typeof NotificationType.PTO_SUBMITTED;
+      ptoRequestId: string;
+      consultantName: string;
+      leaveType: string;
+      startDate: Date;
+      endDate: Date;
+    }
+  | {
+      type: typeof NotificationType.PTO_APPROVED | typeof NotificationType.PTO_DENIED;
+      ptoRequestId: string;
+      leaveType: string;
+      startDate: Date;
+      endDate: Date;
+      comment?: string | null;
+    }
+  | { type: typeof NotificationType.PASSWORD_RESET_REQUIRED }
+  | {
+      type: typeof NotificationType.PROJECT_REPORT_FINALIZED;
+      projectId: string;
+      projectName: string;
+      reportNumber: number;
+      periodStart: Date;
+      periodEnd: Date;
+    }
+  | {
+      type: typeof NotificationType.PROJECT_MEMBER_ADDED;
+      projectId: string;
+      projectName: string;
+    }
+  | { type: typeof NotificationType.FORECAST_CHANGED; changedBy: string }
+  | {
+      type: typeof NotificationType.REPORT_DUE;
+      projectId: string;
+      projectName: string;
+      periodStart: Date;
+      periodEnd: Date;
+    };
+
+export type RenderedNotification = { subject: string; body: string; link: string };
+
+function appUrl(pathname: string): string {
+  return new URL(pathname, process.env.AUTH_URL || "http://localhost:3000").toString();
+}
+
+/** Formats a @db.Date value without shifting it into the server's timezone. */
+function formatDay(date: Date): string {
+  return format(parseISO(date.toISOString().split("T")[0]), "MMM d, yyyy");
+}
+
+function withComment(text: string, comment: string | null | undefined): string {
+  return comment ? `${text} Comment: "${comment}"` : text;
+}
+
+function dateRange(start: Date, end: Date): string {
+  const from = formatDay(start);
+  const to = formatDay(end);
+  return from === to ? from : `${from} – ${to}`;
+}
+
+/** Subject, plain-text body and in-app link for a notification. */
+export function renderNotification(notification: Notification): RenderedNotification {
+  switch (notification.type) {
+    case NotificationType.PTO_SUBMITTED:
+      return {
+        subject: `${notification.consultantName} requested ${notification.leaveType}`,
+        body: `${notification.consultantName} requested ${notification.leaveType} for ${dateRange(notification.startDate, notification.endDate)}. The request is waiting for your approval.`,
+        link: "/pto",
+      };
+    case NotificationType.PTO_APPROVED:
+      return {
+        subject: `Your ${notification.leaveType} request was approved`,
+        body: withComment(
+          `Your ${notification.leaveType} request for ${dateRange(notification.startDate, notification.endDate)} was approved.`,
+          notification.comment
+        ),
+        link: "/pto",
+      };
+    case NotificationType.PTO_DENIED:
+      return {
+        subject: `Your ${notification.leaveType} request was denied`,
+        body: withComment(
+          `Your ${notification.leaveType} request for ${dateRange(notification.startDate, notification.endDate)} was denied.`,
+          notification.comment
+        ),
+        link: "/pto",
+      };
+    case NotificationType.PASSWORD_RESET_REQUIRED:
+      return {
+        subject: "Password reset required",
+        body: "An administrator has asked you to choose a new password. You will be prompted to set one the next time you sign in.",
+        link: "/force-reset",
+      };
+    case NotificationType.PROJECT_REPORT_FINALIZED:
+      return {
+        subject: `${notification.projectName}: report #${notification.reportNumber} finalized`,
+        body: `Report #${notification.reportNumber} for ${notification.projectName} covering ${dateRange(notification.periodStart, notification.periodEnd)} has been finalized.`,
+        link: `/projects/${notification.projectId}/report`,
+      };
+    case NotificationType.PROJECT_MEMBER_ADDED:
+      return {
+        subject: `You were added to ${notification.projectName}`,
+        body: `You are now a member of ${notification.projectName}.`,
+        link: `/projects/${notification.projectId}/schedule`,
+      };
+    case NotificationType.FORECAST_CHANGED:
+      return {
+        subject: "Your forecast was changed",
+        body: `${notification.changedBy} changed your projected hours.`,
+        link: "/utilization",
+      };
+    case NotificationType.REPORT_DUE:
+      return {
+        subject: `${notification.projectName}: status report due`,
+        body: `The status report for ${notification.projectName} covering ${dateRange(notification.periodStart, notification.periodEnd)} is due.`,
+        link: `/projects/${notification.projectId}/report`,
+      };
+  }
+}
+
+/**
+ * Adds a notification to each recipient's inbox and, once the response has
+ * been sent, emails those who haven't opted out of its type. The acting user is never notified of their own
+ * action. With a `dedupeKey`, recipients who already received a notification
+ * under that key are skipped. Failures are logged rather than thrown so they
+ * can't undo the change that caused them.
+ */
+export async function notify(
+  recipientIds: string[],
+  notification: Notification,
+  actorId?: string,
+  dedupeKey?: string
+): Promise<void> {
+  let ids = [...new Set(recipientIds)].filter(id => id !== actorId);
+  if (ids.length === 0) return;
+
+  try {
+    if (dedupeKey) {
+      const seen = await prisma.notification.findMany({
+        where: { userId: { in: ids }, dedupeKey },
+        select: { userId: true },
+      });
+      const seenIds = new Set(seen.map(n => n.userId));
+      ids = ids.filter(id => !seenIds.has(id));
+      if (ids.length === 0) return;
+    }
+
+    const { subject, body, link } = renderNotification(notification);
+    await prisma.notification.createMany({
+      data: ids.map(userId => ({
+        userId,
+        type: notification.type,
+        title: encrypt(subject),
+        body: encrypt(body),
+        link,
+        dedupeKey: dedupeKey ?? null,
+      })),
+      skipDuplicates: true,
+    });
+
+    const users = await prisma.user.findMany({
+      where: { id: { in: ids } },
+      select: {
+        email: true,
+        notificationPreferences: { where: { type: notification.type }, select: { email: true } },
+      },
+    });
+
+    const recipients = users.filter(user => user.notificationPreferences[0]?.email !== false);
+    if (recipients.length === 0) return;
+    const text = `${body}\n\n${appUrl(link)}\n\nYou can change which emails you receive on your profile page.`;
+
+    // Mail goes out after the response so a slow server can't hold up the action
+    after(async () => {
+      try {
+        const transport = getEmailTransport();
+        for (const user of recipients) {
+          try {
+            await transport.send({ to: user.email, subject, text });
+          } catch (err) {
+            console.error(`Failed to send ${notification.type} notification to ${user.email}:`, err);
+          }
+        }
+      } catch (err) {
+        console.error(`Failed to send ${notification.type} notification:`, err);
+      }
+    });
+  } catch (err) {
+    console.error(`Failed to send ${notification.type} notification:`, err);
+  }
+}
+
+/**
+ * Tells consultants someone else changed their projected hours. A user with
+ * an unread forecast notification has it moved to the top of their inbox
+ * instead of getting another one, so a burst of grid edits raises one alert.
+ */
+export async function notifyForecastChanged(
+  consultantIds: string[],
+  actor: { id: string; email: string }
+): Promise<void> {
+  try {
+    const userIds = (await userIdsForConsultants(consultantIds)).filter(id => id !== actor.id);
+    if (userIds.length === 0) return;
+
+    // The session's name is the stored (encrypted) consultant name
+    const actorUser = await prisma.user.findUnique({
+      where: { id: actor.id },
+      select: { consultant: { select: { name: true } } },
+    });
+    const changedBy = actorUser?.consultant ? decrypt(actorUser.consultant.name) : actor.email;
+
+    const unread = await prisma.notification.findMany({
+      where: { userId: { in: userIds }, type: NotificationType.FORECAST_CHANGED, readAt: null },
+      select: { id: true, userId: true },
+    });
+    if (unread.length > 0) {
+      await prisma.notification.updateMany({
+        where: { id: { in: unread.map(n => n.id) } },
+        data: { createdAt: new Date() },
+      });
+    }
+
+    const pending = new Set(unread.map(n => n.userId));
+    await notify(
+      userIds.filter(id => !pending.has(id)),
+      { type: NotificationType.FORECAST_CHANGED, changedBy },
+      actor.id
+    );
+  } catch (err) {
+    console.error("Failed to send forecast change notifications:", err);
+  }
+}
+
+/**
+ * Raises REPORT_DUE for active projects the user manages that already have
+ * weekly status reports: either the latest report's period has ended without
+ * it being finalized, or a week has passed since the last finalized period
+ * with no new report. Each period is only raised once.
+ *
+ * This runs while the dashboard renders, so it only fills the inbox (no
+ * email) and looks up and writes every due period in one query each.
+ */
+export async function syncReportDueNotifications(userId: string, consultantId: string | null): Promise<void> {
+  if (!consultantId) return;
+  const today = startOfDay(new Date());
+
+  try {
+    const projects = await prisma.project.findMany({
+      where: { projectManagerId: consultantId, status: ProjectStatus.ACTIVE, reports: { some: {} } },
+      select: {
+        id: true,
+        projectName: true,
+        reports: { orderBy: { reportNumber: "desc" }, take: 1, select: { periodStart: true, periodEnd: true, isFinalized: true } },
+      },
+    });
+
+    const due = projects.flatMap(project => {
+      const latest = project.reports[0];
+      const period = latest.isFinalized
+        ? { periodStart: addDays(latest.periodEnd, 1), periodEnd: addDays(latest.periodEnd, 7) }
+        : { periodStart: latest.periodStart, periodEnd: latest.periodEnd };
+      if (period.periodEnd >= today) return [];
+      return [{
+        dedupeKey: `report-due:${project.id}:${period.periodEnd.toISOString().split("T")[0]}`,
+        project,
+        period,
+      }];
+    });
+    if (due.length === 0) return;
+
+    const seen = new Set(
+      (await prisma.notification.findMany({
+        where: { userId, dedupeKey: { in: due.map(d => d.dedupeKey) } },
+        select: { dedupeKey: true },
+      })).map(n => n.dedupeKey)
+    );
+    const fresh = due.filter(d => !seen.has(d.dedupeKey));
+    if (fresh.length === 0) return;
+
+    await prisma.notification.createMany({
+      data: fresh.map(({ dedupeKey, project, period }) => {
+        const { subject, body, link } = renderNotification({
+          type: NotificationType.REPORT_DUE,
+          projectId: project.id,
+          projectName: decrypt(project.projectName),
+          ...period,
+        });
+        return { userId, type: NotificationType.REPORT_DUE, title: encrypt(subject), body: encrypt(body), link, dedupeKey };
+      }),
+      skipDuplicates: true,
+    });
+  } catch (err) {
+    console.error("Failed to raise report-due notifications:", err);
+  }
+}
+
+/** Users linked to the given consultants. */
+export async function userIdsForConsultants(consultantIds: Array<string | null | undefined>): Promise<string[]> {
+  const ids = consultantIds.filter((id): id is string => !!id);
+  if (ids.length === 0) return [];
+  const users = await prisma.user.findMany({
+    where: { consultantId: { in: ids } },
+    select: { id: true },
+  });
+  return users.map(u => u.id);
+}
@@ -0,0 +1,259 @@
+import { prisma } from "./prisma";
+import {
+  ApprovalDecision,
+  ApprovalStepApprover,
+  PTOStatus,
+  UserRole,
+  type GroupLead,
+  type GroupType,
+  type PTOApprovalLevel,
+  type PTORequest,
+} from "@prisma/client";
+import { eachDayOfInterval, startOfDay } from "date-fns";
+
+export type ApprovalChainStep = {
+  level: number;
+  approver: ApprovalStepApprover;
+  approverConsultantId: string | null; // null: any admin approves this step
+};
+
+export type PendingApproval = {
+  step: ApprovalChainStep;
+  index: number; // zero-based position of `step` in the chain
+  total: number;
+};
+
+type Approver = { userId: string; role: UserRole; consultantId: string | null };
+
+/** Weekdays between two @db.Date values, inclusive. */
+function weekdayCount(startDate: Date, endDate: Date): number {
+  return eachDayOfInterval({ start: startDate, end: endDate })
+    .filter(d => d.getUTCDay() !== 0 && d.getUTCDay() !== 6).length;
+}
+
+type ChainInputs = {
+  levels: Pick<PTOApprovalLevel, "level" | "approver" | "minDays">[];
+  consultant: { managerId: string | null; groups: { group: GroupType }[] } | null;
+  groupLeads: Pick<GroupLead, "group" | "consultantId">[]; // ordered by group
+};
+
+/**
+ * The approval steps a request has to pass, in order. Levels with a
+ * `minDays` threshold only apply to longer requests; when no level applies
+ * the direct manager approves, as before chains existed. A manager or group
+ * lead who can't be resolved (or is the requester) leaves the step to
+ * admins, and a repeat of an approver earlier in the chain is dropped.
+ */
+function buildApprovalChain(
+  pto: Pick<PTORequest, "consultantId" | "startDate" | "endDate">,
+  { levels, consultant, groupLeads }: ChainInputs
+): ApprovalChainStep[] {
+  const days = weekdayCount(pto.startDate, pto.endDate);
+  const matching = levels.filter(l => days > l.minDays);
+  const applicable = matching.length > 0
+    ? matching
+    : [{ level: 1, approver: ApprovalStepApprover.DIRECT_MANAGER, minDays: 0 }];
+
+  const groups = new Set(consultant?.groups.map(g => g.group) ?? []);
+  const groupLeadId = groupLeads
+    .find(l => groups.has(l.group) && l.consultantId !== pto.consultantId)?.consultantId ?? null;
+
+  const chain: ApprovalChainStep[] = [];
+  for (const level of applicable) {
+    const approverConsultantId =
+      level.approver === ApprovalStepApprover.DIRECT_MANAGER ? consultant?.managerId ?? null
+      : level.approver === ApprovalStepApprover.GROUP_LEAD ? groupLeadId
+      : null;
+    if (approverConsultantId && chain.some(s => s.approverConsultantId === approverConsultantId)) continue;
+    chain.push({ level: level.level, approver: level.approver, approverConsultantId });
+  }
+  return chain;
+}
+
+export async function resolveApprovalChain(
+  pto: Pick<PTORequest, "consultantId" | "startDate" | "endDate">
+): Promise<ApprovalChainStep[]> {
+  const [levels, consultant] = await Promise.all([
+    prisma.pTOApprovalLevel.findMany({ orderBy: { level: "asc" } }),
+    prisma.consultant.findUnique({
+      where: { id: pto.consultantId },
+      select: { managerId: true, groups: { select: { group: true } } },
+    }),
+  ]);
+  const groupLeads = consultant?.groups.length
+    ? await prisma.groupLead.findMany({
+        where: { group: { in: consultant.groups.map(g => g.group) } },
+        orderBy: { group: "asc" },
+      })
+    : [];
+  return buildApprovalChain(pto, { levels, consultant, groupLeads });
+}
+
+/**
+ * The step a pending request is waiting on, or null when every step has been
+ * approved.
+ */
+export async function getPendingApproval(
+  pto: Pick<PTORequest, "id" | "consultantId" | "startDate" | "endDate">
+): Promise<PendingApproval | null> {
+  const [chain, approvals] = await Promise.all([
+    resolveApprovalChain(pto),
+    prisma.pTOApprovalStep.count({
+      where: { ptoRequestId: pto.id, decision: ApprovalDecision.APPROVED },
+    }),
+  ]);
+  if (approvals >= chain.length) return null;
+  return { step: chain[approvals], index: approvals, total: chain.length };
+}
+
+/**
+ * The pending step of each request, and whether `user` can decide it, for
+ * listing many requests at once. The chain inputs, approval counts and the
+ * user's delegations are loaded once and resolved in memory. Requests with
+ * every step approved are left out.
+ */
+export async function getPendingApprovals(
+  ptos: Array<Pick<PTORequest, "id" | "consultantId" | "startDate" | "endDate">>,
+  user: Approver
+): Promise<Map<string, PendingApproval & { canDecide: boolean }>> {
+  const result = new Map<string, PendingApproval & { canDecide: boolean }>();
+  if (ptos.length === 0) return result;
+
+  const [levels, consultants, groupLeads, approvalCounts, delegatorIds] = await Promise.all([
+    prisma.pTOApprovalLevel.findMany({ orderBy: { level: "asc" } }),
+    prisma.consultant.findMany({
+      where: { id: { in: [...new Set(ptos.map(p => p.consultantId))] } },
+      select: { id: true, managerId: true, groups: { select: { group: true } } },
+    }),
+    prisma.groupLead.findMany({ orderBy: { group: "asc" } }),
+    prisma.pTOApprovalStep.groupBy({
+      by: ["ptoRequestId"],
+      where: { ptoRequestId: { in: ptos.map(p => p.id) }, decision: ApprovalDecision.APPROVED },
+      _count: { _all: true },
+    }),
+    user.consultantId ? getActiveDelegators(user.consultantId) : Promise.resolve([]),
+  ]);
+  const consultantById = new Map(consultants.map(c => [c.id, c]));
+  const approvalsByRequest = new Map(approvalCounts.map(c => [c.ptoRequestId, c._count._all]));
+  const delegators = new Set(delegatorIds);
+
+  for (const pto of ptos) {
+    const chain = buildApprovalChain(pto, {
+      levels,
+      consultant: consultantById.get(pto.consultantId) ?? null,
+      groupLeads,
+    });
+    const approvals = approvalsByRequest.get(pto.id) ?? 0;
+    if (approvals >= chain.length) continue;
+
+    // Same rules as authorizeApprovalStep
+    const step = chain[approvals];
+    const approverId = step.approverConsultantId;
+    const canDecide = user.role === UserRole.ADMIN ||
+      (!!approverId && (approverId === user.consultantId || delegators.has(approverId)));
+    result.set(pto.id, { step, index: approvals, total: chain.length, canDecide });
+  }
+  return result;
+}
+
+/** Consultants who have delegated their approvals to `consultantId` today. */
+export async function getActiveDelegators(consultantId: string): Promise<string[]> {
+  const today = startOfDay(new Date());
+  const delegations = await prisma.approvalDelegation.findMany({
+    where: { delegateId: consultantId, startDate: { lte: today }, endDate: { gte: today } },
+    select: { delegatorId: true },
+  });
+  return delegations.map(d => d.delegatorId);
+}
+
+/**
+ * Whether a user may decide a step, and on whose behalf: admins decide any
+ * step themselves, the step's approver decides their own, and an active
+ * delegate decides for the approver. Returns null when the user can't act.
+ */
+export async function authorizeApprovalStep(
+  user: Approver,
+  step: ApprovalChainStep
+): Promise<{ onBehalfOfId: string | null } | null> {
+  if (user.consultantId && step.approverConsultantId === user.consultantId) {
+    return { onBehalfOfId: null };
+  }
+  if (user.consultantId && step.approverConsultantId) {
+    const delegators = await getActiveDelegators(user.consultantId);
+    if (delegators.includes(step.approverConsultantId)) {
+      return { onBehalfOfId: step.approverConsultantId };
+    }
+  }
+  if (user.role === UserRole.ADMIN) return { onBehalfOfId: null };
+  return null;
+}
+
+/** Users who can decide a step: the approver and their active delegates, or every admin. */
+export async function getStepApproverUserIds(step: ApprovalChainStep): Promise<string[]> {
+  if (!step.approverConsultantId) {
+    const admins = await prisma.user.findMany({ where: { role: UserRole.ADMIN }, select: { id: true } });
+    return admins.map(a => a.id);
+  }
+
+  const today = startOfDay(new Date());
+  const users = await prisma.user.findMany({
+    where: {
+      consultant: {
+        OR: [
+          { id: step.approverConsultantId },
+          {
+            delegationsReceived: {
+              some: { delegatorId: step.approverConsultantId, startDate: { lte: today }, endDate: { gte: today } },
+            },
+          },
+        ],
+      },
+    },
+    select: { id: true },
+  });
+  return users.map(u => u.id);
+}
+
+/**
+ * Pending requests outside a user's usual view (direct reports) that are
+ * currently waiting on them as group lead, delegate or chain approver.
+ */
+export async function getActionablePTORequestIds(user: Approver): Promise<string[]> {
+  if (!user.consultantId) return [];
+  const consultantId = user.consultantId;
+
+  // Everything the chains need is loaded up front and resolved in memory;
+  // this runs on every dashboard render
+  const pending = await prisma.pTORequest.findMany({
+    where: { status: PTOStatus.PENDING, consultantId: { not: consultantId } },
+    select: {
+      id: true,
+      consultantId: true,
+      startDate: true,
+      endDate: true,
+      consultant: { select: { managerId: true, groups: { select: { group: true } } } },
+    },
+  });
+  if (pending.length === 0) return [];
+
+  const [levels, groupLeads, approvalCounts, delegatorIds] = await Promise.all([
+    prisma.pTOApprovalLevel.findMany({ orderBy: { level: "asc" } }),
+    prisma.groupLead.findMany({ orderBy: { group: "asc" } }),
+    prisma.pTOApprovalStep.groupBy({
+      by: ["ptoRequestId"],
+      where: { ptoRequestId: { in: pending.map(p => p.id) }, decision: ApprovalDecision.APPROVED },
+      _count: { _all: true },
+    }),
+    getActiveDelegators(consultantId),
+  ]);
+  const approvalsByRequest = new Map(approvalCounts.map(c => [c.ptoRequestId, c._count._all]));
+  const delegators = new Set(delegatorIds);
+
+  return pending
+    .filter(pto => {
+      const chain = buildApprovalChain(pto, { levels, consultant: pto.consultant, groupLeads });
+      const approverId = chain[approvalsByRequest.get(pto.id) ?? 0]?.approverConsultantId;
+      return !!approverId && (approverId === consultantId || delegators.has(approverId));
+    })
+    .map(pto => pto.id);
+}
@@ -0,0 +1,163 @@
+import { prisma } from "./prisma";
+import { HolidayCalendar, PTOLedgerEntryType } from "@prisma/client";
+import { addDays } from "date-fns";
+import { ptoWeeklyHours } from "./pto";
+import { getHolidayDates } from "./holidays";
+
+function utcDate(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month, day));
+}
+
+function todayUTC(): Date {
+  const now = new Date();
+  return utcDate(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+}
+
+/**
+ * Pay period end dates after `after` up to and including `through`.
+ * Weekly and biweekly periods count from the accrual anchor; semi-monthly
+ * periods end on the 15th and last day of the month, monthly on the last day.
+ */
+export function payPeriodEnds(
+  payPeriodsPerYear: number,
+  anchor: Date,
+  after: Date,
+  through: Date
+): Date[] {
+  const ends: Date[] = [];
+
+  if (payPeriodsPerYear === 26 || payPeriodsPerYear === 52) {
+    const step = payPeriodsPerYear === 26 ? 14 : 7;
+    const elapsed = Math.floor((after.getTime() - anchor.getTime()) / 86_400_000);
+    let end = addDays(anchor, (Math.floor(Math.max(elapsed, 0) / step) + 1) * step);
+    while (end <= through) {
+      ends.push(end);
+      end = addDays(end, step);
+    }
+    return ends;
+  }
+
+  let month = utcDate(after.getUTCFullYear(), after.getUTCMonth(), 1);
+  while (month <= through) {
+    const year = month.getUTCFullYear();
+    const index = month.getUTCMonth();
+    const candidates = payPeriodsPerYear === 24
+      ? [utcDate(year, index, 15), utcDate(year, index + 1, 0)]
+      : [utcDate(year, index + 1, 0)];
+    ends.push(...candidates.filter(d => d > after && d <= through));
+    month = utcDate(year, index + 1, 1);
+  }
+  return ends;
+}
+
+/**
+ * Posts the accruals and year-end carryover forfeits a consultant has earned
+ * since the ledger was last synced. Accruals are posted lazily, whenever a
+ * balance is read, rather than by a scheduled job.
+ */
+export async function syncPTOAccruals(consultantId: string): Promise<void> {
+  const consultant = await prisma.consultant.findUnique({
+    where: { id: consultantId },
+    select: { ptoPolicy: true, ptoAccrualStart: true, ptoAccruedThrough: true },
+  });
+  if (!consultant?.ptoPolicy || !consultant.ptoAccrualStart) return;
+
+  const policy = consultant.ptoPolicy;
+  const today = todayUTC();
+  const from = consultant.ptoAccruedThrough ?? consultant.ptoAccrualStart;
+  if (from >= today) return;
+
+  const ledger = await prisma.pTOLedgerEntry.findMany({
+    where: { consultantId },
+    select: { type: true, hours: true, effectiveDate: true },
+  });
+
+  const events: Array<{ date: Date; rollover: boolean }> = [
+    ...payPeriodEnds(policy.payPeriodsPerYear, consultant.ptoAccrualStart, from, today)
+      .map(date => ({ date, rollover: false })),
+  ];
+  for (let year = from.getUTCFullYear() + 1; year <= today.getUTCFullYear(); year++) {
+    events.push({ date: utcDate(year, 0, 1), rollover: true });
+  }
+  // Year-end forfeits run before an accrual that lands on January 1st
+  events.sort((a, b) => a.date.getTime() - b.date.getTime() || Number(b.rollover) - Number(a.rollover));
+
+  const posted: Array<{ type: PTOLedgerEntryType; hours: number; effectiveDate: Date; note: string }> = [];
+  const entries = () => [...ledger, ...posted];
+
+  for (const { date, rollover } of events) {
+    if (rollover) {
+      if (policy.carryoverLimit === null) continue;
+      const balance = entries()
+        .filter(e => e.effectiveDate < date)
+        .reduce((sum, e) => sum + e.hours, 0);
+      if (balance > policy.carryoverLimit) {
+        posted.push({
+          type: PTOLedgerEntryType.CARRYOVER_FORFEIT,
+          hours: -(balance - policy.carryoverLimit),
+          effectiveDate: date,
+          note: `Balance above ${policy.carryoverLimit}h carryover limit`,
+        });
+      }
+      continue;
+    }
+
+    let hours = policy.hoursPerPeriod;
+    if (policy.annualCap !== null) {
+      const accruedThisYear = entries()
+        .filter(e => e.type === PTOLedgerEntryType.ACCRUAL && e.effectiveDate.getUTCFullYear() === date.getUTCFullYear())
+        .reduce((sum, e) => sum + e.hours, 0);
+      hours = Math.min(hours, policy.annualCap - accruedThisYear);
+    }
+    if (hours > 0) {
+      posted.push({
+        type: PTOLedgerEntryType.ACCRUAL,
+        hours,
+        effectiveDate: date,
+        note: policy.name,
+      });
+    }
+  }
+
+  // Balance reads run this concurrently: only the sync that moves the
+  // watermark from the value it read posts its entries, so the same period
+  // is never credited twice
+  await prisma.$transaction(async (tx) => {
+    const claimed = await tx.consultant.updateMany({
+      where: { id: consultantId, ptoAccruedThrough: consultant.ptoAccruedThrough },
+      data: { ptoAccruedThrough: today },
+    });
+    if (claimed.count === 0 || posted.length === 0) return;
+    await tx.pTOLedgerEntry.createMany({
+      data: posted.map(entry => ({ ...entry, consultantId })),
+    });
+  });
+}
+
+/**
+ * Current PTO balance in hours after syncing accruals, or null when the
+ * consultant has no accrual policy (balances are not tracked for them).
+ */
+export async function getPTOBalance(consultantId: string): Promise<number | null> {
+  const consultant = await prisma.consultant.findUnique({
+    where: { id: consultantId },
+    select: { ptoPolicyId: true },
+  });
+  if (!consultant?.ptoPolicyId) return null;
+
+  await syncPTOAccruals(consultantId);
+  const { _sum } = await prisma.pTOLedgerEntry.aggregate({
+    where: { consultantId },
+    _sum: { hours: true },
+  });
+  return _sum.hours ?? 0;
+}
+
+/** Hours a PTO request charges, skipping weekends and the consultant's holidays. */
+export async function getPTORequestHours(
+  pto: Parameters<typeof ptoWeeklyHours>[0],
+  calendar: HolidayCalendar
+): Promise<number> {
+  const holidays = await getHolidayDates(calendar, pto.startDate, pto.endDate);
+  return ptoWeeklyHours(pto, holidays).reduce((sum, week) => sum + week.hours, 0);
+}
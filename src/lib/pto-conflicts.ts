@@ -0,0 +1,136 @@
+import { prisma } from "./prisma";
+import { AllocationEntryType, ScheduleItemType, type Consultant, type PTORequest } from "@prisma/client";
+import { addDays, startOfWeek } from "date-fns";
+import { decrypt, decryptNullable } from "./encryption";
+import { ptoWeeklyHours } from "./pto";
+import { getHolidayDates } from "./holidays";
+import { getLeaveProjectIds } from "./leave-types";
+import { getWeeklyCapacity } from "./utils";
+
+function formatDateUTC(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+export type PTOConflictReport = {
+  weeks: Array<{
+    weekStart: string;
+    ptoHours: number;
+    capacity: number;
+    bookedHours: number; // projected work plus time off already booked
+    reduction: number; // projected work hours removed when approving with reduction
+  }>;
+  conflicts: Array<{
+    projectId: string;
+    projectName: string;
+    timecode: string | null;
+    hours: number;
+    weeks: Array<{ weekStart: string; hours: number }>;
+    milestones: Array<{ name: string; date: string }>;
+  }>;
+};
+
+export type PTOConflictAnalysis = {
+  report: PTOConflictReport;
+  reductions: Array<{
+    id: string;
+    projectId: string;
+    weekStart: Date;
+    hours: number;
+    notes: string | null;
+    newHours: number;
+  }>;
+};
+
+/**
+ * Projected project work in the weeks a PTO request covers, the milestones
+ * that fall inside it, and how much of that work would have to come off for
+ * each week to stay within capacity once the PTO is booked. A week is never
+ * reduced by more than the PTO hours it gains.
+ */
+export async function analyzePTOConflicts(
+  pto: PTORequest & { consultant: Consultant }
+): Promise<PTOConflictAnalysis> {
+  const holidays = await getHolidayDates(pto.consultant.holidayCalendar, pto.startDate, pto.endDate);
+  const ptoWeeks = ptoWeeklyHours(pto, holidays)
+    .filter(w => w.hours > 0)
+    .map(w => ({ weekStart: startOfWeek(w.weekStart, { weekStartsOn: 0 }), hours: w.hours }));
+  if (ptoWeeks.length === 0) return { report: { weeks: [], conflicts: [] }, reductions: [] };
+
+  const leaveProjectIds = new Set(await getLeaveProjectIds());
+  const allocations = await prisma.allocation.findMany({
+    where: {
+      consultantId: pto.consultantId,
+      entryType: AllocationEntryType.PROJECTED,
+      weekStart: { in: ptoWeeks.map(w => w.weekStart) },
+    },
+    include: { project: { select: { projectName: true, timecode: true } } },
+  });
+  const work = allocations.filter(a => !leaveProjectIds.has(a.projectId) && a.hours > 0);
+
+  const projectIds = [...new Set(work.map(a => a.projectId))];
+  const milestones = projectIds.length === 0 ? [] : await prisma.projectScheduleItem.findMany({
+    where: {
+      projectId: { in: projectIds },
+      type: ScheduleItemType.MILESTONE,
+      OR: [
+        { endDate: { gte: pto.startDate, lte: pto.endDate } },
+        { endDate: null, startDate: { gte: pto.startDate, lte: pto.endDate } },
+      ],
+    },
+    select: { projectId: true, name: true, startDate: true, endDate: true },
+  });
+
+  const reductions: PTOConflictAnalysis["reductions"] = [];
+  const weeks = ptoWeeks.map(({ weekStart, hours: ptoHours }) => {
+    const key = formatDateUTC(weekStart);
+    const weekAllocations = allocations.filter(a => formatDateUTC(a.weekStart) === key);
+    const weekWork = work.filter(a => formatDateUTC(a.weekStart) === key);
+    const workHours = weekWork.reduce((sum, a) => sum + a.hours, 0);
+    const bookedHours = weekAllocations.reduce((sum, a) => sum + a.hours, 0);
+
+    const weekEnd = addDays(weekStart, 6);
+    const holidayCount = [...holidays].filter(d => d >= key && d <= formatDateUTC(weekEnd)).length;
+    const capacity = getWeeklyCapacity(pto.consultant.standardHours, holidayCount);
+    const reduction = Math.min(ptoHours, workHours, Math.max(0, bookedHours + ptoHours - capacity));
+
+    // Spread the reduction over the week's projects in proportion to their hours
+    let remaining = reduction;
+    weekWork.forEach((a, i) => {
+      const cut = i === weekWork.length - 1
+        ? remaining
+        : Math.min(remaining, Math.round((reduction * a.hours / workHours) * 100) / 100);
+      remaining -= cut;
+      if (cut > 0) {
+        reductions.push({
+          id: a.id,
+          projectId: a.projectId,
+          weekStart: a.weekStart,
+          hours: a.hours,
+          notes: a.notes,
+          newHours: Math.max(0, Math.round((a.hours - cut) * 100) / 100),
+        });
+      }
+    });
+
+    return { weekStart: key, ptoHours, capacity, bookedHours, reduction };
+  });
+
+  const conflicts = projectIds.map(projectId => {
+    const projectWork = work.filter(a => a.projectId === projectId);
+    const { project } = projectWork[0];
+    return {
+      projectId,
+      projectName: decrypt(project.projectName),
+      timecode: decryptNullable(project.timecode),
+      hours: projectWork.reduce((sum, a) => sum + a.hours, 0),
+      weeks: projectWork
+        .map(a => ({ weekStart: formatDateUTC(a.weekStart), hours: a.hours }))
+        .sort((a, b) => a.weekStart.localeCompare(b.weekStart)),
+      milestones: milestones
+        .filter(m => m.projectId === projectId)
+        .map(m => ({ name: decrypt(m.name), date: formatDateUTC((m.endDate ?? m.startDate)!) })),
+    };
+  }).sort((a, b) => b.hours - a.hours);
+
+  return { report: { weeks, conflicts }, reductions };
+}
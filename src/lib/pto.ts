@@ -0,0 +1,54 @@
+import { addDays, eachWeekOfInterval, startOfWeek } from "date-fns";
+
+/** Timecode of the internal project that approved PTO is booked against. */
+export const PTO_TIMECODE = "INT-PTO-001";
+
+interface PTOTimeRange {
+  startDate: Date;
+  endDate: Date;
+  allDay: boolean;
+  startTime: string | null;
+  endTime: string | null;
+}
+
+/** Hours taken per weekday: 8 for all-day PTO, otherwise the HH:mm time range. */
+export function ptoHoursPerDay(pto: PTOTimeRange): number {
+  if (!pto.allDay && pto.startTime && pto.endTime) {
+    const [startHour, startMin] = pto.startTime.split(":").map(Number);
+    const [endHour, endMin] = pto.endTime.split(":").map(Number);
+    return endHour - startHour + (endMin - startMin) / 60;
+  }
+  return 8;
+}
+
+/**
+ * Splits a PTO request into Sunday-start weeks with the hours it takes in
+ * each, counting weekdays only. Dates in `holidays` (yyyy-MM-dd) are skipped.
+ */
+export function ptoWeeklyHours(
+  pto: PTOTimeRange,
+  holidays: ReadonlySet<string> = new Set()
+): Array<{ weekStart: Date; hours: number }> {
+  const hoursPerDay = ptoHoursPerDay(pto);
+
+  return eachWeekOfInterval(
+    { start: pto.startDate, end: pto.endDate },
+    { weekStartsOn: 0 }
+  ).map((week) => {
+    const weekStart = startOfWeek(week, { weekStartsOn: 0 });
+    const weekEnd = addDays(weekStart, 6);
+    let weekDays = 0;
+    let checkDate = new Date(Math.max(weekStart.getTime(), pto.startDate.getTime()));
+    const weekEndDate = new Date(Math.min(weekEnd.getTime(), pto.endDate.getTime()));
+
+    while (checkDate <= weekEndDate) {
+      const dayOfWeek = checkDate.getDay();
+      if (dayOfWeek !== 0 && dayOfWeek !== 6 && !holidays.has(checkDate.toISOString().split("T")[0])) {
+        weekDays++;
+      }
+      checkDate = addDays(checkDate, 1);
+    }
+
+    return { weekStart, hours: weekDays * hoursPerDay };
+  });
+}
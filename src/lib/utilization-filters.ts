@@ -0,0 +1,62 @@
+import { ProjectType } from "@prisma/client";
+import type { UtilizationData } from "@/app/actions/utilization";
+
+export type DisplayMode = "all" | "billable" | "available" | "variance" | "pipeline";
+
+export const BILLABLE_TYPES: ProjectType[] = [ProjectType.BILLABLE, ProjectType.ASSIGNED];
+
+export interface GridFilterState {
+  role: string;
+  group: string;
+  search: string;
+  projects: string[]; // timecodes
+}
+
+/**
+ * Consultants matching the grid filters, sorted by first group, then manager,
+ * then name.
+ */
+export function filterConsultants(data: UtilizationData, filters: GridFilterState) {
+  const filtered = data.consultants.filter((consultant) => {
+    if (filters.role !== "all" && !consultant.roles.includes(filters.role)) {
+      return false;
+    }
+    if (filters.group !== "all" && !consultant.groups.includes(filters.group)) {
+      return false;
+    }
+    if (filters.search && !consultant.name.toLowerCase().includes(filters.search.toLowerCase())) {
+      return false;
+    }
+    if (filters.projects.length > 0) {
+      const consultantProjects = data.consultantProjects[consultant.id] || [];
+      if (!consultantProjects.some(p => p.timecode && filters.projects.includes(p.timecode))) {
+        return false;
+      }
+    }
+    return true;
+  });
+
+  return filtered.sort((a, b) => {
+    const groupA = [...a.groups].sort()[0] ?? "";
+    const groupB = [...b.groups].sort()[0] ?? "";
+    if (groupA !== groupB) return groupA.localeCompare(groupB);
+
+    const managerA = a.managerName ?? "";
+    const managerB = b.managerName ?? "";
+    if (managerA !== managerB) return managerA.localeCompare(managerB);
+
+    return a.name.localeCompare(b.name);
+  });
+}
+
+/** A consultant's projects, narrowed to the project filter when one is set. */
+export function filterConsultantProjects(
+  data: UtilizationData,
+  consultantId: string,
+  projectFilter: string[]
+) {
+  const projects = data.consultantProjects[consultantId] || [];
+  return projectFilter.length > 0
+    ? projects.filter(p => p.timecode && projectFilter.includes(p.timecode))
+    : projects;
+}
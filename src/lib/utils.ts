@@ -107,6 +107,14 @@ export function groupWeeksByMonth(weeks: Date[]): Map<string, Date[]> {
   return grouped;
 }
 
+/**
+ * Weekly capacity after company holidays: each weekday holiday takes a fifth
+ * of the standard hours
+ */
+export function getWeeklyCapacity(standardHours: number, holidayCount: number): number {
+  return Math.max(0, (standardHours * (5 - holidayCount)) / 5);
+}
+
 /**
  * Calculate utilization status based on hours vs standard
  */
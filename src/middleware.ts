@@ -2,7 +2,7 @@ import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
 
 // Routes accessible without authentication
-const publicRoutes = ["/login", "/api/auth", "/force-reset"];
+const publicRoutes = ["/login", "/api/auth", "/api/calendar", "/force-reset"];
 
 export function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;